@@ -4,13 +4,30 @@ import {
   CacheRule,
   AuthConfig,
   ApiKey,
+  CustomRole,
+  RoutingConfig,
+  RecordingConfig,
+  RecordingMode,
+  RateLimitConfig,
+  RateLimitRule,
+  OidcConfig,
+  AuditConfig,
+  ProxyPluginsConfig,
+  StreamingConfig,
+  MigrationsConfig,
+  StorageCodecConfig,
+  CacheTiersConfig,
+  EvictionPolicyName,
+  Role,
 } from "@/types/index.js";
 import {
   DatabaseConfig,
   DatabaseDialect,
   DatabaseFactory,
   StorageConfig,
+  StorageType,
 } from "@/database/index.js";
+import { DEFAULT_CACHE_TAG_HEADERS } from "@/utils/http-cache.js";
 
 // Helper function to parse command line arguments (gets the LAST occurrence to allow overriding)
 const getArgValue = (argName: string): string | undefined => {
@@ -31,6 +48,253 @@ const getBooleanFlag = (argName: string): boolean => {
   return process.argv.includes(`--${argName}`);
 };
 
+// Helper function to create record-and-replay configuration
+// --record <cassette> and --replay <cassette> are shorthands for --recording-mode with --cassette
+const createRecordingConfig = (): RecordingConfig => {
+  const recordCassette = getArgValue("record");
+  const replayCassette = getArgValue("replay");
+
+  let mode = (getArgValue("recording-mode") ||
+    (replayCassette ? "replay" : recordCassette ? "record" : undefined) ||
+    process.env.RECORDING_MODE ||
+    "off") as RecordingMode;
+
+  if (!["off", "record", "replay"].includes(mode)) {
+    console.warn(`Invalid recording mode '${mode}', recording disabled`);
+    mode = "off";
+  }
+
+  const matching = getArgValue("replay-match") || process.env.REPLAY_MATCH || "strict";
+  const missStatus =
+    Number(getArgValue("replay-miss-status") || process.env.REPLAY_MISS_STATUS) || 404;
+
+  return {
+    mode,
+    cassette:
+      replayCassette ||
+      recordCassette ||
+      getArgValue("cassette") ||
+      process.env.CASSETTE ||
+      "default",
+    cassetteDir: getArgValue("cassette-dir") || process.env.CASSETTE_DIR || "./cassettes",
+    matching: matching === "lenient" ? "lenient" : "strict",
+    missStatus: missStatus >= 400 && missStatus <= 599 ? missStatus : 404,
+  };
+};
+
+// Helper function to create rate limit configuration
+// The "default" rule limits every client IP; --rate-limit-rules adds rules or replaces it by id
+const createRateLimitConfig = (): RateLimitConfig => {
+  const defaultRule: RateLimitRule = {
+    id: "default",
+    scope: "ip",
+    algorithm: "sliding-window",
+    limit: Number(getArgValue("rate-limit-max") || process.env.RATE_LIMIT_MAX) || 100,
+    windowMs: Number(getArgValue("rate-limit-window") || process.env.RATE_LIMIT_WINDOW) || 60000,
+  };
+
+  let rules: RateLimitRule[] = [];
+  const rulesJson = getArgValue("rate-limit-rules") || process.env.RATE_LIMIT_RULES;
+  if (rulesJson) {
+    try {
+      const parsed = JSON.parse(rulesJson);
+      rules = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn("Invalid rate limit rules JSON, using defaults:", error);
+    }
+  }
+
+  const store = getArgValue("rate-limit-store") || process.env.RATE_LIMIT_STORE || "memory";
+
+  return {
+    enabled: !getBooleanFlag("disable-rate-limit") && process.env.RATE_LIMIT_ENABLED !== "false",
+    store: store === "redis" ? "redis" : "memory",
+    rules: rules.some((rule) => rule.id === defaultRule.id) ? rules : [defaultRule, ...rules],
+  };
+};
+
+// Helper function to create audit log configuration
+// Entries go through the storage plugins, so AUDIT_STORAGE_TYPE can name an external plugin
+const createAuditConfig = (): AuditConfig => {
+  const type = getArgValue("audit-storage-type") || process.env.AUDIT_STORAGE_TYPE || "local_file";
+
+  return {
+    enabled: !getBooleanFlag("disable-audit") && process.env.AUDIT_ENABLED !== "false",
+    storage: {
+      type: type as StorageType,
+      directory:
+        getArgValue("audit-storage-dir") || process.env.AUDIT_STORAGE_DIR || "./logs/audit",
+      path: process.env.AUDIT_STORAGE_PATH,
+      host: process.env.AUDIT_STORAGE_HOST,
+      port: Number(process.env.AUDIT_STORAGE_PORT) || undefined,
+      database: process.env.AUDIT_STORAGE_DATABASE,
+      user: process.env.AUDIT_STORAGE_USER,
+      password: process.env.AUDIT_STORAGE_PASSWORD,
+    },
+    retentionDays:
+      Number(getArgValue("audit-retention-days") || process.env.AUDIT_RETENTION_DAYS) || 90,
+  };
+};
+
+// Helper function to create proxy plugin configuration
+// PROXY_PLUGINS lists npm packages, e.g. "@acme/proxy-plugin-tenant,proxy-plugin-metrics"
+const createProxyPluginsConfig = (): ProxyPluginsConfig => {
+  const packages = getArgValue("proxy-plugins") || process.env.PROXY_PLUGINS || "";
+
+  return {
+    enabled:
+      !getBooleanFlag("disable-proxy-plugins") && process.env.PROXY_PLUGINS_ENABLED !== "false",
+    directory:
+      getArgValue("proxy-plugin-dir") || process.env.PROXY_PLUGIN_DIR || "./plugins/proxy",
+    packages: packages
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+  };
+};
+
+// Helper function to create streaming configuration
+const createStreamingConfig = (): StreamingConfig => ({
+  enabled: !getBooleanFlag("disable-streaming") && process.env.STREAMING_ENABLED !== "false",
+  maxBufferSize:
+    Number(getArgValue("max-buffer-size") || process.env.MAX_BUFFER_SIZE) || 10 * 1024 * 1024,
+  websocket:
+    !getBooleanFlag("disable-websocket-proxy") && process.env.WEBSOCKET_PROXY_ENABLED !== "false",
+});
+
+// Helper function to create schema migration configuration
+const createMigrationsConfig = (): MigrationsConfig => ({
+  autoMigrate: !getBooleanFlag("disable-auto-migrate") && process.env.DB_AUTO_MIGRATE !== "false",
+});
+
+// Helper function to create compression and encryption settings of stored payloads
+// Encryption keys are given as comma separated <id>:<key> pairs
+const createStorageCodecConfig = (): StorageCodecConfig => {
+  const keys = (getArgValue("storage-encryption-keys") || process.env.STORAGE_ENCRYPTION_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator < 1) {
+        console.warn("Invalid storage encryption key, expected <id>:<key>, ignoring it");
+        return [];
+      }
+      return [{ id: entry.slice(0, separator), key: entry.slice(separator + 1) }];
+    });
+
+  return {
+    compression: {
+      algorithm:
+        (getArgValue("storage-compression-algorithm") ||
+          process.env.STORAGE_COMPRESSION_ALGORITHM) === "brotli"
+          ? "brotli"
+          : "gzip",
+      threshold:
+        Number(
+          getArgValue("storage-compression-threshold") ||
+            process.env.STORAGE_COMPRESSION_THRESHOLD
+        ) || 1024,
+    },
+    encryption: {
+      keys,
+      activeKeyId:
+        getArgValue("storage-encryption-key-id") || process.env.STORAGE_ENCRYPTION_KEY_ID,
+    },
+  };
+};
+
+// Helper function to read the compression and encryption flags of a store
+const createStorageEncodingFlags = (
+  cliPrefix: string,
+  envPrefix: string
+): Pick<StorageConfig, "compression" | "encryption"> => ({
+  compression:
+    getBooleanFlag(`${cliPrefix}-compression`) ||
+    process.env[`${envPrefix}_COMPRESSION`] === "true",
+  encryption:
+    getBooleanFlag(`${cliPrefix}-encryption`) || process.env[`${envPrefix}_ENCRYPTION`] === "true",
+});
+
+// Helper function to create the byte budgets and tier movement of the cache
+const createCacheTiersConfig = (): CacheTiersConfig => ({
+  memory: {
+    maxBytes:
+      Number(getArgValue("cache-memory-max-bytes") || process.env.CACHE_MEMORY_MAX_BYTES) || 0,
+  },
+  redis: {
+    maxBytes:
+      Number(getArgValue("cache-redis-max-bytes") || process.env.CACHE_REDIS_MAX_BYTES) || 0,
+  },
+  file: {
+    maxBytes:
+      Number(getArgValue("cache-file-max-bytes") || process.env.CACHE_FILE_MAX_BYTES) || 0,
+  },
+  writeThrough:
+    !getBooleanFlag("disable-cache-write-through") &&
+    process.env.CACHE_WRITE_THROUGH !== "false",
+  promoteAfter:
+    Number(getArgValue("cache-promote-after") || process.env.CACHE_PROMOTE_AFTER) || 1,
+});
+
+// Helper function to read the eviction policy of the memory tier
+const parseEvictionPolicy = (value?: string): EvictionPolicyName => {
+  const policies: EvictionPolicyName[] = ["lru", "fifo", "lfu", "w-tinylfu"];
+  if (!value) return "lru";
+  if (policies.includes(value.toLowerCase() as EvictionPolicyName)) {
+    return value.toLowerCase() as EvictionPolicyName;
+  }
+  console.warn(`Unknown cache eviction policy '${value}', using lru`);
+  return "lru";
+};
+
+// Helper function to create OIDC configuration, undefined unless an issuer is set
+const createOidcConfig = (): OidcConfig | undefined => {
+  const issuer = getArgValue("oidc-issuer") || process.env.OIDC_ISSUER;
+  const clientId = getArgValue("oidc-client-id") || process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return undefined;
+
+  // Never derived from the Host header, the login token is handed to this origin
+  const redirectUri = getArgValue("oidc-redirect-uri") || process.env.OIDC_REDIRECT_URI;
+  if (!redirectUri || !URL.canParse(redirectUri)) {
+    console.warn("OIDC requires an absolute OIDC_REDIRECT_URI, OIDC disabled");
+    return undefined;
+  }
+
+  let roleMapping: Record<string, string> = {};
+  const mappingJson = getArgValue("oidc-role-mapping") || process.env.OIDC_ROLE_MAPPING;
+  if (mappingJson) {
+    try {
+      const parsed = JSON.parse(mappingJson);
+      roleMapping = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      console.warn("Invalid OIDC role mapping JSON, ignoring:", error);
+    }
+  }
+
+  const defaultRole = getArgValue("oidc-default-role") || process.env.OIDC_DEFAULT_ROLE;
+  const list = (value: string | undefined, fallback: string[]) =>
+    value ? value.split(",").map((item) => item.trim()).filter(Boolean) : fallback;
+
+  return {
+    enabled: process.env.OIDC_ENABLED !== "false",
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId,
+    clientSecret: getArgValue("oidc-client-secret") || process.env.OIDC_CLIENT_SECRET,
+    redirectUri,
+    audience: getArgValue("oidc-audience") || process.env.OIDC_AUDIENCE,
+    scopes: list(process.env.OIDC_SCOPES, ["openid", "profile", "email"]),
+    algorithms: list(process.env.OIDC_ALGORITHMS, ["RS256", "ES256"]),
+    roleClaim: getArgValue("oidc-role-claim") || process.env.OIDC_ROLE_CLAIM || "roles",
+    roleMapping,
+    defaultRole: (Object.values(Role) as string[]).includes(defaultRole ?? "")
+      ? (defaultRole as Role)
+      : undefined,
+    permissionsClaim: process.env.OIDC_PERMISSIONS_CLAIM,
+    jwksCacheTtl: Number(process.env.OIDC_JWKS_CACHE_TTL) || 3600,
+  };
+};
+
 // Helper function to create database configuration
 const createDatabaseConfig = (): DatabaseConfig => {
   let dbType = (getArgValue("db-type") ||
@@ -104,6 +368,22 @@ const parseCacheRules = (rulesJson?: string): CacheRule[] => {
   }
 };
 
+// Helper function to parse the routing table from JSON string
+const parseRoutingConfig = (routingJson?: string): RoutingConfig => {
+  if (!routingJson) return { upstreams: [], routes: [] };
+
+  try {
+    const routing = JSON.parse(routingJson);
+    return {
+      upstreams: Array.isArray(routing.upstreams) ? routing.upstreams : [],
+      routes: Array.isArray(routing.routes) ? routing.routes : [],
+    };
+  } catch (error) {
+    console.warn("Invalid routing config JSON, using defaults:", error);
+    return { upstreams: [], routes: [] };
+  }
+};
+
 // Helper function to create default cache configuration
 const createDefaultCacheConfig = (
   defaultTTL: number,
@@ -178,22 +458,49 @@ const parseApiKeys = (apiKeysJson?: string): ApiKey[] => {
   }
 };
 
+// Helper function to parse custom roles from JSON string
+const parseCustomRoles = (rolesJson?: string): CustomRole[] => {
+  if (!rolesJson) return [];
+
+  try {
+    const roles = JSON.parse(rolesJson);
+    if (!Array.isArray(roles)) return [];
+
+    const createdAt = new Date().toISOString();
+    return roles
+      .filter((role) => typeof role?.name === "string" && Array.isArray(role.permissions))
+      .map((role) => ({ createdAt, ...role }));
+  } catch (error) {
+    console.warn("Invalid auth roles JSON, ignoring:", error);
+    return [];
+  }
+};
+
 // Helper function to create default auth configuration
 const createDefaultAuthConfig = (): AuthConfig => {
   return {
     enabled: false, // Disabled by default
     apiKeys: [], // No default API keys
     users: [], // No default users
+    roles: [], // No custom roles
     enableUserAuth: false, // User auth disabled by default
     sessionTTL: 86400, // 24 hours (legacy, not used with JWT)
     hashSalt: process.env.AUTH_SALT || "default-salt-change-in-production",
     maxLoginAttempts: 5,
     lockoutDuration: 900, // 15 minutes
+    keyRotationOverlap: Number(process.env.AUTH_KEY_ROTATION_OVERLAP ?? 86400), // 24 hours
+    keyExpiryWarningDays: Number(process.env.AUTH_KEY_EXPIRY_WARNING_DAYS) || 7,
     protectedPaths: [
       "/api/cache*",
       "/api/metrics*",
       "/api/requests*",
       "/api/snapshots*",
+      "/api/audit*",
+      "/api/routes*",
+      "/api/mocks*",
+      "/api/cassettes*",
+      "/api/recovery*",
+      "/api/cluster*",
     ], // Default protected paths
   };
 };
@@ -319,6 +626,8 @@ const cliCacheMaxSize = getArgValue("cache-max-size");
 const cliCacheCleanupInterval = getArgValue("cache-cleanup-interval");
 const cliCacheKeyHeaders = getArgValue("cache-key-headers");
 const cliEnableCacheWarmup = getBooleanFlag("enable-cache-warmup");
+const cliCacheHttpSemantics = getBooleanFlag("cache-http-semantics");
+const cliCacheStaleWhileRevalidate = getArgValue("cache-stale-while-revalidate");
 
 // Redis configuration
 const cliRedisEnabled = getBooleanFlag("enable-redis");
@@ -334,6 +643,7 @@ const cliUserAuthEnabled = getBooleanFlag("enable-user-auth");
 const cliApiKeys = getArgValue("api-keys");
 const cliJwtSecret = getArgValue("jwt-secret");
 const cliAuthProtectedPaths = getArgValue("auth-protected-paths");
+const cliAuthRoles = getArgValue("auth-roles");
 
 // Cluster configuration
 const cliClusterEnabled = getBooleanFlag("enable-cluster");
@@ -344,8 +654,30 @@ const cliNodeId = getArgValue("node-id");
 const cliClusterHeartbeat = getArgValue("cluster-heartbeat");
 const cliClusterTimeout = getArgValue("cluster-timeout");
 
+// Parse routing arguments
+const cliRoutingConfig = getArgValue("routing-config");
+
 // Database configuration
 const databaseConfig = createDatabaseConfig();
+const migrationsConfig = createMigrationsConfig();
+
+// Stored payload compression and encryption configuration
+const storageCodecConfig = createStorageCodecConfig();
+
+// Record-and-replay configuration
+const recordingConfig = createRecordingConfig();
+
+// Rate limit configuration
+const rateLimitConfig = createRateLimitConfig();
+
+// Audit log configuration
+const auditConfig = createAuditConfig();
+
+// Proxy lifecycle plugin configuration
+const proxyPluginsConfig = createProxyPluginsConfig();
+
+// Response streaming configuration
+const streamingConfig = createStreamingConfig();
 
 const defaultTTL = Number(cliCacheTTL || process.env.CACHE_TTL) || 300;
 const cacheableMethods = (
@@ -369,6 +701,12 @@ const additionalKeyHeaders = (
   .map((header) => header.trim().toLowerCase())
   .filter(Boolean);
 
+// Parse response headers carrying cache tags
+const cacheTagHeaders = (getArgValue("cache-tag-headers") || process.env.CACHE_TAG_HEADERS)
+  ?.split(",")
+  .map((header) => header.trim().toLowerCase())
+  .filter(Boolean);
+
 // Parse API keys
 const apiKeys = parseApiKeys(cliApiKeys || process.env.API_KEYS);
 
@@ -393,6 +731,9 @@ export const config: ServerConfig = {
   cache: {
     ...createDefaultCacheConfig(defaultTTL, cacheableMethods, customRules),
     maxSize: Number(cliCacheMaxSize || process.env.CACHE_MAX_SIZE) || 10000,
+    httpSemantics:
+      cliCacheHttpSemantics || process.env.CACHE_HTTP_SEMANTICS === "true",
+    tagHeaders: cacheTagHeaders?.length ? cacheTagHeaders : DEFAULT_CACHE_TAG_HEADERS,
     keyOptions: {
       ...createDefaultCacheConfig(defaultTTL, cacheableMethods).keyOptions,
       includeHeaders: [
@@ -400,6 +741,7 @@ export const config: ServerConfig = {
           .includeHeaders!,
         ...additionalKeyHeaders,
       ],
+      jwtSecret: getArgValue("cache-key-jwt-secret") || process.env.CACHE_KEY_JWT_SECRET,
     },
     behavior: {
       ...createDefaultCacheConfig(defaultTTL, cacheableMethods).behavior,
@@ -408,7 +750,17 @@ export const config: ServerConfig = {
       cleanupInterval:
         Number(cliCacheCleanupInterval || process.env.CACHE_CLEANUP_INTERVAL) ||
         600,
+      staleWhileRevalidate:
+        Number(
+          cliCacheStaleWhileRevalidate ||
+            process.env.CACHE_STALE_WHILE_REVALIDATE
+        ) || 0,
+      evictionPolicy: parseEvictionPolicy(
+        getArgValue("cache-eviction-policy") || process.env.CACHE_EVICTION_POLICY
+      ),
     },
+    // Byte budgets and promotion/demotion between the cache tiers
+    tiers: createCacheTiersConfig(),
     // Redis configuration
     redis: {
       enabled: cliRedisEnabled || process.env.ENABLE_REDIS === "true",
@@ -419,6 +771,8 @@ export const config: ServerConfig = {
       prefix:
         cliRedisKeyPrefix || process.env.REDIS_KEY_PREFIX || "proxy:cache:",
     },
+    // Compression and encryption of cache entries
+    ...createStorageEncodingFlags("cache", "CACHE"),
   },
   // File cache configuration
   enableFileCache:
@@ -431,12 +785,18 @@ export const config: ServerConfig = {
     cliRequestLogDbPath ||
     process.env.REQUEST_LOG_DB_PATH ||
     "./logs/requests.db",
-  requestLogStorage: createRequestLogStorageConfig(),
+  requestLogStorage: {
+    ...createRequestLogStorageConfig(),
+    ...createStorageEncodingFlags("request-log-storage", "REQUEST_LOG_STORAGE"),
+  },
   // Snapshot management configuration (legacy)
   snapshotDbPath:
     cliSnapshotDbPath || process.env.SNAPSHOT_DB_PATH || "./logs/snapshots.db",
+  snapshotStorage: createStorageEncodingFlags("snapshot", "SNAPSHOT"),
   // Multi-database configuration
   database: databaseConfig,
+  // Schema migrations configuration
+  migrations: migrationsConfig,
   // Auth configuration
   auth: (() => {
     const authEnabled = cliAuthEnabled || process.env.ENABLE_AUTH === "true";
@@ -463,6 +823,8 @@ export const config: ServerConfig = {
       enabled: authEnabled,
       enableUserAuth: userAuthEnabled, // Enable user auth separately
       apiKeys: apiKeys.length > 0 ? apiKeys : createDefaultAuthConfig().apiKeys,
+      roles: parseCustomRoles(cliAuthRoles || process.env.AUTH_ROLES),
+      oidc: createOidcConfig(),
       protectedPaths:
         protectedPaths.length > 0
           ? protectedPaths
@@ -494,4 +856,18 @@ export const config: ServerConfig = {
     tags: [],
     storage: { type: "memory" as const },
   },
+  // Multi-upstream routing configuration
+  routing: parseRoutingConfig(cliRoutingConfig || process.env.ROUTING_CONFIG),
+  // Record-and-replay configuration
+  recording: recordingConfig,
+  // Rate limit configuration
+  rateLimit: rateLimitConfig,
+  // Audit log configuration
+  audit: auditConfig,
+  // Proxy lifecycle plugin configuration
+  plugins: proxyPluginsConfig,
+  // Response streaming configuration
+  streaming: streamingConfig,
+  // Stored payload compression and encryption configuration
+  storageCodec: storageCodecConfig,
 };
@@ -125,6 +125,15 @@ export class MySQLAdapter implements DatabaseAdapter {
     return result.length > 0;
   }
 
+  async columnExists(tableName: string, columnName: string): Promise<boolean> {
+    const result = await this.query(
+      `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+       WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+      [this.config.database, tableName, columnName]
+    );
+    return result.length > 0;
+  }
+
   getDialect(): DatabaseDialect {
     return DatabaseDialect.MYSQL;
   }
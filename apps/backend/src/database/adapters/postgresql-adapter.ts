@@ -126,6 +126,15 @@ export class PostgreSQLAdapter implements DatabaseAdapter {
     return result.length > 0;
   }
 
+  async columnExists(tableName: string, columnName: string): Promise<boolean> {
+    const result = await this.query(
+      `SELECT column_name FROM information_schema.columns
+       WHERE table_schema = 'public' AND table_name = $1 AND column_name = $2`,
+      [tableName, columnName]
+    );
+    return result.length > 0;
+  }
+
   getDialect(): DatabaseDialect {
     return DatabaseDialect.POSTGRESQL;
   }
@@ -115,6 +115,13 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return result.length > 0;
   }
 
+  async columnExists(tableName: string, columnName: string): Promise<boolean> {
+    const columns = await this.query<{ name: string }>(
+      `PRAGMA table_info(${this.sqlGenerator.escapeIdentifier(tableName)})`
+    );
+    return columns.some((column) => column.name === columnName);
+  }
+
   getDialect(): DatabaseDialect {
     return DatabaseDialect.SQLITE;
   }
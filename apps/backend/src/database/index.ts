@@ -6,3 +6,9 @@ export * from "./adapters/sqlite-adapter.js";
 export * from "./adapters/mysql-adapter.js";
 export * from "./adapters/postgresql-adapter.js";
 export * from "./repositories/snapshot-repository.js";
+export * from "./repositories/routing-repository.js";
+export * from "./repositories/cache-policy-repository.js";
+export * from "./repositories/mock-repository.js";
+export * from "./repositories/auth-repository.js";
+export * from "./migrator.js";
+export * from "./migrations/index.js";
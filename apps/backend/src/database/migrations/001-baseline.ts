@@ -0,0 +1,201 @@
+import type { Migration } from "../migrator.js";
+import type { TableSchema } from "../types.js";
+
+// Frozen copy of the tables as version 1 created them. The live definitions in ../schemas.ts
+// move on with later migrations, this copy must never change or its checksum no longer matches
+// the one recorded in databases that already applied it.
+
+const SNAPSHOTS: TableSchema = {
+  columns: [
+    { name: "id", type: "SERIAL", primaryKey: true },
+    { name: "cache_key", type: "VARCHAR(255)", unique: true, notNull: true },
+    { name: "url", type: "TEXT", notNull: true },
+    { name: "method", type: "VARCHAR(10)", notNull: true },
+    { name: "status_code", type: "INTEGER", notNull: true },
+    {
+      name: "created_at",
+      type: "TIMESTAMP",
+      defaultValue: "CURRENT_TIMESTAMP",
+    },
+    { name: "expires_at", type: "TIMESTAMP", notNull: true },
+    { name: "manual_snapshot", type: "BOOLEAN", defaultValue: false },
+    { name: "backend_host", type: "VARCHAR(255)", notNull: true },
+    { name: "payload_hash", type: "VARCHAR(64)" },
+    { name: "headers_hash", type: "VARCHAR(64)" },
+    { name: "request_body", type: "TEXT" },
+    { name: "response_size", type: "INTEGER" },
+    { name: "content_type", type: "VARCHAR(255)" },
+    { name: "tags", type: "JSON" }, // Will be mapped to TEXT for SQLite
+    { name: "description", type: "TEXT" },
+    { name: "last_accessed_at", type: "TIMESTAMP" },
+    { name: "access_count", type: "INTEGER", defaultValue: 0 },
+  ],
+  indexes: [
+    { name: "idx_snapshots_cache_key", columns: ["cache_key"] },
+    { name: "idx_snapshots_url", columns: ["url"] },
+    { name: "idx_snapshots_method", columns: ["method"] },
+    { name: "idx_snapshots_backend", columns: ["backend_host"] },
+    { name: "idx_snapshots_expires", columns: ["expires_at"] },
+    { name: "idx_snapshots_manual", columns: ["manual_snapshot"] },
+    { name: "idx_snapshots_created", columns: ["created_at"] },
+    { name: "idx_snapshots_accessed", columns: ["last_accessed_at"] },
+  ],
+};
+
+const CLUSTER_NODES: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "url", type: "TEXT", notNull: true },
+    { name: "cluster_id", type: "VARCHAR(255)" },
+    { name: "tags", type: "JSON" }, // Will be mapped to TEXT for SQLite
+    { name: "capabilities", type: "JSON" }, // Will be mapped to TEXT for SQLite
+    { name: "status", type: "VARCHAR(50)", notNull: true },
+    { name: "role", type: "VARCHAR(50)", notNull: true },
+    { name: "last_seen", type: "TIMESTAMP", notNull: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "metadata", type: "JSON" }, // Will be mapped to TEXT for SQLite
+    { name: "version", type: "VARCHAR(100)" },
+    { name: "region", type: "VARCHAR(100)" },
+    { name: "zone", type: "VARCHAR(100)" },
+  ],
+  indexes: [
+    { name: "idx_cluster_nodes_status", columns: ["status"] },
+    { name: "idx_cluster_nodes_cluster_id", columns: ["cluster_id"] },
+    { name: "idx_cluster_nodes_last_seen", columns: ["last_seen"] },
+    { name: "idx_cluster_nodes_role", columns: ["role"] },
+    { name: "idx_cluster_nodes_created", columns: ["created_at"] },
+  ],
+};
+
+const CACHE_SETTINGS: TableSchema = {
+  columns: [
+    { name: "setting_key", type: "VARCHAR(255)", primaryKey: true },
+    { name: "setting_value", type: "TEXT", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [],
+};
+
+const CACHE_FREEZE_PATTERNS: TableSchema = {
+  columns: [
+    { name: "pattern", type: "VARCHAR(500)", primaryKey: true },
+    { name: "pattern_type", type: "VARCHAR(10)", notNull: true }, // substring, glob or regex
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [],
+};
+
+const CACHE_TTL_RULES: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(64)", primaryKey: true },
+    { name: "pattern", type: "TEXT", notNull: true },
+    { name: "ttl_seconds", type: "INTEGER", notNull: true },
+    { name: "method", type: "VARCHAR(10)" },
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "description", type: "TEXT" },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_cache_ttl_rules_created", columns: ["created_at"] }],
+};
+
+const MOCKS: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "name", type: "VARCHAR(255)" },
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "priority", type: "INTEGER", defaultValue: 0 },
+    { name: "match_rules", type: "TEXT", notNull: true }, // JSON string of the match rules
+    { name: "response", type: "TEXT", notNull: true }, // JSON string of the mock response
+    { name: "source", type: "VARCHAR(50)", notNull: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_mocks_source", columns: ["source"] }],
+};
+
+const ROUTING_UPSTREAMS: TableSchema = {
+  columns: [
+    { name: "name", type: "VARCHAR(255)", primaryKey: true },
+    { name: "definition", type: "TEXT", notNull: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [],
+};
+
+const ROUTING_ROUTES: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "definition", type: "TEXT", notNull: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_routing_routes_created", columns: ["created_at"] }],
+};
+
+const AUTH_USERS: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "username", type: "VARCHAR(255)", notNull: true, unique: true },
+    { name: "password_hash", type: "VARCHAR(255)", notNull: true },
+    { name: "role", type: "VARCHAR(50)", notNull: true },
+    { name: "roles", type: "TEXT" }, // JSON array of custom role names
+    { name: "permissions", type: "TEXT" }, // JSON array
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "last_login", type: "TIMESTAMP" },
+  ],
+  indexes: [],
+};
+
+const AUTH_API_KEYS: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "name", type: "VARCHAR(255)", notNull: true },
+    { name: "key_hash", type: "VARCHAR(255)", notNull: true },
+    { name: "role", type: "VARCHAR(50)", notNull: true },
+    { name: "roles", type: "TEXT" }, // JSON array of custom role names
+    { name: "permissions", type: "TEXT" }, // JSON array
+    { name: "quota", type: "TEXT" }, // JSON object, null without quota
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "previous_key_hash", type: "VARCHAR(255)" }, // Still accepted during a rotation
+    { name: "previous_key_expires_at", type: "TIMESTAMP" },
+    { name: "rotated_at", type: "TIMESTAMP" },
+    { name: "expires_at", type: "TIMESTAMP" },
+    { name: "last_used", type: "TIMESTAMP" },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_auth_api_keys_key_hash", columns: ["key_hash"] }],
+};
+
+const AUTH_REVOKED_TOKENS: TableSchema = {
+  columns: [
+    { name: "token_hash", type: "VARCHAR(64)", primaryKey: true }, // SHA-256 of the token
+    { name: "expires_at", type: "TIMESTAMP", notNull: true }, // Token expiry, pruned after
+    { name: "revoked_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_auth_revoked_tokens_expires", columns: ["expires_at"] }],
+};
+
+const TABLES = [
+  ["snapshots", SNAPSHOTS],
+  ["cluster_nodes", CLUSTER_NODES],
+  ["cache_settings", CACHE_SETTINGS],
+  ["cache_freeze_patterns", CACHE_FREEZE_PATTERNS],
+  ["cache_ttl_rules", CACHE_TTL_RULES],
+  ["mocks", MOCKS],
+  ["routing_upstreams", ROUTING_UPSTREAMS],
+  ["routing_routes", ROUTING_ROUTES],
+  ["auth_users", AUTH_USERS],
+  ["auth_api_keys", AUTH_API_KEYS],
+  ["auth_revoked_tokens", AUTH_REVOKED_TOKENS],
+] as const;
+
+// Existing tables are left alone, later migrations bring them up to date
+export const baseline: Migration = {
+  version: 1,
+  name: "baseline",
+  up: TABLES.map(([table, schema]) => ({ type: "createTable", table, schema })),
+  down: [...TABLES].reverse().map(([table]) => ({ type: "dropTable", table })),
+};
@@ -0,0 +1,15 @@
+import type { Migration } from "../migrator.js";
+
+// Snapshots created before serve-stale-on-error lack the stored response
+export const snapshotResponseColumns: Migration = {
+  version: 2,
+  name: "snapshot-response-columns",
+  up: [
+    { type: "addColumn", table: "snapshots", column: { name: "response_body", type: "TEXT" } },
+    { type: "addColumn", table: "snapshots", column: { name: "response_headers", type: "TEXT" } },
+  ],
+  down: [
+    { type: "dropColumn", table: "snapshots", column: "response_headers" },
+    { type: "dropColumn", table: "snapshots", column: "response_body" },
+  ],
+};
@@ -0,0 +1,6 @@
+import type { Migration } from "../migrator.js";
+import { baseline } from "./001-baseline.js";
+import { snapshotResponseColumns } from "./002-snapshot-response-columns.js";
+
+// Add new migrations at the end with the next version number
+export const MIGRATIONS: Migration[] = [baseline, snapshotResponseColumns];
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DatabaseAdapter, DatabaseDialect } from "./types.js";
+import { Migration, Migrator, migrationChecksum } from "./migrator.js";
+import { MIGRATIONS } from "./migrations/index.js";
+
+// Keeps the tables, columns and schema_migrations rows the generated SQL would create
+function createDatabase() {
+  const tables = new Map<string, Set<string>>();
+  let records: Array<{ version: number; name: string; checksum: string; applied_at: string }> =
+    [];
+
+  const db = {
+    getDialect: () => DatabaseDialect.SQLITE,
+    beginTransaction: async () => {},
+    commit: async () => {},
+    rollback: async () => {},
+    tableExists: async (table: string) => tables.has(table),
+    columnExists: async (table: string, column: string) => !!tables.get(table)?.has(column),
+    query: async () => records,
+    execute: async (sql: string, params: any[] = []) => {
+      let match: RegExpExecArray | null;
+      if ((match = /^CREATE TABLE "(\w+)" \(([\s\S]*)\)$/.exec(sql))) {
+        const columns = [...match[2].matchAll(/^\s*"(\w+)"/gm)].map((column) => column[1]);
+        tables.set(match[1], new Set(columns));
+      } else if ((match = /^DROP TABLE IF EXISTS "(\w+)"/.exec(sql))) {
+        tables.delete(match[1]);
+      } else if ((match = /^ALTER TABLE "(\w+)" ADD COLUMN "(\w+)"/.exec(sql))) {
+        tables.get(match[1])!.add(match[2]);
+      } else if ((match = /^ALTER TABLE "(\w+)" DROP COLUMN "(\w+)"/.exec(sql))) {
+        tables.get(match[1])!.delete(match[2]);
+      } else if (sql.startsWith("INSERT INTO schema_migrations")) {
+        const [version, name, checksum, applied_at] = params;
+        records.push({ version, name, checksum, applied_at });
+      } else if (sql.startsWith("DELETE FROM schema_migrations")) {
+        records = records.filter((record) => record.version !== params[0]);
+      }
+      return { affectedRows: 1 };
+    },
+  } as unknown as DatabaseAdapter;
+
+  return { db, tables, records: () => records };
+}
+
+test("migrations apply in order and roll back", async () => {
+  const { db, tables, records } = createDatabase();
+  const migrator = new Migrator(db);
+
+  const applied = await migrator.migrate();
+  assert.deepEqual(
+    applied.map((migration) => migration.version),
+    MIGRATIONS.map((migration) => migration.version)
+  );
+  assert.ok(tables.get("snapshots")!.has("response_body"));
+  assert.ok((await migrator.status()).every((status) => status.state === "applied"));
+  assert.deepEqual(await migrator.migrate(), []);
+
+  await migrator.rollback();
+  assert.ok(!tables.get("snapshots")!.has("response_body"));
+  await migrator.rollback(0);
+  assert.deepEqual(records(), []);
+  assert.deepEqual([...tables.keys()], ["schema_migrations"]);
+});
+
+test("the baseline stays frozen and leaves later columns to their migrations", async () => {
+  const { db, tables } = createDatabase();
+  await new Migrator(db).migrate(1);
+
+  assert.ok(tables.has("routing_routes"));
+  assert.ok(!tables.get("snapshots")!.has("response_body"));
+  // Recorded by every database that applied it, must not change with the live schemas
+  assert.equal(
+    migrationChecksum(MIGRATIONS[0]),
+    "f4bc4b27f1c69c0cc90b9997a597ec8f015f205eb638f5d05ef56d2d18574fef"
+  );
+});
+
+test("changed migrations stop migrate and rollback", async () => {
+  const { db } = createDatabase();
+  const first: Migration = {
+    version: 1,
+    name: "widgets",
+    up: [{ type: "createTable", table: "widgets", schema: { columns: [], indexes: [] } }],
+    down: [{ type: "dropTable", table: "widgets" }],
+  };
+  await new Migrator(db, [first]).migrate();
+
+  const edited: Migration = { ...first, up: [...first.up, { type: "sql", statements: [] }] };
+  assert.notEqual(migrationChecksum(edited), migrationChecksum(first));
+  const migrator = new Migrator(db, [edited]);
+  assert.equal((await migrator.status())[0].state, "changed");
+  await assert.rejects(migrator.migrate(), { code: "MIGRATION_CHECKSUM_MISMATCH" });
+  await assert.rejects(migrator.rollback(), { code: "MIGRATION_CHECKSUM_MISMATCH" });
+});
+
+test("migrations without down can't be rolled back", async () => {
+  const { db } = createDatabase();
+  const migrator = new Migrator(db, [{ version: 1, name: "one-way", up: [] }]);
+  await migrator.migrate();
+
+  await assert.rejects(migrator.rollback(), { code: "MIGRATION_IRREVERSIBLE" });
+});
@@ -0,0 +1,309 @@
+import { createHash } from "crypto";
+import { DatabaseError } from "@/types/errors.js";
+import { SQLGenerator } from "./sql-generator.js";
+import { SCHEMA_MIGRATIONS_SCHEMA } from "./schemas.js";
+import { MIGRATIONS } from "./migrations/index.js";
+import {
+  ColumnDefinition,
+  DatabaseAdapter,
+  DatabaseConfig,
+  DatabaseDialect,
+  IndexDefinition,
+  TableSchema,
+} from "./types.js";
+
+const MIGRATIONS_TABLE = "schema_migrations";
+
+/**
+ * Schema changes are declared rather than written as SQL, so one migration runs on every
+ * dialect. Table and column operations are skipped when the database already matches, which
+ * lets databases created before migrations existed adopt them.
+ */
+export type MigrationOperation =
+  | { type: "createTable"; table: string; schema: TableSchema }
+  | { type: "dropTable"; table: string }
+  | { type: "addColumn"; table: string; column: ColumnDefinition }
+  | { type: "dropColumn"; table: string; column: string }
+  | { type: "createIndex"; table: string; index: IndexDefinition }
+  | { type: "dropIndex"; table: string; index: string }
+  // Raw statements for all dialects, or per dialect (dialects without statements skip it)
+  | { type: "sql"; statements: string[] | Partial<Record<DatabaseDialect, string[]>> };
+
+export interface Migration {
+  version: number; // Applied in ascending order, never reuse or renumber a version
+  name: string;
+  up: MigrationOperation[];
+  down?: MigrationOperation[]; // Without it the migration can't be rolled back
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // "changed": edited after it was applied, "unknown": applied but missing from this build
+  state: "applied" | "pending" | "changed" | "unknown";
+  checksum: string;
+  appliedAt?: string;
+}
+
+export type MigrationLogger = Pick<Console, "info" | "warn">;
+
+interface MigrationRecord {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+/**
+ * SHA-256 of the migration definition, recorded when it is applied
+ */
+export function migrationChecksum(migration: Migration): string {
+  const { version, name, up, down } = migration;
+  return createHash("sha256")
+    .update(JSON.stringify({ version, name, up, down: down ?? null }))
+    .digest("hex");
+}
+
+/**
+ * Versioned schema migrations for the SQL storage layer. Applied versions are recorded in
+ * schema_migrations and each migration runs in a transaction (MySQL commits DDL implicitly,
+ * so a failing MySQL migration may be partially applied).
+ */
+export class Migrator {
+  private sqlGenerator: SQLGenerator;
+
+  constructor(
+    private db: DatabaseAdapter,
+    private migrations: Migration[] = MIGRATIONS
+  ) {
+    this.sqlGenerator = new SQLGenerator(db.getDialect());
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTable();
+    const records = await this.db.query<MigrationRecord>(
+      `SELECT version, name, checksum, applied_at FROM ${MIGRATIONS_TABLE}`
+    );
+    const applied = new Map(records.map((record) => [Number(record.version), record]));
+
+    const statuses: MigrationStatus[] = this.migrations.map((migration) => {
+      const record = applied.get(migration.version);
+      const checksum = migrationChecksum(migration);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !record ? "pending" : record.checksum === checksum ? "applied" : "changed",
+        checksum,
+        appliedAt: record ? new Date(record.applied_at).toISOString() : undefined,
+      };
+    });
+
+    for (const [version, record] of applied) {
+      if (this.migrations.some((migration) => migration.version === version)) continue;
+      statuses.push({
+        version,
+        name: record.name,
+        state: "unknown",
+        checksum: record.checksum,
+        appliedAt: new Date(record.applied_at).toISOString(),
+      });
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations up to `target` (all by default), returns the applied ones
+   */
+  async migrate(target?: number): Promise<Migration[]> {
+    const statuses = await this.verify();
+    const pending = this.migrations.filter(
+      (migration) =>
+        (target === undefined || migration.version <= target) &&
+        statuses.find((status) => status.version === migration.version)?.state === "pending"
+    );
+
+    for (const migration of pending) {
+      await this.apply(migration, "up");
+    }
+    return pending;
+  }
+
+  /**
+   * Revert applied migrations newer than `target`, or only the latest one without a target
+   */
+  async rollback(target?: number): Promise<Migration[]> {
+    const statuses = await this.verify();
+    const applied = this.migrations
+      .filter(
+        (migration) =>
+          statuses.find((status) => status.version === migration.version)?.state === "applied"
+      )
+      .reverse();
+    const reverted =
+      target === undefined
+        ? applied.slice(0, 1)
+        : applied.filter((migration) => migration.version > target);
+
+    const irreversible = reverted.find((migration) => !migration.down);
+    if (irreversible) {
+      throw new DatabaseError(
+        `Migration ${irreversible.version} (${irreversible.name}) can't be rolled back`,
+        "MIGRATION_IRREVERSIBLE",
+        500,
+        { version: irreversible.version }
+      );
+    }
+
+    for (const migration of reverted) {
+      await this.apply(migration, "down");
+    }
+    return reverted;
+  }
+
+  // Applied migrations must not change, a changed checksum stops migrate and rollback
+  private async verify(): Promise<MigrationStatus[]> {
+    const statuses = await this.status();
+    const changed = statuses.filter((status) => status.state === "changed");
+    if (changed.length > 0) {
+      throw new DatabaseError(
+        `Applied migrations were modified: ${changed.map((status) => status.version).join(", ")}`,
+        "MIGRATION_CHECKSUM_MISMATCH",
+        500,
+        { versions: changed.map((status) => status.version) }
+      );
+    }
+    return statuses;
+  }
+
+  private async apply(migration: Migration, direction: "up" | "down"): Promise<void> {
+    const operations = direction === "up" ? migration.up : (migration.down ?? []);
+    const startTime = Date.now();
+
+    await this.db.beginTransaction();
+    try {
+      for (const operation of operations) {
+        await this.runOperation(operation);
+      }
+
+      if (direction === "up") {
+        await this.db.execute(
+          `INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum, applied_at, execution_ms)
+           VALUES (${this.sqlGenerator.generatePlaceholders(5)})`,
+          [
+            migration.version,
+            migration.name,
+            migrationChecksum(migration),
+            new Date().toISOString(),
+            Date.now() - startTime,
+          ]
+        );
+      } else {
+        const placeholder = this.sqlGenerator.formatPlaceholder(1);
+        await this.db.execute(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = ${placeholder}`, [
+          migration.version,
+        ]);
+      }
+      await this.db.commit();
+    } catch (error) {
+      await this.db.rollback().catch(() => undefined);
+      throw new DatabaseError(
+        `Migration ${migration.version} (${migration.name}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        "MIGRATION_FAILED",
+        500,
+        { version: migration.version, direction }
+      );
+    }
+  }
+
+  private async runOperation(operation: MigrationOperation): Promise<void> {
+    switch (operation.type) {
+      case "createTable":
+        if (await this.db.tableExists(operation.table)) return;
+        await this.db.execute(
+          this.sqlGenerator.generateCreateTable(operation.table, operation.schema)
+        );
+        for (const index of operation.schema.indexes) {
+          await this.db.execute(this.sqlGenerator.generateCreateIndex(operation.table, index));
+        }
+        return;
+      case "dropTable":
+        await this.db.execute(this.sqlGenerator.generateDropTable(operation.table));
+        return;
+      case "addColumn":
+        if (await this.db.columnExists(operation.table, operation.column.name)) return;
+        await this.db.execute(
+          this.sqlGenerator.generateAddColumn(operation.table, operation.column)
+        );
+        return;
+      case "dropColumn":
+        if (!(await this.db.columnExists(operation.table, operation.column))) return;
+        await this.db.execute(
+          this.sqlGenerator.generateDropColumn(operation.table, operation.column)
+        );
+        return;
+      case "createIndex":
+        await this.db.execute(
+          this.sqlGenerator.generateCreateIndex(operation.table, operation.index)
+        );
+        return;
+      case "dropIndex":
+        await this.db.execute(
+          this.sqlGenerator.generateDropIndex(operation.table, operation.index)
+        );
+        return;
+      case "sql": {
+        const statements = Array.isArray(operation.statements)
+          ? operation.statements
+          : (operation.statements[this.db.getDialect()] ?? []);
+        for (const statement of statements) {
+          await this.db.execute(statement);
+        }
+        return;
+      }
+    }
+  }
+
+  private async ensureTable(): Promise<void> {
+    if (await this.db.tableExists(MIGRATIONS_TABLE)) return;
+    await this.db.execute(
+      this.sqlGenerator.generateCreateTable(MIGRATIONS_TABLE, SCHEMA_MIGRATIONS_SCHEMA)
+    );
+  }
+}
+
+/**
+ * Apply pending migrations on a database, used at startup and by `npm run migrate`
+ */
+export async function migrateDatabase(
+  config: DatabaseConfig,
+  log: MigrationLogger = console
+): Promise<Migration[]> {
+  // Loaded here so importing the migrator doesn't load every database driver
+  const { DatabaseFactory } = await import("./factory.js");
+  const db = await DatabaseFactory.create(config);
+  try {
+    await db.initialize();
+    const migrator = new Migrator(db);
+
+    const unknown = (await migrator.status()).filter((status) => status.state === "unknown");
+    if (unknown.length > 0) {
+      log.warn(
+        `Database has migrations this version doesn't know: ${unknown
+          .map((status) => status.version)
+          .join(", ")}`
+      );
+    }
+
+    const applied = await migrator.migrate();
+    for (const migration of applied) {
+      log.info(`Applied migration ${migration.version}: ${migration.name}`);
+    }
+    return applied;
+  } finally {
+    await db.close();
+  }
+}
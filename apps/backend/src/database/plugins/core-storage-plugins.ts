@@ -3,7 +3,7 @@ import {
   StoragePlugin,
 } from "@/database/storage-plugin-registry.js";
 import { StorageType, StorageAdapter, StorageConfig } from "@/database/types.js";
-import { DatabaseFactory } from "@/database/factory.js";
+import { PayloadCodec } from "@/utils/payload-codec.js";
 
 // SQL Storage Adapter Wrapper
 class SQLStorageAdapterWrapper<T> implements StorageAdapter<T> {
@@ -90,10 +90,13 @@ class SQLStorageAdapterWrapper<T> implements StorageAdapter<T> {
 
 // Local File Storage Adapter
 class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
+  private codec: PayloadCodec;
+
   constructor(private config: StorageConfig) {
     if (!config.directory) {
       throw new Error("Directory is required for local file storage");
     }
+    this.codec = config.codec ?? new PayloadCodec();
   }
 
   async initialize(): Promise<void> {
@@ -117,9 +120,19 @@ class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
       this.config.directory!,
       `${this.sanitizeKey(key)}.json`
     );
+    // Only the data is encoded, the rest of the document stays searchable
+    const compression = options?.compression ?? this.config.compression;
+    const encryption = options?.encryption ?? this.config.encryption;
+    const serialized = JSON.stringify(data);
+    const encoded = !!(compression || encryption);
+
     const document = {
       key,
-      data,
+      data: encoded
+        ? this.codec.encode(serialized, "local_file", { compression, encryption })
+        : data,
+      encoded,
+      rawSize: Buffer.byteLength(serialized),
       createdAt: new Date().toISOString(),
       expiresAt: options?.ttl
         ? new Date(Date.now() + options.ttl * 1000).toISOString()
@@ -149,7 +162,7 @@ class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
         return null;
       }
 
-      return document.data;
+      return this.readData(document);
     } catch (error: any) {
       if (error.code === "ENOENT") {
         return null;
@@ -229,7 +242,7 @@ class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
         const document = JSON.parse(content);
 
         if (this.matchesFilter(document, filter)) {
-          results.push(document.data);
+          results.push(this.readData(document));
         }
       } catch (error) {
         continue; // Skip corrupted files
@@ -290,6 +303,9 @@ class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
     let totalSize = 0;
     let activeItems = 0;
     let expiredItems = 0;
+    let rawSize = 0;
+    let compressedItems = 0;
+    let encryptedItems = 0;
 
     for (const file of files) {
       if (!file.endsWith(".json")) continue;
@@ -302,6 +318,10 @@ class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
 
         totalItems++;
         totalSize += stats.size;
+        rawSize += document.rawSize ?? stats.size;
+        const encoding = document.encoded ? this.codec.describe(document.data) : null;
+        if (encoding && encoding.compression !== "none") compressedItems++;
+        if (encoding?.keyId) encryptedItems++;
 
         if (document.expiresAt && new Date() > new Date(document.expiresAt)) {
           expiredItems++;
@@ -320,6 +340,11 @@ class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
       totalSize,
       avgItemSize: totalItems > 0 ? Math.round(totalSize / totalItems) : 0,
       storageType: StorageType.LOCAL_FILE,
+      customStats: {
+        rawSize, // Size of the data before compression and encryption
+        compressedItems,
+        encryptedItems,
+      },
     };
   }
 
@@ -327,6 +352,10 @@ class LocalFileStorageAdapter<T> implements StorageAdapter<T> {
     return StorageType.LOCAL_FILE;
   }
 
+  private readData(document: { data: any; encoded?: boolean }): T {
+    return document.encoded ? JSON.parse(this.codec.decode(document.data)) : document.data;
+  }
+
   private sanitizeKey(key: string): string {
     return key.replace(/[<>:"/\\|?*]/g, "_");
   }
@@ -382,6 +411,7 @@ const corePlugins: StoragePlugin[] = [
       required: ["directory"],
     },
     adapterClass: LocalFileStorageAdapter,
+    encodesPayloads: true,
   },
 ];
 
@@ -0,0 +1,261 @@
+import { DatabaseAdapter, TableSchema } from "@/database/types.js";
+import { SQLGenerator } from "@/database/sql-generator.js";
+import {
+  AUTH_API_KEYS_SCHEMA,
+  AUTH_REVOKED_TOKENS_SCHEMA,
+  AUTH_USERS_SCHEMA,
+} from "@/database/schemas.js";
+import { ApiKey, Role, User } from "@/types/index.js";
+
+interface UserRecord {
+  id: string;
+  username: string;
+  password_hash: string;
+  role: string;
+  roles: string | null; // JSON string
+  permissions: string | null; // JSON string
+  enabled: boolean | number;
+  created_at: string;
+  last_login: string | null;
+}
+
+interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_hash: string;
+  role: string;
+  roles: string | null; // JSON string
+  permissions: string | null; // JSON string
+  quota: string | null; // JSON string
+  enabled: boolean | number;
+  previous_key_hash: string | null;
+  previous_key_expires_at: string | null;
+  rotated_at: string | null;
+  expires_at: string | null;
+  last_used: string | null;
+  created_at: string;
+}
+
+export interface RevokedTokenRecord {
+  token_hash: string;
+  expires_at: string;
+  revoked_at: string;
+}
+
+const TABLES: Array<[string, TableSchema]> = [
+  ["auth_users", AUTH_USERS_SCHEMA],
+  ["auth_api_keys", AUTH_API_KEYS_SCHEMA],
+  ["auth_revoked_tokens", AUTH_REVOKED_TOKENS_SCHEMA],
+];
+
+const USER_COLUMNS = [
+  "id",
+  "username",
+  "password_hash",
+  "role",
+  "roles",
+  "permissions",
+  "enabled",
+  "created_at",
+  "last_login",
+];
+
+const API_KEY_COLUMNS = [
+  "id",
+  "name",
+  "key_hash",
+  "role",
+  "roles",
+  "permissions",
+  "quota",
+  "enabled",
+  "previous_key_hash",
+  "previous_key_expires_at",
+  "rotated_at",
+  "expires_at",
+  "last_used",
+  "created_at",
+];
+
+/**
+ * Storage for users, API keys and revoked tokens. Only hashes of secrets are stored.
+ */
+export class AuthRepository {
+  private sqlGenerator: SQLGenerator;
+
+  constructor(private db: DatabaseAdapter) {
+    this.sqlGenerator = new SQLGenerator(db.getDialect());
+  }
+
+  async ensureTables(): Promise<void> {
+    for (const [tableName, schema] of TABLES) {
+      if (await this.db.tableExists(tableName)) continue;
+
+      await this.db.execute(this.sqlGenerator.generateCreateTable(tableName, schema));
+      for (const index of schema.indexes) {
+        await this.db.execute(this.sqlGenerator.generateCreateIndex(tableName, index));
+      }
+    }
+  }
+
+  // ========================================
+  // USERS
+  // ========================================
+
+  async listUsers(): Promise<User[]> {
+    const rows = await this.db.query<UserRecord>(
+      "SELECT * FROM auth_users ORDER BY created_at ASC"
+    );
+    return rows.map((row) => this.mapUser(row));
+  }
+
+  async saveUser(user: User): Promise<void> {
+    // id goes first, PostgreSQL upserts on the first column
+    const sql = this.sqlGenerator.generateInsertOrReplace(
+      "auth_users",
+      USER_COLUMNS,
+      USER_COLUMNS.length
+    );
+    await this.db.execute(sql, [
+      user.id,
+      user.username,
+      user.passwordHash,
+      user.role,
+      JSON.stringify(user.roles ?? []),
+      JSON.stringify(user.permissions ?? []),
+      user.enabled,
+      user.createdAt,
+      user.lastLogin ?? null,
+    ]);
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const sql = `DELETE FROM auth_users WHERE id = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const result = await this.db.execute(sql, [id]);
+    return result.affectedRows > 0;
+  }
+
+  // ========================================
+  // API KEYS
+  // ========================================
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    const rows = await this.db.query<ApiKeyRecord>(
+      "SELECT * FROM auth_api_keys ORDER BY created_at ASC"
+    );
+    return rows.map((row) => this.mapApiKey(row));
+  }
+
+  async saveApiKey(apiKey: ApiKey): Promise<void> {
+    const sql = this.sqlGenerator.generateInsertOrReplace(
+      "auth_api_keys",
+      API_KEY_COLUMNS,
+      API_KEY_COLUMNS.length
+    );
+    await this.db.execute(sql, [
+      apiKey.id,
+      apiKey.name,
+      apiKey.keyHash,
+      apiKey.role,
+      JSON.stringify(apiKey.roles ?? []),
+      JSON.stringify(apiKey.permissions ?? []),
+      apiKey.quota ? JSON.stringify(apiKey.quota) : null,
+      apiKey.enabled,
+      apiKey.previousKeyHash ?? null,
+      apiKey.previousKeyExpiresAt ?? null,
+      apiKey.rotatedAt ?? null,
+      apiKey.expiresAt ?? null,
+      apiKey.lastUsed ?? null,
+      apiKey.createdAt,
+    ]);
+  }
+
+  async updateApiKeyLastUsed(id: string, lastUsed: string): Promise<void> {
+    const sql = `UPDATE auth_api_keys SET last_used = ${this.sqlGenerator.formatPlaceholder(1)}
+      WHERE id = ${this.sqlGenerator.formatPlaceholder(2)}`;
+
+    await this.db.execute(sql, [lastUsed, id]);
+  }
+
+  async deleteApiKey(id: string): Promise<boolean> {
+    const sql = `DELETE FROM auth_api_keys WHERE id = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const result = await this.db.execute(sql, [id]);
+    return result.affectedRows > 0;
+  }
+
+  // ========================================
+  // REVOKED TOKENS
+  // ========================================
+
+  async listRevokedTokens(): Promise<RevokedTokenRecord[]> {
+    return this.db.query<RevokedTokenRecord>("SELECT * FROM auth_revoked_tokens");
+  }
+
+  async saveRevokedToken(record: RevokedTokenRecord): Promise<void> {
+    const columns = ["token_hash", "expires_at", "revoked_at"];
+    const sql = this.sqlGenerator.generateInsertOrReplace(
+      "auth_revoked_tokens",
+      columns,
+      columns.length
+    );
+    await this.db.execute(sql, [record.token_hash, record.expires_at, record.revoked_at]);
+  }
+
+  /**
+   * Drop revocations of tokens that have expired anyway
+   */
+  async deleteExpiredRevocations(now: string): Promise<number> {
+    const sql = `DELETE FROM auth_revoked_tokens
+      WHERE expires_at < ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const result = await this.db.execute(sql, [now]);
+    return result.affectedRows;
+  }
+
+  // SQLite stores booleans as 0/1, PostgreSQL returns timestamps as Date objects
+  private mapUser(row: UserRecord): User {
+    return {
+      id: row.id,
+      username: row.username,
+      password: "", // Plain passwords are never stored
+      passwordHash: row.password_hash,
+      role: row.role as Role,
+      roles: parseList(row.roles),
+      permissions: parseList(row.permissions),
+      enabled: row.enabled === true || Number(row.enabled) === 1,
+      isActive: true,
+      createdAt: new Date(row.created_at).toISOString(),
+      lastLogin: toIsoString(row.last_login),
+    };
+  }
+
+  private mapApiKey(row: ApiKeyRecord): ApiKey {
+    return {
+      id: row.id,
+      key: "", // Plain keys are never stored
+      name: row.name,
+      keyHash: row.key_hash,
+      role: row.role as Role,
+      roles: parseList(row.roles),
+      permissions: parseList(row.permissions),
+      quota: row.quota ? JSON.parse(row.quota) : undefined,
+      enabled: row.enabled === true || Number(row.enabled) === 1,
+      previousKeyHash: row.previous_key_hash ?? undefined,
+      previousKeyExpiresAt: toIsoString(row.previous_key_expires_at),
+      rotatedAt: toIsoString(row.rotated_at),
+      expiresAt: toIsoString(row.expires_at),
+      lastUsed: toIsoString(row.last_used),
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
+
+function parseList(value: string | null): string[] {
+  return value ? JSON.parse(value) : [];
+}
+
+function toIsoString(value: string | null): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
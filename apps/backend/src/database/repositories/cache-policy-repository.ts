@@ -0,0 +1,174 @@
+import { DatabaseAdapter, TableSchema } from "@/database/types.js";
+import { SQLGenerator } from "@/database/sql-generator.js";
+import {
+  CACHE_FREEZE_PATTERNS_SCHEMA,
+  CACHE_SETTINGS_SCHEMA,
+  CACHE_TTL_RULES_SCHEMA,
+} from "@/database/schemas.js";
+
+export type FreezePatternType = "substring" | "glob" | "regex";
+
+export interface FreezePatternRecord {
+  pattern: string;
+  pattern_type: FreezePatternType;
+  created_at: string;
+}
+
+export interface TTLRuleRecord {
+  id: string;
+  pattern: string;
+  ttl_seconds: number;
+  method: string | null;
+  enabled: boolean;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const TABLES: Array<[string, TableSchema]> = [
+  ["cache_settings", CACHE_SETTINGS_SCHEMA],
+  ["cache_freeze_patterns", CACHE_FREEZE_PATTERNS_SCHEMA],
+  ["cache_ttl_rules", CACHE_TTL_RULES_SCHEMA],
+];
+
+/**
+ * Storage for runtime cache controls (freeze mode and TTL rules) shared by all cluster nodes
+ */
+export class CachePolicyRepository {
+  private sqlGenerator: SQLGenerator;
+
+  constructor(private db: DatabaseAdapter) {
+    this.sqlGenerator = new SQLGenerator(db.getDialect());
+  }
+
+  async ensureTables(): Promise<void> {
+    for (const [tableName, schema] of TABLES) {
+      if (await this.db.tableExists(tableName)) continue;
+
+      await this.db.execute(this.sqlGenerator.generateCreateTable(tableName, schema));
+      for (const index of schema.indexes) {
+        await this.db.execute(this.sqlGenerator.generateCreateIndex(tableName, index));
+      }
+    }
+  }
+
+  // ========================================
+  // SETTINGS
+  // ========================================
+
+  async getSetting(key: string): Promise<string | null> {
+    const sql = `SELECT setting_value FROM cache_settings
+                 WHERE setting_key = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const results = await this.db.query<{ setting_value: string }>(sql, [key]);
+    return results.length > 0 ? results[0].setting_value : null;
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    const sql = this.sqlGenerator.generateInsertOrReplace(
+      "cache_settings",
+      ["setting_key", "setting_value", "updated_at"],
+      3
+    );
+    await this.db.execute(sql, [key, value, new Date().toISOString()]);
+  }
+
+  // ========================================
+  // FREEZE PATTERNS
+  // ========================================
+
+  async listFreezePatterns(): Promise<FreezePatternRecord[]> {
+    return await this.db.query<FreezePatternRecord>(
+      "SELECT * FROM cache_freeze_patterns ORDER BY created_at ASC"
+    );
+  }
+
+  async addFreezePattern(pattern: string, patternType: FreezePatternType): Promise<void> {
+    const sql = this.sqlGenerator.generateInsertOrReplace(
+      "cache_freeze_patterns",
+      ["pattern", "pattern_type", "created_at"],
+      3
+    );
+    await this.db.execute(sql, [pattern, patternType, new Date().toISOString()]);
+  }
+
+  async removeFreezePattern(pattern: string): Promise<boolean> {
+    const sql = `DELETE FROM cache_freeze_patterns
+                 WHERE pattern = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const result = await this.db.execute(sql, [pattern]);
+    return result.affectedRows > 0;
+  }
+
+  async clearFreezePatterns(): Promise<number> {
+    const result = await this.db.execute("DELETE FROM cache_freeze_patterns");
+    return result.affectedRows;
+  }
+
+  // ========================================
+  // TTL RULES
+  // ========================================
+
+  async listTTLRules(): Promise<TTLRuleRecord[]> {
+    const rows = await this.db.query<TTLRuleRecord>(
+      "SELECT * FROM cache_ttl_rules ORDER BY created_at ASC"
+    );
+    return rows.map((row) => this.mapTTLRule(row));
+  }
+
+  async getTTLRule(id: string): Promise<TTLRuleRecord | null> {
+    const sql = `SELECT * FROM cache_ttl_rules
+                 WHERE id = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const results = await this.db.query<TTLRuleRecord>(sql, [id]);
+    return results.length > 0 ? this.mapTTLRule(results[0]) : null;
+  }
+
+  async saveTTLRule(rule: TTLRuleRecord): Promise<void> {
+    // id goes first, PostgreSQL upserts on the first column
+    const columns = [
+      "id",
+      "pattern",
+      "ttl_seconds",
+      "method",
+      "enabled",
+      "description",
+      "created_at",
+      "updated_at",
+    ];
+
+    const sql = this.sqlGenerator.generateInsertOrReplace(
+      "cache_ttl_rules",
+      columns,
+      columns.length
+    );
+    await this.db.execute(sql, [
+      rule.id,
+      rule.pattern,
+      rule.ttl_seconds,
+      rule.method,
+      rule.enabled,
+      rule.description,
+      rule.created_at,
+      rule.updated_at,
+    ]);
+  }
+
+  async deleteTTLRule(id: string): Promise<boolean> {
+    const sql = `DELETE FROM cache_ttl_rules WHERE id = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const result = await this.db.execute(sql, [id]);
+    return result.affectedRows > 0;
+  }
+
+  // SQLite stores booleans as 0/1, PostgreSQL returns timestamps as Date objects
+  private mapTTLRule(row: TTLRuleRecord): TTLRuleRecord {
+    return {
+      ...row,
+      ttl_seconds: Number(row.ttl_seconds),
+      enabled: row.enabled === true || Number(row.enabled) === 1,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
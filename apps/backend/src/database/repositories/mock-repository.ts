@@ -0,0 +1,98 @@
+import { DatabaseAdapter } from "@/database/types.js";
+import { SQLGenerator } from "@/database/sql-generator.js";
+import { MOCKS_SCHEMA } from "@/database/schemas.js";
+import { MockDefinition } from "@/types/index.js";
+
+interface MockRecord {
+  id: string;
+  name: string | null;
+  enabled: boolean | number;
+  priority: number;
+  match_rules: string; // JSON string
+  response: string; // JSON string
+  source: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class MockRepository {
+  private sqlGenerator: SQLGenerator;
+
+  constructor(private db: DatabaseAdapter) {
+    this.sqlGenerator = new SQLGenerator(db.getDialect());
+  }
+
+  async ensureTables(): Promise<void> {
+    if (await this.db.tableExists("mocks")) return;
+
+    await this.db.execute(this.sqlGenerator.generateCreateTable("mocks", MOCKS_SCHEMA));
+    for (const index of MOCKS_SCHEMA.indexes) {
+      await this.db.execute(this.sqlGenerator.generateCreateIndex("mocks", index));
+    }
+  }
+
+  async listMocks(): Promise<MockDefinition[]> {
+    const rows = await this.db.query<MockRecord>(
+      "SELECT * FROM mocks ORDER BY priority DESC, created_at ASC"
+    );
+    return rows.map((row) => this.mapRecord(row));
+  }
+
+  async saveMock(mock: MockDefinition): Promise<void> {
+    // id goes first, PostgreSQL upserts on the first column
+    const columns = [
+      "id",
+      "name",
+      "enabled",
+      "priority",
+      "match_rules",
+      "response",
+      "source",
+      "created_at",
+      "updated_at",
+    ];
+
+    const now = new Date().toISOString();
+    const sql = this.sqlGenerator.generateInsertOrReplace("mocks", columns, columns.length);
+    await this.db.execute(sql, [
+      mock.id,
+      mock.name ?? null,
+      mock.enabled,
+      mock.priority ?? 0,
+      JSON.stringify(mock.match),
+      JSON.stringify(mock.response),
+      mock.source ?? "manual",
+      mock.createdAt ?? now,
+      mock.updatedAt ?? now,
+    ]);
+  }
+
+  async deleteMock(id: string): Promise<boolean> {
+    const sql = `DELETE FROM mocks WHERE id = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const result = await this.db.execute(sql, [id]);
+    return result.affectedRows > 0;
+  }
+
+  async deleteMocksBySource(source: string): Promise<number> {
+    const sql = `DELETE FROM mocks WHERE source = ${this.sqlGenerator.formatPlaceholder(1)}`;
+
+    const result = await this.db.execute(sql, [source]);
+    return result.affectedRows;
+  }
+
+  // SQLite stores booleans as 0/1, PostgreSQL returns timestamps as Date objects
+  private mapRecord(row: MockRecord): MockDefinition {
+    return {
+      id: row.id,
+      name: row.name ?? undefined,
+      enabled: row.enabled === true || Number(row.enabled) === 1,
+      priority: Number(row.priority) || 0,
+      match: JSON.parse(row.match_rules),
+      response: JSON.parse(row.response),
+      source: row.source === "openapi" ? "openapi" : "manual",
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { DatabaseAdapter, TableSchema } from "@/database/types.js";
+import { SQLGenerator } from "@/database/sql-generator.js";
+import { ROUTING_ROUTES_SCHEMA, ROUTING_UPSTREAMS_SCHEMA } from "@/database/schemas.js";
+import { RouteConfig, UpstreamConfig } from "@/types/index.js";
+
+interface DefinitionRecord {
+  definition: string; // JSON string of the route or upstream, or of its tombstone
+}
+
+export interface StoredDefinitions<T> {
+  definitions: T[];
+  removed: string[]; // Keys of configured entries removed through the API
+}
+
+// Configured entries can't be deleted from the configuration, their removal is stored instead
+type Tombstone = { removed: true };
+
+const TABLES: Array<[string, TableSchema]> = [
+  ["routing_upstreams", ROUTING_UPSTREAMS_SCHEMA],
+  ["routing_routes", ROUTING_ROUTES_SCHEMA],
+];
+
+/**
+ * Storage for the routes and upstreams managed through the /routes API
+ */
+export class RoutingRepository {
+  private sqlGenerator: SQLGenerator;
+
+  constructor(private db: DatabaseAdapter) {
+    this.sqlGenerator = new SQLGenerator(db.getDialect());
+  }
+
+  async ensureTables(): Promise<void> {
+    for (const [tableName, schema] of TABLES) {
+      if (await this.db.tableExists(tableName)) continue;
+
+      await this.db.execute(this.sqlGenerator.generateCreateTable(tableName, schema));
+      for (const index of schema.indexes) {
+        await this.db.execute(this.sqlGenerator.generateCreateIndex(tableName, index));
+      }
+    }
+  }
+
+  // ========================================
+  // UPSTREAMS
+  // ========================================
+
+  async listUpstreams(): Promise<StoredDefinitions<UpstreamConfig>> {
+    const definitions = await this.list<UpstreamConfig>("routing_upstreams");
+    return {
+      definitions: definitions.filter((upstream) => !isTombstone(upstream)),
+      removed: definitions.filter(isTombstone).map((upstream) => upstream.name),
+    };
+  }
+
+  async saveUpstream(upstream: UpstreamConfig): Promise<void> {
+    await this.save("routing_upstreams", "name", upstream.name, upstream);
+  }
+
+  async deleteUpstream(name: string): Promise<boolean> {
+    return this.delete("routing_upstreams", "name", name);
+  }
+
+  async saveRemovedUpstream(name: string): Promise<void> {
+    await this.save("routing_upstreams", "name", name, { name, removed: true });
+  }
+
+  // ========================================
+  // ROUTES
+  // ========================================
+
+  // Creation order, the routing table keeps it for routes with equal priority
+  async listRoutes(): Promise<StoredDefinitions<RouteConfig>> {
+    const definitions = await this.list<RouteConfig>("routing_routes");
+    return {
+      definitions: definitions.filter((route) => !isTombstone(route)),
+      removed: definitions.filter(isTombstone).map((route) => route.id),
+    };
+  }
+
+  async saveRoute(route: RouteConfig): Promise<void> {
+    await this.save("routing_routes", "id", route.id, route);
+  }
+
+  async deleteRoute(id: string): Promise<boolean> {
+    return this.delete("routing_routes", "id", id);
+  }
+
+  async saveRemovedRoute(id: string): Promise<void> {
+    await this.save("routing_routes", "id", id, { id, removed: true });
+  }
+
+  private async list<T>(table: string): Promise<Array<T | (T & Tombstone)>> {
+    const rows = await this.db.query<DefinitionRecord>(
+      `SELECT definition FROM ${table} ORDER BY created_at ASC`
+    );
+    return rows.map((row) => JSON.parse(row.definition));
+  }
+
+  // Updates keep the original created_at, so a changed route keeps its place
+  private async save(
+    table: string,
+    keyColumn: string,
+    key: string,
+    value: unknown
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const placeholder = this.sqlGenerator.formatPlaceholder(1);
+    const existing = await this.db.query<{ created_at: string }>(
+      `SELECT created_at FROM ${table} WHERE ${keyColumn} = ${placeholder}`,
+      [key]
+    );
+    const createdAt = existing.length > 0 ? new Date(existing[0].created_at).toISOString() : now;
+
+    // The key goes first, PostgreSQL upserts on the first column
+    const columns = [keyColumn, "definition", "created_at", "updated_at"];
+    const sql = this.sqlGenerator.generateInsertOrReplace(table, columns, columns.length);
+    await this.db.execute(sql, [key, JSON.stringify(value), createdAt, now]);
+  }
+
+  private async delete(table: string, keyColumn: string, key: string): Promise<boolean> {
+    const placeholder = this.sqlGenerator.formatPlaceholder(1);
+    const sql = `DELETE FROM ${table} WHERE ${keyColumn} = ${placeholder}`;
+
+    const result = await this.db.execute(sql, [key]);
+    return result.affectedRows > 0;
+  }
+}
+
+function isTombstone<T>(definition: T | (T & Tombstone)): definition is T & Tombstone {
+  return (definition as Partial<Tombstone>).removed === true;
+}
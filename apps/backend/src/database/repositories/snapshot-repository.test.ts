@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DatabaseAdapter, DatabaseDialect } from "@/database/types.js";
+import { SnapshotRepository } from "./snapshot-repository.js";
+
+// Records the parameters of every statement instead of running it
+function createRepository() {
+  const statements: unknown[][] = [];
+  const db = {
+    getDialect: () => DatabaseDialect.SQLITE,
+    execute: async (_sql: string, params: unknown[] = []) => {
+      statements.push(params);
+    },
+  } as unknown as DatabaseAdapter;
+  return { repository: new SnapshotRepository(db), statements };
+}
+
+const snapshot = (url: string) => ({ url, data: { ok: true }, headers: {}, status: 200, ttl: 60 });
+
+test("snapshot keys fit the cache_key column", async () => {
+  const { repository, statements } = createRepository();
+  const longUrl = `http://upstream.test/search?q=${"x".repeat(400)}`;
+
+  await repository.saveSnapshot(snapshot("http://upstream.test/short"));
+  await repository.saveSnapshot(snapshot(longUrl));
+  await repository.saveSnapshot(snapshot(longUrl));
+
+  const [short, long, again] = statements.map(([cacheKey, url]) => ({ cacheKey, url }));
+  assert.equal(short.cacheKey, "http://upstream.test/short");
+  assert.match(String(long.cacheKey), /^sha256:[0-9a-f]{64}$/);
+  assert.equal(long.url, longUrl);
+  // The same URL keeps upserting the same row
+  assert.equal(again.cacheKey, long.cacheKey);
+});
@@ -1,21 +1,30 @@
-import crypto from "crypto";
 import { DatabaseAdapter, DatabaseDialect } from "@/database/types.js";
 import { SQLGenerator } from "@/database/sql-generator.js";
+import { createHash } from "crypto";
+import { EncodeOptions, PayloadCodec } from "@/utils/payload-codec.js";
+
+// Length of the cache_key column, longer keys are stored as their SHA-256 digest
+const MAX_CACHE_KEY_LENGTH = 255;
 
 export interface SnapshotRecord {
-  id: string;
+  id: number;
+  cache_key: string;
   url: string;
-  data: string; // JSON string
-  headers: string; // JSON string
-  status: number;
+  method: string;
+  status_code: number;
+  backend_host: string;
+  response_body: string; // JSON string, decoded when compression or encryption is on
+  response_headers: string; // JSON string, decoded like the body
   created_at: string;
   expires_at: string;
   tags?: string; // JSON string
-  last_accessed?: string;
+  last_accessed_at?: string;
   access_count: number;
 }
 
 export interface SnapshotData {
+  cacheKey?: string; // Defaults to the URL, keeping one snapshot per URL
+  method?: string;
   url: string;
   data: any;
   headers: Record<string, string>;
@@ -34,7 +43,11 @@ export interface SnapshotStats {
 export class SnapshotRepository {
   private sqlGenerator: SQLGenerator;
 
-  constructor(private db: DatabaseAdapter) {
+  constructor(
+    private db: DatabaseAdapter,
+    private codec: PayloadCodec = new PayloadCodec(),
+    private encoding: EncodeOptions = {}
+  ) {
     this.sqlGenerator = new SQLGenerator(db.getDialect());
   }
 
@@ -42,12 +55,22 @@ export class SnapshotRepository {
     const now = new Date();
     const expiresAt = new Date(now.getTime() + snapshotData.ttl * 1000);
 
+    let backendHost: string;
+    try {
+      backendHost = new URL(snapshotData.url).host;
+    } catch {
+      backendHost = snapshotData.url;
+    }
+
+    // cache_key goes first, PostgreSQL upserts on the first column
     const columns = [
-      "id",
+      "cache_key",
       "url",
-      "data",
-      "headers",
-      "status",
+      "method",
+      "status_code",
+      "backend_host",
+      "response_body",
+      "response_headers",
       "created_at",
       "expires_at",
       "tags",
@@ -55,11 +78,13 @@ export class SnapshotRepository {
     ];
 
     const values = [
-      crypto.randomUUID(),
+      toCacheKey(snapshotData.cacheKey ?? snapshotData.url),
       snapshotData.url,
-      JSON.stringify(snapshotData.data),
-      JSON.stringify(snapshotData.headers),
+      snapshotData.method ?? "GET",
       snapshotData.status,
+      backendHost,
+      this.codec.encode(JSON.stringify(snapshotData.data), "snapshots", this.encoding),
+      this.codec.encode(JSON.stringify(snapshotData.headers), "snapshots", this.encoding),
       now.toISOString(),
       expiresAt.toISOString(),
       snapshotData.tags ? JSON.stringify(snapshotData.tags) : null,
@@ -84,14 +109,25 @@ export class SnapshotRepository {
                  LIMIT 1`;
 
     const results = await this.db.query<SnapshotRecord>(sql, [url, now]);
-    return results.length > 0 ? results[0] : null;
+    if (results.length === 0) return null;
+
+    // Snapshots outlive cache entries, so ones written with a retired key are re-encrypted
+    // when read, after which the old key can be removed
+    const snapshot = results[0];
+    if (
+      this.codec.needsReencoding(snapshot.response_body, this.encoding) ||
+      this.codec.needsReencoding(snapshot.response_headers, this.encoding)
+    ) {
+      await this.reencode(snapshot);
+    }
+    return this.decodeRecord(snapshot);
   }
 
-  async updateAccessStats(id: string): Promise<void> {
+  async updateAccessStats(id: number): Promise<void> {
     const now = new Date().toISOString();
 
     const sql = `UPDATE snapshots 
-                 SET last_accessed = ${this.sqlGenerator.formatPlaceholder(1)}, 
+                 SET last_accessed_at = ${this.sqlGenerator.formatPlaceholder(1)}, 
                      access_count = access_count + 1
                  WHERE id = ${this.sqlGenerator.formatPlaceholder(2)}`;
 
@@ -146,7 +182,7 @@ export class SnapshotRepository {
     }
 
     if (filters.status) {
-      sql += ` AND status = ${this.sqlGenerator.formatPlaceholder(paramIndex)}`;
+      sql += ` AND status_code = ${this.sqlGenerator.formatPlaceholder(paramIndex)}`;
       params.push(filters.status);
       paramIndex++;
     }
@@ -172,7 +208,30 @@ export class SnapshotRepository {
       sql += ` OFFSET ${filters.offset}`;
     }
 
-    return await this.db.query<SnapshotRecord>(sql, params);
+    const results = await this.db.query<SnapshotRecord>(sql, params);
+    return results.map((record) => this.decodeRecord(record));
+  }
+
+  private decodeRecord(record: SnapshotRecord): SnapshotRecord {
+    return {
+      ...record,
+      response_body: this.codec.decode(record.response_body),
+      response_headers: this.codec.decode(record.response_headers),
+    };
+  }
+
+  private async reencode(record: SnapshotRecord): Promise<void> {
+    const { response_body, response_headers } = this.decodeRecord(record);
+    const sql = `UPDATE snapshots
+                 SET response_body = ${this.sqlGenerator.formatPlaceholder(1)},
+                     response_headers = ${this.sqlGenerator.formatPlaceholder(2)}
+                 WHERE id = ${this.sqlGenerator.formatPlaceholder(3)}`;
+
+    await this.db.execute(sql, [
+      this.codec.encode(response_body, "snapshots", this.encoding),
+      this.codec.encode(response_headers, "snapshots", this.encoding),
+      record.id,
+    ]);
   }
 
   private getActiveSnapshotsQuery(): string {
@@ -217,3 +276,8 @@ export class SnapshotRepository {
     }
   }
 }
+
+function toCacheKey(key: string): string {
+  if (key.length <= MAX_CACHE_KEY_LENGTH) return key;
+  return `sha256:${createHash("sha256").update(key).digest("hex")}`;
+}
@@ -1,5 +1,8 @@
 import { TableSchema } from "./types.js";
 
+// Current shape of the tables, used where a table is created outside the migrator. Changes to
+// existing tables also need a migration in ./migrations, the baseline keeps its own copy.
+
 export const SNAPSHOTS_SCHEMA: TableSchema = {
   columns: [
     { name: "id", type: "SERIAL", primaryKey: true },
@@ -20,6 +23,8 @@ export const SNAPSHOTS_SCHEMA: TableSchema = {
     { name: "request_body", type: "TEXT" },
     { name: "response_size", type: "INTEGER" },
     { name: "content_type", type: "VARCHAR(255)" },
+    { name: "response_body", type: "TEXT" }, // JSON string of the stored response
+    { name: "response_headers", type: "TEXT" }, // JSON string of the stored headers
     { name: "tags", type: "JSON" }, // Will be mapped to TEXT for SQLite
     { name: "description", type: "TEXT" },
     { name: "last_accessed_at", type: "TIMESTAMP" },
@@ -61,3 +66,127 @@ export const CLUSTER_NODES_SCHEMA: TableSchema = {
     { name: "idx_cluster_nodes_created", columns: ["created_at"] },
   ],
 };
+
+export const CACHE_SETTINGS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "setting_key", type: "VARCHAR(255)", primaryKey: true },
+    { name: "setting_value", type: "TEXT", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [],
+};
+
+export const CACHE_FREEZE_PATTERNS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "pattern", type: "VARCHAR(500)", primaryKey: true },
+    { name: "pattern_type", type: "VARCHAR(10)", notNull: true }, // substring, glob or regex
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [],
+};
+
+export const CACHE_TTL_RULES_SCHEMA: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(64)", primaryKey: true },
+    { name: "pattern", type: "TEXT", notNull: true },
+    { name: "ttl_seconds", type: "INTEGER", notNull: true },
+    { name: "method", type: "VARCHAR(10)" },
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "description", type: "TEXT" },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_cache_ttl_rules_created", columns: ["created_at"] }],
+};
+
+export const MOCKS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "name", type: "VARCHAR(255)" },
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "priority", type: "INTEGER", defaultValue: 0 },
+    { name: "match_rules", type: "TEXT", notNull: true }, // JSON string of the match rules
+    { name: "response", type: "TEXT", notNull: true }, // JSON string of the mock response
+    { name: "source", type: "VARCHAR(50)", notNull: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_mocks_source", columns: ["source"] }],
+};
+
+// Upstreams and routes managed through the /routes API, definitions are stored as JSON
+export const ROUTING_UPSTREAMS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "name", type: "VARCHAR(255)", primaryKey: true },
+    { name: "definition", type: "TEXT", notNull: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [],
+};
+
+export const ROUTING_ROUTES_SCHEMA: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "definition", type: "TEXT", notNull: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "updated_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_routing_routes_created", columns: ["created_at"] }],
+};
+
+export const AUTH_USERS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "username", type: "VARCHAR(255)", notNull: true, unique: true },
+    { name: "password_hash", type: "VARCHAR(255)", notNull: true },
+    { name: "role", type: "VARCHAR(50)", notNull: true },
+    { name: "roles", type: "TEXT" }, // JSON array of custom role names
+    { name: "permissions", type: "TEXT" }, // JSON array
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+    { name: "last_login", type: "TIMESTAMP" },
+  ],
+  indexes: [],
+};
+
+export const AUTH_API_KEYS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "id", type: "VARCHAR(255)", primaryKey: true },
+    { name: "name", type: "VARCHAR(255)", notNull: true },
+    { name: "key_hash", type: "VARCHAR(255)", notNull: true },
+    { name: "role", type: "VARCHAR(50)", notNull: true },
+    { name: "roles", type: "TEXT" }, // JSON array of custom role names
+    { name: "permissions", type: "TEXT" }, // JSON array
+    { name: "quota", type: "TEXT" }, // JSON object, null without quota
+    { name: "enabled", type: "BOOLEAN", defaultValue: true },
+    { name: "previous_key_hash", type: "VARCHAR(255)" }, // Still accepted during a rotation
+    { name: "previous_key_expires_at", type: "TIMESTAMP" },
+    { name: "rotated_at", type: "TIMESTAMP" },
+    { name: "expires_at", type: "TIMESTAMP" },
+    { name: "last_used", type: "TIMESTAMP" },
+    { name: "created_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_auth_api_keys_key_hash", columns: ["key_hash"] }],
+};
+
+export const AUTH_REVOKED_TOKENS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "token_hash", type: "VARCHAR(64)", primaryKey: true }, // SHA-256 of the token
+    { name: "expires_at", type: "TIMESTAMP", notNull: true }, // Token expiry, pruned after
+    { name: "revoked_at", type: "TIMESTAMP", notNull: true },
+  ],
+  indexes: [{ name: "idx_auth_revoked_tokens_expires", columns: ["expires_at"] }],
+};
+
+// Versions applied by the migrator, with the checksum of each migration when it ran
+export const SCHEMA_MIGRATIONS_SCHEMA: TableSchema = {
+  columns: [
+    { name: "version", type: "INTEGER", primaryKey: true },
+    { name: "name", type: "VARCHAR(255)", notNull: true },
+    { name: "checksum", type: "VARCHAR(64)", notNull: true },
+    { name: "applied_at", type: "TIMESTAMP", notNull: true },
+    { name: "execution_ms", type: "INTEGER" },
+  ],
+  indexes: [],
+};
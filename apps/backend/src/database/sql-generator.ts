@@ -17,6 +17,27 @@ export class SQLGenerator {
     return `CREATE ${indexType} ${this.escapeIdentifier(index.name)} ON ${this.escapeIdentifier(tableName)} (${columns})`;
   }
 
+  generateAddColumn(tableName: string, column: ColumnDefinition): string {
+    const table = this.escapeIdentifier(tableName);
+    return `ALTER TABLE ${table} ADD COLUMN ${this.formatColumn(column)}`;
+  }
+
+  generateDropColumn(tableName: string, columnName: string): string {
+    const table = this.escapeIdentifier(tableName);
+    return `ALTER TABLE ${table} DROP COLUMN ${this.escapeIdentifier(columnName)}`;
+  }
+
+  generateDropTable(tableName: string): string {
+    return `DROP TABLE IF EXISTS ${this.escapeIdentifier(tableName)}`;
+  }
+
+  generateDropIndex(tableName: string, indexName: string): string {
+    // MySQL indexes belong to their table, SQLite and PostgreSQL index names are schema-wide
+    return this.dialect === DatabaseDialect.MYSQL
+      ? `DROP INDEX ${this.escapeIdentifier(indexName)} ON ${this.escapeIdentifier(tableName)}`
+      : `DROP INDEX IF EXISTS ${this.escapeIdentifier(indexName)}`;
+  }
+
   generateInsertOrReplace(tableName: string, columns: string[], placeholderCount: number): string {
     const columnList = columns.map((col) => this.escapeIdentifier(col)).join(', ');
     const placeholders = this.generatePlaceholders(placeholderCount);
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { StorageType } from "./types.js";
+import { StoragePluginRegistry } from "./storage-plugin-registry.js";
+import { registerCoreStoragePlugins } from "./plugins/core-storage-plugins.js";
+import { PayloadCodec } from "@/utils/payload-codec.js";
+
+registerCoreStoragePlugins();
+
+const codec = new PayloadCodec({
+  compression: { algorithm: "gzip", threshold: 0 },
+  encryption: { keys: [{ id: "2026-10", key: Buffer.alloc(32, 7).toString("base64") }] },
+});
+
+test("SQL storage refuses compression and encryption instead of storing plaintext", async () => {
+  for (const options of [{ encryption: true }, { compression: true }]) {
+    await assert.rejects(
+      StoragePluginRegistry.createAdapter(StorageType.SQLITE, {
+        type: StorageType.SQLITE,
+        path: "./logs/requests.db",
+        ...options,
+      }),
+      (error: any) => error.code === "STORAGE_ENCODING_UNSUPPORTED"
+    );
+  }
+});
+
+test("local file storage encrypts data at rest and reads it back", async (t) => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "storage-"));
+  t.after(() => fs.rm(directory, { recursive: true, force: true }));
+
+  const storage = await StoragePluginRegistry.createAdapter(StorageType.LOCAL_FILE, {
+    type: StorageType.LOCAL_FILE,
+    directory,
+    encryption: true,
+    codec,
+  });
+  await storage.initialize();
+  await storage.save("request-1", { authorization: "Bearer secret-token" });
+
+  const [file] = await fs.readdir(directory);
+  const stored = await fs.readFile(path.join(directory, file), "utf-8");
+  assert.ok(!stored.includes("secret-token"));
+  assert.deepEqual(await storage.get("request-1"), { authorization: "Bearer secret-token" });
+});
@@ -1,4 +1,5 @@
 import { StorageAdapter, StorageConfig, StorageType } from "./types.js";
+import { ValidationError } from "@/types/errors.js";
 
 export interface StorageAdapterConstructor<T = any> {
   new (config: any): StorageAdapter<T>;
@@ -11,6 +12,7 @@ export interface StoragePlugin {
   dependencies?: string[]; // Required npm packages
   configSchema?: any; // JSON schema for config validation
   adapterClass: StorageAdapterConstructor;
+  encodesPayloads?: boolean; // Honors the compression and encryption options
 }
 
 export class StoragePluginRegistry {
@@ -86,6 +88,17 @@ export class StoragePluginRegistry {
       this.validateConfig(config, plugin.configSchema);
     }
 
+    // Storing plaintext when encryption was asked for is worse than not starting
+    if ((config.compression || config.encryption) && !plugin.encodesPayloads) {
+      throw new ValidationError(
+        `Storage type '${type}' can't compress or encrypt stored data, ` +
+          "turn compression and encryption off for it or use a storage type that can",
+        "STORAGE_ENCODING_UNSUPPORTED",
+        500,
+        { type }
+      );
+    }
+
     try {
       const adapter = new plugin.adapterClass(config);
       return adapter;
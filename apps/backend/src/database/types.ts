@@ -1,3 +1,5 @@
+import type { PayloadCodec } from "@/utils/payload-codec.js";
+
 export enum DatabaseDialect {
   SQLITE = "sqlite",
   MYSQL = "mysql",
@@ -49,6 +51,7 @@ export interface StorageConfig {
   // Common options
   compression?: boolean;
   encryption?: boolean;
+  codec?: PayloadCodec; // Compresses and encrypts stored data, holds the encryption keys
   ttl?: number; // Default TTL for storage
 }
 
@@ -72,6 +75,7 @@ export interface DatabaseAdapter {
   // Schema management
   createTable(tableName: string, schema: TableSchema): Promise<void>;
   tableExists(tableName: string): Promise<boolean>;
+  columnExists(tableName: string, columnName: string): Promise<boolean>;
 
   // Database-specific features
   getDialect(): DatabaseDialect;
@@ -0,0 +1,60 @@
+import { config } from "./config/index.js";
+import { DatabaseDialect, DatabaseFactory, Migrator } from "./database/index.js";
+
+// Usage: migrate [up|down|status] [--to <version>]
+//   up      apply pending migrations, up to --to when given
+//   down    revert the latest migration, or all migrations newer than --to
+//   status  list applied and pending migrations, exits with 1 when checksums changed
+
+const command = process.argv[2] && !process.argv[2].startsWith("--") ? process.argv[2] : "up";
+const toIndex = process.argv.indexOf("--to");
+const target = toIndex > -1 ? Number(process.argv[toIndex + 1]) : undefined;
+
+const databaseConfig = config.database ?? {
+  type: DatabaseDialect.SQLITE,
+  path: "./logs/snapshots.db",
+};
+
+try {
+  if (!["up", "down", "status"].includes(command)) {
+    throw new Error(`Unknown command '${command}', expected up, down or status`);
+  }
+  if (target !== undefined && !Number.isInteger(target)) {
+    throw new Error("--to expects a migration version");
+  }
+
+  const db = await DatabaseFactory.create(databaseConfig);
+  await db.initialize();
+  const migrator = new Migrator(db);
+  console.log(`Database: ${databaseConfig.type} ${databaseConfig.path ?? databaseConfig.database}`);
+
+  try {
+    if (command === "status") {
+      const statuses = await migrator.status();
+      for (const status of statuses) {
+        console.log(
+          `${String(status.version).padStart(4, "0")}  ${status.name.padEnd(32)}` +
+            `${status.state.padEnd(9)}${status.appliedAt ?? ""}`
+        );
+      }
+      process.exitCode = statuses.some((status) => status.state === "changed") ? 1 : 0;
+    } else if (command === "down") {
+      const reverted = await migrator.rollback(target);
+      for (const migration of reverted) {
+        console.log(`Reverted ${migration.version}: ${migration.name}`);
+      }
+      console.log(reverted.length > 0 ? "Done" : "Nothing to revert");
+    } else {
+      const applied = await migrator.migrate(target);
+      for (const migration of applied) {
+        console.log(`Applied ${migration.version}: ${migration.name}`);
+      }
+      console.log(applied.length > 0 ? "Done" : "Database is up to date");
+    }
+  } finally {
+    await db.close();
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
@@ -1,5 +1,8 @@
 // Auth Module - Authentication and authorization
 export { AuthService } from './services/auth-service.js';
+export { AuthStore } from './services/auth-store.js';
+export { RateLimitService } from './services/rate-limit.js';
+export { OidcService } from './services/oidc.js';
 export { authRoutes } from './routes/auth.js';
 
 // Re-export auth-related types
@@ -1,25 +1,138 @@
 import { FastifyInstance } from 'fastify';
-import { requireAdmin, requireReadAccess } from "@/plugins/auth.js";
-import { Role } from "@/types/index.js";
+import { requireAdmin, requireReadAccess, requirePermission } from "@/plugins/auth.js";
+import { ApiKey, CustomRole, QuotaPeriod, Role, User } from "@/types/index.js";
+import { ProxyError } from "@/types/errors.js";
+import {
+  BUILT_IN_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  findCustomRole,
+  isBuiltInRole,
+  isValidPermission,
+  isValidRoleName,
+} from "../services/permissions.js";
+
+const QUOTA_PERIODS: QuotaPeriod[] = ['minute', 'hour', 'day', 'month'];
 
 interface LoginRequest {
   username: string;
   password: string;
 }
 
-interface CreateUserRequest {
+interface OidcLoginQuery {
+  returnTo?: string; // Admin UI path to come back to, receives the token in the URL fragment
+}
+
+interface OidcCallbackQuery {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface GrantsRequest {
+  roles?: string[]; // Custom role names
+  permissions?: string[];
+}
+
+interface CreateUserRequest extends GrantsRequest {
   username: string;
   password: string;
   role: Role;
 }
 
-interface CreateApiKeyRequest {
+interface CreateApiKeyRequest extends GrantsRequest {
   name: string;
   role: Role;
   expiresInDays?: number;
 }
 
+interface RoleParams {
+  name: string;
+}
+
+interface RoleRequest {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+interface ApiKeyParams {
+  id: string;
+}
+
+interface SetQuotaRequest {
+  limit: number;
+  period: QuotaPeriod;
+}
+
+interface RotateApiKeyRequest {
+  overlapSeconds?: number; // How long the old secret keeps working, default from config
+}
+
 export async function authRoutes(fastify: FastifyInstance) {
+  // Check custom role names and permission strings, returns an error message or null
+  const validateGrants = ({ roles, permissions }: GrantsRequest): string | null => {
+    if (roles !== undefined && !Array.isArray(roles)) return 'Roles must be an array';
+    if (permissions !== undefined && !Array.isArray(permissions)) {
+      return 'Permissions must be an array';
+    }
+
+    const unknownRole = roles?.find((name) => !findCustomRole(fastify.config.auth!, name));
+    if (unknownRole) return `Unknown role: ${unknownRole}`;
+
+    const invalid = permissions?.find((permission) => !isValidPermission(permission));
+    if (invalid) return `Invalid permission: ${invalid}`;
+
+    return null;
+  };
+
+  // Persist a new or changed account, kept in memory only when storage is unavailable
+  const saveUser = async (user: User) => {
+    if (fastify.authStore) {
+      await fastify.authStore.saveUser(user);
+    } else if (!fastify.config.auth!.users.includes(user)) {
+      fastify.config.auth!.users.push(user);
+    }
+  };
+
+  const saveApiKey = async (apiKey: ApiKey) => {
+    if (fastify.authStore) {
+      await fastify.authStore.saveApiKey(apiKey);
+    } else if (!fastify.config.auth!.apiKeys.includes(apiKey)) {
+      fastify.config.auth!.apiKeys.push(apiKey);
+    }
+  };
+
+  const findApiKey = (id: string) => fastify.config.auth?.apiKeys.find((key) => key.id === id);
+
+  const toKeyInfo = (key: ApiKey) => ({
+    id: key.id,
+    name: key.name || 'Unnamed',
+    role: key.role,
+    roles: key.roles ?? [],
+    permissions: key.permissions ?? [],
+    enabled: key.enabled !== false,
+    createdAt: key.createdAt,
+    lastUsed: key.lastUsed,
+    expiresAt: key.expiresAt,
+    expiresSoon: fastify.authStore?.isExpiringSoon(key) ?? false,
+    rotatedAt: key.rotatedAt,
+    previousKeyExpiresAt: key.previousKeyExpiresAt,
+    key_preview: `${key.keyHash.substring(0, 8)}...`,
+    quota: key.quota,
+  });
+
+  const toUserInfo = (user: User) => ({
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    roles: user.roles ?? [],
+    permissions: user.permissions ?? [],
+    enabled: user.enabled,
+    createdAt: user.createdAt,
+    lastLogin: user.lastLogin,
+  });
+
   // GET /auth/status - Check authentication status (no auth required)
   fastify.get('/auth/status', async (request, reply) => {
     const authConfig = fastify.config.auth;
@@ -32,6 +145,7 @@ export async function authRoutes(fastify: FastifyInstance) {
       user_id: request.auth?.sessionId,
       protected_paths: authConfig?.protectedPaths || [],
       jwt_enabled: !!authConfig?.jwt,
+      oidc_enabled: authConfig?.oidc?.enabled || false,
     };
   });
 
@@ -46,6 +160,7 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
 
     const { username, password } = request.body;
+    request.audit = { target: username };
 
     if (!username || !password) {
       reply.status(400);
@@ -60,6 +175,8 @@ export async function authRoutes(fastify: FastifyInstance) {
         return { error: 'Invalid credentials' };
       }
 
+      await fastify.authStore?.recordLogin(result.user);
+
       return {
         message: 'Login successful',
         access_token: result.token,
@@ -86,13 +203,97 @@ export async function authRoutes(fastify: FastifyInstance) {
       request.headers.authorization?.replace('Bearer ', '') ||
       (request.headers['x-access-token'] as string);
 
-    if (token) {
+    if (token && fastify.authStore) {
+      await fastify.authStore.revokeToken(token);
+    } else if (token) {
       authService.revokeToken(token);
     }
 
     return { message: 'Logged out successfully' };
   });
 
+  // GET /auth/oidc/login - Redirect to the OIDC provider (authorization-code flow)
+  fastify.get<{ Querystring: OidcLoginQuery }>('/auth/oidc/login', async (request, reply) => {
+    const oidc = fastify.oidc;
+    if (!fastify.config.auth?.enabled || !oidc?.isEnabled()) {
+      reply.status(503);
+      return { error: 'OIDC login not enabled' };
+    }
+
+    // Only same-origin paths, so the token cannot be handed to another site
+    let returnTo: string | undefined;
+    try {
+      returnTo =
+        request.query.returnTo !== undefined
+          ? oidc.resolveReturnTo(request.query.returnTo)
+          : undefined;
+    } catch (error) {
+      reply.status(400);
+      return { error: error instanceof Error ? error.message : 'Invalid returnTo' };
+    }
+
+    try {
+      return reply.redirect(await oidc.createLogin(returnTo));
+    } catch (error) {
+      reply.status(error instanceof ProxyError ? error.statusCode : 502);
+      return { error: error instanceof Error ? error.message : 'OIDC provider unavailable' };
+    }
+  });
+
+  // GET /auth/oidc/callback - Exchange the authorization code and issue a proxy-stone token
+  fastify.get<{ Querystring: OidcCallbackQuery }>(
+    '/auth/oidc/callback',
+    async (request, reply) => {
+      const oidc = fastify.oidc;
+      const authService = fastify.authService;
+
+      if (!fastify.config.auth?.enabled || !oidc?.isEnabled() || !authService) {
+        reply.status(503);
+        return { error: 'OIDC login not enabled' };
+      }
+
+      const { code, state, error, error_description } = request.query;
+      if (error) {
+        reply.status(401);
+        return { error: 'Login rejected by provider', message: error_description || error };
+      }
+      if (!code || !state) {
+        reply.status(400);
+        return { error: 'Code and state required' };
+      }
+
+      try {
+        const { identity, returnTo } = await oidc.completeLogin(state, code);
+        const token = authService.generateToken({
+          userId: `oidc:${identity.subject}`,
+          role: identity.role,
+          type: 'oidc',
+          roles: identity.roles,
+          permissions: identity.permissions,
+        });
+
+        if (returnTo) {
+          return reply.redirect(`${returnTo}#access_token=${token}&token_type=Bearer`);
+        }
+
+        return {
+          message: 'Login successful',
+          access_token: token,
+          token_type: 'Bearer',
+          user: {
+            id: `oidc:${identity.subject}`,
+            username: identity.email || identity.name || identity.subject,
+            role: identity.role,
+            roles: identity.roles,
+          },
+        };
+      } catch (error) {
+        reply.status(error instanceof ProxyError ? error.statusCode : 401);
+        return { error: error instanceof Error ? error.message : 'OIDC login failed' };
+      }
+    }
+  );
+
   // GET /auth/test-protected - Test endpoint that requires read access
   fastify.get(
     '/auth/test-protected',
@@ -115,10 +316,10 @@ export async function authRoutes(fastify: FastifyInstance) {
     };
   });
 
-  // POST /auth/users - Create new user (admin only)
+  // POST /auth/users - Create new user (requires auth:manage)
   fastify.post<{ Body: CreateUserRequest }>(
     '/auth/users',
-    { preHandler: requireAdmin() },
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
     async (request, reply) => {
       const authService = (fastify as any).authService;
       const authConfig = fastify.config.auth;
@@ -135,6 +336,12 @@ export async function authRoutes(fastify: FastifyInstance) {
         return { error: 'Username, password, and role required' };
       }
 
+      const grantsError = validateGrants(request.body);
+      if (grantsError) {
+        reply.status(400);
+        return { error: grantsError };
+      }
+
       // Check if user already exists
       const existingUser = authConfig.users.find((u) => u.username === username);
       if (existingUser) {
@@ -143,9 +350,11 @@ export async function authRoutes(fastify: FastifyInstance) {
       }
 
       const newUser = authService.createUser(username, password, role);
+      newUser.roles = request.body.roles ?? [];
+      newUser.permissions = request.body.permissions ?? [];
 
-      // Add to config (in production, this would be stored in database)
-      authConfig.users.push(newUser);
+      await saveUser(newUser);
+      request.audit = { target: newUser.id, after: toUserInfo(newUser) };
 
       return {
         message: 'User created successfully',
@@ -153,6 +362,8 @@ export async function authRoutes(fastify: FastifyInstance) {
           id: newUser.id,
           username: newUser.username,
           role: newUser.role,
+          roles: newUser.roles,
+          permissions: newUser.permissions,
           enabled: newUser.enabled,
           createdAt: newUser.createdAt,
         },
@@ -160,14 +371,12 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   );
 
-  // POST /auth/api-keys - Create new API key (admin only)
+  // POST /auth/api-keys - Create new API key (requires auth:manage)
   fastify.post<{ Body: CreateApiKeyRequest }>(
     '/auth/api-keys',
-    { preHandler: requireAdmin() },
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
     async (request, reply) => {
       const authService = (fastify as any).authService;
-      const authConfig = fastify.config.auth;
-
       const { name, role, expiresInDays } = request.body;
 
       if (!name || !role) {
@@ -175,10 +384,18 @@ export async function authRoutes(fastify: FastifyInstance) {
         return { error: 'Name and role required' };
       }
 
+      const grantsError = validateGrants(request.body);
+      if (grantsError) {
+        reply.status(400);
+        return { error: grantsError };
+      }
+
       const { apiKey, plainKey } = authService.createApiKey(name, role, expiresInDays);
+      apiKey.roles = request.body.roles ?? [];
+      apiKey.permissions = request.body.permissions ?? [];
 
-      // Add to config (in production, this would be stored in database)
-      authConfig!.apiKeys.push(apiKey);
+      await saveApiKey(apiKey);
+      request.audit = { target: apiKey.id, after: toKeyInfo(apiKey) };
 
       return {
         message: 'API key created successfully',
@@ -187,6 +404,8 @@ export async function authRoutes(fastify: FastifyInstance) {
           id: apiKey.id,
           name: apiKey.name,
           role: apiKey.role,
+          roles: apiKey.roles,
+          permissions: apiKey.permissions,
           expiresAt: apiKey.expiresAt,
           createdAt: apiKey.createdAt,
         },
@@ -195,59 +414,462 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   );
 
-  // GET /auth/api-keys - List API keys (admin only, without exposing actual keys)
-  fastify.get('/auth/api-keys', { preHandler: requireAdmin() }, async (request, reply) => {
-    const authConfig = fastify.config.auth;
+  // GET /auth/api-keys - List API keys (requires auth:read, without exposing actual keys)
+  fastify.get(
+    '/auth/api-keys',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_READ) },
+    async (request, reply) => {
+      const authConfig = fastify.config.auth;
 
-    if (!authConfig?.enabled) {
-      reply.status(503);
-      return { error: 'Authentication not enabled' };
+      if (!authConfig?.enabled) {
+        reply.status(503);
+        return { error: 'Authentication not enabled' };
+      }
+
+      return {
+        keys: authConfig.apiKeys.map(toKeyInfo),
+        total: authConfig.apiKeys.length,
+      };
     }
+  );
 
-    return {
-      keys: authConfig.apiKeys.map((key) => ({
-        id: key.id,
-        name: key.name || 'Unnamed',
-        role: key.role,
-        enabled: key.enabled !== false,
-        createdAt: key.createdAt,
-        lastUsed: key.lastUsed,
-        expiresAt: key.expiresAt,
-        key_preview: `${key.keyHash.substring(0, 8)  }...`,
-      })),
-      total: authConfig.apiKeys.length,
-    };
-  });
+  // PUT /auth/api-keys/:id/permissions - Replace the custom roles and permissions of an API key
+  fastify.put<{ Params: ApiKeyParams; Body: GrantsRequest }>(
+    '/auth/api-keys/:id/permissions',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const apiKey = findApiKey(request.params.id);
 
-  // GET /auth/users - List users (admin only)
-  fastify.get('/auth/users', { preHandler: requireAdmin() }, async (request, reply) => {
-    const authConfig = fastify.config.auth;
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
 
-    if (!authConfig?.enableUserAuth) {
-      reply.status(503);
-      return { error: 'User authentication not enabled' };
+      const grants = request.body ?? {};
+      const grantsError = validateGrants(grants);
+      if (grantsError) {
+        reply.status(400);
+        return { error: grantsError };
+      }
+
+      const before = toKeyInfo(apiKey);
+      apiKey.roles = grants.roles ?? apiKey.roles ?? [];
+      apiKey.permissions = grants.permissions ?? apiKey.permissions ?? [];
+      await saveApiKey(apiKey);
+      request.audit = { target: apiKey.id, before, after: toKeyInfo(apiKey) };
+
+      return {
+        message: 'API key permissions updated',
+        key_info: {
+          id: apiKey.id,
+          name: apiKey.name,
+          role: apiKey.role,
+          roles: apiKey.roles,
+          permissions: apiKey.permissions,
+        },
+      };
     }
+  );
 
-    return {
-      users: authConfig.users.map((user) => ({
-        id: user.id,
-        username: user.username,
-        role: user.role,
-        enabled: user.enabled,
-        createdAt: user.createdAt,
-        lastLogin: user.lastLogin,
-      })),
-      total: authConfig.users.length,
-    };
-  });
+  // GET /auth/api-keys/:id/quota - Quota and usage in the current period (requires auth:read)
+  fastify.get<{ Params: ApiKeyParams }>(
+    '/auth/api-keys/:id/quota',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_READ) },
+    async (request, reply) => {
+      const apiKey = findApiKey(request.params.id);
 
-  // GET /auth/stats - Get authentication statistics (admin only)
-  fastify.get('/auth/stats', { preHandler: requireAdmin() }, async (request, reply) => {
-    const authService = (fastify as any).authService;
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
 
-    return {
-      stats: authService.getAuthStats(),
-      message: 'Authentication statistics retrieved',
-    };
-  });
+      const usage = await fastify.rateLimiter.getQuotaUsage(apiKey.id);
+      return usage ?? { keyId: apiKey.id, quota: null };
+    }
+  );
+
+  // PUT /auth/api-keys/:id/quota - Set the request quota of an API key (requires auth:manage)
+  fastify.put<{ Params: ApiKeyParams; Body: SetQuotaRequest }>(
+    '/auth/api-keys/:id/quota',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const apiKey = findApiKey(request.params.id);
+
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
+
+      const { limit, period } = request.body ?? ({} as SetQuotaRequest);
+
+      if (!Number.isInteger(limit) || limit < 1) {
+        reply.status(400);
+        return { error: 'Limit must be a positive integer' };
+      }
+
+      if (!QUOTA_PERIODS.includes(period)) {
+        reply.status(400);
+        return { error: `Period must be one of: ${QUOTA_PERIODS.join(', ')}` };
+      }
+
+      // Counters are kept per period, so changing the period starts from zero
+      const before = toKeyInfo(apiKey);
+      apiKey.quota = { limit, period };
+      await saveApiKey(apiKey);
+      request.audit = { target: apiKey.id, before, after: toKeyInfo(apiKey) };
+
+      return {
+        message: 'API key quota updated',
+        usage: await fastify.rateLimiter.getQuotaUsage(apiKey.id),
+      };
+    }
+  );
+
+  // DELETE /auth/api-keys/:id/quota - Remove the quota of an API key (requires auth:manage)
+  fastify.delete<{ Params: ApiKeyParams }>(
+    '/auth/api-keys/:id/quota',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const apiKey = findApiKey(request.params.id);
+
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
+
+      const before = toKeyInfo(apiKey);
+      await fastify.rateLimiter.resetQuota(apiKey.id);
+      delete apiKey.quota;
+      await saveApiKey(apiKey);
+      request.audit = { target: apiKey.id, before, after: toKeyInfo(apiKey) };
+
+      return { message: 'API key quota removed', keyId: apiKey.id };
+    }
+  );
+
+  // POST /auth/api-keys/:id/quota/reset - Clear the usage of the current period
+  fastify.post<{ Params: ApiKeyParams }>(
+    '/auth/api-keys/:id/quota/reset',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const apiKey = findApiKey(request.params.id);
+
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
+
+      if (!apiKey.quota) {
+        reply.status(409);
+        return { error: 'API key has no quota' };
+      }
+
+      await fastify.rateLimiter.resetQuota(apiKey.id);
+
+      return {
+        message: 'API key quota usage reset',
+        usage: await fastify.rateLimiter.getQuotaUsage(apiKey.id),
+      };
+    }
+  );
+
+  // POST /auth/api-keys/:id/disable - Reject the key and tokens issued for it
+  fastify.post<{ Params: ApiKeyParams }>(
+    '/auth/api-keys/:id/disable',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const apiKey = findApiKey(request.params.id);
+
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
+
+      const before = toKeyInfo(apiKey);
+      apiKey.enabled = false;
+      await saveApiKey(apiKey);
+      request.audit = { target: apiKey.id, before, after: toKeyInfo(apiKey) };
+
+      return { message: 'API key disabled', key_info: toKeyInfo(apiKey) };
+    }
+  );
+
+  // POST /auth/api-keys/:id/enable - Accept a disabled key again
+  fastify.post<{ Params: ApiKeyParams }>(
+    '/auth/api-keys/:id/enable',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const apiKey = findApiKey(request.params.id);
+
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
+
+      const before = toKeyInfo(apiKey);
+      apiKey.enabled = true;
+      await saveApiKey(apiKey);
+      request.audit = { target: apiKey.id, before, after: toKeyInfo(apiKey) };
+
+      return { message: 'API key enabled', key_info: toKeyInfo(apiKey) };
+    }
+  );
+
+  // POST /auth/api-keys/:id/rotate - Issue a new secret, the old one works during the overlap
+  fastify.post<{ Params: ApiKeyParams; Body: RotateApiKeyRequest }>(
+    '/auth/api-keys/:id/rotate',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const authService = (fastify as any).authService;
+      const apiKey = findApiKey(request.params.id);
+
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
+
+      const overlapSeconds =
+        request.body?.overlapSeconds ?? fastify.config.auth!.keyRotationOverlap;
+      if (!Number.isInteger(overlapSeconds) || overlapSeconds < 0) {
+        reply.status(400);
+        return { error: 'overlapSeconds must be a non-negative integer' };
+      }
+
+      const before = toKeyInfo(apiKey);
+      const plainKey = authService.rotateApiKey(apiKey, overlapSeconds);
+      await saveApiKey(apiKey);
+      request.audit = { target: apiKey.id, before, after: toKeyInfo(apiKey) };
+
+      return {
+        message: 'API key rotated successfully',
+        api_key: plainKey, // Only shown once!
+        key_info: toKeyInfo(apiKey),
+        warning: 'Save this API key now. It will not be shown again.',
+      };
+    }
+  );
+
+  // DELETE /auth/api-keys/:id - Delete an API key (requires auth:manage)
+  fastify.delete<{ Params: ApiKeyParams }>(
+    '/auth/api-keys/:id',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const authConfig = fastify.config.auth!;
+      const apiKey = findApiKey(request.params.id);
+
+      if (!apiKey) {
+        reply.status(404);
+        return { error: 'API key not found' };
+      }
+
+      request.audit = { target: apiKey.id, before: toKeyInfo(apiKey), after: null };
+      await fastify.rateLimiter.resetQuota(apiKey.id);
+      if (fastify.authStore) {
+        await fastify.authStore.deleteApiKey(apiKey.id);
+      } else {
+        authConfig.apiKeys = authConfig.apiKeys.filter((key) => key.id !== apiKey.id);
+      }
+
+      return { message: 'API key deleted successfully', keyId: apiKey.id };
+    }
+  );
+
+  // GET /auth/users - List users (requires auth:read)
+  fastify.get(
+    '/auth/users',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_READ) },
+    async (request, reply) => {
+      const authConfig = fastify.config.auth;
+
+      if (!authConfig?.enableUserAuth) {
+        reply.status(503);
+        return { error: 'User authentication not enabled' };
+      }
+
+      return {
+        users: authConfig.users.map(toUserInfo),
+        total: authConfig.users.length,
+      };
+    }
+  );
+
+  // GET /auth/stats - Get authentication statistics (requires auth:read)
+  fastify.get(
+    '/auth/stats',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_READ) },
+    async (request, reply) => {
+      const authService = (fastify as any).authService;
+
+      return {
+        stats: authService.getAuthStats(),
+        message: 'Authentication statistics retrieved',
+      };
+    }
+  );
+
+  // GET /auth/roles - Built-in and custom roles with their permissions (requires auth:read)
+  fastify.get(
+    '/auth/roles',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_READ) },
+    async () => {
+      const builtIn = Object.values(Role).map((name) => ({
+        name,
+        permissions: BUILT_IN_ROLE_PERMISSIONS[name],
+        builtIn: true,
+      }));
+      const custom = (fastify.config.auth?.roles ?? []).map((role) => ({
+        ...role,
+        builtIn: false,
+      }));
+
+      return {
+        roles: [...builtIn, ...custom],
+        total: builtIn.length + custom.length,
+        permissions: Object.values(PERMISSIONS),
+      };
+    }
+  );
+
+  // GET /auth/roles/:name - A single role (requires auth:read)
+  fastify.get<{ Params: RoleParams }>(
+    '/auth/roles/:name',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_READ) },
+    async (request, reply) => {
+      const { name } = request.params;
+
+      if (isBuiltInRole(name)) {
+        return { role: { name, permissions: BUILT_IN_ROLE_PERMISSIONS[name], builtIn: true } };
+      }
+
+      const role = findCustomRole(fastify.config.auth!, name);
+      if (!role) {
+        reply.status(404);
+        return { error: 'Role not found' };
+      }
+
+      return { role: { ...role, builtIn: false } };
+    }
+  );
+
+  // POST /auth/roles - Create a custom role (requires auth:manage)
+  fastify.post<{ Body: RoleRequest }>(
+    '/auth/roles',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const authConfig = fastify.config.auth!;
+      const { name, description, permissions } = request.body ?? ({} as RoleRequest);
+
+      if (typeof name !== 'string' || !isValidRoleName(name)) {
+        reply.status(400);
+        return {
+          error: 'Role name must be 2-64 lowercase characters and not a built-in role',
+        };
+      }
+
+      if (!Array.isArray(permissions)) {
+        reply.status(400);
+        return { error: 'Permissions array required' };
+      }
+
+      const grantsError = validateGrants({ permissions });
+      if (grantsError) {
+        reply.status(400);
+        return { error: grantsError };
+      }
+
+      if (findCustomRole(authConfig, name)) {
+        reply.status(409);
+        return { error: 'Role already exists' };
+      }
+
+      const role: CustomRole = {
+        name,
+        description,
+        permissions,
+        createdAt: new Date().toISOString(),
+      };
+      authConfig.roles.push(role);
+      request.audit = { target: name, after: role };
+
+      reply.status(201);
+      return { message: 'Role created successfully', role: { ...role, builtIn: false } };
+    }
+  );
+
+  // PUT /auth/roles/:name - Update the description or permissions of a custom role
+  fastify.put<{ Params: RoleParams; Body: Partial<Omit<RoleRequest, 'name'>> }>(
+    '/auth/roles/:name',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const { name } = request.params;
+
+      if (isBuiltInRole(name)) {
+        reply.status(400);
+        return { error: 'Built-in roles cannot be changed' };
+      }
+
+      const role = findCustomRole(fastify.config.auth!, name);
+      if (!role) {
+        reply.status(404);
+        return { error: 'Role not found' };
+      }
+
+      const { description, permissions } = request.body ?? {};
+      const grantsError = validateGrants({ permissions });
+      if (grantsError) {
+        reply.status(400);
+        return { error: grantsError };
+      }
+
+      // Keys and users reference roles by name, so changes apply to their next request
+      const before = { ...role };
+      if (description !== undefined) role.description = description;
+      if (permissions !== undefined) role.permissions = permissions;
+      role.updatedAt = new Date().toISOString();
+      request.audit = { target: name, before, after: role };
+
+      return { message: 'Role updated successfully', role: { ...role, builtIn: false } };
+    }
+  );
+
+  // DELETE /auth/roles/:name - Delete a custom role and unassign it (requires auth:manage)
+  fastify.delete<{ Params: RoleParams }>(
+    '/auth/roles/:name',
+    { preHandler: requirePermission(PERMISSIONS.AUTH_MANAGE) },
+    async (request, reply) => {
+      const authConfig = fastify.config.auth!;
+      const { name } = request.params;
+
+      if (isBuiltInRole(name)) {
+        reply.status(400);
+        return { error: 'Built-in roles cannot be deleted' };
+      }
+
+      const index = authConfig.roles.findIndex((role) => role.name === name);
+      if (index === -1) {
+        reply.status(404);
+        return { error: 'Role not found' };
+      }
+
+      const [role] = authConfig.roles.splice(index, 1);
+      request.audit = { target: name, before: role, after: null };
+      let unassigned = 0;
+      for (const apiKey of [...authConfig.apiKeys]) {
+        if (apiKey.roles?.includes(name)) {
+          apiKey.roles = apiKey.roles.filter((roleName) => roleName !== name);
+          await saveApiKey(apiKey);
+          unassigned++;
+        }
+      }
+      for (const user of [...authConfig.users]) {
+        if (user.roles?.includes(name)) {
+          user.roles = user.roles.filter((roleName) => roleName !== name);
+          await saveUser(user);
+          unassigned++;
+        }
+      }
+
+      return { message: 'Role deleted successfully', name, unassigned };
+    }
+  );
 }
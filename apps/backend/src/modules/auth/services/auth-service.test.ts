@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Role } from "@/types/index.js";
+import { AuthService } from "./auth-service.js";
+
+const authService = new AuthService("test-salt", "test-secret");
+
+test("a rotated-out secret keeps working until the overlap ends", (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.parse("2026-01-01T00:00:00Z") });
+  const { apiKey, plainKey: oldKey } = authService.createApiKey("ci", Role.USER);
+  const newKey = authService.rotateApiKey(apiKey, 60);
+
+  assert.equal(apiKey.previousKeyExpiresAt, "2026-01-01T00:01:00.000Z");
+  assert.equal(apiKey.rotatedAt, "2026-01-01T00:00:00.000Z");
+  assert.deepEqual(authService.findApiKey(newKey, [apiKey]), { apiKey, usedPreviousKey: false });
+  assert.deepEqual(authService.findApiKey(oldKey, [apiKey]), { apiKey, usedPreviousKey: true });
+
+  t.mock.timers.tick(60_001);
+  assert.equal(authService.findApiKey(oldKey, [apiKey]), null);
+  assert.equal(authService.findApiKey(newKey, [apiKey])?.usedPreviousKey, false);
+});
+
+test("rotating without an overlap revokes the old secret at once", () => {
+  const { apiKey, plainKey: oldKey } = authService.createApiKey("ci", Role.USER);
+  authService.rotateApiKey(apiKey, 0);
+
+  assert.equal(apiKey.previousKeyHash, undefined);
+  assert.equal(authService.findApiKey(oldKey, [apiKey]), null);
+});
+
+test("only the latest rotation's previous secret is accepted", () => {
+  const { apiKey, plainKey: firstKey } = authService.createApiKey("ci", Role.USER);
+  const secondKey = authService.rotateApiKey(apiKey, 60);
+  const thirdKey = authService.rotateApiKey(apiKey, 60);
+
+  assert.equal(authService.findApiKey(firstKey, [apiKey]), null);
+  assert.equal(authService.findApiKey(secondKey, [apiKey])?.usedPreviousKey, true);
+  assert.equal(authService.findApiKey(thirdKey, [apiKey])?.usedPreviousKey, false);
+});
+
+test("disabled keys reject both secrets during the overlap", () => {
+  const { apiKey, plainKey: oldKey } = authService.createApiKey("ci", Role.USER);
+  const newKey = authService.rotateApiKey(apiKey, 60);
+  apiKey.enabled = false;
+
+  assert.equal(authService.findApiKey(oldKey, [apiKey]), null);
+  assert.equal(authService.findApiKey(newKey, [apiKey]), null);
+});
@@ -2,10 +2,29 @@ import crypto from "crypto";
 import jwt from "jsonwebtoken";
 import { Role, User, ApiKey, AuthSession } from "@/types/index.js";
 
+export interface TokenPayload {
+  userId?: string;
+  apiKeyId?: string;
+  role: Role;
+  type: "user" | "apikey" | "oidc";
+  // Grants carried by the token itself, set for OIDC logins
+  roles?: string[];
+  permissions?: string[];
+}
+
+export interface RevokedToken {
+  tokenHash: string;
+  expiresAt: number; // Token expiry, the revocation can be dropped afterwards
+}
+
+const MAX_KEY_HASH_CACHE = 1000;
+const DEFAULT_REVOCATION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Tokens without "exp"
+
 export class AuthService {
   private loginAttempts: Map<string, { count: number; lastAttempt: number }> =
     new Map();
-  private revokedTokens: Set<string> = new Set(); // Track revoked tokens
+  private revokedTokens: Map<string, number> = new Map(); // Token hash -> token expiry
+  private keyHashCache: Map<string, string> = new Map(); // Avoids PBKDF2 per API key request
   private hashSalt: string;
   private maxLoginAttempts: number;
   private lockoutDuration: number;
@@ -52,6 +71,49 @@ export class AuthService {
     return crypto.timingSafeEqual(Buffer.from(secretHash), Buffer.from(hash));
   }
 
+  // Hash a presented API key, cached since keys are sent with every request
+  private hashApiKey(plainKey: string): string {
+    const cacheKey = crypto.createHash("sha256").update(plainKey).digest("hex");
+    let keyHash = this.keyHashCache.get(cacheKey);
+
+    if (!keyHash) {
+      keyHash = this.hashSecret(plainKey);
+      if (this.keyHashCache.size >= MAX_KEY_HASH_CACHE) {
+        this.keyHashCache.delete(this.keyHashCache.keys().next().value as string);
+      }
+      this.keyHashCache.set(cacheKey, keyHash);
+    }
+    return keyHash;
+  }
+
+  // Find the enabled, unexpired API key a plain key belongs to. The secret replaced by a
+  // rotation keeps working until the end of the overlap window.
+  findApiKey(
+    plainKey: string,
+    apiKeys: ApiKey[]
+  ): { apiKey: ApiKey; usedPreviousKey: boolean } | null {
+    const keyHash = this.hashApiKey(plainKey);
+    const now = new Date();
+
+    for (const apiKey of apiKeys) {
+      if (!apiKey.enabled) continue;
+      if (apiKey.expiresAt && new Date(apiKey.expiresAt) < now) continue;
+
+      if (apiKey.keyHash && safeEqual(apiKey.keyHash, keyHash)) {
+        return { apiKey, usedPreviousKey: false };
+      }
+      if (
+        apiKey.previousKeyHash &&
+        apiKey.previousKeyExpiresAt &&
+        new Date(apiKey.previousKeyExpiresAt) > now &&
+        safeEqual(apiKey.previousKeyHash, keyHash)
+      ) {
+        return { apiKey, usedPreviousKey: true };
+      }
+    }
+    return null;
+  }
+
   // Check if IP is locked out
   isLockedOut(identifier: string): boolean {
     const attempts = this.loginAttempts.get(identifier);
@@ -89,12 +151,7 @@ export class AuthService {
   }
 
   // Generate JWT token
-  generateToken(payload: {
-    userId?: string;
-    apiKeyId?: string;
-    role: Role;
-    type: "user" | "apikey";
-  }): string {
+  generateToken(payload: TokenPayload): string {
     return jwt.sign(payload, this.jwtSecret, {
       expiresIn: this.jwtExpiresIn,
       issuer: this.jwtIssuer,
@@ -103,15 +160,10 @@ export class AuthService {
   }
 
   // Verify and decode JWT token
-  verifyToken(token: string): {
-    userId?: string;
-    apiKeyId?: string;
-    role: Role;
-    type: "user" | "apikey";
-  } | null {
+  verifyToken(token: string): TokenPayload | null {
     try {
       // Check if token is revoked
-      if (this.revokedTokens.has(token)) {
+      if (this.isRevoked(token)) {
         return null;
       }
 
@@ -124,16 +176,35 @@ export class AuthService {
         apiKeyId: decoded.apiKeyId,
         role: decoded.role,
         type: decoded.type,
+        roles: decoded.roles,
+        permissions: decoded.permissions,
       };
     } catch (error) {
       return null;
     }
   }
 
-  // Revoke token (add to blacklist)
-  revokeToken(token: string): boolean {
-    this.revokedTokens.add(token);
-    return true;
+  // Revoke token (add to blacklist), returns the entry to persist
+  revokeToken(token: string): RevokedToken {
+    const decoded = jwt.decode(token) as jwt.JwtPayload | null;
+    const revoked = {
+      tokenHash: hashToken(token),
+      expiresAt: decoded?.exp ? decoded.exp * 1000 : Date.now() + DEFAULT_REVOCATION_TTL_MS,
+    };
+
+    this.revokedTokens.set(revoked.tokenHash, revoked.expiresAt);
+    return revoked;
+  }
+
+  isRevoked(token: string): boolean {
+    return this.revokedTokens.has(hashToken(token));
+  }
+
+  // Add revocations stored by this or another node
+  loadRevokedTokens(revoked: RevokedToken[]): void {
+    for (const { tokenHash, expiresAt } of revoked) {
+      this.revokedTokens.set(tokenHash, expiresAt);
+    }
   }
 
   // Authenticate user with username/password
@@ -182,11 +253,7 @@ export class AuthService {
       );
     }
 
-    const keyConfig = apiKeys.find((k) => {
-      if (!k.enabled) return false;
-      if (k.expiresAt && new Date(k.expiresAt) < new Date()) return false;
-      return this.verifySecret(apiKey, k.keyHash);
-    });
+    const keyConfig = this.findApiKey(apiKey, apiKeys)?.apiKey;
 
     if (!keyConfig) {
       this.recordFailedAttempt(identifier);
@@ -204,58 +271,80 @@ export class AuthService {
     return { token, apiKey: keyConfig };
   }
 
-  // Clean expired revoked tokens (optional cleanup)
+  // Forget revocations of tokens that have expired anyway, returns how many were dropped
   cleanRevokedTokens(): number {
-    // In a real implementation, you'd check token expiration dates
-    // For now, we'll just return the count
-    return this.revokedTokens.size;
-  }
+    const now = Date.now();
+    let removed = 0;
 
-  // Create new user (admin function)
-  async createUser(
-    username: string,
-    password: string,
-    role: Role = Role.USER
-  ): Promise<User> {
-    const userId = crypto.randomUUID();
-    const passwordHash = await this.hashSecret(password);
-    const now = new Date().toISOString();
+    for (const [tokenHash, expiresAt] of this.revokedTokens) {
+      if (expiresAt < now) {
+        this.revokedTokens.delete(tokenHash);
+        removed++;
+      }
+    }
+    return removed;
+  }
 
+  // Create new user (admin function), the plain password is not kept
+  createUser(username: string, password: string, role: Role = Role.USER): User {
     return {
-      id: userId,
+      id: crypto.randomUUID(),
       username,
-      password,
-      passwordHash,
+      password: "",
+      passwordHash: this.hashSecret(password),
       role,
       enabled: true,
       isActive: true,
       permissions: [],
-      createdAt: now,
+      createdAt: new Date().toISOString(),
       lastLogin: undefined,
     };
   }
 
-  // Create new API key (admin function)
-  async createApiKey(name: string, role: Role = Role.USER): Promise<ApiKey> {
-    const keyId = crypto.randomUUID();
-    const key = crypto.randomBytes(32).toString("hex");
-    const keyHash = await this.hashSecret(key);
-    const now = new Date().toISOString();
+  // Create new API key (admin function), the plain key is only returned here
+  createApiKey(
+    name: string,
+    role: Role = Role.USER,
+    expiresInDays?: number
+  ): { apiKey: ApiKey; plainKey: string } {
+    const plainKey = this.generateApiKey();
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
 
     const apiKey: ApiKey = {
-      id: keyId,
-      key,
-      keyHash,
+      id: crypto.randomUUID(),
+      key: "",
+      keyHash: this.hashSecret(plainKey),
       name,
       role,
       enabled: true,
       permissions: [],
-      createdAt: now,
+      createdAt: new Date().toISOString(),
       lastUsed: undefined,
-      expiresAt: undefined,
+      expiresAt,
     };
 
-    return apiKey;
+    return { apiKey, plainKey };
+  }
+
+  // Replace the secret of an API key, the old one stays valid for `overlapSeconds`
+  rotateApiKey(apiKey: ApiKey, overlapSeconds: number): string {
+    const plainKey = this.generateApiKey();
+    const now = Date.now();
+
+    if (overlapSeconds > 0) {
+      apiKey.previousKeyHash = apiKey.keyHash;
+      apiKey.previousKeyExpiresAt = new Date(now + overlapSeconds * 1000).toISOString();
+    } else {
+      delete apiKey.previousKeyHash;
+      delete apiKey.previousKeyExpiresAt;
+    }
+    apiKey.keyHash = this.hashSecret(plainKey);
+    apiKey.key = "";
+    apiKey.rotatedAt = new Date(now).toISOString();
+
+    return plainKey;
   }
 
   // Get auth statistics
@@ -266,3 +355,11 @@ export class AuthService {
     };
   }
 }
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
@@ -0,0 +1,239 @@
+import type { FastifyInstance } from "fastify";
+import { AuthRepository } from "@/database/repositories/auth-repository.js";
+import type { DatabaseAdapter } from "@/database/types.js";
+import { ApiKey, Role, User } from "@/types/index.js";
+import { DatabaseError } from "@/types/errors.js";
+import { SyncedStore } from "@/services/synced-store.js";
+import { AuthService } from "./auth-service.js";
+
+// lastUsed is written at most this often per key, not on every request
+const LAST_USED_WRITE_INTERVAL_MS = 60000;
+
+/**
+ * Users, API keys and token revocations stored in the snapshot database, so they survive
+ * restarts and are shared by cluster nodes. Keys and users from the configuration are
+ * kept next to the stored ones until they are changed, which stores them.
+ */
+export class AuthStore extends SyncedStore<AuthRepository> {
+  private authService: AuthService;
+  private configUsers: User[] = [];
+  private configKeys: ApiKey[] = [];
+  private lastUsedWrites: Map<string, number> = new Map();
+  private warnedKeys: Set<string> = new Set();
+
+  constructor(app: FastifyInstance, authService: AuthService) {
+    super(app, {
+      name: "auth-store",
+      label: "users and API keys",
+      createRepository: (db) => new AuthRepository(db),
+    });
+    this.authService = authService;
+  }
+
+  async initialize(db: DatabaseAdapter): Promise<void> {
+    const auth = this.getAuthConfig();
+    this.configUsers = [...auth.users];
+    this.configKeys = auth.apiKeys.map((apiKey) => this.normalizeConfigKey(apiKey));
+
+    await super.initialize(db);
+  }
+
+  /**
+   * Load users, API keys and revocations from the database, replacing the local copy
+   */
+  async reload(): Promise<void> {
+    const repository = this.getRepository();
+
+    try {
+      const [users, apiKeys, revoked] = await this.app.recovery.withRetry(
+        () =>
+          Promise.all([
+            repository.listUsers(),
+            repository.listApiKeys(),
+            repository.listRevokedTokens(),
+          ]),
+        "database",
+        { operation: "auth-store.reload" }
+      );
+
+      const auth = this.getAuthConfig();
+      const lastUsed = new Map(auth.apiKeys.map((apiKey) => [apiKey.id, apiKey.lastUsed]));
+
+      auth.users = mergeById(users, this.configUsers);
+      auth.apiKeys = mergeById(apiKeys, this.configKeys).map((apiKey) => {
+        // Keep newer usage this node has not written yet
+        const local = lastUsed.get(apiKey.id);
+        return local && (!apiKey.lastUsed || local > apiKey.lastUsed)
+          ? { ...apiKey, lastUsed: local }
+          : apiKey;
+      });
+
+      this.authService.loadRevokedTokens(
+        revoked.map((record) => ({
+          tokenHash: record.token_hash,
+          expiresAt: new Date(record.expires_at).getTime(),
+        }))
+      );
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation: "auth-store.reload" });
+      throw new DatabaseError("Failed to load users and API keys", "DATABASE_QUERY_ERROR", 500);
+    }
+
+    this.warnExpiringKeys();
+  }
+
+  // Expired revocations are dropped on every tick as well
+  async sync(): Promise<void> {
+    await Promise.all([this.reload(), this.pruneRevocations()]);
+  }
+
+  // ========================================
+  // USERS AND API KEYS
+  // ========================================
+
+  async saveUser(user: User): Promise<void> {
+    await this.write("auth-store.save-user", (repository) => repository.saveUser(user));
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const configCount = this.configUsers.length;
+    this.configUsers = this.configUsers.filter((user) => user.id !== id);
+
+    let deleted = false;
+    await this.write("auth-store.delete-user", async (repository) => {
+      deleted = await repository.deleteUser(id);
+    });
+    return deleted || this.configUsers.length < configCount;
+  }
+
+  async saveApiKey(apiKey: ApiKey): Promise<void> {
+    await this.write("auth-store.save-api-key", (repository) => repository.saveApiKey(apiKey));
+    this.warnedKeys.delete(apiKey.id);
+  }
+
+  async deleteApiKey(id: string): Promise<boolean> {
+    const configCount = this.configKeys.length;
+    this.configKeys = this.configKeys.filter((apiKey) => apiKey.id !== id);
+    this.lastUsedWrites.delete(id);
+
+    let deleted = false;
+    await this.write("auth-store.delete-api-key", async (repository) => {
+      deleted = await repository.deleteApiKey(id);
+    });
+    return deleted || this.configKeys.length < configCount;
+  }
+
+  /**
+   * Record that an API key was used. Written in the background and throttled per key.
+   */
+  touchApiKey(apiKey: ApiKey): void {
+    const now = Date.now();
+    apiKey.lastUsed = new Date(now).toISOString();
+
+    if (now - (this.lastUsedWrites.get(apiKey.id) ?? 0) < LAST_USED_WRITE_INTERVAL_MS) return;
+    this.lastUsedWrites.set(apiKey.id, now);
+
+    const repository = this.repository;
+    if (!repository) return;
+
+    // Keys only known from the configuration are stored on first use
+    const stored = !this.configKeys.some((configKey) => configKey.id === apiKey.id);
+    const write = stored
+      ? repository.updateApiKeyLastUsed(apiKey.id, apiKey.lastUsed)
+      : repository.saveApiKey(apiKey).then(() => {
+          this.configKeys = this.configKeys.filter((configKey) => configKey.id !== apiKey.id);
+        });
+
+    write.catch((error) => {
+      this.app.log.warn({ error, keyId: apiKey.id }, "Failed to record API key usage");
+    });
+  }
+
+  async recordLogin(user: User): Promise<void> {
+    user.lastLogin = new Date().toISOString();
+    await this.saveUser(user);
+  }
+
+  /**
+   * Warning for clients of a key that expires soon or was used with its rotated-out secret
+   */
+  getKeyWarning(apiKey: ApiKey, usedPreviousKey: boolean): string | null {
+    if (usedPreviousKey && apiKey.previousKeyExpiresAt) {
+      return `API key was rotated, this secret stops working at ${apiKey.previousKeyExpiresAt}`;
+    }
+    if (this.isExpiringSoon(apiKey)) {
+      return `API key expires at ${apiKey.expiresAt}`;
+    }
+    return null;
+  }
+
+  isExpiringSoon(apiKey: ApiKey): boolean {
+    if (!apiKey.expiresAt) return false;
+
+    const warningMs = this.getAuthConfig().keyExpiryWarningDays * 24 * 60 * 60 * 1000;
+    const remaining = new Date(apiKey.expiresAt).getTime() - Date.now();
+    return remaining > 0 && remaining <= warningMs;
+  }
+
+  // ========================================
+  // REVOCATIONS
+  // ========================================
+
+  async revokeToken(token: string): Promise<void> {
+    const revoked = this.authService.revokeToken(token);
+
+    await this.write("auth-store.revoke-token", (repository) =>
+      repository.saveRevokedToken({
+        token_hash: revoked.tokenHash,
+        expires_at: new Date(revoked.expiresAt).toISOString(),
+        revoked_at: new Date().toISOString(),
+      })
+    );
+  }
+
+  private async pruneRevocations(): Promise<void> {
+    this.authService.cleanRevokedTokens();
+    await this.getRepository().deleteExpiredRevocations(new Date().toISOString());
+  }
+
+  // Config keys may carry the plain key only, e.g. API_KEYS='[{"key":"...","role":"admin"}]'
+  private normalizeConfigKey(apiKey: ApiKey): ApiKey {
+    const keyHash = apiKey.keyHash || this.authService.hashSecret(apiKey.key);
+
+    return {
+      ...apiKey,
+      id: apiKey.id || `config-${keyHash.substring(0, 16)}`,
+      key: "",
+      keyHash,
+      name: apiKey.name || "Configured key",
+      role: apiKey.role || Role.USER,
+      permissions: apiKey.permissions ?? [],
+      enabled: apiKey.enabled !== false,
+      createdAt: apiKey.createdAt || new Date().toISOString(),
+    };
+  }
+
+  private warnExpiringKeys(): void {
+    for (const apiKey of this.getAuthConfig().apiKeys) {
+      if (!apiKey.enabled || this.warnedKeys.has(apiKey.id) || !this.isExpiringSoon(apiKey)) {
+        continue;
+      }
+
+      this.warnedKeys.add(apiKey.id);
+      this.app.log.warn(
+        { keyId: apiKey.id, name: apiKey.name, expiresAt: apiKey.expiresAt },
+        "API key expires soon"
+      );
+    }
+  }
+
+  private getAuthConfig() {
+    return this.app.config.auth!;
+  }
+}
+
+// Stored entries win over configured ones with the same id
+function mergeById<T extends { id: string }>(stored: T[], configured: T[]): T[] {
+  const ids = new Set(stored.map((item) => item.id));
+  return [...stored, ...configured.filter((item) => !ids.has(item.id))];
+}
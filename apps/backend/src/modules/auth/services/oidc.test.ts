@@ -0,0 +1,108 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { OidcConfig } from "@/types/index.js";
+import { OidcService } from "./oidc.js";
+
+const config: OidcConfig = {
+  enabled: true,
+  issuer: "https://login.example.com",
+  clientId: "proxy-stone",
+  redirectUri: "https://proxy.example.com/api/auth/oidc/callback",
+  scopes: ["openid"],
+  algorithms: ["RS256"],
+  roleClaim: "roles",
+  roleMapping: {},
+  jwksCacheTtl: 3600,
+};
+
+test("resolveReturnTo keeps paths on the redirect URI origin", () => {
+  const oidc = new OidcService(config);
+  assert.equal(
+    oidc.resolveReturnTo("/dashboard?tab=cache#top"),
+    "https://proxy.example.com/dashboard?tab=cache"
+  );
+  // Dot segments can't climb out of the origin, only up to its root
+  assert.equal(oidc.resolveReturnTo("/.//evil.com"), "https://proxy.example.com//evil.com");
+});
+
+test("resolveReturnTo rejects returnTo values leaving the origin", () => {
+  const oidc = new OidcService(config);
+  for (const returnTo of [
+    "//evil.com",
+    "/\\evil.com",
+    "/\\/evil.com",
+    "https://evil.com/",
+    "evil.com",
+    "/\tevil.com",
+    "/\n/evil.com",
+  ]) {
+    assert.throws(
+      () => oidc.resolveReturnTo(returnTo),
+      (error: any) => error.statusCode === 400,
+      returnTo
+    );
+  }
+});
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+// Serves discovery and JWKS of a provider, counting the JWKS fetches
+function stubProvider(t: { after: (fn: () => void) => void }, issuer = config.issuer) {
+  const calls = { jwks: 0 };
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    if (url.endsWith("/.well-known/openid-configuration")) {
+      return Response.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    calls.jwks++;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return Response.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "key-1" }] });
+  }) as typeof fetch;
+  t.after(() => {
+    globalThis.fetch = originalFetch;
+  });
+  return calls;
+}
+
+function signToken(kid: string, issuer = config.issuer): string {
+  return jwt.sign({ sub: "alice" }, privateKey, {
+    algorithm: "RS256",
+    keyid: kid,
+    issuer,
+    audience: config.clientId,
+    expiresIn: 60,
+  });
+}
+
+test("verifyToken accepts tokens of the configured issuer", async (t) => {
+  stubProvider(t);
+  const claims = await new OidcService(config).verifyToken(signToken("key-1"));
+  assert.equal(claims.sub, "alice");
+});
+
+test("discovery documents naming another issuer are rejected", async (t) => {
+  stubProvider(t, "https://evil.example.com");
+  const oidc = new OidcService(config);
+  await assert.rejects(
+    oidc.verifyToken(signToken("key-1", "https://evil.example.com")),
+    (error: any) => error.code === "OIDC_DISCOVERY_INVALID"
+  );
+});
+
+test("a burst of unknown key ids fetches the JWKS once", async (t) => {
+  const calls = stubProvider(t);
+  const oidc = new OidcService(config);
+  const results = await Promise.allSettled(
+    Array.from({ length: 5 }, (_, i) => oidc.verifyToken(signToken(`unknown-${i}`)))
+  );
+  assert.ok(results.every((result) => result.status === "rejected"));
+  assert.equal(calls.jwks, 1);
+});
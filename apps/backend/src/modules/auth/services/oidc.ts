@@ -0,0 +1,405 @@
+import crypto, { KeyObject } from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { OidcConfig, Role } from "@/types/index.js";
+import { AuthenticationError, ValidationError } from "@/types/errors.js";
+import { isBuiltInRole, isValidPermission } from "./permissions.js";
+
+const DISCOVERY_PATH = "/.well-known/openid-configuration";
+const FETCH_TIMEOUT_MS = 5000;
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+const MAX_PENDING_LOGINS = 1000;
+// Tokens signed with an unknown "kid" refetch the JWKS at most this often
+const MIN_JWKS_REFRESH_MS = 30000;
+// eslint-disable-next-line no-control-regex
+const UNSAFE_RETURN_TO = /[\\\x00-\x1f\x7f]/;
+// Most privileged first, a token mapping to several built-in roles gets the first one
+const ROLE_PRECEDENCE: Role[] = [Role.ADMIN, Role.READ_ONLY, Role.USER];
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  role: Role;
+  roles: string[]; // Custom roles granted through the role mapping
+  permissions: string[];
+  name?: string;
+  email?: string;
+  claims: JwtPayload; // Verified token claims the identity was mapped from
+}
+
+interface PendingLogin {
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  returnTo?: string;
+  expiresAt: number;
+}
+
+/**
+ * Validates tokens of an external OpenID Connect provider against its JWKS and runs the
+ * authorization-code flow (with PKCE) for the admin UI
+ */
+export class OidcService {
+  private config: OidcConfig;
+  private discovery: { document: OidcDiscovery; fetchedAt: number } | null = null;
+  private keys: Map<string, KeyObject> = new Map();
+  private keysFetchedAt = 0;
+  private keysRefresh: Promise<void> | null = null;
+  private pendingLogins: Map<string, PendingLogin> = new Map();
+
+  constructor(config: OidcConfig) {
+    this.config = config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getConfig(): OidcConfig {
+    return this.config;
+  }
+
+  async getDiscovery(): Promise<OidcDiscovery> {
+    if (this.discovery && !this.isExpired(this.discovery.fetchedAt)) {
+      return this.discovery.document;
+    }
+
+    const document = await fetchJson<OidcDiscovery>(`${this.config.issuer}${DISCOVERY_PATH}`);
+    if (!document.jwks_uri || !document.authorization_endpoint || !document.token_endpoint) {
+      throw new AuthenticationError(
+        "OIDC discovery document is missing endpoints",
+        "OIDC_DISCOVERY_INVALID",
+        502
+      );
+    }
+    // The document must belong to the configured issuer (OIDC Discovery 4.3), otherwise
+    // tokens of whichever issuer it names would be accepted
+    if (String(document.issuer).replace(/\/+$/, "") !== this.config.issuer) {
+      throw new AuthenticationError(
+        "OIDC discovery document issuer does not match the configured issuer",
+        "OIDC_DISCOVERY_INVALID",
+        502,
+        { expected: this.config.issuer, received: document.issuer }
+      );
+    }
+
+    this.discovery = { document, fetchedAt: Date.now() };
+    return document;
+  }
+
+  /**
+   * Whether a bearer token is meant for this provider rather than the local HMAC issuer
+   */
+  isProviderToken(token: string): boolean {
+    const decoded = jwt.decode(token, { complete: true });
+    return !!decoded && this.config.algorithms.includes(decoded.header.alg);
+  }
+
+  /**
+   * Verify signature, issuer, audience and expiry of a provider token
+   */
+  async verifyToken(
+    token: string,
+    options: { audience?: string; nonce?: string } = {}
+  ): Promise<JwtPayload> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || !this.config.algorithms.includes(decoded.header.alg)) {
+      throw new AuthenticationError("Unsupported token", "OIDC_INVALID_TOKEN", 401);
+    }
+
+    const discovery = await this.getDiscovery();
+    const key = await this.getSigningKey(decoded.header.kid);
+
+    let claims: JwtPayload;
+    try {
+      claims = jwt.verify(token, key, {
+        algorithms: this.config.algorithms as jwt.Algorithm[],
+        issuer: discovery.issuer,
+        audience: options.audience ?? this.config.audience ?? this.config.clientId,
+      }) as JwtPayload;
+    } catch (error) {
+      throw new AuthenticationError(
+        `Invalid token: ${error instanceof Error ? error.message : String(error)}`,
+        "OIDC_INVALID_TOKEN",
+        401
+      );
+    }
+
+    if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+      throw new AuthenticationError("ID token nonce mismatch", "OIDC_INVALID_TOKEN", 401);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Map provider claims to a built-in role, custom roles and permissions
+   */
+  mapClaims(claims: JwtPayload): OidcIdentity {
+    const values = toStringArray(getClaim(claims, this.config.roleClaim));
+    const builtIn = new Set<Role>();
+    const roles: string[] = [];
+
+    for (const value of values) {
+      const mapped = this.config.roleMapping[value];
+      if (!mapped) continue;
+
+      if (isBuiltInRole(mapped)) {
+        builtIn.add(mapped);
+      } else if (!roles.includes(mapped)) {
+        roles.push(mapped);
+      }
+    }
+
+    const role =
+      ROLE_PRECEDENCE.find((candidate) => builtIn.has(candidate)) ?? this.config.defaultRole;
+    if (!role) {
+      throw new AuthenticationError(
+        "Token does not map to a proxy-stone role",
+        "OIDC_NO_ROLE",
+        403,
+        { claim: this.config.roleClaim }
+      );
+    }
+
+    const permissions = this.config.permissionsClaim
+      ? toStringArray(getClaim(claims, this.config.permissionsClaim)).filter(isValidPermission)
+      : [];
+
+    return {
+      subject: String(claims.sub),
+      role,
+      roles,
+      permissions,
+      name: typeof claims.name === "string" ? claims.name : undefined,
+      email: typeof claims.email === "string" ? claims.email : undefined,
+      claims,
+    };
+  }
+
+  async authenticate(token: string): Promise<OidcIdentity> {
+    return this.mapClaims(await this.verifyToken(token));
+  }
+
+  /**
+   * Absolute URL of a login's returnTo, which must stay on the origin of the redirect URI
+   * since the callback appends the issued token to it
+   */
+  resolveReturnTo(returnTo: string): string {
+    const origin = new URL(this.config.redirectUri).origin;
+    const fail = () =>
+      new ValidationError("returnTo must be a path on this origin", "OIDC_INVALID_RETURN_TO", 400);
+
+    if (!returnTo.startsWith("/") || UNSAFE_RETURN_TO.test(returnTo)) {
+      throw fail();
+    }
+    let url: URL;
+    try {
+      url = new URL(returnTo, origin);
+    } catch {
+      throw fail();
+    }
+    if (url.origin !== origin) {
+      throw fail();
+    }
+    url.hash = "";
+    return url.toString();
+  }
+
+  /**
+   * Start an authorization-code login, returns the provider URL to redirect to
+   */
+  async createLogin(returnTo?: string): Promise<string> {
+    const discovery = await this.getDiscovery();
+    this.sweepPendingLogins();
+
+    const state = randomToken();
+    const codeVerifier = randomToken(32);
+    const nonce = randomToken();
+    this.pendingLogins.set(state, {
+      codeVerifier,
+      nonce,
+      redirectUri: this.config.redirectUri,
+      returnTo,
+      expiresAt: Date.now() + LOGIN_TTL_MS,
+    });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", this.config.clientId);
+    url.searchParams.set("redirect_uri", this.config.redirectUri);
+    url.searchParams.set("scope", this.config.scopes.join(" "));
+    url.searchParams.set("state", state);
+    url.searchParams.set("nonce", nonce);
+    url.searchParams.set("code_challenge", sha256(codeVerifier));
+    url.searchParams.set("code_challenge_method", "S256");
+    return url.toString();
+  }
+
+  /**
+   * Exchange the authorization code of a callback and validate the returned ID token
+   */
+  async completeLogin(
+    state: string,
+    code: string
+  ): Promise<{ identity: OidcIdentity; returnTo?: string }> {
+    const pending = this.pendingLogins.get(state);
+    this.pendingLogins.delete(state);
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new AuthenticationError("Unknown or expired login state", "OIDC_INVALID_STATE", 400);
+    }
+
+    const discovery = await this.getDiscovery();
+    const form = new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: pending.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: pending.codeVerifier,
+    });
+    if (this.config.clientSecret) {
+      form.set("client_secret", this.config.clientSecret);
+    }
+
+    const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: form.toString(),
+    });
+
+    if (!tokens.id_token) {
+      throw new AuthenticationError("Token response has no ID token", "OIDC_LOGIN_FAILED", 502);
+    }
+
+    const claims = await this.verifyToken(tokens.id_token, {
+      audience: this.config.clientId,
+      nonce: pending.nonce,
+    });
+    return { identity: this.mapClaims(claims), returnTo: pending.returnTo };
+  }
+
+  close(): void {
+    this.pendingLogins.clear();
+    this.keys.clear();
+  }
+
+  private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+    if (this.keys.size === 0 || this.isExpired(this.keysFetchedAt)) {
+      await this.refreshKeys();
+    }
+
+    let key = this.findKey(kid);
+    if (!key && Date.now() - this.keysFetchedAt >= MIN_JWKS_REFRESH_MS) {
+      // The provider may have rotated its keys
+      await this.refreshKeys();
+      key = this.findKey(kid);
+    }
+
+    if (!key) {
+      throw new AuthenticationError("Unknown token signing key", "OIDC_UNKNOWN_KEY", 401, { kid });
+    }
+    return key;
+  }
+
+  private findKey(kid: string | undefined): KeyObject | undefined {
+    if (kid) return this.keys.get(kid);
+    // Tokens without "kid" are only accepted when the JWKS has a single key
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  // Concurrent callers share one fetch, so a burst of unknown "kid"s refetches the JWKS once
+  private refreshKeys(): Promise<void> {
+    this.keysRefresh ??= this.fetchKeys().finally(() => {
+      this.keysRefresh = null;
+    });
+    return this.keysRefresh;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const discovery = await this.getDiscovery();
+    const jwks = await fetchJson<{ keys?: Array<Record<string, any>> }>(discovery.jwks_uri);
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.use && jwk.use !== "sig") continue;
+      try {
+        const key = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: "jwk" });
+        keys.set(jwk.kid ?? `key-${keys.size}`, key);
+      } catch {
+        // Skip key types Node cannot import
+      }
+    }
+
+    this.keys = keys;
+    this.keysFetchedAt = Date.now();
+  }
+
+  private isExpired(fetchedAt: number): boolean {
+    return Date.now() - fetchedAt > this.config.jwksCacheTtl * 1000;
+  }
+
+  private sweepPendingLogins(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pendingLogins) {
+      if (pending.expiresAt < now) {
+        this.pendingLogins.delete(state);
+      }
+    }
+
+    // Drop the oldest logins rather than growing without bound
+    while (this.pendingLogins.size >= MAX_PENDING_LOGINS) {
+      this.pendingLogins.delete(this.pendingLogins.keys().next().value as string);
+    }
+  }
+}
+
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    throw new AuthenticationError(
+      `OIDC provider unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      "OIDC_PROVIDER_UNAVAILABLE",
+      502,
+      { url }
+    );
+  }
+
+  if (!response.ok) {
+    throw new AuthenticationError(
+      `OIDC provider returned ${response.status}`,
+      "OIDC_PROVIDER_ERROR",
+      502,
+      { url, body: await response.text().catch(() => "") }
+    );
+  }
+  return (await response.json()) as T;
+}
+
+// Claims can be nested, e.g. "realm_access.roles"
+function getClaim(claims: JwtPayload, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], claims);
+}
+
+function toStringArray(value: unknown): string[] {
+  if (typeof value === "string") return value.split(/[\s,]+/).filter(Boolean);
+  return Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+}
+
+function randomToken(bytes = 16): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("base64url");
+}
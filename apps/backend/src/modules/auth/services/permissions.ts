@@ -0,0 +1,112 @@
+import { AuthConfig, CustomRole, Role } from "@/types/index.js";
+
+/**
+ * Permissions checked by the admin routes. Proxied paths use "proxy:route:<path>", where
+ * <path> is the request path below the API prefix.
+ */
+export const PERMISSIONS = {
+  CACHE_READ: "cache:read",
+  CACHE_WRITE: "cache:write",
+  CACHE_INVALIDATE: "cache:invalidate",
+  SNAPSHOTS_READ: "snapshots:read",
+  SNAPSHOTS_WRITE: "snapshots:write",
+  REQUESTS_READ: "requests:read",
+  REQUESTS_WRITE: "requests:write",
+  ROUTING_READ: "routing:read",
+  ROUTING_WRITE: "routing:write",
+  MOCKS_READ: "mocks:read",
+  MOCKS_WRITE: "mocks:write",
+  CASSETTES_READ: "cassettes:read",
+  CASSETTES_WRITE: "cassettes:write",
+  RECOVERY_READ: "recovery:read",
+  RECOVERY_MANAGE: "recovery:manage",
+  CLUSTER_READ: "cluster:read",
+  CLUSTER_MANAGE: "cluster:manage",
+  AUTH_READ: "auth:read",
+  AUTH_MANAGE: "auth:manage",
+  AUDIT_READ: "audit:read",
+} as const;
+
+const PROXY_ROUTE_PERMISSION_PREFIX = "proxy:route:";
+
+// Grants of the built-in roles, "*" matches any run of characters. Protected proxied paths
+// need an explicit "proxy:route:..." grant for every role but admin.
+export const BUILT_IN_ROLE_PERMISSIONS: Record<Role, string[]> = {
+  [Role.ADMIN]: ["*"],
+  [Role.READ_ONLY]: ["*:read"],
+  [Role.USER]: [],
+};
+
+const PERMISSION_PATTERN = /^(\*|[a-z*][a-z0-9_*-]*:[^\s]+)$/;
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,63}$/;
+
+export interface Principal {
+  role: Role;
+  apiKeyId?: string;
+  userId?: string;
+  // Grants carried by the token, e.g. mapped from OIDC claims
+  roles?: string[];
+  permissions?: string[];
+}
+
+export function proxyRoutePermission(path: string): string {
+  return `${PROXY_ROUTE_PERMISSION_PREFIX}${path}`;
+}
+
+/**
+ * Whether a granted permission (possibly with "*" wildcards) covers a required one
+ */
+export function matchesPermission(granted: string, required: string): boolean {
+  if (granted === "*" || granted === required) return true;
+  if (!granted.includes("*")) return false;
+
+  const pattern = granted
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`).test(required);
+}
+
+export function hasPermission(granted: string[], required: string): boolean {
+  return granted.some((permission) => matchesPermission(permission, required));
+}
+
+export function isValidPermission(permission: string): boolean {
+  return PERMISSION_PATTERN.test(permission);
+}
+
+export function isValidRoleName(name: string): boolean {
+  return ROLE_NAME_PATTERN.test(name) && !isBuiltInRole(name);
+}
+
+export function isBuiltInRole(name: string): name is Role {
+  return (Object.values(Role) as string[]).includes(name);
+}
+
+export function findCustomRole(auth: AuthConfig, name: string): CustomRole | undefined {
+  return auth.roles?.find((role) => role.name === name);
+}
+
+/**
+ * Effective permissions of a token: its built-in role, the custom roles and the direct
+ * permissions of the API key or user it was issued for, plus any grants it carries itself
+ */
+export function resolvePermissions(auth: AuthConfig, principal: Principal): string[] {
+  const account = principal.apiKeyId
+    ? auth.apiKeys.find((key) => key.id === principal.apiKeyId)
+    : principal.userId
+      ? auth.users.find((user) => user.id === principal.userId)
+      : undefined;
+
+  const permissions = new Set(BUILT_IN_ROLE_PERMISSIONS[principal.role] ?? []);
+  for (const permission of [...(account?.permissions ?? []), ...(principal.permissions ?? [])]) {
+    permissions.add(permission);
+  }
+  for (const roleName of [...(account?.roles ?? []), ...(principal.roles ?? [])]) {
+    for (const permission of findCustomRole(auth, roleName)?.permissions ?? []) {
+      permissions.add(permission);
+    }
+  }
+
+  return [...permissions];
+}
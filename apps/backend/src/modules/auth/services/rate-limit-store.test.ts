@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CounterRequest, MemoryRateLimitStore, RedisRateLimitStore } from "./rate-limit-store.js";
+
+const request = (overrides: Partial<CounterRequest>): CounterRequest => ({
+  key: "client",
+  algorithm: "sliding-window",
+  limit: 10,
+  windowMs: 1000,
+  cost: 1,
+  now: 0,
+  ...overrides,
+});
+
+test("token buckets refill in proportion to the elapsed time", async (t) => {
+  const store = new MemoryRateLimitStore();
+  t.after(() => store.close());
+  const consume = (now: number, cost = 1) =>
+    store.consume(request({ algorithm: "token-bucket", now, cost }));
+
+  assert.equal((await consume(0, 10)).remaining, 0);
+  const denied = await consume(0);
+  assert.ok(!denied.allowed);
+  assert.equal(denied.retryAfterMs, 100);
+
+  // Half a window refills half the bucket
+  assert.equal((await consume(500, 0)).remaining, 5);
+  assert.ok((await consume(500, 5)).allowed);
+  assert.ok(!(await consume(500)).allowed);
+});
+
+test("sliding windows weigh the previous window by its overlap", async (t) => {
+  const store = new MemoryRateLimitStore();
+  t.after(() => store.close());
+  const consume = (now: number, algorithm: CounterRequest["algorithm"] = "sliding-window") =>
+    store.consume(request({ key: algorithm, algorithm, now, cost: 8 }));
+
+  assert.ok((await consume(900)).allowed);
+  // 80% of the previous window still overlaps: 8 * 0.8 + 8 > 10
+  const denied = await consume(1200);
+  assert.ok(!denied.allowed);
+  assert.equal(denied.retryAfterMs, 800);
+  assert.ok((await consume(1900)).allowed);
+
+  // Fixed windows start over at the window boundary
+  assert.ok((await consume(900, "fixed-window")).allowed);
+  assert.ok((await consume(1200, "fixed-window")).allowed);
+  assert.ok(!(await consume(1300, "fixed-window")).allowed);
+});
+
+test("resetting a Redis counter scans for its window keys instead of using KEYS", async () => {
+  const keys = new Set([
+    "app:ratelimit:client",
+    "app:ratelimit:client:41",
+    "app:ratelimit:client:42",
+    "app:ratelimit:other:42",
+  ]);
+  const commands: string[] = [];
+  const redis = {
+    options: { keyPrefix: "app:" },
+    keys: async () => assert.fail("KEYS blocks Redis"),
+    del: async (...names: string[]) => {
+      commands.push(`DEL ${names.join(" ")}`);
+      names.forEach((name) => keys.delete(`app:${name}`));
+    },
+    // Returns one match per call to walk the cursor
+    scan: async (cursor: string, _match: string, pattern: string) => {
+      const prefix = pattern.slice(0, -1);
+      const matches = [...keys].filter((name) => name.startsWith(prefix));
+      const next = matches.length > 1 ? String(Number(cursor) + 1) : "0";
+      return [next, matches.slice(0, 1)];
+    },
+  };
+
+  await new RedisRateLimitStore(redis, "ratelimit:").reset("client");
+
+  assert.deepEqual([...keys], ["app:ratelimit:other:42"]);
+  assert.deepEqual(commands, [
+    "DEL ratelimit:client",
+    "DEL ratelimit:client:41",
+    "DEL ratelimit:client:42",
+  ]);
+});
@@ -0,0 +1,278 @@
+import { RateLimitAlgorithm } from "@/types/index.js";
+
+const SWEEP_INTERVAL_MS = 60000;
+const SCAN_COUNT = 100;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // Until the window ends or the bucket is full again
+  retryAfterMs: number; // Until the request would be allowed, 0 when allowed
+}
+
+export type CounterAlgorithm = RateLimitAlgorithm | "fixed-window";
+
+export interface CounterRequest {
+  key: string;
+  algorithm: CounterAlgorithm;
+  limit: number;
+  windowMs: number;
+  cost: number; // 0 reads the state without consuming
+  now: number;
+  windowOrigin?: number; // Fixed windows start here instead of at multiples of windowMs
+}
+
+/**
+ * Storage for rate limit counters, shared by every rule and quota
+ */
+export interface RateLimitStore {
+  consume(request: CounterRequest): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface CounterState {
+  a: number; // Window index, or the bucket token count
+  b: number; // Requests in the current window, or the last refill time
+  c: number; // Requests in the previous window (sliding window only)
+  expiresAt: number;
+}
+
+/**
+ * Counters in process memory, limits apply per node
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, CounterState> = new Map();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor() {
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  async consume(request: CounterRequest): Promise<RateLimitResult> {
+    const { key, algorithm, limit, windowMs, cost, now } = request;
+    const origin = request.windowOrigin ?? 0;
+    const state = this.counters.get(key);
+
+    let next: CounterState;
+    let result: RateLimitResult;
+
+    if (algorithm === "token-bucket") {
+      const ratePerMs = limit / windowMs;
+      const tokens = state
+        ? Math.min(limit, state.a + (now - state.b) * ratePerMs)
+        : limit;
+      const allowed = tokens >= cost;
+      const left = allowed ? tokens - cost : tokens;
+
+      next = { a: left, b: now, c: 0, expiresAt: now + windowMs };
+      result = {
+        allowed,
+        limit,
+        remaining: Math.floor(left),
+        resetMs: Math.ceil((limit - left) / ratePerMs),
+        retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / ratePerMs),
+      };
+    } else {
+      const window = Math.floor((now - origin) / windowMs);
+      const windowStart = origin + window * windowMs;
+      let current = 0;
+      let previous = 0;
+
+      if (state?.a === window) {
+        current = state.b;
+        previous = state.c;
+      } else if (state?.a === window - 1) {
+        previous = state.b;
+      }
+
+      // Sliding window: the previous window counts in proportion to its remaining overlap
+      const elapsed = now - windowStart;
+      const weight = algorithm === "sliding-window" ? 1 - elapsed / windowMs : 0;
+      const used = previous * weight + current;
+      const allowed = used + cost <= limit;
+
+      next = {
+        a: window,
+        b: allowed ? current + cost : current,
+        c: previous,
+        expiresAt: windowStart + 2 * windowMs,
+      };
+      result = {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - used - (allowed ? cost : 0))),
+        resetMs: windowStart + windowMs - now,
+        retryAfterMs: allowed ? 0 : windowStart + windowMs - now,
+      };
+    }
+
+    if (cost > 0 || state) {
+      this.counters.set(key, next);
+    }
+    return result;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.counters.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, state] of this.counters) {
+      if (state.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+// Same arithmetic as MemoryRateLimitStore, run atomically inside Redis
+const TOKEN_BUCKET_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local rate = limit / window
+local state = redis.call("HMGET", KEYS[1], "tokens", "updated")
+local tokens = limit
+if state[1] then
+  tokens = math.min(limit, tonumber(state[1]) + (now - tonumber(state[2])) * rate)
+end
+local allowed = 0
+local left = tokens
+if tokens >= cost then
+  allowed = 1
+  left = tokens - cost
+end
+if cost > 0 or state[1] then
+  redis.call("HSET", KEYS[1], "tokens", tostring(left), "updated", tostring(now))
+  redis.call("PEXPIRE", KEYS[1], window)
+end
+return { allowed, tostring(left), tostring(tokens) }
+`;
+
+const WINDOW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local sliding = ARGV[5] == "1"
+local origin = tonumber(ARGV[6])
+local index = math.floor((now - origin) / window)
+local current = tonumber(redis.call("GET", KEYS[1] .. ":" .. index) or "0")
+local previous = 0
+if sliding then
+  previous = tonumber(redis.call("GET", KEYS[1] .. ":" .. (index - 1)) or "0")
+end
+local weight = 0
+if sliding then
+  weight = 1 - (now - origin - index * window) / window
+end
+local used = previous * weight + current
+local allowed = 0
+if used + cost <= limit then
+  allowed = 1
+  if cost > 0 then
+    redis.call("INCRBY", KEYS[1] .. ":" .. index, cost)
+    redis.call("PEXPIRE", KEYS[1] .. ":" .. index, window * 2)
+  end
+end
+return { allowed, tostring(used), tostring(index) }
+`;
+
+/**
+ * Counters in Redis so every cluster node enforces the same limits
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: any;
+  private prefix: string;
+
+  constructor(redis: any, prefix: string = "ratelimit:") {
+    this.redis = redis;
+    this.prefix = prefix;
+  }
+
+  async consume(request: CounterRequest): Promise<RateLimitResult> {
+    const { key, algorithm, limit, windowMs, cost, now } = request;
+    const origin = request.windowOrigin ?? 0;
+
+    if (algorithm === "token-bucket") {
+      const [allowed, leftRaw, tokensRaw] = await this.redis.eval(
+        TOKEN_BUCKET_SCRIPT,
+        1,
+        `${this.prefix}${key}`,
+        limit,
+        windowMs,
+        cost,
+        now
+      );
+      const left = Number(leftRaw);
+      const ratePerMs = limit / windowMs;
+
+      return {
+        allowed: allowed === 1,
+        limit,
+        remaining: Math.floor(left),
+        resetMs: Math.ceil((limit - left) / ratePerMs),
+        retryAfterMs: allowed === 1 ? 0 : Math.ceil((cost - Number(tokensRaw)) / ratePerMs),
+      };
+    }
+
+    const [allowed, usedRaw, indexRaw] = await this.redis.eval(
+      WINDOW_SCRIPT,
+      1,
+      `${this.prefix}${key}`,
+      limit,
+      windowMs,
+      cost,
+      now,
+      algorithm === "sliding-window" ? "1" : "0",
+      origin
+    );
+    const used = Number(usedRaw);
+    const windowEnd = origin + (Number(indexRaw) + 1) * windowMs;
+
+    return {
+      allowed: allowed === 1,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - used - (allowed === 1 ? cost : 0))),
+      resetMs: windowEnd - now,
+      retryAfterMs: allowed === 1 ? 0 : windowEnd - now,
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    const counterKey = `${this.prefix}${key}`;
+    await this.redis.del(counterKey);
+
+    // Window counters are stored per window index. SCAN walks the keyspace in batches instead
+    // of blocking Redis like KEYS, and returns the keys with the client prefix.
+    const keyPrefix: string = this.redis.options?.keyPrefix ?? "";
+    let cursor = "0";
+    do {
+      const [next, matches]: [string, string[]] = await this.redis.scan(
+        cursor,
+        "MATCH",
+        `${keyPrefix}${counterKey}:*`,
+        "COUNT",
+        SCAN_COUNT
+      );
+      if (matches.length > 0) {
+        await this.redis.del(...matches.map((match) => match.slice(keyPrefix.length)));
+      }
+      cursor = next;
+    } while (cursor !== "0");
+  }
+
+  async close(): Promise<void> {
+    // The connection belongs to the cache service
+  }
+}
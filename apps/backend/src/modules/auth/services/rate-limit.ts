@@ -0,0 +1,290 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { ApiKey, ApiKeyQuota, QuotaPeriod, RateLimitRule } from "@/types/index.js";
+import {
+  MemoryRateLimitStore,
+  RateLimitResult,
+  RateLimitStore,
+  RedisRateLimitStore,
+} from "./rate-limit-store.js";
+import { resolveRequestPath } from "@/utils/request.js";
+
+const PERIOD_MS: Record<Exclude<QuotaPeriod, "month">, number> = {
+  minute: 60000,
+  hour: 3600000,
+  day: 86400000,
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  code?: "RATE_LIMITED" | "QUOTA_EXCEEDED";
+  policy: string; // Rule or quota the headers describe
+  windowMs: number;
+  result: RateLimitResult;
+}
+
+export interface QuotaUsage {
+  keyId: string;
+  quota: ApiKeyQuota;
+  used: number;
+  remaining: number;
+  periodStart: string;
+  resetsAt: string;
+}
+
+interface ClientIdentity {
+  apiKeyId?: string;
+  userId?: string;
+}
+
+interface Check {
+  policy: string;
+  code: RateLimitDecision["code"];
+  windowMs: number;
+  result: RateLimitResult;
+}
+
+export class RateLimitService {
+  private app: FastifyInstance;
+  private memoryStore = new MemoryRateLimitStore();
+  private redisStore: RedisRateLimitStore | null = null;
+
+  constructor(app: FastifyInstance) {
+    this.app = app;
+  }
+
+  isEnabled(): boolean {
+    return this.app.config.rateLimit?.enabled === true;
+  }
+
+  getRules(): RateLimitRule[] {
+    return (this.app.config.rateLimit?.rules ?? []).filter((rule) => rule.enabled !== false);
+  }
+
+  /**
+   * Count a request against every matching rule and the caller's API key quota.
+   * Returns null when no limit applies; otherwise the rejecting check, or the one with the
+   * fewest requests left
+   */
+  async check(request: FastifyRequest): Promise<RateLimitDecision | null> {
+    if (!this.isEnabled()) return null;
+
+    // Matched decoded like the proxy forwards it, paths it refuses count against every rule
+    let path: string | null;
+    try {
+      path = resolveRequestPath(request.url);
+    } catch {
+      path = null;
+    }
+    const now = Date.now();
+    let identity: ClientIdentity | undefined;
+    let tightest: Check | null = null;
+
+    for (const rule of this.getRules()) {
+      if (rule.pathPrefix && path !== null && !path.startsWith(rule.pathPrefix)) continue;
+      if (rule.methods && !rule.methods.includes(request.method)) continue;
+
+      if ((rule.scope === "apiKey" || rule.scope === "user") && !identity) {
+        identity = this.resolveIdentity(request);
+      }
+      const subject = this.getSubject(rule, request, identity);
+      if (subject === null) continue;
+
+      const result = await this.consume({
+        key: `rule:${rule.id}:${subject}`,
+        algorithm: rule.algorithm ?? "sliding-window",
+        limit: rule.limit,
+        windowMs: rule.windowMs,
+        cost: 1,
+        now,
+      });
+      const check: Check = {
+        policy: rule.id,
+        code: "RATE_LIMITED",
+        windowMs: rule.windowMs,
+        result,
+      };
+
+      if (!result.allowed) return this.toDecision(check);
+      if (!tightest || result.remaining < tightest.result.remaining) tightest = check;
+    }
+
+    identity ??= this.resolveIdentity(request);
+    const apiKey = identity.apiKeyId ? this.findApiKey(identity.apiKeyId) : undefined;
+    if (apiKey?.quota) {
+      const bounds = getQuotaPeriod(apiKey.quota.period, now);
+      const result = await this.consume({
+        key: quotaKey(apiKey.id, bounds.start),
+        algorithm: "fixed-window",
+        limit: apiKey.quota.limit,
+        windowMs: bounds.end - bounds.start,
+        windowOrigin: bounds.start,
+        cost: 1,
+        now,
+      });
+      const check: Check = {
+        policy: `quota:${apiKey.quota.period}`,
+        code: "QUOTA_EXCEEDED",
+        windowMs: bounds.end - bounds.start,
+        result,
+      };
+
+      if (!result.allowed) return this.toDecision(check);
+      if (!tightest || result.remaining < tightest.result.remaining) tightest = check;
+    }
+
+    return tightest ? this.toDecision(tightest) : null;
+  }
+
+  /**
+   * Current period usage of an API key quota, null when the key has no quota
+   */
+  async getQuotaUsage(keyId: string): Promise<QuotaUsage | null> {
+    const apiKey = this.findApiKey(keyId);
+    if (!apiKey?.quota) return null;
+
+    const now = Date.now();
+    const bounds = getQuotaPeriod(apiKey.quota.period, now);
+    const result = await this.consume({
+      key: quotaKey(apiKey.id, bounds.start),
+      algorithm: "fixed-window",
+      limit: apiKey.quota.limit,
+      windowMs: bounds.end - bounds.start,
+      windowOrigin: bounds.start,
+      cost: 0,
+      now,
+    });
+
+    return {
+      keyId: apiKey.id,
+      quota: apiKey.quota,
+      used: apiKey.quota.limit - result.remaining,
+      remaining: result.remaining,
+      periodStart: new Date(bounds.start).toISOString(),
+      resetsAt: new Date(bounds.end).toISOString(),
+    };
+  }
+
+  /**
+   * Forget the usage of an API key in the current quota period
+   */
+  async resetQuota(keyId: string): Promise<void> {
+    const apiKey = this.findApiKey(keyId);
+    if (!apiKey?.quota) return;
+
+    const bounds = getQuotaPeriod(apiKey.quota.period, Date.now());
+    const key = quotaKey(apiKey.id, bounds.start);
+    await this.memoryStore.reset(key);
+
+    const redisStore = this.getRedisStore();
+    if (redisStore) {
+      await redisStore.reset(key);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.memoryStore.close();
+  }
+
+  private async consume(
+    request: Parameters<RateLimitStore["consume"]>[0]
+  ): Promise<RateLimitResult> {
+    const redisStore = this.getRedisStore();
+    if (redisStore) {
+      try {
+        return await redisStore.consume(request);
+      } catch (error) {
+        // Keep limiting on this node rather than letting every request through
+        this.app.log.warn({ error, key: request.key }, "Rate limit store unavailable, using memory");
+      }
+    }
+    return this.memoryStore.consume(request);
+  }
+
+  private getRedisStore(): RedisRateLimitStore | null {
+    if (this.app.config.rateLimit?.store !== "redis") return null;
+
+    const client = this.app.cache.getRedisClient();
+    if (!client) return null;
+
+    if (!this.redisStore) {
+      this.redisStore = new RedisRateLimitStore(client);
+    }
+    return this.redisStore;
+  }
+
+  private getSubject(
+    rule: RateLimitRule,
+    request: FastifyRequest,
+    identity: ClientIdentity | undefined
+  ): string | null {
+    switch (rule.scope) {
+      case "ip":
+        return `ip:${request.ip}`;
+      case "apiKey":
+        return identity?.apiKeyId ? `key:${identity.apiKeyId}` : null;
+      case "user":
+        return identity?.userId ? `user:${identity.userId}` : null;
+      case "route":
+        return "route";
+      default:
+        return null;
+    }
+  }
+
+  // Same token sources as the auth middleware; invalid tokens are left for it to reject
+  private resolveIdentity(request: FastifyRequest): ClientIdentity {
+    const authService = this.app.authService;
+    if (!authService) return {};
+
+    const token =
+      request.headers.authorization?.replace("Bearer ", "") ||
+      (request.headers["x-api-key"] as string) ||
+      (request.headers["x-access-token"] as string);
+    if (!token) return {};
+
+    const payload = authService.verifyToken(token);
+    if (payload) return { apiKeyId: payload.apiKeyId, userId: payload.userId };
+
+    // Plain API keys rather than JWTs
+    const match =
+      token.split(".").length !== 3
+        ? authService.findApiKey(token, this.app.config.auth?.apiKeys ?? [])
+        : null;
+    return match ? { apiKeyId: match.apiKey.id } : {};
+  }
+
+  private findApiKey(keyId: string): ApiKey | undefined {
+    return this.app.config.auth?.apiKeys.find((key) => key.id === keyId);
+  }
+
+  private toDecision(check: Check): RateLimitDecision {
+    return {
+      allowed: check.result.allowed,
+      code: check.result.allowed ? undefined : check.code,
+      policy: check.policy,
+      windowMs: check.windowMs,
+      result: check.result,
+    };
+  }
+}
+
+function quotaKey(keyId: string, periodStart: number): string {
+  return `quota:${keyId}:${periodStart}`;
+}
+
+/**
+ * Calendar period containing `now`, in UTC
+ */
+export function getQuotaPeriod(period: QuotaPeriod, now: number): { start: number; end: number } {
+  if (period === "month") {
+    const date = new Date(now);
+    return {
+      start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+      end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+    };
+  }
+
+  const length = PERIOD_MS[period];
+  const start = Math.floor(now / length) * length;
+  return { start, end: start + length };
+}
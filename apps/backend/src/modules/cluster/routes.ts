@@ -5,6 +5,8 @@ import {
   NodeStatus,
   NodeRole,
 } from "./types.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
 
 // JSON Schema definitions for request validation
 const nodeRegistrationSchema = {
@@ -66,6 +68,8 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   }>(
     "/register",
     {
+      // Node-to-node traffic, not an administrative action
+      config: { audit: false },
       schema: {
         body: nodeRegistrationSchema,
         response: {
@@ -140,6 +144,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   }>(
     "/heartbeat/:nodeId",
     {
+      config: { audit: false },
       schema: {
         params: {
           type: "object",
@@ -211,9 +216,16 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   );
 
   // GET /cluster/nodes - List of all registered nodes
-  fastify.get(
+  fastify.get<{
+    Querystring: {
+      clusterId?: string;
+      status?: NodeStatus;
+      role?: NodeRole;
+    };
+  }>(
     "/nodes",
     {
+      preHandler: requirePermission(PERMISSIONS.CLUSTER_READ),
       schema: {
         querystring: {
           type: "object",
@@ -261,16 +273,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
         },
       },
     },
-    async (
-      request: FastifyRequest<{
-        Querystring: {
-          clusterId?: string;
-          status?: NodeStatus;
-          role?: NodeRole;
-        };
-      }>,
-      reply: FastifyReply
-    ) => {
+    async (request, reply) => {
       try {
         if (!fastify.cluster) {
           return reply.status(503).send({
@@ -319,6 +322,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   }>(
     "/nodes/:nodeId",
     {
+      preHandler: requirePermission(PERMISSIONS.CLUSTER_READ),
       schema: {
         params: {
           type: "object",
@@ -403,6 +407,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   }>(
     "/nodes/:nodeId/enable",
     {
+      preHandler: requirePermission(PERMISSIONS.CLUSTER_MANAGE),
       schema: {
         params: {
           type: "object",
@@ -442,10 +447,16 @@ export async function clusterRoutes(fastify: FastifyInstance) {
           });
         }
 
+        const node = await fastify.cluster.getNode(request.params.nodeId);
         await fastify.cluster.updateNodeStatus(
           request.params.nodeId,
           NodeStatus.ACTIVE
         );
+        request.audit = {
+          target: request.params.nodeId,
+          before: { status: node?.status },
+          after: { status: NodeStatus.ACTIVE },
+        };
 
         fastify.log.info(
           `Node ${request.params.nodeId} enabled by ${request.ip}`
@@ -478,6 +489,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   }>(
     "/nodes/:nodeId/disable",
     {
+      preHandler: requirePermission(PERMISSIONS.CLUSTER_MANAGE),
       schema: {
         params: {
           type: "object",
@@ -516,10 +528,16 @@ export async function clusterRoutes(fastify: FastifyInstance) {
           });
         }
 
+        const node = await fastify.cluster.getNode(request.params.nodeId);
         await fastify.cluster.updateNodeStatus(
           request.params.nodeId,
           NodeStatus.DISABLED
         );
+        request.audit = {
+          target: request.params.nodeId,
+          before: { status: node?.status },
+          after: { status: NodeStatus.DISABLED },
+        };
 
         fastify.log.info(
           `Node ${request.params.nodeId} disabled by ${request.ip}`
@@ -552,6 +570,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   }>(
     "/nodes/:nodeId",
     {
+      preHandler: requirePermission(PERMISSIONS.CLUSTER_MANAGE),
       schema: {
         params: {
           type: "object",
@@ -600,6 +619,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
         }
 
         await fastify.cluster.removeNode(request.params.nodeId);
+        request.audit = { target: request.params.nodeId, before: node, after: null };
 
         fastify.log.info(
           `Node ${request.params.nodeId} removed by ${request.ip}`
@@ -698,6 +718,7 @@ export async function clusterRoutes(fastify: FastifyInstance) {
   fastify.get(
     "/status",
     {
+      preHandler: requirePermission(PERMISSIONS.CLUSTER_READ),
       schema: {
         response: {
           200: {
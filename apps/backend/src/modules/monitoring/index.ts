@@ -1,5 +1,7 @@
 // Monitoring Module - Logging, metrics, and health checks
 export { MetricsService } from './services/metrics.js';
 export { RequestLoggerService } from './services/request-logger.js';
+export { AuditLogService } from './services/audit-log.js';
 export { healthRoutes, healthManagementRoutes } from './routes/health.js';
-export { metricsRoutes } from './routes/metrics.js'; 
\ No newline at end of file
+export { metricsRoutes } from './routes/metrics.js';
+export { auditRoutes } from './routes/audit.js'; 
\ No newline at end of file
@@ -0,0 +1,129 @@
+import type { FastifyInstance } from "fastify";
+import {
+  AuditExportFormat,
+  AuditFilters,
+  AuditOutcome,
+  formatAuditExport,
+} from "../services/audit-log.js";
+import { ProxyError } from "@/types/errors.js";
+import { createErrorResponse } from "@/utils/response.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
+
+interface AuditQuery {
+  actor?: string;
+  action?: string;
+  target?: string;
+  outcome?: string;
+  method?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  limit?: string;
+  offset?: string;
+}
+
+interface AuditExportQuery extends AuditQuery {
+  format?: string;
+}
+
+const OUTCOMES: AuditOutcome[] = ["success", "failure", "denied"];
+const EXPORT_FORMATS: AuditExportFormat[] = ["json", "ndjson", "csv"];
+const EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+export async function auditRoutes(fastify: FastifyInstance) {
+  const handleRouteError = (error: unknown, reply: any, operation: string) => {
+    if (error instanceof ProxyError && error.statusCode < 500) {
+      reply.status(error.statusCode);
+      return { error: error.message, code: error.code, details: error.context };
+    }
+
+    fastify.log.error(`Audit log route error [${operation}]:`, error);
+    reply.status(500);
+    return createErrorResponse(error);
+  };
+
+  // GET /audit - Query the audit log, newest first
+  fastify.get<{ Querystring: AuditQuery }>(
+    "/audit",
+    { preHandler: requirePermission(PERMISSIONS.AUDIT_READ) },
+    async (request, reply) => {
+      try {
+        const filters = parseAuditFilters(request.query, 50, 1000);
+        const { entries, total } = await fastify.audit.query(filters);
+
+        return {
+          enabled: fastify.audit.isEnabled(),
+          entries,
+          pagination: {
+            limit: filters.limit,
+            offset: filters.offset ?? 0,
+            count: entries.length,
+            total,
+          },
+          filters,
+        };
+      } catch (error) {
+        return handleRouteError(error, reply, "query-audit");
+      }
+    }
+  );
+
+  // GET /audit/export - Download the audit log as JSON, NDJSON or CSV
+  fastify.get<{ Querystring: AuditExportQuery }>(
+    "/audit/export",
+    { preHandler: requirePermission(PERMISSIONS.AUDIT_READ) },
+    async (request, reply) => {
+      try {
+        const format = (request.query.format ?? "json").toLowerCase() as AuditExportFormat;
+        if (!EXPORT_FORMATS.includes(format)) {
+          reply.status(400);
+          return { error: `Unsupported export format, use one of: ${EXPORT_FORMATS.join(", ")}` };
+        }
+
+        const filters = parseAuditFilters(request.query, 10000, 100000);
+        const { entries } = await fastify.audit.query(filters);
+        const filename = `audit-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+
+        reply.header("Content-Type", EXPORT_CONTENT_TYPES[format]);
+        reply.header("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+        return formatAuditExport(entries, format);
+      } catch (error) {
+        return handleRouteError(error, reply, "export-audit");
+      }
+    }
+  );
+}
+
+function parseAuditFilters(
+  query: AuditQuery,
+  defaultLimit: number,
+  maxLimit: number
+): AuditFilters {
+  const limit = Number(query.limit);
+  const offset = Number(query.offset);
+  const outcome = query.outcome as AuditOutcome | undefined;
+
+  return {
+    actor: query.actor || undefined,
+    action: query.action || undefined,
+    target: query.target || undefined,
+    outcome: outcome && OUTCOMES.includes(outcome) ? outcome : undefined,
+    method: query.method || undefined,
+    dateFrom: parseDate(query.dateFrom),
+    dateTo: parseDate(query.dateTo),
+    limit: limit > 0 ? Math.min(limit, maxLimit) : defaultLimit,
+    offset: offset > 0 ? offset : undefined,
+  };
+}
+
+// Accepts anything Date understands, compared against ISO timestamps
+function parseDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -132,26 +132,45 @@ export async function healthManagementRoutes(fastify: FastifyInstance) {
   // Backend status endpoint for UI
   fastify.get("/health/backend", async (request, reply) => {
     const status = await healthService.getHealthStatus();
+    const upstreams = fastify.routingTable.getPoolStatus();
 
-    // Mock backend status for now - in a real cluster setup, this would check actual backend nodes
     const backends = [
       {
         host: `${fastify.config.host}:${fastify.config.port}`,
         status: status.status === "ok" ? "online" : "offline",
-        responseTime: Math.floor(Math.random() * 100) + 10, // Mock response time
+        responseTime: status.responseTime,
         lastCheck: Date.now(),
         metadata: {
           version: "1.0.0", // Mock version
           environment: process.env.NODE_ENV || "development",
         },
       },
+      // Upstream pool members, health comes from active probes and passive failure counting
+      ...upstreams.flatMap((pool) =>
+        pool.members.map((member) => ({
+          host: member.url,
+          status: member.healthy ? "online" : "offline",
+          responseTime: member.lastResponseTime,
+          lastCheck: member.lastCheck ? Date.parse(member.lastCheck) : undefined,
+          metadata: {
+            upstream: pool.upstream,
+            strategy: pool.strategy,
+            weight: member.weight,
+            activeConnections: member.activeConnections,
+            consecutiveFailures: member.consecutiveFailures,
+            ejectedUntil: member.ejectedUntil,
+            lastError: member.lastError,
+          },
+        }))
+      ),
     ];
 
     return {
       backends,
       totalBackends: backends.length,
       onlineBackends: backends.filter((b) => b.status === "online").length,
-      mode: "single", // This would be configurable in a real cluster setup
+      mode: upstreams.some((pool) => pool.totalMembers > 1) ? "pool" : "single",
+      upstreams,
     };
   });
 
@@ -185,7 +204,7 @@ export async function healthManagementRoutes(fastify: FastifyInstance) {
   });
 
   // Test cache rule matching endpoint
-  fastify.post("/cache/test-rule", async (request, reply) => {
+  fastify.post("/cache/test-rule", { config: { audit: false } }, async (request, reply) => {
     const { method = "GET", url = "", headers = {} } = request.body as any;
     const cacheKey = fastify.cache.generateKey(method, url, headers);
 
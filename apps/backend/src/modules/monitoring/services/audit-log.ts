@@ -0,0 +1,340 @@
+import type { FastifyInstance } from "fastify";
+import { DatabaseError } from "@/types/errors.js";
+import { AuditConfig } from "@/types/index.js";
+import { StorageFactory } from "@/database/storage-factory.js";
+import { StorageAdapter } from "@/database/types.js";
+
+// Serialized before/after states larger than this are replaced by a marker, the diff is kept
+const MAX_STATE_SIZE = 20000;
+// Never stored, even when a route hands over an object that contains them
+const SENSITIVE_FIELD = /password|secret|token|keyhash|key_hash|^key$/i;
+
+export type AuditOutcome = "success" | "failure" | "denied";
+
+export interface AuditActor {
+  id?: string; // User id, API key id or "oidc:<subject>"
+  name?: string; // Username or API key name
+  role?: string;
+  authenticated: boolean;
+}
+
+export interface AuditChange {
+  path: string; // Dotted path of the changed field, "" when the whole value changed
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+  action: string; // "<METHOD> <route>", e.g. "DELETE /api/cache/clear"
+  method: string;
+  path: string;
+  target?: string;
+  before?: unknown;
+  after?: unknown;
+  changes?: AuditChange[];
+  sourceIp: string;
+  userAgent?: string;
+  outcome: AuditOutcome;
+  statusCode: number;
+  requestId: string;
+  error?: string;
+}
+
+/**
+ * Set by route handlers on `request.audit` to describe what they changed
+ */
+export interface AuditContext {
+  target?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditFilters {
+  actor?: string; // Matches the actor id or name
+  action?: string; // Substring of the action
+  target?: string;
+  outcome?: AuditOutcome;
+  method?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type AuditExportFormat = "json" | "ndjson" | "csv";
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "actor_id",
+  "actor_name",
+  "actor_role",
+  "action",
+  "target",
+  "outcome",
+  "status_code",
+  "source_ip",
+  "changes",
+  "error",
+] as const;
+
+/**
+ * Who changed what through the admin API. Entries are written through the storage plugins
+ * and kept for the configured retention.
+ */
+export class AuditLogService {
+  private app: FastifyInstance;
+  private config: AuditConfig;
+  private storage: StorageAdapter<AuditEntry> | null = null;
+  private entryCounter: number = 0;
+
+  constructor(app: FastifyInstance, config: AuditConfig) {
+    this.app = app;
+    this.config = config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      await this.app.recovery.withRetry(
+        async () => {
+          this.storage = await StorageFactory.createStorageAdapter<AuditEntry>(
+            this.config.storage
+          );
+          await this.storage.initialize();
+        },
+        "database",
+        { operation: "audit-log-initialization" }
+      );
+    } catch (error) {
+      this.app.errorTracker.trackError(
+        error,
+        {
+          operation: "audit-log.initialize",
+          context: { storageConfig: this.config.storage },
+        },
+        ["critical"]
+      );
+      throw new DatabaseError(
+        "Failed to initialize audit log storage",
+        "STORAGE_INIT_ERROR",
+        500,
+        { storageConfig: this.config.storage }
+      );
+    }
+  }
+
+  /**
+   * Store an entry. Never throws, a failing audit store must not fail the admin request.
+   */
+  async record(entry: Omit<AuditEntry, "id" | "timestamp" | "changes">): Promise<void> {
+    if (!this.config.enabled || !this.storage) return;
+
+    const before = redact(entry.before);
+    const after = redact(entry.after);
+    const auditEntry: AuditEntry = {
+      ...entry,
+      id: this.generateEntryId(),
+      timestamp: new Date().toISOString(),
+      actor: { ...entry.actor, name: entry.actor.name ?? this.resolveActorName(entry.actor.id) },
+      before: limitSize(before),
+      after: limitSize(after),
+      changes:
+        before === undefined && after === undefined ? undefined : diffStates(before, after),
+    };
+
+    try {
+      await this.app.recovery.withRetry(
+        () =>
+          this.storage!.save(auditEntry.id, auditEntry, {
+            ttl: this.config.retentionDays * 24 * 60 * 60,
+            metadata: {
+              action: auditEntry.action,
+              outcome: auditEntry.outcome,
+              timestamp: auditEntry.timestamp,
+            },
+          }),
+        "database",
+        { operation: "audit-log.record" }
+      );
+    } catch (error) {
+      this.app.errorTracker.trackError(error, {
+        operation: "audit-log.record",
+        context: { action: entry.action, target: entry.target },
+      });
+    }
+  }
+
+  async query(filters: AuditFilters = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    if (!this.config.enabled || !this.storage) return { entries: [], total: 0 };
+
+    try {
+      return await this.app.recovery.withRetry(
+        async () => {
+          const entries = (await this.storage!.find({}))
+            .filter((entry) => matchesFilters(entry, filters))
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+          const offset = filters.offset ?? 0;
+          const end = filters.limit ? offset + filters.limit : undefined;
+          return { entries: entries.slice(offset, end), total: entries.length };
+        },
+        "database",
+        { operation: "audit-log.query" }
+      );
+    } catch (error) {
+      this.app.errorTracker.trackError(error, {
+        operation: "audit-log.query",
+        context: { filters },
+      });
+      throw new DatabaseError("Failed to query audit log", "STORAGE_QUERY_ERROR", 500);
+    }
+  }
+
+  /**
+   * Delete entries older than the retention, for storage plugins that do not expire entries
+   */
+  async cleanup(): Promise<number> {
+    if (!this.config.enabled || !this.storage) return 0;
+
+    const cutoff = new Date(
+      Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    try {
+      return await this.app.recovery.withRetry(
+        async () => {
+          const expired = (await this.storage!.find({})).filter(
+            (entry) => entry.timestamp < cutoff
+          );
+          return this.storage!.deleteBatch(expired.map((entry) => entry.id));
+        },
+        "database",
+        { operation: "audit-log.cleanup" }
+      );
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation: "audit-log.cleanup" });
+      throw new DatabaseError("Failed to clean up audit log", "STORAGE_CLEANUP_ERROR", 500);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.storage) return;
+
+    try {
+      await this.storage.close();
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation: "audit-log.close" });
+      // Don't throw - cleanup failures shouldn't affect shutdown
+    }
+  }
+
+  private resolveActorName(id: string | undefined): string | undefined {
+    const auth = this.app.config.auth;
+    if (!id || !auth) return undefined;
+
+    return (
+      auth.users.find((user) => user.id === id)?.username ??
+      auth.apiKeys.find((apiKey) => apiKey.id === id)?.name
+    );
+  }
+
+  private generateEntryId(): string {
+    this.entryCounter++;
+    return `audit_${Date.now()}_${this.entryCounter}`;
+  }
+}
+
+/**
+ * Render entries for download, CSV has one row per entry with the changes as JSON
+ */
+export function formatAuditExport(entries: AuditEntry[], format: AuditExportFormat): string {
+  if (format === "ndjson") {
+    return entries.map((entry) => JSON.stringify(entry)).join("\n");
+  }
+  if (format === "json") {
+    return JSON.stringify({ entries, count: entries.length }, null, 2);
+  }
+
+  const rows = entries.map((entry) =>
+    [
+      entry.id,
+      entry.timestamp,
+      entry.actor.id,
+      entry.actor.name,
+      entry.actor.role,
+      entry.action,
+      entry.target,
+      entry.outcome,
+      entry.statusCode,
+      entry.sourceIp,
+      entry.changes ? JSON.stringify(entry.changes) : undefined,
+      entry.error,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+function matchesFilters(entry: AuditEntry, filters: AuditFilters): boolean {
+  if (filters.actor && entry.actor.id !== filters.actor && entry.actor.name !== filters.actor) {
+    return false;
+  }
+  if (filters.action && !entry.action.includes(filters.action)) return false;
+  if (filters.target && entry.target !== filters.target) return false;
+  if (filters.outcome && entry.outcome !== filters.outcome) return false;
+  if (filters.method && entry.method !== filters.method.toUpperCase()) return false;
+  if (filters.dateFrom && entry.timestamp < filters.dateFrom) return false;
+  if (filters.dateTo && entry.timestamp > filters.dateTo) return false;
+  return true;
+}
+
+/**
+ * Changed leaves between two states. Arrays are compared as a whole.
+ */
+export function diffStates(before: unknown, after: unknown, path = ""): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffStates(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, before, after }];
+}
+
+// JSON round trip, so later changes to live objects do not leak into the entry
+function redact(value: unknown): unknown {
+  if (value === undefined) return undefined;
+
+  return JSON.parse(
+    JSON.stringify(value, (key, field) =>
+      key && SENSITIVE_FIELD.test(key) ? "[REDACTED]" : field
+    )
+  );
+}
+
+function limitSize(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  return JSON.stringify(value).length > MAX_STATE_SIZE ? "[TRUNCATED]" : value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ValidationError } from "@/types/errors.js";
+import { harEntryResponse, harEntryToLoggedRequest, parseHar, requestsToHar } from "./har.js";
+import { LoggedRequest } from "./request-logger.js";
+
+const logged: LoggedRequest = {
+  id: "req-1",
+  timestamp: "2026-01-05T10:00:00.000Z",
+  method: "POST",
+  originalUrl: "/api/orders?expand=items",
+  targetUrl: "http://orders.test/orders?expand=items",
+  backendHost: "orders.test",
+  backendPath: "/orders",
+  statusCode: 201,
+  responseTime: 120,
+  dnsTiming: 5,
+  connectTiming: 10,
+  ttfbTiming: 80,
+  requestHeaders: JSON.stringify({ "content-type": "application/json" }),
+  responseHeaders: JSON.stringify({
+    "content-type": "application/json",
+    "content-encoding": "gzip",
+    location: "/orders/7",
+  }),
+  requestBody: JSON.stringify({ sku: "A-1" }),
+  responseBody: JSON.stringify({ id: 7 }),
+  queryParams: JSON.stringify({ expand: "items" }),
+  cacheHit: false,
+  cacheKey: "POST:/orders",
+  requestSize: 13,
+  responseSize: 8,
+  contentType: "application/json",
+  responseContentType: "application/json",
+};
+
+test("logged requests survive a HAR export and import", () => {
+  const har = requestsToHar([logged], { name: "proxy-stone", version: "test" });
+  const [entry] = parseHar(JSON.stringify(har));
+
+  assert.equal(har.log.version, "1.2");
+  assert.equal(entry.response.redirectURL, "/orders/7");
+  // DNS and connect come first, the rest after the first byte was spent receiving
+  assert.deepEqual(
+    [entry.timings.dns, entry.timings.connect, entry.timings.wait, entry.timings.receive],
+    [5, 10, 80, 25]
+  );
+
+  const imported = harEntryToLoggedRequest(entry);
+  for (const field of [
+    "id",
+    "timestamp",
+    "method",
+    "originalUrl",
+    "targetUrl",
+    "backendHost",
+    "backendPath",
+    "statusCode",
+    "responseTime",
+    "dnsTiming",
+    "connectTiming",
+    "ttfbTiming",
+    "requestBody",
+    "responseBody",
+    "queryParams",
+    "cacheKey",
+    "requestSize",
+    "responseSize",
+  ] as const) {
+    assert.deepEqual(imported[field], logged[field], field);
+  }
+  assert.deepEqual(JSON.parse(imported.responseHeaders), JSON.parse(logged.responseHeaders));
+});
+
+test("imported responses are decoded and lose their wire headers", () => {
+  const [entry] = parseHar(requestsToHar([logged], { name: "proxy-stone", version: "test" }));
+  const response = harEntryResponse(entry);
+  assert.deepEqual(response.data, { id: 7 });
+  assert.equal(response.headers["content-encoding"], undefined);
+
+  const binary = harEntryResponse({
+    ...entry,
+    response: {
+      ...entry.response,
+      headers: [{ name: "Content-Type", value: "image/png" }],
+      content: { size: 3, mimeType: "image/png", text: "AAEC", encoding: "base64" },
+    },
+  });
+  assert.deepEqual(binary.data, Buffer.from([0, 1, 2]));
+});
+
+test("documents without entries are refused and incomplete entries skipped", () => {
+  assert.throws(() => parseHar("{"), ValidationError);
+  assert.throws(() => parseHar({ log: {} }), ValidationError);
+  assert.deepEqual(
+    parseHar({ log: { entries: [{ request: { method: "GET" }, response: { status: 200 } }] } }),
+    []
+  );
+});
@@ -0,0 +1,304 @@
+import { STATUS_CODES } from "http";
+import { ValidationError } from "@/types/errors.js";
+import { LoggedRequest } from "./request-logger.js";
+
+const HAR_VERSION = "1.2";
+// Bodies are stored decoded, so headers describing the wire encoding no longer apply
+const WIRE_HEADERS = ["content-encoding", "content-length", "transfer-encoding", "connection"];
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, unknown>;
+  timings: HarTimings;
+  // Proxy specific fields, prefixed with "_" as the HAR spec allows
+  _id?: string;
+  _originalUrl?: string;
+  _cacheHit?: boolean;
+  _cacheKey?: string;
+  _error?: string;
+}
+
+export interface HarArchive {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages?: unknown[];
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Build a HAR 1.2 archive from logged requests
+ */
+export function requestsToHar(
+  requests: LoggedRequest[],
+  creator: { name: string; version: string }
+): HarArchive {
+  return {
+    log: {
+      version: HAR_VERSION,
+      creator,
+      entries: requests.map(toHarEntry),
+    },
+  };
+}
+
+/**
+ * Validate a HAR document (object or JSON string) and return its entries
+ */
+export function parseHar(input: unknown): HarEntry[] {
+  let har: any = input;
+  if (typeof har === "string") {
+    try {
+      har = JSON.parse(har);
+    } catch {
+      throw new ValidationError("HAR file must be valid JSON", "INVALID_HAR", 400);
+    }
+  }
+
+  if (!har?.log || !Array.isArray(har.log.entries)) {
+    throw new ValidationError("HAR file must contain log.entries", "INVALID_HAR", 400);
+  }
+
+  return har.log.entries.filter(
+    (entry: any) =>
+      typeof entry?.request?.method === "string" &&
+      typeof entry.request.url === "string" &&
+      typeof entry.response?.status === "number"
+  );
+}
+
+/**
+ * Convert a HAR entry back into a request log row
+ */
+export function harEntryToLoggedRequest(entry: HarEntry): LoggedRequest {
+  const url = parseUrl(entry.request.url);
+  const requestHeaders = fromHarHeaders(entry.request.headers);
+  const responseHeaders = fromHarHeaders(entry.response.headers);
+  const queryParams = fromHarHeaders(entry.request.queryString, false);
+  const timings = entry.timings ?? ({} as Partial<HarTimings>);
+  const responseText = entry.response.content?.encoding === "base64"
+    ? undefined
+    : entry.response.content?.text;
+
+  return {
+    id: entry._id,
+    timestamp: entry.startedDateTime ?? new Date().toISOString(),
+    method: entry.request.method.toUpperCase(),
+    originalUrl: entry._originalUrl ?? (url ? `${url.pathname}${url.search}` : entry.request.url),
+    targetUrl: entry.request.url,
+    backendHost: url?.host ?? "",
+    backendPath: url?.pathname ?? "",
+    statusCode: entry.response.status,
+    responseTime: Math.max(0, Math.round(entry.time ?? 0)),
+    dnsTiming: harTiming(timings.dns),
+    connectTiming: harTiming(timings.connect),
+    ttfbTiming: harTiming(timings.wait),
+    requestHeaders: JSON.stringify(requestHeaders),
+    responseHeaders: JSON.stringify(responseHeaders),
+    requestBody: toStoredBody(entry.request.postData?.text),
+    responseBody: toStoredBody(responseText),
+    queryParams: Object.keys(queryParams).length > 0 ? JSON.stringify(queryParams) : undefined,
+    cacheHit: entry._cacheHit ?? false,
+    cacheKey: entry._cacheKey,
+    userAgent: requestHeaders["user-agent"],
+    errorMessage: entry._error,
+    requestSize: entry.request.bodySize >= 0 ? entry.request.bodySize : undefined,
+    responseSize: entry.response.content?.size >= 0 ? entry.response.content.size : undefined,
+    contentType: requestHeaders["content-type"] ?? entry.request.postData?.mimeType,
+    responseContentType: responseHeaders["content-type"] ?? entry.response.content?.mimeType,
+  };
+}
+
+/**
+ * Decode the response of a HAR entry into the shape stored by the cache and snapshots
+ */
+export function harEntryResponse(entry: HarEntry): {
+  data: unknown;
+  headers: Record<string, string>;
+  status: number;
+} {
+  const headers = fromHarHeaders(entry.response.headers);
+  for (const name of WIRE_HEADERS) {
+    delete headers[name];
+  }
+
+  const content = entry.response.content ?? { size: 0, mimeType: "" };
+  const mimeType = headers["content-type"] ?? content.mimeType ?? "";
+  let data: unknown = content.text ?? "";
+
+  if (content.encoding === "base64") {
+    data = Buffer.from(content.text ?? "", "base64");
+  } else if (mimeType.includes("json")) {
+    try {
+      data = JSON.parse(content.text ?? "");
+    } catch {
+      // Keep malformed JSON as text
+    }
+  }
+
+  return { data, headers, status: entry.response.status };
+}
+
+function toHarEntry(request: LoggedRequest): HarEntry {
+  const requestHeaders = parseJsonObject(request.requestHeaders);
+  const responseHeaders = parseJsonObject(request.responseHeaders);
+  const queryParams = parseJsonObject(request.queryParams);
+  const requestText = fromStoredBody(request.requestBody);
+  const responseText = fromStoredBody(request.responseBody);
+
+  // Whatever is left after DNS, connect and time to first byte was spent receiving the body
+  const dns = request.dnsTiming ?? -1;
+  const connect = request.connectTiming ?? -1;
+  const afterConnect = Math.max(
+    0,
+    request.responseTime - Math.max(dns, 0) - Math.max(connect, 0)
+  );
+  const wait = request.ttfbTiming ?? afterConnect;
+  const receive = Math.max(0, afterConnect - wait);
+
+  return {
+    startedDateTime: request.timestamp,
+    time: request.responseTime,
+    request: {
+      method: request.method,
+      url: request.targetUrl || request.originalUrl,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: toHarHeaders(requestHeaders),
+      queryString: toHarHeaders(queryParams),
+      postData:
+        requestText !== undefined
+          ? { mimeType: request.contentType ?? "application/octet-stream", text: requestText }
+          : undefined,
+      headersSize: -1,
+      bodySize: request.requestSize ?? requestText?.length ?? 0,
+    },
+    response: {
+      status: request.statusCode,
+      statusText: STATUS_CODES[request.statusCode] ?? "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: toHarHeaders(responseHeaders),
+      content: {
+        size: request.responseSize ?? responseText?.length ?? 0,
+        mimeType: request.responseContentType ?? "",
+        text: responseText,
+      },
+      redirectURL: String(responseHeaders.location ?? ""),
+      headersSize: -1,
+      bodySize: request.responseSize ?? -1,
+    },
+    cache: {},
+    timings: { blocked: -1, dns, connect, ssl: -1, send: 0, wait, receive },
+    _id: request.id,
+    _originalUrl: request.originalUrl,
+    _cacheHit: request.cacheHit,
+    _cacheKey: request.cacheKey,
+    _error: request.errorMessage,
+  };
+}
+
+// Bodies are logged as JSON strings; plain text responses are unwrapped for readability
+function fromStoredBody(body: string | undefined): string | undefined {
+  if (body === undefined) return undefined;
+
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed === "string" ? parsed : body;
+  } catch {
+    return body; // Truncated bodies are no longer valid JSON
+  }
+}
+
+function toStoredBody(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+
+  try {
+    JSON.parse(text);
+    return text;
+  } catch {
+    return JSON.stringify(text);
+  }
+}
+
+function toHarHeaders(values: Record<string, unknown>): HarHeader[] {
+  return Object.entries(values).flatMap(([name, value]) =>
+    (Array.isArray(value) ? value : [value]).map((item) => ({ name, value: String(item) }))
+  );
+}
+
+function fromHarHeaders(
+  headers: HarHeader[] | undefined,
+  lowercase = true
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const header of headers ?? []) {
+    if (!header?.name) continue;
+    const name = lowercase ? header.name.toLowerCase() : header.name;
+    result[name] = result[name] ? `${result[name]}, ${header.value}` : String(header.value);
+  }
+  return result;
+}
+
+function parseJsonObject(value: string | undefined): Record<string, unknown> {
+  if (!value) return {};
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// HAR uses -1 for timings that do not apply
+function harTiming(value: number | undefined): number | undefined {
+  return typeof value === "number" && value >= 0 ? value : undefined;
+}
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
@@ -35,6 +35,7 @@ export class HealthService {
         memory: process.memoryUsage(),
         cpu: process.cpuUsage(),
         activeConnections: this.app.server.connections || 0,
+        streamingConnections: this.app.streamingConnections.getStats(),
       },
       responseTime: Date.now() - startTime,
     };
@@ -1,5 +1,10 @@
-import { Registry, Counter, Histogram, Gauge } from "prom-client";
+import { Registry, Counter, Histogram, Gauge, Metric } from "prom-client";
 import type { FastifyInstance } from "fastify";
+import type { UpstreamPoolStatus } from "@/modules/proxy/services/upstream-pool.js";
+import type { CircuitBreakerStatus } from "@/modules/recovery/services/circuit-breaker.js";
+
+// Numeric encoding of breaker states for the proxy_circuit_breaker_state gauge
+const CIRCUIT_STATE_VALUES = { closed: 0, "half-open": 1, open: 2 };
 
 export class MetricsService {
   private registry: Registry;
@@ -8,9 +13,22 @@ export class MetricsService {
   private errorCounter: Counter;
   private cacheHitCounter: Counter;
   private cacheMissCounter: Counter;
+  private staleFallbackCounter: Counter;
   private activeConnections: Gauge;
+  private streamingConnectionDuration: Histogram;
+  private streamingBytes: Counter;
   private memoryUsage: Gauge;
   private cpuUsage: Gauge;
+  private upstreamMemberHealthy: Gauge;
+  private upstreamMemberConnections: Gauge;
+  private upstreamPoolMembers: Gauge;
+  private circuitBreakerState: Gauge;
+  private circuitBreakerFailures: Gauge;
+  private circuitBreakerRejections: Counter;
+  private upstreamRetries: Counter;
+  private retryBudgetExhausted: Counter;
+  private rateLimitedCounter: Counter;
+  private pluginHookErrors: Counter;
 
   constructor() {
     this.registry = new Registry();
@@ -48,10 +66,30 @@ export class MetricsService {
       labelNames: ["path"],
     });
 
+    this.staleFallbackCounter = new Counter({
+      name: "proxy_stale_fallbacks_total",
+      help: "Total number of stale responses served because the upstream failed",
+      labelNames: ["source", "reason", "path"],
+    });
+
     // System metrics
     this.activeConnections = new Gauge({
       name: "proxy_active_connections",
       help: "Number of active connections",
+      labelNames: ["type"],
+    });
+
+    this.streamingConnectionDuration = new Histogram({
+      name: "proxy_streaming_connection_duration_seconds",
+      help: "Duration of proxied Server-Sent Events and WebSocket connections",
+      labelNames: ["type"],
+      buckets: [1, 10, 60, 300, 1800, 3600],
+    });
+
+    this.streamingBytes = new Counter({
+      name: "proxy_streaming_bytes_total",
+      help: "Bytes relayed over Server-Sent Events and WebSocket connections",
+      labelNames: ["type", "direction"],
     });
 
     this.memoryUsage = new Gauge({
@@ -64,15 +102,90 @@ export class MetricsService {
       help: "CPU usage percentage",
     });
 
+    // Upstream pool metrics
+    this.upstreamMemberHealthy = new Gauge({
+      name: "proxy_upstream_member_healthy",
+      help: "Whether an upstream pool member is healthy (1) or ejected (0)",
+      labelNames: ["upstream", "member"],
+    });
+
+    this.upstreamMemberConnections = new Gauge({
+      name: "proxy_upstream_member_active_connections",
+      help: "In-flight requests per upstream pool member",
+      labelNames: ["upstream", "member"],
+    });
+
+    this.upstreamPoolMembers = new Gauge({
+      name: "proxy_upstream_pool_members",
+      help: "Number of upstream pool members by health state",
+      labelNames: ["upstream", "state"],
+    });
+
+    // Resilience metrics
+    this.circuitBreakerState = new Gauge({
+      name: "proxy_circuit_breaker_state",
+      help: "Circuit breaker state per route (0 closed, 1 half-open, 2 open)",
+      labelNames: ["breaker"],
+    });
+
+    this.circuitBreakerFailures = new Gauge({
+      name: "proxy_circuit_breaker_consecutive_failures",
+      help: "Consecutive upstream failures counted by a circuit breaker",
+      labelNames: ["breaker"],
+    });
+
+    this.circuitBreakerRejections = new Counter({
+      name: "proxy_circuit_breaker_rejections_total",
+      help: "Requests rejected because a circuit breaker was open",
+      labelNames: ["breaker"],
+    });
+
+    this.upstreamRetries = new Counter({
+      name: "proxy_upstream_retries_total",
+      help: "Upstream requests retried by a route retry policy",
+      labelNames: ["breaker", "reason"],
+    });
+
+    this.retryBudgetExhausted = new Counter({
+      name: "proxy_retry_budget_exhausted_total",
+      help: "Retries skipped because the route retry budget was used up",
+      labelNames: ["breaker"],
+    });
+
+    this.rateLimitedCounter = new Counter({
+      name: "proxy_rate_limited_total",
+      help: "Requests rejected by a rate limit rule or API key quota",
+      labelNames: ["policy"],
+    });
+
+    this.pluginHookErrors = new Counter({
+      name: "proxy_plugin_hook_errors_total",
+      help: "Proxy plugin hooks that threw and were skipped",
+      labelNames: ["plugin", "hook"],
+    });
+
     // Register all metrics
     this.registry.registerMetric(this.requestCounter);
     this.registry.registerMetric(this.requestDuration);
     this.registry.registerMetric(this.errorCounter);
     this.registry.registerMetric(this.cacheHitCounter);
     this.registry.registerMetric(this.cacheMissCounter);
+    this.registry.registerMetric(this.staleFallbackCounter);
     this.registry.registerMetric(this.activeConnections);
+    this.registry.registerMetric(this.streamingConnectionDuration);
+    this.registry.registerMetric(this.streamingBytes);
     this.registry.registerMetric(this.memoryUsage);
     this.registry.registerMetric(this.cpuUsage);
+    this.registry.registerMetric(this.upstreamMemberHealthy);
+    this.registry.registerMetric(this.upstreamMemberConnections);
+    this.registry.registerMetric(this.upstreamPoolMembers);
+    this.registry.registerMetric(this.circuitBreakerState);
+    this.registry.registerMetric(this.circuitBreakerFailures);
+    this.registry.registerMetric(this.circuitBreakerRejections);
+    this.registry.registerMetric(this.upstreamRetries);
+    this.registry.registerMetric(this.retryBudgetExhausted);
+    this.registry.registerMetric(this.rateLimitedCounter);
+    this.registry.registerMetric(this.pluginHookErrors);
   }
 
   // Request tracking methods
@@ -101,9 +214,30 @@ export class MetricsService {
     this.cacheMissCounter.inc({ path });
   }
 
+  incrementStaleFallback(source: string, reason: string, path: string) {
+    this.staleFallbackCounter.inc({ source, reason, path });
+  }
+
   // System metrics methods
-  updateActiveConnections(count: number) {
-    this.activeConnections.set(count);
+  // Without a type the total is set, "sse" and "websocket" count proxied streaming connections
+  updateActiveConnections(count: number, type?: string) {
+    if (type) {
+      this.activeConnections.set({ type }, count);
+    } else {
+      this.activeConnections.set(count);
+    }
+  }
+
+  // Bytes are counted from the client's side: received from and sent to the client
+  observeStreamingConnection(
+    type: string,
+    durationSeconds: number,
+    bytesReceived: number,
+    bytesSent: number
+  ) {
+    this.streamingConnectionDuration.observe({ type }, durationSeconds);
+    this.streamingBytes.inc({ type, direction: "received" }, bytesReceived);
+    this.streamingBytes.inc({ type, direction: "sent" }, bytesSent);
   }
 
   updateMemoryUsage(bytes: number) {
@@ -114,6 +248,61 @@ export class MetricsService {
     this.cpuUsage.set(percent);
   }
 
+  // Upstream pool tracking methods
+  updateUpstreamPools(pools: UpstreamPoolStatus[]) {
+    // Reset so removed upstreams and members disappear from the output
+    this.upstreamMemberHealthy.reset();
+    this.upstreamMemberConnections.reset();
+    this.upstreamPoolMembers.reset();
+
+    for (const pool of pools) {
+      this.upstreamPoolMembers.set({ upstream: pool.upstream, state: "healthy" }, pool.healthyMembers);
+      this.upstreamPoolMembers.set(
+        { upstream: pool.upstream, state: "unhealthy" },
+        pool.totalMembers - pool.healthyMembers
+      );
+
+      for (const member of pool.members) {
+        const labels = { upstream: pool.upstream, member: member.url };
+        this.upstreamMemberHealthy.set(labels, member.healthy ? 1 : 0);
+        this.upstreamMemberConnections.set(labels, member.activeConnections);
+      }
+    }
+  }
+
+  // Resilience tracking methods
+  updateCircuitBreakers(breakers: CircuitBreakerStatus[]) {
+    for (const breaker of breakers) {
+      this.circuitBreakerState.set({ breaker: breaker.name }, CIRCUIT_STATE_VALUES[breaker.state]);
+      this.circuitBreakerFailures.set({ breaker: breaker.name }, breaker.consecutiveFailures);
+    }
+  }
+
+  incrementCircuitRejection(breaker: string) {
+    this.circuitBreakerRejections.inc({ breaker });
+  }
+
+  incrementUpstreamRetry(breaker: string, reason: string) {
+    this.upstreamRetries.inc({ breaker, reason });
+  }
+
+  incrementRetryBudgetExhausted(breaker: string) {
+    this.retryBudgetExhausted.inc({ breaker });
+  }
+
+  incrementRateLimited(policy: string) {
+    this.rateLimitedCounter.inc({ policy });
+  }
+
+  incrementPluginHookError(plugin: string, hook: string) {
+    this.pluginHookErrors.inc({ plugin, hook });
+  }
+
+  // Custom metrics from proxy plugins, exposed on the metrics endpoint with the built-in ones
+  registerMetric(metric: Metric) {
+    this.registry.registerMetric(metric);
+  }
+
   // Get metrics in Prometheus format
   async getMetrics(): Promise<string> {
     return this.registry.metrics();
@@ -131,6 +320,14 @@ export class MetricsService {
       const cpuUsage = process.cpuUsage();
       const totalCpuUsage = (cpuUsage.user + cpuUsage.system) / 1000000; // Convert to percentage
       this.updateCpuUsage(totalCpuUsage);
+
+      if (app.routingTable) {
+        this.updateUpstreamPools(app.routingTable.getPoolStatus());
+      }
+
+      if (app.recovery) {
+        this.updateCircuitBreakers(app.recovery.listBreakers());
+      }
     }, 5000);
   }
 
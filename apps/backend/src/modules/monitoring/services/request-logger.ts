@@ -30,6 +30,7 @@ export interface LoggedRequest {
   cacheHit: boolean;
   cacheKey?: string; // Cache key for linking to cache files
   cacheTTL?: number; // Cache TTL used
+  staleFallback?: "snapshot" | "cache"; // Set when a stale copy was served because the upstream failed
   userAgent?: string;
   clientIp?: string;
   errorMessage?: string;
@@ -84,15 +85,17 @@ export class RequestLoggerService {
   async initialize(): Promise<void> {
     if (!this.enabled) return;
 
+    // Created outside the retry, a storage that can't honor the config fails startup as is
+    this.storage = await StorageFactory.createStorageAdapter<LoggedRequest>({
+      ...this.storageConfig,
+      codec: this.app.payloadCodec,
+    });
+
     try {
       await this.app?.recovery.withRetry(
         async () => {
           // Initialize storage using the plugin system
-          this.storage =
-            await StorageFactory.createStorageAdapter<LoggedRequest>(
-              this.storageConfig
-            );
-          await this.storage.initialize();
+          await this.storage!.initialize();
         },
         "database",
         { operation: "request-logger-initialization" }
@@ -1,5 +1,23 @@
 // Proxy Module - Core proxy engine functionality
 export { apiRoutes } from './routes/api.js';
+export { routingRoutes } from './routes/routing.js';
+export { mockRoutes } from './routes/mocks.js';
+export { cassetteRoutes } from './routes/cassettes.js';
+export { RoutingTable } from './services/routing-table.js';
+export { RoutingStore } from './services/routing-store.js';
+export { MockService } from './services/mock-service.js';
+export { CassetteService } from './services/cassette-service.js';
+export { RequestReplayService } from './services/request-replay.js';
+export { ProxyHookRegistry } from './services/proxy-hooks.js';
+export { StreamingConnectionTracker } from './services/streaming-connections.js';
+export { WebSocketProxy } from './services/websocket-proxy.js';
+export type {
+  ProxyPlugin,
+  ProxyHooks,
+  ProxyHookContext,
+  ProxyHookResponse,
+  ProxyUpstreamResponse,
+} from './services/proxy-hooks.js';
 // export { requestRoutes } from './routes/requests.js'; // TODO: Fix interface issues
 
 // Re-export types that might be needed by other modules
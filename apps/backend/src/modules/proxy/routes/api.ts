@@ -1,13 +1,29 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import type { Readable } from "stream";
 import {
   processRequest,
   WildcardRouteParams,
   extractBackendInfo,
   calculateRequestSize,
   calculateResponseSize,
+  normalizeHeaders,
+  applyHeaderRewrite,
+  getProxyPath,
+  rejectUnsafeProxyPath,
 } from "@/utils/request.js";
-import { checkCacheAndServe, storeInCache } from "@/utils/cache.js";
-import { forwardRequest } from "@/utils/http-client.js";
+import { checkCacheAndServe, invalidateAfterWrite, storeInCache } from "@/utils/cache.js";
+import { forwardRequest, HttpClientError } from "@/utils/http-client.js";
+import { isEventStream, StreamedBody } from "@/utils/stream.js";
+import { CircuitOpenError } from "@/types/errors.js";
+import { requireProxyAccess } from "@/plugins/auth.js";
+import { ResolvedRoute } from "../services/routing-table.js";
+import {
+  applyBodyTransform,
+  createTransformContext,
+  TransformContext,
+} from "../services/transforms.js";
+import { MockMatchResult, MockRequestInfo } from "../services/mock-service.js";
+import { ProxyHookContext, ProxyHookResponse } from "../services/proxy-hooks.js";
 import {
   setResponseHeaders,
   createErrorResponse,
@@ -20,10 +36,14 @@ import {
   ErrorContext,
 } from "@/utils/response.js";
 
+// How long a snapshot stays usable as a stale fallback when the route sets no staleTTL
+const DEFAULT_STALE_TTL = 24 * 60 * 60;
+
 // Log message constants
 const LOG_MESSAGES = {
   REGISTERING_ROUTES: "Registering proxy API routes under:",
   TARGET_SERVER: "Target server:",
+  ROUTING_TABLE: "Routing table:",
   CACHEABLE_METHODS: "Cacheable methods:",
   MEMORY_CACHE_ENABLED: "Memory cache enabled:",
   FILE_CACHE_ENABLED: "File cache enabled:",
@@ -41,6 +61,9 @@ export async function apiRoutes(fastify: FastifyInstance) {
   // Enhanced logging with comprehensive proxy configuration details
   fastify.log.info(`${LOG_MESSAGES.REGISTERING_ROUTES} ${apiRoutePath}`);
   fastify.log.info(`${LOG_MESSAGES.TARGET_SERVER} ${fastify.config.targetUrl}`);
+  fastify.log.info(
+    `${LOG_MESSAGES.ROUTING_TABLE} ${fastify.routingTable.listRoutes().length} routes, ${fastify.routingTable.listUpstreams().length} upstreams`
+  );
   fastify.log.info(
     `${LOG_MESSAGES.CACHEABLE_METHODS} ${fastify.config.cacheableMethods.join(", ")}`
   );
@@ -79,20 +102,25 @@ export async function apiRoutes(fastify: FastifyInstance) {
 
   // API route handler for all methods and paths under the configured apiPrefix
   // NOTE: No schema defined here - proxy endpoints are documented in the dynamic external API docs
-  fastify.all(
+  // Paths that would be forwarded differently than they read are refused before any checks,
+  // proxied paths additionally require "proxy:route:<path>"
+  fastify.all<{ Params: WildcardRouteParams }>(
     apiRoutePath,
-    async (
-      request: FastifyRequest<{ Params: WildcardRouteParams }>,
-      reply: FastifyReply
-    ) => {
+    { preHandler: [rejectUnsafeProxyPath, requireProxyAccess()] },
+    async (request, reply) => {
       const startTime = Date.now();
       let cacheHit = false;
       let statusCode = 200;
       let responseData: any = null;
       let responseHeaders: Record<string, string> = {};
       let processedRequest: any = null;
+      let resolvedRoute: ResolvedRoute | null = null;
+      let transformContext: TransformContext | null = null;
+      let hookContext: ProxyHookContext | null = null;
       let cacheKey: string = "";
       let errorContext: ErrorContext | null = null;
+      // Streamed upstream body this request took, discarded unless it is sent
+      let streamed: StreamedBody | null = null;
 
       try {
         // Check if cluster service is in maintenance mode
@@ -126,21 +154,100 @@ export async function apiRoutes(fastify: FastifyInstance) {
           return responseData;
         }
 
-        // Step 1: Process incoming request (wrapped in try/catch)
+        // Step 1: Resolve upstream route and process incoming request (wrapped in try/catch)
         try {
-          processedRequest = processRequest(request, fastify.config.targetUrl);
+          resolvedRoute = fastify.routingTable.resolve({
+            method: request.method,
+            path: getProxyPath(request),
+            host: request.hostname,
+            headers: normalizeHeaders(request.headers),
+          });
+          transformContext = createTransformContext(request, normalizeHeaders(request.headers));
+          processedRequest = processRequest(request, resolvedRoute.upstream.url, {
+            targetPath: resolvedRoute.targetPath,
+            headerRewrite: resolvedRoute.requestHeaders,
+            queryRewrite: resolvedRoute.queryRewrite,
+            bodyTransform: resolvedRoute.requestBody,
+            context: transformContext,
+          });
         } catch (error) {
           fastify.log.error("Failed to process incoming request:", error);
           throw new Error("Invalid request format or parameters");
         }
 
+        // Plugins see the routed and transformed request and may answer it themselves
+        const hooks: ProxyHookContext = {
+          app: fastify,
+          request,
+          route: resolvedRoute,
+          proxyRequest: processedRequest,
+          state: {},
+        };
+        hookContext = hooks;
+        const onRequestResponse = await fastify.proxyHooks.runUntilResponse("onRequest", hooks);
+        if (onRequestResponse) {
+          return await servePluginResponse(
+            fastify,
+            request,
+            hooks.proxyRequest,
+            reply,
+            onRequestResponse,
+            startTime
+          );
+        }
+        processedRequest = hooks.proxyRequest;
+
+        // Accepted WebSocket upgrades are piped to the upstream, bypassing mocks and the cache
+        if (fastify.websocketProxy.isUpgrade(request)) {
+          const refused = await fastify.websocketProxy.proxy(
+            request,
+            reply,
+            resolvedRoute,
+            processedRequest
+          );
+          statusCode = refused ? reply.statusCode : 101;
+          await safeLogRequestToDatabase(
+            fastify,
+            request,
+            processedRequest,
+            statusCode,
+            startTime,
+            false,
+            {},
+            null
+          );
+          return refused;
+        }
+
+        // Mocked endpoints are answered directly, before the cache and the upstream
+        const mockRequest: MockRequestInfo = {
+          method: request.method,
+          path: getProxyPath(request),
+          query: (request.query as Record<string, unknown>) ?? {},
+          headers: normalizeHeaders(request.headers),
+          body: processedRequest.body,
+        };
+        const mockMatch = fastify.mocks.match(mockRequest);
+        if (mockMatch) {
+          return await serveMock(
+            fastify,
+            request,
+            processedRequest,
+            reply,
+            mockMatch,
+            mockRequest,
+            startTime
+          );
+        }
+
         // Step 2: Generate cache key (wrapped in try/catch)
         try {
           cacheKey = fastify.cache.generateKey(
             processedRequest.method,
             processedRequest.targetUrl,
             processedRequest.headers,
-            processedRequest.body
+            processedRequest.body,
+            { claims: processedRequest.claims }
           );
         } catch (error) {
           fastify.log.warn(
@@ -149,6 +256,29 @@ export async function apiRoutes(fastify: FastifyInstance) {
           );
           cacheKey = "cache-key-generation-failed";
         }
+        hooks.cacheKey = cacheKey;
+
+        // Recording and replay bypass the cache so every request reaches the upstream or the cassette
+        // Event streams never complete and are never cached
+        const routeCacheEnabled =
+          resolvedRoute.cache.enabled !== false &&
+          fastify.cassettes.getMode() === "off" &&
+          !isEventStream(request.headers.accept);
+        const cacheLookupEnabled =
+          routeCacheEnabled && (await fastify.proxyHooks.allows("beforeCacheLookup", hooks));
+
+        // Replay mode answers from the cassette only, the upstream is never contacted
+        if (fastify.cassettes.isReplaying()) {
+          return await serveReplay(
+            fastify,
+            request,
+            processedRequest,
+            reply,
+            cacheKey,
+            mockRequest.path,
+            startTime
+          );
+        }
 
         // Log the incoming request
         fastify.log.info(
@@ -156,6 +286,8 @@ export async function apiRoutes(fastify: FastifyInstance) {
             method: processedRequest.method,
             originalUrl: request.url,
             targetUrl: processedRequest.targetUrl,
+            upstream: resolvedRoute.upstream.name,
+            route: resolvedRoute.route?.id,
             cacheKey,
             cacheHit: false,
             cacheable: fastify.config.cacheableMethods.includes(
@@ -170,27 +302,90 @@ export async function apiRoutes(fastify: FastifyInstance) {
           "Forwarding request to target server"
         );
 
-        // Step 3: Check cache first (wrapped in try/catch)
-        try {
-          const cacheResult = await checkCacheAndServe(
+        // Upstream call, identical in-flight misses share one call (singleflight on the cache key)
+        const route = resolvedRoute;
+        const context = transformContext!;
+        const flightKey = fastify.cache.getVariantKey(cacheKey, processedRequest.headers);
+        const canCoalesce =
+          cacheLookupEnabled &&
+          cacheKey !== "cache-key-generation-failed" &&
+          fastify.config.cacheableMethods.includes(processedRequest.method);
+        // Responses that may be cached or transformed are buffered up to the cap, larger
+        // and all other responses are streamed to the client
+        const streaming = fastify.config.streaming;
+        const maxBufferSize = !streaming?.enabled
+          ? undefined
+          : (routeCacheEnabled &&
+                fastify.config.cacheableMethods.includes(processedRequest.method)) ||
+              hasBodyTransform(route)
+            ? streaming.maxBufferSize
+            : 0;
+        const fetchUpstream = async () => {
+          // Per-route retries and circuit breaker wrap the upstream call
+          const response = await fastify.recovery.withRoutePolicy(
+            route.breakerName,
+            route.resilience,
+            processedRequest.method,
+            () =>
+              forwardRequest(processedRequest, {
+                timeout: route.timeout,
+                pool: route.pool,
+                maxBufferSize,
+              })
+          );
+          // Transformed before caching, so cached entries are already in the client's format
+          return {
+            ...response,
+            data: transformResponseBody(fastify, response.data, route, context),
+            headers: applyHeaderRewrite(response.headers, route.responseHeaders, context),
+          };
+        };
+
+        // Background refresh for entries served past their soft TTL
+        const revalidate = async () => {
+          const response = await fastify.cache.coalesce(flightKey, fetchUpstream);
+          if (response.stream) {
+            // Too large to cache, unless a waiting request already took the body
+            response.stream.take()?.destroy();
+            return;
+          }
+          if (response.status >= 500) {
+            throw new Error(`Upstream responded with status ${response.status}`);
+          }
+          if (!(await fastify.proxyHooks.allows("beforeCacheStore", hooks, response))) return;
+          await storeInCache(
             fastify,
             processedRequest,
-            reply
+            response.data,
+            response.headers,
+            response.status,
+            { ttl: route.cache.ttl, staleIfError: staleFallbackWindow(route) }
           );
+        };
+
+        // Step 3: Check cache first (wrapped in try/catch)
+        try {
+          const cacheResult = cacheLookupEnabled
+            ? await checkCacheAndServe(fastify, processedRequest, reply, {
+                revalidate: canCoalesce ? revalidate : undefined,
+              })
+            : { isHit: false };
           if (cacheResult.served) {
             cacheHit = true;
-            statusCode = 200; // Assume cache hits are successful
+            statusCode = cacheResult.notModified ? 304 : 200; // Assume cache hits are successful
             responseData = "CACHED_RESPONSE"; // Placeholder since response was already sent
-            responseHeaders = { "X-Cache": "HIT" };
+            responseHeaders = { "X-Cache": cacheResult.stale ? "STALE" : "HIT" };
 
             // Get cache TTL safely
             let cacheTTL: number | undefined;
             try {
-              cacheTTL = fastify.cache.getTTL(
-                processedRequest.method,
-                processedRequest.targetUrl,
-                processedRequest.headers
-              );
+              cacheTTL =
+                resolvedRoute.cache.ttl ??
+                fastify.cache.getTTL(
+                  processedRequest.method,
+                  processedRequest.targetUrl,
+                  processedRequest.headers
+                );
             } catch (error) {
               fastify.log.warn("Failed to get cache TTL:", error);
               cacheTTL = undefined;
@@ -220,14 +415,119 @@ export async function apiRoutes(fastify: FastifyInstance) {
           // Continue with direct request if cache fails
         }
 
+        // Last chance for plugins to change or answer the request before the upstream call
+        const beforeForwardResponse = await fastify.proxyHooks.runUntilResponse(
+          "beforeForward",
+          hooks
+        );
+        if (beforeForwardResponse) {
+          return await servePluginResponse(
+            fastify,
+            request,
+            hooks.proxyRequest,
+            reply,
+            beforeForwardResponse,
+            startTime
+          );
+        }
+        processedRequest = hooks.proxyRequest;
+
         // Step 4: Forward request to target server (main error-prone operation)
         let httpResponse: any;
+        let streamBody: Readable | null = null;
         try {
-          httpResponse = await forwardRequest(processedRequest);
+          // Copy coalesced responses so per-request changes don't leak between callers
+          httpResponse = canCoalesce
+            ? { ...(await fastify.cache.coalesce(flightKey, fetchUpstream)) }
+            : await fetchUpstream();
+
+          // A streamed body can be sent once, requests that joined the call fetch their own
+          if (httpResponse.stream) {
+            streamBody = httpResponse.stream.take();
+            if (!streamBody) {
+              httpResponse = await fetchUpstream();
+              streamBody = httpResponse.stream?.take() ?? null;
+            }
+            if (streamBody) streamed = httpResponse.stream;
+          }
+          httpResponse = await fastify.proxyHooks.runAfterResponse(hooks, httpResponse);
           statusCode = httpResponse.status;
           responseData = httpResponse.data;
           responseHeaders = httpResponse.headers;
+
+          if (fastify.cassettes.isRecording() && !streamBody) {
+            fastify.cassettes.record(
+              cacheKey,
+              {
+                method: processedRequest.method,
+                url: processedRequest.targetUrl,
+                path: mockRequest.path,
+                headers: processedRequest.headers,
+                body: processedRequest.body,
+              },
+              { status: httpResponse.status, headers: httpResponse.headers, body: httpResponse.data }
+            );
+          }
         } catch (error) {
+          await fastify.proxyHooks.runOnError(hooks, error);
+
+          // Serve a stale copy instead of the error when the route allows it
+          if (
+            resolvedRoute.cache.staleOnError &&
+            ((error instanceof HttpClientError &&
+              (error.type === "timeout" || error.type === "network")) ||
+              error instanceof CircuitOpenError)
+          ) {
+            const stale = await serveStaleFallback(
+              fastify,
+              request,
+              processedRequest,
+              reply,
+              cacheKey,
+              startTime,
+              error instanceof CircuitOpenError
+                ? "circuit-open"
+                : (error.type as "timeout" | "network"),
+              error.message
+            );
+            if (stale) {
+              return stale.data;
+            }
+          }
+
+          // Open circuit: fail fast without contacting the upstream
+          if (error instanceof CircuitOpenError) {
+            const retryAfterMs: number = error.context?.retryAfterMs ?? 0;
+            statusCode = 503;
+            responseData = {
+              error: "Service Unavailable",
+              message: `Upstream unavailable, circuit breaker '${error.context?.breaker}' is open`,
+              code: error.code,
+              timestamp: new Date().toISOString(),
+              requestId: request.id,
+              retryable: true,
+            };
+
+            await safeLogRequestToDatabase(
+              fastify,
+              request,
+              processedRequest,
+              statusCode,
+              startTime,
+              cacheHit,
+              {},
+              responseData,
+              cacheKey,
+              error.message,
+              undefined
+            );
+
+            reply.status(503);
+            reply.header("Retry-After", Math.max(1, Math.ceil(retryAfterMs / 1000)).toString());
+            reply.header("X-Circuit-Breaker", "open");
+            return responseData;
+          }
+
           // Categorize the error for better handling
           const errorType = categorizeError(error);
           errorContext = safeCreateErrorContext(
@@ -268,6 +568,23 @@ export async function apiRoutes(fastify: FastifyInstance) {
           return responseData;
         }
 
+        // Upstream answered with a server error, prefer a stale copy when the route allows it
+        if (resolvedRoute.cache.staleOnError && httpResponse.status >= 500) {
+          const stale = await serveStaleFallback(
+            fastify,
+            request,
+            processedRequest,
+            reply,
+            cacheKey,
+            startTime,
+            "5xx",
+            `Upstream responded with status ${httpResponse.status}`
+          );
+          if (stale) {
+            return stale.data;
+          }
+        }
+
         // Step 5: Set response headers (wrapped in try/catch)
         try {
           setResponseHeaders(reply, httpResponse, processedRequest.method);
@@ -276,23 +593,76 @@ export async function apiRoutes(fastify: FastifyInstance) {
           // Continue without headers if this fails
         }
 
+        // Events are relayed as they arrive and counted until either side disconnects
+        if (streamBody && isEventStream(httpResponse.headers["content-type"])) {
+          streamBody = fastify.streamingConnections.trackEventStream(streamBody);
+          reply.header("X-Accel-Buffering", "no");
+        }
+
         // Step 6: Store successful responses in cache (non-blocking)
         try {
-          await storeInCache(
+          // Streamed responses exceeded the buffer cap (or are not cacheable) and are never stored
+          if (
+            routeCacheEnabled &&
+            !streamBody &&
+            (await fastify.proxyHooks.allows("beforeCacheStore", hooks, httpResponse))
+          ) {
+            await storeInCache(
+              fastify,
+              processedRequest,
+              httpResponse.data,
+              httpResponse.headers,
+              httpResponse.status,
+              { ttl: resolvedRoute.cache.ttl, staleIfError: staleFallbackWindow(resolvedRoute) }
+            );
+          }
+        } catch (error) {
+          fastify.log.warn("Failed to store response in cache:", error);
+          // Don't fail the request if caching fails
+        }
+
+        // Successful writes invalidate the cached reads they made stale, before responding so
+        // the client's next read sees the change
+        try {
+          await invalidateAfterWrite(
             fastify,
             processedRequest,
-            httpResponse.data,
-            httpResponse.headers,
-            httpResponse.status
+            resolvedRoute.cache.invalidates,
+            httpResponse.status,
+            httpResponse.headers
           );
         } catch (error) {
-          fastify.log.warn("Failed to store response in cache:", error);
-          // Don't fail the request if caching fails
+          fastify.log.warn("Failed to invalidate cache entries after write:", error);
+        }
+
+        // Keep the latest good response as a snapshot for serve-stale-on-error
+        try {
+          if (
+            resolvedRoute.cache.staleOnError &&
+            !streamBody &&
+            processedRequest.method === "GET" &&
+            httpResponse.status >= 200 &&
+            httpResponse.status < 300 &&
+            !Buffer.isBuffer(httpResponse.data)
+          ) {
+            await fastify.snapshotManager.saveFallback(
+              processedRequest.targetUrl,
+              httpResponse.data,
+              httpResponse.headers,
+              httpResponse.status,
+              resolvedRoute.cache.staleTTL ?? DEFAULT_STALE_TTL,
+              resolvedRoute.route ? [`route:${resolvedRoute.route.id}`] : undefined
+            );
+          }
+        } catch (error) {
+          fastify.log.warn("Failed to save stale fallback snapshot:", error);
         }
 
         // Step 7: Log successful response
         try {
           const wasCached =
+            routeCacheEnabled &&
+            !streamBody &&
             fastify.config.cacheableMethods.includes(processedRequest.method) &&
             httpResponse.status >= 200 &&
             httpResponse.status < 300;
@@ -311,12 +681,14 @@ export async function apiRoutes(fastify: FastifyInstance) {
 
         // Step 8: Log to database (safe operation)
         try {
-          const cacheTTL = fastify.cache.getTTL(
-            processedRequest.method,
-            processedRequest.targetUrl,
-            processedRequest.headers,
-            httpResponse.status
-          );
+          const cacheTTL =
+            resolvedRoute.cache.ttl ??
+            fastify.cache.getTTL(
+              processedRequest.method,
+              processedRequest.targetUrl,
+              processedRequest.headers,
+              httpResponse.status
+            );
           await safeLogRequestToDatabase(
             fastify,
             request,
@@ -335,11 +707,17 @@ export async function apiRoutes(fastify: FastifyInstance) {
           // Never fail the main request due to logging issues
         }
 
-        return httpResponse.data;
+        // The reply closes the stream once it is sent or the client goes away
+        streamed = null;
+        return streamBody ?? httpResponse.data;
       } catch (error) {
         // Final catch-all error handler
         const errorType = categorizeError(error);
 
+        if (hookContext) {
+          await fastify.proxyHooks.runOnError(hookContext, error);
+        }
+
         // Create comprehensive error context if not already created
         if (!errorContext) {
           errorContext = safeCreateErrorContext(
@@ -387,6 +765,9 @@ export async function apiRoutes(fastify: FastifyInstance) {
         // Return error response
         reply.status(statusCode);
         return responseData;
+      } finally {
+        // Cancels the upstream read and frees the pool member's connection
+        streamed?.discard();
       }
     }
   );
@@ -406,7 +787,8 @@ async function safeLogRequestToDatabase(
   responseData: any,
   cacheKey?: string,
   errorMessage?: string,
-  cacheTTL?: number
+  cacheTTL?: number,
+  staleFallback?: "snapshot" | "cache"
 ): Promise<void> {
   // Early return if logging is disabled
   if (!fastify.config.enableRequestLogging) return;
@@ -499,6 +881,7 @@ async function safeLogRequestToDatabase(
       cacheHit,
       cacheKey,
       cacheTTL,
+      staleFallback,
       userAgent: request.headers["user-agent"],
       clientIp: request.ip,
       errorMessage,
@@ -526,3 +909,317 @@ async function safeLogRequestToDatabase(
     }
   }
 }
+
+/**
+ * Seconds past TTL a cached response is kept for serve-stale-on-error, undefined when the
+ * route doesn't serve stale copies
+ */
+function staleFallbackWindow(route: ResolvedRoute): number | undefined {
+  return route.cache.staleOnError ? (route.cache.staleTTL ?? DEFAULT_STALE_TTL) : undefined;
+}
+
+// Body transforms need the parsed response, so those responses are buffered
+function hasBodyTransform(route: ResolvedRoute): boolean {
+  const { set, remove, patch } = route.responseBody;
+  return Object.keys(set ?? {}).length > 0 || !!remove?.length || !!patch?.length;
+}
+
+/**
+ * Apply the route's response body transform. A failing transform (e.g. a JSON Patch test)
+ * is logged and the upstream body is passed through unchanged.
+ */
+function transformResponseBody(
+  fastify: FastifyInstance,
+  data: unknown,
+  route: ResolvedRoute,
+  context: TransformContext
+): unknown {
+  try {
+    return applyBodyTransform(data, route.responseBody, context);
+  } catch (error) {
+    fastify.log.warn(
+      { error, route: route.route?.id, upstream: route.upstream.name },
+      "Response transform failed, returning the upstream body unchanged"
+    );
+    return data;
+  }
+}
+
+/**
+ * Serve the latest snapshot, or an expired cache entry, after an upstream failure.
+ * Returns null when no stale copy exists so the caller falls through to its error response.
+ */
+async function serveStaleFallback(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  processedRequest: any,
+  reply: FastifyReply,
+  cacheKey: string,
+  startTime: number,
+  reason: "timeout" | "network" | "5xx" | "circuit-open",
+  errorMessage: string
+): Promise<{ data: unknown } | null> {
+  let stale: {
+    data: unknown;
+    headers: Record<string, string>;
+    status: number;
+    createdAt: number;
+  } | null = null;
+  let source: "snapshot" | "cache" = "snapshot";
+
+  // Snapshots are stored per URL, so only GET requests can use them
+  if (processedRequest.method === "GET") {
+    try {
+      const snapshot = await fastify.snapshotManager.getSnapshot(
+        processedRequest.targetUrl
+      );
+      if (snapshot) {
+        stale = {
+          data: snapshot.data,
+          headers: snapshot.headers,
+          status: snapshot.status,
+          createdAt: Date.parse(snapshot.createdAt),
+        };
+      }
+    } catch (error) {
+      fastify.log.warn("Snapshot lookup for stale fallback failed:", error);
+    }
+  }
+
+  if (!stale) {
+    const entry = await fastify.cache.getStale(
+      fastify.cache.getVariantKey(cacheKey, processedRequest.headers)
+    );
+    if (entry) {
+      stale = {
+        data: entry.data,
+        headers: entry.headers,
+        status: entry.status,
+        createdAt: entry.createdAt,
+      };
+      source = "cache";
+    }
+  }
+
+  if (!stale) return null;
+
+  const ageSeconds = Math.max(0, Math.floor((Date.now() - stale.createdAt) / 1000));
+  const staleHeaders: Record<string, string> = {
+    ...stale.headers,
+    "X-Cache": "STALE",
+    "X-Cache-Stale-Source": source,
+    Warning: '110 - "Response is Stale"',
+    Age: String(ageSeconds),
+  };
+
+  Object.entries(staleHeaders).forEach(([key, value]) => {
+    if (value) {
+      reply.header(key, value);
+    }
+  });
+  reply.status(stale.status);
+
+  fastify.metrics?.incrementStaleFallback(source, reason, processedRequest.targetUrl);
+  fastify.log.warn(
+    {
+      method: processedRequest.method,
+      targetUrl: processedRequest.targetUrl,
+      cacheKey,
+      source,
+      reason,
+      ageSeconds,
+      error: errorMessage,
+    },
+    "Upstream failed, serving stale response"
+  );
+
+  await safeLogRequestToDatabase(
+    fastify,
+    request,
+    processedRequest,
+    stale.status,
+    startTime,
+    false,
+    staleHeaders,
+    stale.data,
+    cacheKey,
+    errorMessage,
+    undefined,
+    source
+  );
+
+  return { data: stale.data };
+}
+
+/**
+ * Answer a request from a matched mock, with the configured latency
+ */
+async function serveMock(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  processedRequest: any,
+  reply: FastifyReply,
+  mockMatch: MockMatchResult,
+  mockRequest: MockRequestInfo,
+  startTime: number
+): Promise<unknown> {
+  const response = fastify.mocks.render(mockMatch, mockRequest);
+
+  if (response.delay) {
+    await new Promise((resolve) => setTimeout(resolve, response.delay));
+  }
+
+  const mockHeaders: Record<string, string> = {
+    ...response.headers,
+    "X-Mock": mockMatch.mock.id,
+  };
+
+  Object.entries(mockHeaders).forEach(([key, value]) => {
+    reply.header(key, value);
+  });
+  reply.status(response.status);
+
+  fastify.log.info(
+    {
+      method: processedRequest.method,
+      originalUrl: request.url,
+      mock: mockMatch.mock.id,
+      params: mockMatch.params,
+      status: response.status,
+    },
+    "Serving mock response"
+  );
+
+  await safeLogRequestToDatabase(
+    fastify,
+    request,
+    processedRequest,
+    response.status,
+    startTime,
+    false,
+    mockHeaders,
+    response.body,
+    undefined,
+    undefined,
+    undefined
+  );
+
+  return response.body ?? "";
+}
+
+/**
+ * Answer a request with the response returned by a plugin hook
+ */
+async function servePluginResponse(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  processedRequest: any,
+  reply: FastifyReply,
+  response: ProxyHookResponse,
+  startTime: number
+): Promise<unknown> {
+  const headers = response.headers ?? {};
+
+  Object.entries(headers).forEach(([key, value]) => {
+    reply.header(key, value);
+  });
+  reply.status(response.status);
+
+  fastify.log.info(
+    { method: processedRequest.method, originalUrl: request.url, status: response.status },
+    "Serving response from proxy plugin"
+  );
+
+  await safeLogRequestToDatabase(
+    fastify,
+    request,
+    processedRequest,
+    response.status,
+    startTime,
+    false,
+    headers,
+    response.body,
+    undefined,
+    undefined,
+    undefined
+  );
+
+  return response.body ?? "";
+}
+
+/**
+ * Answer a request from the active cassette, or with the configured miss status
+ */
+async function serveReplay(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  processedRequest: any,
+  reply: FastifyReply,
+  cacheKey: string,
+  requestPath: string,
+  startTime: number
+): Promise<unknown> {
+  const result = fastify.cassettes.replay(cacheKey, processedRequest.method, requestPath);
+
+  if (!result) {
+    const missStatus = fastify.cassettes.getMissStatus();
+    const cassette = fastify.cassettes.getStatus().cassette;
+    const responseData = {
+      error: "No recorded response",
+      message: `Cassette '${cassette}' has no interaction for ${processedRequest.method} ${requestPath}`,
+      cacheKey,
+      timestamp: new Date().toISOString(),
+    };
+
+    fastify.log.warn(
+      { method: processedRequest.method, originalUrl: request.url, cacheKey },
+      "Replay miss"
+    );
+
+    reply.status(missStatus);
+    reply.header("X-Replay", "MISS");
+    await safeLogRequestToDatabase(
+      fastify,
+      request,
+      processedRequest,
+      missStatus,
+      startTime,
+      false,
+      { "X-Replay": "MISS" },
+      responseData,
+      cacheKey,
+      "No recorded response",
+      undefined
+    );
+    return responseData;
+  }
+
+  const { response } = result.interaction;
+  const replayHeaders: Record<string, string> = {
+    ...result.headers,
+    "X-Replay": result.matchedBy === "strict" ? "HIT" : "LENIENT",
+  };
+
+  Object.entries(replayHeaders).forEach(([key, value]) => {
+    if (value) {
+      reply.header(key, value);
+    }
+  });
+  reply.status(response.status);
+
+  await safeLogRequestToDatabase(
+    fastify,
+    request,
+    processedRequest,
+    response.status,
+    startTime,
+    false,
+    replayHeaders,
+    result.data,
+    cacheKey,
+    undefined,
+    undefined
+  );
+
+  return result.data;
+}
@@ -0,0 +1,184 @@
+import { FastifyInstance } from "fastify";
+import { RecordingConfig, RecordingMode } from "@/types/index.js";
+import { ProxyError } from "@/types/errors.js";
+import { createErrorResponse } from "@/utils/response.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
+import { Cassette, CassetteService } from "../services/cassette-service.js";
+
+interface CassetteParams {
+  name: string;
+}
+
+type RecordingStatus = ReturnType<CassetteService["getStatus"]>;
+
+interface ModeBody extends Partial<Pick<RecordingConfig, "cassette" | "matching" | "missStatus">> {
+  mode: RecordingMode;
+}
+
+export async function cassetteRoutes(fastify: FastifyInstance) {
+  const getCassettes = () => fastify.cassettes;
+
+  // Error handler for cassette management errors
+  const handleCassetteError = (error: unknown, reply: any, operation: string) => {
+    if (error instanceof ProxyError) {
+      reply.status(error.statusCode);
+      return { error: error.message, code: error.code, details: error.context };
+    }
+
+    fastify.log.error(`Cassette management error [${operation}]:`, error);
+    reply.status(500);
+    return createErrorResponse(error);
+  };
+
+  // ========================================
+  // RECORDING MODE
+  // ========================================
+
+  // GET /cassettes - List cassette files and the current recording mode
+  fastify.get(
+    "/cassettes",
+    { preHandler: requirePermission(PERMISSIONS.CASSETTES_READ) },
+    async (_request, reply) => {
+      try {
+        const cassettes = getCassettes();
+        return {
+          status: cassettes.getStatus(),
+          cassettes: await cassettes.listCassettes(),
+        };
+      } catch (error) {
+        return handleCassetteError(error, reply, "list-cassettes");
+      }
+    }
+  );
+
+  // GET /cassettes/status - Current recording mode and counters
+  fastify.get(
+    "/cassettes/status",
+    { preHandler: requirePermission(PERMISSIONS.CASSETTES_READ) },
+    async (_request, reply) => {
+      try {
+        return { status: getCassettes().getStatus() };
+      } catch (error) {
+        return handleCassetteError(error, reply, "get-status");
+      }
+    }
+  );
+
+  // POST /cassettes/mode - Start recording, start replaying or switch off
+  fastify.post<{ Body: ModeBody }>(
+    "/cassettes/mode",
+    { preHandler: requirePermission(PERMISSIONS.CASSETTES_WRITE) },
+    async (request, reply) => {
+      try {
+        if (!request.body?.mode) {
+          reply.status(400);
+          return { error: "Recording mode is required (off, record or replay)" };
+        }
+
+        const { mode, cassette, matching, missStatus } = request.body;
+        const before = describeMode(getCassettes().getStatus());
+        const status = await getCassettes().setMode(mode, { cassette, matching, missStatus });
+        request.audit = { target: status.cassette ?? "off", before, after: describeMode(status) };
+        fastify.log.info({ mode: status.mode, cassette: status.cassette }, "Recording mode changed");
+
+        return { success: true, status };
+      } catch (error) {
+        return handleCassetteError(error, reply, "set-mode");
+      }
+    }
+  );
+
+  // ========================================
+  // CASSETTE FILES
+  // ========================================
+
+  // GET /cassettes/:name - Export a cassette
+  fastify.get<{ Params: CassetteParams }>(
+    "/cassettes/:name",
+    { preHandler: requirePermission(PERMISSIONS.CASSETTES_READ) },
+    async (request, reply) => {
+      try {
+        const cassette = await getCassettes().getCassette(request.params.name);
+
+        if (!cassette) {
+          reply.status(404);
+          return { error: "Cassette not found" };
+        }
+
+        reply.header(
+          "Content-Disposition",
+          `attachment; filename="${request.params.name}.json"`
+        );
+        return cassette;
+      } catch (error) {
+        return handleCassetteError(error, reply, "get-cassette");
+      }
+    }
+  );
+
+  // PUT /cassettes/:name - Import a cassette, replacing an existing one with the same name
+  fastify.put<{ Params: CassetteParams; Body: Partial<Cassette> }>(
+    "/cassettes/:name",
+    { preHandler: requirePermission(PERMISSIONS.CASSETTES_WRITE) },
+    async (request, reply) => {
+      try {
+        const existing = await getCassettes().getCassette(request.params.name);
+        const cassette = await getCassettes().saveCassette(request.params.name, request.body);
+        request.audit = {
+          target: cassette.name,
+          before: existing ? describeCassette(existing) : undefined,
+          after: describeCassette(cassette),
+        };
+        fastify.log.info(
+          { cassette: cassette.name, interactions: cassette.interactions.length },
+          "Cassette imported"
+        );
+
+        return {
+          success: true,
+          cassette: cassette.name,
+          interactions: cassette.interactions.length,
+        };
+      } catch (error) {
+        return handleCassetteError(error, reply, "save-cassette");
+      }
+    }
+  );
+
+  // DELETE /cassettes/:name - Remove a cassette that is not in use
+  fastify.delete<{ Params: CassetteParams }>(
+    "/cassettes/:name",
+    { preHandler: requirePermission(PERMISSIONS.CASSETTES_WRITE) },
+    async (request, reply) => {
+      try {
+        const existing = await getCassettes().getCassette(request.params.name);
+        const removed = await getCassettes().deleteCassette(request.params.name);
+
+        if (!removed) {
+          reply.status(404);
+          return { error: "Cassette not found" };
+        }
+        request.audit = {
+          target: request.params.name,
+          before: existing ? describeCassette(existing) : undefined,
+          after: null,
+        };
+
+        return { success: true, message: `Cassette '${request.params.name}' removed` };
+      } catch (error) {
+        return handleCassetteError(error, reply, "delete-cassette");
+      }
+    }
+  );
+}
+
+// Audit entries record the settings, not the counters kept next to them
+function describeMode({ mode, cassette, matching, missStatus }: RecordingStatus) {
+  return { mode, cassette, matching, missStatus };
+}
+
+// Interactions carry full request and response bodies, audit entries only count them
+function describeCassette(cassette: Cassette) {
+  return { updatedAt: cassette.updatedAt, interactions: cassette.interactions.length };
+}
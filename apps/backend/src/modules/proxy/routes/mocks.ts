@@ -0,0 +1,229 @@
+import { FastifyInstance } from "fastify";
+import { MockDefinition } from "@/types/index.js";
+import { ProxyError } from "@/types/errors.js";
+import { createErrorResponse } from "@/utils/response.js";
+import { normalizeHeaders } from "@/utils/request.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
+
+interface MockParams {
+  id: string;
+}
+
+interface MatchBody {
+  method?: string;
+  path: string;
+  query?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+interface OpenApiImportBody {
+  spec: unknown; // OpenAPI document as an object or a JSON string
+  pathPrefix?: string;
+  enabled?: boolean;
+  priority?: number;
+  replace?: boolean; // Remove previously imported mocks first
+}
+
+export async function mockRoutes(fastify: FastifyInstance) {
+  const getMockService = () => fastify.mocks;
+
+  // Error handler for mock management errors
+  const handleMockError = (error: unknown, reply: any, operation: string) => {
+    if (error instanceof ProxyError) {
+      reply.status(error.statusCode);
+      return { error: error.message, code: error.code, details: error.context };
+    }
+
+    fastify.log.error(`Mock management error [${operation}]:`, error);
+    reply.status(500);
+    return createErrorResponse(error);
+  };
+
+  // ========================================
+  // MOCKS API
+  // ========================================
+
+  // GET /mocks - List all mocks in evaluation order
+  fastify.get(
+    "/mocks",
+    { preHandler: requirePermission(PERMISSIONS.MOCKS_READ) },
+    async (_request, reply) => {
+      try {
+        const mocks = getMockService().listMocks();
+        return { mocks, total: mocks.length };
+      } catch (error) {
+        return handleMockError(error, reply, "list-mocks");
+      }
+    }
+  );
+
+  // POST /mocks - Add a new mock
+  fastify.post<{ Body: Omit<MockDefinition, "id"> & { id?: string } }>(
+    "/mocks",
+    { preHandler: requirePermission(PERMISSIONS.MOCKS_WRITE) },
+    async (request, reply) => {
+      try {
+        if (!request.body || typeof request.body !== "object") {
+          reply.status(400);
+          return { error: "Mock definition is required" };
+        }
+
+        const mock = await getMockService().createMock(request.body);
+        request.audit = { target: mock.id, after: mock };
+        fastify.log.info({ mock: mock.id, path: mock.match.path }, "Mock added");
+
+        reply.status(201);
+        return { success: true, mock };
+      } catch (error) {
+        return handleMockError(error, reply, "add-mock");
+      }
+    }
+  );
+
+  // POST /mocks/import/openapi - Create mocks from the examples of an OpenAPI document
+  fastify.post<{ Body: OpenApiImportBody }>(
+    "/mocks/import/openapi",
+    { preHandler: requirePermission(PERMISSIONS.MOCKS_WRITE) },
+    async (request, reply) => {
+      try {
+        if (!request.body?.spec) {
+          reply.status(400);
+          return { error: "OpenAPI document is required in 'spec'" };
+        }
+
+        let spec = request.body.spec;
+        if (typeof spec === "string") {
+          try {
+            spec = JSON.parse(spec);
+          } catch {
+            reply.status(400);
+            return { error: "OpenAPI document must be valid JSON" };
+          }
+        }
+
+        const { pathPrefix, enabled, priority, replace } = request.body;
+        const imported = getMockService()
+          .listMocks()
+          .filter((mock) => mock.source === "openapi");
+        const mocks = await getMockService().importOpenApi(spec, {
+          pathPrefix,
+          enabled,
+          priority,
+          replace,
+        });
+        request.audit = {
+          target: "openapi",
+          before: imported.map((mock) => mock.id),
+          after: mocks.map((mock) => mock.id),
+        };
+        fastify.log.info({ imported: mocks.length }, "Mocks imported from OpenAPI document");
+
+        return { success: true, imported: mocks.length, mocks };
+      } catch (error) {
+        return handleMockError(error, reply, "import-openapi");
+      }
+    }
+  );
+
+  // POST /mocks/match - Show which mock a request would receive
+  fastify.post<{ Body: MatchBody }>(
+    "/mocks/match",
+    { preHandler: requirePermission(PERMISSIONS.MOCKS_READ), config: { audit: false } },
+    async (request, reply) => {
+      try {
+        if (!request.body?.path) {
+          reply.status(400);
+          return { error: "Request path is required" };
+        }
+
+        const { method = "GET", path, query = {}, headers = {}, body } = request.body;
+        const mockRequest = {
+          method: method.toUpperCase(),
+          path: path.startsWith("/") ? path : `/${path}`,
+          query,
+          headers: normalizeHeaders(headers),
+          body,
+        };
+
+        const result = getMockService().match(mockRequest);
+        if (!result) {
+          return { mock: null };
+        }
+
+        return {
+          mock: result.mock.id,
+          params: result.params,
+          response: getMockService().render(result, mockRequest),
+        };
+      } catch (error) {
+        return handleMockError(error, reply, "match-mock");
+      }
+    }
+  );
+
+  // ========================================
+  // SINGLE MOCK API
+  // ========================================
+
+  // GET /mocks/:id - Get a single mock
+  fastify.get<{ Params: MockParams }>(
+    "/mocks/:id",
+    { preHandler: requirePermission(PERMISSIONS.MOCKS_READ) },
+    async (request, reply) => {
+      try {
+        const mock = getMockService().getMock(request.params.id);
+
+        if (!mock) {
+          reply.status(404);
+          return { error: "Mock not found" };
+        }
+
+        return { mock };
+      } catch (error) {
+        return handleMockError(error, reply, "get-mock");
+      }
+    }
+  );
+
+  // PUT /mocks/:id - Update an existing mock
+  fastify.put<{ Params: MockParams; Body: Partial<MockDefinition> }>(
+    "/mocks/:id",
+    { preHandler: requirePermission(PERMISSIONS.MOCKS_WRITE) },
+    async (request, reply) => {
+      try {
+        const before = getMockService().getMock(request.params.id);
+        const mock = await getMockService().updateMock(request.params.id, request.body ?? {});
+        request.audit = { target: mock.id, before, after: mock };
+        fastify.log.info({ mock: mock.id, path: mock.match.path }, "Mock updated");
+
+        return { success: true, mock };
+      } catch (error) {
+        return handleMockError(error, reply, "update-mock");
+      }
+    }
+  );
+
+  // DELETE /mocks/:id - Remove a mock
+  fastify.delete<{ Params: MockParams }>(
+    "/mocks/:id",
+    { preHandler: requirePermission(PERMISSIONS.MOCKS_WRITE) },
+    async (request, reply) => {
+      try {
+        const before = getMockService().getMock(request.params.id);
+        const removed = await getMockService().removeMock(request.params.id);
+
+        if (!removed) {
+          reply.status(404);
+          return { error: "Mock not found" };
+        }
+        request.audit = { target: request.params.id, before, after: null };
+
+        return { success: true, message: `Mock '${request.params.id}' removed` };
+      } catch (error) {
+        return handleMockError(error, reply, "remove-mock");
+      }
+    }
+  );
+}
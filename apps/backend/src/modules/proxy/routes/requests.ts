@@ -3,7 +3,17 @@ import {
   RequestLoggerService,
   RequestFilters,
 } from "@/modules/monitoring/services/request-logger.js";
+import {
+  harEntryResponse,
+  harEntryToLoggedRequest,
+  parseHar,
+  requestsToHar,
+} from "@/modules/monitoring/services/har.js";
+import { ReplayOptions } from "@/modules/proxy/services/request-replay.js";
+import { ProxyError } from "@/types/errors.js";
 import { createErrorResponse } from "@/utils/response.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
 
 interface RequestsQuery {
   method?: string;
@@ -17,6 +27,30 @@ interface RequestsQuery {
   offset?: string;
 }
 
+interface ExportQuery extends RequestsQuery {
+  format?: string;
+}
+
+type ImportTarget = "requests" | "cache" | "snapshots";
+
+interface ImportBody {
+  har: unknown; // HAR document as an object or a JSON string
+  target?: ImportTarget;
+  ttl?: number; // Seconds, for cache and snapshot targets
+}
+
+const IMPORT_TARGETS: ImportTarget[] = ["requests", "cache", "snapshots"];
+const DEFAULT_SNAPSHOT_TTL = 24 * 60 * 60;
+const MAX_HAR_SIZE = 50 * 1024 * 1024;
+
+interface ReplayBody extends Omit<ReplayOptions, "filters"> {
+  filters?: RequestFilters;
+}
+
+interface ReplayParams {
+  id: string;
+}
+
 interface ClearQuery {
   days?: string;
 }
@@ -38,6 +72,70 @@ async function safeLoggerOperation<T>(
   }
 }
 
+/**
+ * Build RequestFilters from query parameters, ignoring values that do not parse
+ */
+function parseRequestFilters(
+  query: RequestsQuery,
+  defaultLimit: number,
+  maxLimit: number,
+  logger: any
+): RequestFilters {
+  const filters: RequestFilters = {};
+
+  // Safe parameter parsing
+  try {
+    if (query.method) {
+      filters.method = query.method.toUpperCase();
+    }
+
+    if (query.status) {
+      const statusCode = parseInt(query.status);
+      if (!isNaN(statusCode)) {
+        filters.statusCode = statusCode;
+      }
+    }
+
+    if (query.url) {
+      filters.url = query.url;
+    }
+
+    if (query.cacheHit) {
+      filters.cacheHit = query.cacheHit === "true";
+    }
+
+    if (query.cacheKey) {
+      filters.cacheKey = query.cacheKey;
+    }
+
+    if (query.dateFrom) {
+      filters.dateFrom = query.dateFrom;
+    }
+
+    if (query.dateTo) {
+      filters.dateTo = query.dateTo;
+    }
+
+    if (query.limit) {
+      const limit = parseInt(query.limit);
+      filters.limit =
+        !isNaN(limit) && limit > 0 ? Math.min(limit, maxLimit) : defaultLimit;
+    } else {
+      filters.limit = defaultLimit;
+    }
+
+    if (query.offset) {
+      const offset = parseInt(query.offset);
+      filters.offset = !isNaN(offset) && offset >= 0 ? offset : 0;
+    }
+  } catch (error) {
+    logger.warn("Failed to parse query parameters:", error);
+    // Continue with default filters
+  }
+
+  return filters;
+}
+
 export async function requestRoutes(fastify: FastifyInstance) {
   // Get the request logger service from app context
   const getRequestLogger = (): RequestLoggerService => {
@@ -47,6 +145,11 @@ export async function requestRoutes(fastify: FastifyInstance) {
 
   // Error handler for route-level errors
   const handleRouteError = (error: unknown, reply: any, operation: string) => {
+    if (error instanceof ProxyError && error.statusCode < 500) {
+      reply.status(error.statusCode);
+      return { error: error.message, code: error.code, details: error.context };
+    }
+
     fastify.log.error(`Request logging route error [${operation}]:`, error);
     reply.status(500);
     return createErrorResponse(error);
@@ -59,57 +162,7 @@ export async function requestRoutes(fastify: FastifyInstance) {
       try {
         const logger = getRequestLogger();
 
-        const filters: RequestFilters = {};
-
-        // Safe parameter parsing
-        try {
-          if (request.query.method) {
-            filters.method = request.query.method.toUpperCase();
-          }
-
-          if (request.query.status) {
-            const statusCode = parseInt(request.query.status);
-            if (!isNaN(statusCode)) {
-              filters.statusCode = statusCode;
-            }
-          }
-
-          if (request.query.url) {
-            filters.url = request.query.url;
-          }
-
-          if (request.query.cacheHit) {
-            filters.cacheHit = request.query.cacheHit === "true";
-          }
-
-          if (request.query.cacheKey) {
-            filters.cacheKey = request.query.cacheKey;
-          }
-
-          if (request.query.dateFrom) {
-            filters.dateFrom = request.query.dateFrom;
-          }
-
-          if (request.query.dateTo) {
-            filters.dateTo = request.query.dateTo;
-          }
-
-          if (request.query.limit) {
-            const limit = parseInt(request.query.limit);
-            filters.limit =
-              !isNaN(limit) && limit > 0 ? Math.min(limit, 1000) : 50; // Cap at 1000
-          } else {
-            filters.limit = 50; // Default limit
-          }
-
-          if (request.query.offset) {
-            const offset = parseInt(request.query.offset);
-            filters.offset = !isNaN(offset) && offset >= 0 ? offset : 0;
-          }
-        } catch (error) {
-          fastify.log.warn("Failed to parse query parameters:", error);
-          // Continue with default filters
-        }
+        const filters = parseRequestFilters(request.query, 50, 1000, fastify.log);
 
         const requests = await safeLoggerOperation(
           () => logger.getRequests(filters),
@@ -161,6 +214,230 @@ export async function requestRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Export requests as a HAR 1.2 archive (or our own JSON), honoring the usual filters
+  fastify.get<{ Querystring: ExportQuery }>(
+    "/requests/export",
+    { preHandler: requirePermission(PERMISSIONS.REQUESTS_READ) },
+    async (request, reply) => {
+      try {
+        const format = (request.query.format ?? "har").toLowerCase();
+        if (format !== "har" && format !== "json") {
+          reply.status(400);
+          return { error: "Unsupported export format, use 'har' or 'json'" };
+        }
+
+        const filters = parseRequestFilters(request.query, 1000, 10000, fastify.log);
+        const requests = await getRequestLogger().getRequests(filters);
+        const filename = `requests-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+
+        if (format === "json") {
+          reply.header("Content-Disposition", `attachment; filename="${filename}.json"`);
+          return { requests, count: requests.length, filters };
+        }
+
+        reply.header("Content-Type", "application/json; charset=utf-8");
+        reply.header("Content-Disposition", `attachment; filename="${filename}.har"`);
+        return requestsToHar(requests, {
+          name: "proxy-stone",
+          version: process.env.npm_package_version ?? "1.0.0",
+        });
+      } catch (error) {
+        return handleRouteError(error, reply, "export-requests");
+      }
+    }
+  );
+
+  // Import a HAR file into the request log, the cache or the snapshots
+  fastify.post<{ Body: ImportBody }>(
+    "/requests/import",
+    { preHandler: requirePermission(PERMISSIONS.REQUESTS_WRITE), bodyLimit: MAX_HAR_SIZE },
+    async (request, reply) => {
+      try {
+        if (!request.body?.har) {
+          reply.status(400);
+          return { error: "HAR document is required in 'har'" };
+        }
+
+        const target = request.body.target ?? "requests";
+        if (!IMPORT_TARGETS.includes(target)) {
+          reply.status(400);
+          return { error: `Import target must be one of: ${IMPORT_TARGETS.join(", ")}` };
+        }
+
+        const { ttl } = request.body;
+        if (ttl !== undefined && (!Number.isFinite(ttl) || ttl <= 0)) {
+          reply.status(400);
+          return { error: "ttl must be a positive number of seconds" };
+        }
+
+        const entries = parseHar(request.body.har);
+        let imported = 0;
+
+        for (const entry of entries) {
+          const loggedRequest = harEntryToLoggedRequest(entry);
+
+          if (target === "requests") {
+            await getRequestLogger().logRequest(loggedRequest);
+            imported++;
+            continue;
+          }
+
+          // Only successful responses are worth replaying from the cache or a snapshot
+          const { data, headers, status } = harEntryResponse(entry);
+          if (status < 200 || status >= 300) continue;
+
+          if (target === "cache") {
+            if (!fastify.config.cacheableMethods.includes(loggedRequest.method)) continue;
+
+            const requestHeaders = JSON.parse(loggedRequest.requestHeaders);
+            const body = loggedRequest.requestBody
+              ? JSON.parse(loggedRequest.requestBody)
+              : undefined;
+            const key = fastify.cache.generateKey(
+              loggedRequest.method,
+              loggedRequest.targetUrl,
+              requestHeaders,
+              body
+            );
+            await fastify.cache.set(
+              key,
+              data,
+              headers,
+              status,
+              loggedRequest.method,
+              loggedRequest.targetUrl,
+              requestHeaders,
+              { ttl }
+            );
+            imported++;
+          } else {
+            if (loggedRequest.method !== "GET" || Buffer.isBuffer(data)) continue;
+
+            await fastify.snapshotManager.saveSnapshot(
+              loggedRequest.targetUrl,
+              data,
+              headers,
+              status,
+              ttl ?? DEFAULT_SNAPSHOT_TTL,
+              ["har-import"]
+            );
+            imported++;
+          }
+        }
+
+        fastify.log.info({ target, imported, total: entries.length }, "HAR file imported");
+
+        return {
+          success: true,
+          target,
+          imported,
+          skipped: entries.length - imported,
+          total: entries.length,
+        };
+      } catch (error) {
+        return handleRouteError(error, reply, "import-requests");
+      }
+    }
+  );
+
+  // Re-issue logged requests against the upstream and diff the responses
+  fastify.post<{ Body: ReplayBody }>(
+    "/requests/replay",
+    { preHandler: requirePermission(PERMISSIONS.REQUESTS_WRITE) },
+    async (request, reply) => {
+      try {
+        const { filters = {}, ...options } = request.body ?? {};
+        const job = await fastify.requestReplay.startJob({
+          ...options,
+          filters: {
+            ...filters,
+            method: filters.method?.toUpperCase(),
+          },
+        });
+        fastify.log.info({ jobId: job.id, total: job.progress.total }, "Request replay started");
+
+        reply.status(202);
+        return { success: true, job };
+      } catch (error) {
+        return handleRouteError(error, reply, "start-replay");
+      }
+    }
+  );
+
+  // List replay jobs without their per-request results
+  fastify.get(
+    "/requests/replay",
+    { preHandler: requirePermission(PERMISSIONS.REQUESTS_READ) },
+    async (_request, reply) => {
+      try {
+        const jobs = fastify.requestReplay.listJobs();
+        return { jobs, total: jobs.length };
+      } catch (error) {
+        return handleRouteError(error, reply, "list-replays");
+      }
+    }
+  );
+
+  // Get the report of a replay job
+  fastify.get<{ Params: ReplayParams }>(
+    "/requests/replay/:id",
+    { preHandler: requirePermission(PERMISSIONS.REQUESTS_READ) },
+    async (request, reply) => {
+      try {
+        const job = fastify.requestReplay.getJob(request.params.id);
+
+        if (!job) {
+          reply.status(404);
+          return { error: "Replay job not found" };
+        }
+
+        return { job };
+      } catch (error) {
+        return handleRouteError(error, reply, "get-replay");
+      }
+    }
+  );
+
+  // Stop a running replay job
+  fastify.post<{ Params: ReplayParams }>(
+    "/requests/replay/:id/cancel",
+    { preHandler: requirePermission(PERMISSIONS.REQUESTS_WRITE) },
+    async (request, reply) => {
+      try {
+        const job = fastify.requestReplay.cancelJob(request.params.id);
+
+        if (!job) {
+          reply.status(404);
+          return { error: "Replay job not found" };
+        }
+
+        return { success: true, status: job.status };
+      } catch (error) {
+        return handleRouteError(error, reply, "cancel-replay");
+      }
+    }
+  );
+
+  // Remove a finished replay job and its report
+  fastify.delete<{ Params: ReplayParams }>(
+    "/requests/replay/:id",
+    { preHandler: requirePermission(PERMISSIONS.REQUESTS_WRITE) },
+    async (request, reply) => {
+      try {
+        const removed = fastify.requestReplay.deleteJob(request.params.id);
+
+        if (!removed) {
+          reply.status(404);
+          return { error: "Replay job not found" };
+        }
+
+        return { success: true, message: `Replay job '${request.params.id}' removed` };
+      } catch (error) {
+        return handleRouteError(error, reply, "delete-replay");
+      }
+    }
+  );
+
   // Get a specific request by ID
   fastify.get(
     "/requests/:id",
@@ -0,0 +1,273 @@
+import { FastifyInstance } from "fastify";
+import { RouteConfig, UpstreamConfig } from "@/types/index.js";
+import { ProxyError } from "@/types/errors.js";
+import { createErrorResponse } from "@/utils/response.js";
+import { normalizeHeaders } from "@/utils/request.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
+
+interface RouteParams {
+  id: string;
+}
+
+interface UpstreamParams {
+  name: string;
+}
+
+interface MatchBody {
+  method?: string;
+  path: string;
+  host?: string;
+  headers?: Record<string, string>;
+}
+
+export async function routingRoutes(fastify: FastifyInstance) {
+  const getRoutingTable = () => fastify.routingTable;
+  const getRoutingStore = () => fastify.routingStore;
+
+  // Error handler for routing table errors
+  const handleRoutingError = (error: unknown, reply: any, operation: string) => {
+    if (error instanceof ProxyError) {
+      reply.status(error.statusCode);
+      return { error: error.message, code: error.code, details: error.context };
+    }
+
+    fastify.log.error(`Routing management error [${operation}]:`, error);
+    reply.status(500);
+    return createErrorResponse(error);
+  };
+
+  // ========================================
+  // ROUTES API
+  // ========================================
+
+  // GET /routes - List all routes in evaluation order
+  fastify.get(
+    "/routes",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_READ) },
+    async (_request, reply) => {
+      try {
+        const routingTable = getRoutingTable();
+        return {
+          routes: routingTable.listRoutes(),
+          upstreams: routingTable.listUpstreams(),
+        };
+      } catch (error) {
+        return handleRoutingError(error, reply, "list-routes");
+      }
+    }
+  );
+
+  // POST /routes - Add a new route
+  fastify.post<{ Body: RouteConfig }>(
+    "/routes",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_WRITE) },
+    async (request, reply) => {
+      try {
+        if (!request.body || typeof request.body !== "object") {
+          reply.status(400);
+          return { error: "Route definition is required" };
+        }
+
+        const route = await getRoutingStore().addRoute(request.body);
+        request.audit = { target: route.id, after: route };
+        fastify.log.info({ route: route.id, upstream: route.upstream }, "Route added");
+
+        reply.status(201);
+        return { success: true, route };
+      } catch (error) {
+        return handleRoutingError(error, reply, "add-route");
+      }
+    }
+  );
+
+  // ========================================
+  // UPSTREAMS API
+  // ========================================
+
+  // GET /routes/upstreams - List configured upstreams
+  fastify.get(
+    "/routes/upstreams",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_READ) },
+    async (_request, reply) => {
+      try {
+        return { upstreams: getRoutingTable().listUpstreams() };
+      } catch (error) {
+        return handleRoutingError(error, reply, "list-upstreams");
+      }
+    }
+  );
+
+  // GET /routes/upstreams/:name - Get a single upstream
+  fastify.get<{ Params: UpstreamParams }>(
+    "/routes/upstreams/:name",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_READ) },
+    async (request, reply) => {
+      try {
+        const upstream = getRoutingTable().getUpstream(request.params.name);
+
+        if (!upstream) {
+          reply.status(404);
+          return { error: "Upstream not found" };
+        }
+
+        return { upstream };
+      } catch (error) {
+        return handleRoutingError(error, reply, "get-upstream");
+      }
+    }
+  );
+
+  // PUT /routes/upstreams/:name - Create or replace an upstream
+  fastify.put<{ Params: UpstreamParams; Body: Omit<UpstreamConfig, "name"> }>(
+    "/routes/upstreams/:name",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_WRITE) },
+    async (request, reply) => {
+      try {
+        if (!request.body?.url) {
+          reply.status(400);
+          return { error: "Upstream url is required" };
+        }
+
+        const before = getRoutingTable().getUpstream(request.params.name);
+        const upstream = await getRoutingStore().setUpstream({
+          ...request.body,
+          name: request.params.name,
+        });
+        request.audit = { target: upstream.name, before, after: upstream };
+        fastify.log.info({ upstream: upstream.name, url: upstream.url }, "Upstream updated");
+
+        return { success: true, upstream };
+      } catch (error) {
+        return handleRoutingError(error, reply, "set-upstream");
+      }
+    }
+  );
+
+  // DELETE /routes/upstreams/:name - Remove an upstream that no route references
+  fastify.delete<{ Params: UpstreamParams }>(
+    "/routes/upstreams/:name",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_WRITE) },
+    async (request, reply) => {
+      try {
+        const before = getRoutingTable().getUpstream(request.params.name);
+        const removed = await getRoutingStore().removeUpstream(request.params.name);
+
+        if (!removed) {
+          reply.status(404);
+          return { error: "Upstream not found" };
+        }
+        request.audit = { target: request.params.name, before, after: null };
+
+        return { success: true, message: `Upstream '${request.params.name}' removed` };
+      } catch (error) {
+        return handleRoutingError(error, reply, "remove-upstream");
+      }
+    }
+  );
+
+  // ========================================
+  // ROUTE RESOLUTION
+  // ========================================
+
+  // POST /routes/match - Show which route and upstream a request would use
+  fastify.post<{ Body: MatchBody }>(
+    "/routes/match",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_READ), config: { audit: false } },
+    async (request, reply) => {
+      try {
+        if (!request.body?.path) {
+          reply.status(400);
+          return { error: "Request path is required" };
+        }
+
+        const { method = "GET", path, host, headers = {} } = request.body;
+        const resolved = getRoutingTable().resolve({
+          method: method.toUpperCase(),
+          path: path.startsWith("/") ? path : `/${path}`,
+          host,
+          headers: normalizeHeaders(headers),
+        });
+
+        return {
+          route: resolved.route?.id ?? null,
+          upstream: resolved.upstream.name,
+          targetUrl: `${resolved.upstream.url}/${resolved.targetPath}`,
+          timeout: resolved.timeout,
+          cache: resolved.cache,
+          requestHeaders: resolved.requestHeaders,
+          responseHeaders: resolved.responseHeaders,
+          queryRewrite: resolved.queryRewrite,
+          requestBody: resolved.requestBody,
+          responseBody: resolved.responseBody,
+        };
+      } catch (error) {
+        return handleRoutingError(error, reply, "match-route");
+      }
+    }
+  );
+
+  // ========================================
+  // SINGLE ROUTE API
+  // ========================================
+
+  // GET /routes/:id - Get a single route
+  fastify.get<{ Params: RouteParams }>(
+    "/routes/:id",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_READ) },
+    async (request, reply) => {
+      try {
+        const route = getRoutingTable().getRoute(request.params.id);
+
+        if (!route) {
+          reply.status(404);
+          return { error: "Route not found" };
+        }
+
+        return { route };
+      } catch (error) {
+        return handleRoutingError(error, reply, "get-route");
+      }
+    }
+  );
+
+  // PUT /routes/:id - Update an existing route
+  fastify.put<{ Params: RouteParams; Body: Partial<RouteConfig> }>(
+    "/routes/:id",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_WRITE) },
+    async (request, reply) => {
+      try {
+        const before = getRoutingTable().getRoute(request.params.id);
+        const route = await getRoutingStore().updateRoute(request.params.id, request.body ?? {});
+        request.audit = { target: route.id, before, after: route };
+        fastify.log.info({ route: route.id, upstream: route.upstream }, "Route updated");
+
+        return { success: true, route };
+      } catch (error) {
+        return handleRoutingError(error, reply, "update-route");
+      }
+    }
+  );
+
+  // DELETE /routes/:id - Remove a route
+  fastify.delete<{ Params: RouteParams }>(
+    "/routes/:id",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_WRITE) },
+    async (request, reply) => {
+      try {
+        const before = getRoutingTable().getRoute(request.params.id);
+        const removed = await getRoutingStore().removeRoute(request.params.id);
+
+        if (!removed) {
+          reply.status(404);
+          return { error: "Route not found" };
+        }
+        request.audit = { target: request.params.id, before, after: null };
+
+        return { success: true, message: `Route '${request.params.id}' removed` };
+      } catch (error) {
+        return handleRoutingError(error, reply, "remove-route");
+      }
+    }
+  );
+}
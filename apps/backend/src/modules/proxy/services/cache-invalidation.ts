@@ -0,0 +1,114 @@
+import { CacheInvalidationRule, RouteCacheSettings } from "@/types/index.js";
+import { ValidationError } from "@/types/errors.js";
+import type { InvalidationTarget } from "@/services/cache.js";
+
+export const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+const PARAM_SEGMENT = /^(?::(\w+)|\{(\w+)\})$/;
+const PARAM_PLACEHOLDER = /:(\w+)|\{(\w+)\}/g;
+const TARGET = /^(?:([A-Za-z]+)\s+)?(\/\S*)$/;
+
+interface CompiledTemplate {
+  regex: RegExp;
+  paramNames: string[];
+}
+
+export interface ResolvedInvalidation {
+  targets: InvalidationTarget[];
+  tags: string[];
+}
+
+const compiledRules = new WeakMap<CacheInvalidationRule, CompiledTemplate>();
+
+/**
+ * Entries a successful write on `path` makes stale under the route's rules
+ */
+export function resolveInvalidation(
+  rules: CacheInvalidationRule[],
+  method: string,
+  path: string
+): ResolvedInvalidation {
+  const targets: InvalidationTarget[] = [];
+  const tags: string[] = [];
+
+  for (const rule of rules) {
+    const methods = rule.methods?.map((m) => m.toUpperCase()) ?? WRITE_METHODS;
+    if (!methods.includes(method.toUpperCase())) continue;
+
+    let compiled = compiledRules.get(rule);
+    if (!compiled) {
+      compiled = compileTemplate(rule.path);
+      compiledRules.set(rule, compiled);
+    }
+    const match = compiled.regex.exec(path);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    compiled.paramNames.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1] ?? "");
+    });
+
+    for (const target of rule.invalidates ?? []) {
+      const [, targetMethod, targetPath] = TARGET.exec(target.trim())!;
+      targets.push({
+        method: targetMethod?.toUpperCase(),
+        path: compileTemplate(targetPath, params).regex,
+      });
+    }
+    tags.push(
+      ...(rule.tags ?? []).map((tag) =>
+        tag.replace(PARAM_PLACEHOLDER, (placeholder, a, b) => params[a ?? b] ?? placeholder)
+      )
+    );
+  }
+
+  return { targets, tags };
+}
+
+export function validateCacheInvalidation(owner: string, cache?: RouteCacheSettings): void {
+  const fail = (message: string) =>
+    new ValidationError(`${owner}: ${message}`, "INVALID_CACHE_INVALIDATION", 400);
+
+  for (const rule of cache?.invalidates ?? []) {
+    if (typeof rule?.path !== "string" || !rule.path.startsWith("/")) {
+      throw fail("cache.invalidates rules need a path starting with '/'");
+    }
+    for (const target of rule.invalidates ?? []) {
+      if (typeof target !== "string" || !TARGET.test(target.trim())) {
+        throw fail(`invalid cache.invalidates target '${target}', expected "[METHOD] /path"`);
+      }
+    }
+    if (!rule.invalidates?.length && !rule.tags?.length) {
+      throw fail(`cache.invalidates rule for '${rule.path}' invalidates nothing`);
+    }
+  }
+}
+
+/**
+ * Turn a path template into a regex like mock paths do, params with a known value are
+ * matched literally and the others match any one segment
+ */
+function compileTemplate(template: string, values: Record<string, string> = {}): CompiledTemplate {
+  const paramNames: string[] = [];
+  const source = template
+    .split("/")
+    .map((segment) => {
+      const param = segment.match(PARAM_SEGMENT);
+      if (param) {
+        const name = param[1] ?? param[2];
+        if (values[name] !== undefined) return escapeRegex(encodeURIComponent(values[name]));
+        paramNames.push(name);
+        return "([^/]+)";
+      }
+      if (segment === "**") return ".*";
+
+      return segment.split("*").map(escapeRegex).join("[^/]*");
+    })
+    .join("/");
+
+  return { regex: new RegExp(`^${source}/?$`), paramNames };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,87 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { CassetteService } from "./cassette-service.js";
+
+async function createService(t: TestContext) {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "cassettes-"));
+  t.after(() => fs.rm(directory, { recursive: true, force: true }));
+
+  const service = new CassetteService({
+    mode: "off",
+    cassette: "default",
+    cassetteDir: directory,
+    matching: "strict",
+    missStatus: 404,
+  });
+  await service.initialize();
+  return { service, directory };
+}
+
+const request = (url: string) => ({
+  method: "GET",
+  url: `http://upstream.test${url}`,
+  path: url,
+  headers: { authorization: "Bearer secret", accept: "application/json" },
+});
+
+const response = (body: unknown) => ({
+  status: 200,
+  headers: { "content-type": "application/json", "set-cookie": "session=1" },
+  body,
+});
+
+test("recordings replay in order, without secrets, after a restart", async (t) => {
+  const { service, directory } = await createService(t);
+  await service.setMode("record", { cassette: "orders" });
+  service.record("GET:/orders?page=1", request("/orders?page=1"), response({ page: 1 }));
+  service.record("GET:/orders?page=1", request("/orders?page=1"), response({ page: 1, v: 2 }));
+  service.record("GET:/logo", request("/logo"), response(Buffer.from([0, 1, 2])));
+  await service.setMode("off");
+
+  const file = await fs.readFile(path.join(directory, "orders.json"), "utf8");
+  assert.ok(!file.includes("secret") && !file.includes("session=1"));
+
+  await service.setMode("replay", { cassette: "orders" });
+  const first = service.replay("GET:/orders?page=1", "GET", "/orders?page=1");
+  const second = service.replay("GET:/orders?page=1", "GET", "/orders?page=1");
+  const third = service.replay("GET:/orders?page=1", "GET", "/orders?page=1");
+  assert.deepEqual(first?.data, { page: 1 });
+  // The last recording keeps answering repeats
+  assert.deepEqual([second?.data, third?.data], [{ page: 1, v: 2 }, { page: 1, v: 2 }]);
+  assert.deepEqual(first?.headers, { "content-type": "application/json" });
+  assert.deepEqual(service.replay("GET:/logo", "GET", "/logo")?.data, Buffer.from([0, 1, 2]));
+});
+
+test("misses are counted and lenient matching falls back to method and path", async (t) => {
+  const { service } = await createService(t);
+  await service.setMode("record", { cassette: "orders" });
+  service.record("GET:/orders?page=1", request("/orders?page=1"), response({ page: 1 }));
+
+  await service.setMode("replay", { missStatus: 503 });
+  assert.equal(service.replay("GET:/orders?page=2", "GET", "/orders?page=2"), null);
+  assert.equal(service.replay("POST:/orders", "POST", "/orders"), null);
+  assert.equal(service.getStatus().misses, 2);
+  assert.equal(service.getMissStatus(), 503);
+
+  await service.setMode("replay", { matching: "lenient" });
+  const lenient = service.replay("GET:/orders?page=2", "GET", "/orders?page=2");
+  assert.equal(lenient?.matchedBy, "lenient");
+  assert.equal(service.replay("POST:/orders", "POST", "/orders"), null);
+
+  // Replaying a cassette that was never recorded misses every request
+  await service.setMode("replay", { cassette: "missing" });
+  assert.equal(service.replay("GET:/orders?page=1", "GET", "/orders?page=1"), null);
+});
+
+test("the active cassette can't be deleted and names can't leave the directory", async (t) => {
+  const { service } = await createService(t);
+  await service.setMode("replay", { cassette: "orders" });
+
+  await assert.rejects(service.deleteCassette("orders"), { code: "CASSETTE_IN_USE" });
+  await assert.rejects(service.getCassette("../secrets"), { code: "INVALID_CASSETTE_NAME" });
+  await service.setMode("off");
+  assert.equal(await service.deleteCassette("orders"), false);
+});
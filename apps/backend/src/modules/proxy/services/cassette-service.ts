@@ -0,0 +1,463 @@
+import fs from "fs/promises";
+import path from "path";
+import { RecordingConfig, RecordingMode } from "@/types/index.js";
+import { ValidationError } from "@/types/errors.js";
+
+const CASSETTE_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+const CASSETTE_NAME_PATTERN = /^[\w.-]+$/;
+const REDACTED = "[REDACTED]";
+const SENSITIVE_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+
+export interface CassetteRequest {
+  method: string;
+  url: string; // Upstream target URL
+  path: string; // Path after the API prefix, used for lenient matching
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+  encoding: "json" | "text" | "base64";
+}
+
+export interface CassetteInteraction {
+  key: string; // Same key as CacheService.generateKey
+  lenientKey: string; // Method and path only
+  recordedAt: string;
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface Cassette {
+  version: number;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteSummary {
+  name: string;
+  size: number;
+  modifiedAt: string;
+  active: boolean;
+}
+
+export interface ReplayResult {
+  interaction: CassetteInteraction;
+  matchedBy: "strict" | "lenient";
+  headers: Record<string, string>; // Recorded headers without redacted values
+  data: unknown;
+}
+
+/**
+ * Records upstream traffic to portable cassette files and replays it without touching the upstream
+ */
+export class CassetteService {
+  private config: RecordingConfig;
+  private cassette: Cassette | null = null;
+  private strictIndex: Map<string, CassetteInteraction[]> = new Map();
+  private lenientIndex: Map<string, CassetteInteraction[]> = new Map();
+  private replayCounters: Map<string, number> = new Map(); // Repeats replay in recorded order
+  private saveTimer?: NodeJS.Timeout;
+  private stats = { recorded: 0, replayed: 0, misses: 0 };
+
+  constructor(config: RecordingConfig) {
+    this.config = { ...config };
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.config.cassetteDir, { recursive: true });
+
+    if (this.config.mode !== "off") {
+      await this.load(this.config.cassette);
+    }
+  }
+
+  getMode(): RecordingMode {
+    return this.config.mode;
+  }
+
+  isRecording(): boolean {
+    return this.config.mode === "record";
+  }
+
+  isReplaying(): boolean {
+    return this.config.mode === "replay";
+  }
+
+  getStatus() {
+    return {
+      mode: this.config.mode,
+      cassette: this.config.mode === "off" ? null : this.config.cassette,
+      cassetteDir: this.config.cassetteDir,
+      matching: this.config.matching,
+      missStatus: this.config.missStatus,
+      interactions: this.cassette?.interactions.length ?? 0,
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Switch mode at runtime, pending recordings are written before the cassette changes
+   */
+  async setMode(
+    mode: RecordingMode,
+    options: Partial<Pick<RecordingConfig, "cassette" | "matching" | "missStatus">> = {}
+  ) {
+    if (!["off", "record", "replay"].includes(mode)) {
+      throw new ValidationError(
+        `Unknown recording mode '${mode}'`,
+        "INVALID_RECORDING_MODE",
+        400
+      );
+    }
+    if (options.matching && !["strict", "lenient"].includes(options.matching)) {
+      throw new ValidationError(
+        `Unknown replay matching '${options.matching}'`,
+        "INVALID_RECORDING_MODE",
+        400
+      );
+    }
+    if (
+      options.missStatus !== undefined &&
+      (!Number.isInteger(options.missStatus) ||
+        options.missStatus < 400 ||
+        options.missStatus > 599)
+    ) {
+      throw new ValidationError(
+        "missStatus must be a 4xx or 5xx status code",
+        "INVALID_RECORDING_MODE",
+        400
+      );
+    }
+
+    const cassette = options.cassette ?? this.config.cassette;
+    this.validateName(cassette);
+
+    await this.flush();
+    this.config = {
+      ...this.config,
+      mode,
+      cassette,
+      matching: options.matching ?? this.config.matching,
+      missStatus: options.missStatus ?? this.config.missStatus,
+    };
+    this.stats = { recorded: 0, replayed: 0, misses: 0 };
+
+    if (mode === "off") {
+      this.cassette = null;
+      this.rebuildIndex();
+    } else {
+      await this.load(cassette);
+    }
+
+    return this.getStatus();
+  }
+
+  // ========================================
+  // RECORD
+  // ========================================
+
+  record(
+    key: string,
+    request: CassetteRequest,
+    response: Omit<CassetteResponse, "encoding">
+  ): void {
+    if (!this.isRecording() || !this.cassette) return;
+
+    const interaction: CassetteInteraction = {
+      key,
+      lenientKey: this.lenientKey(request.method, request.path),
+      recordedAt: new Date().toISOString(),
+      request: { ...request, headers: this.redactHeaders(request.headers) },
+      response: {
+        ...this.encodeBody(response.body),
+        status: response.status,
+        headers: this.redactHeaders(response.headers),
+      },
+    };
+
+    this.cassette.interactions.push(interaction);
+    this.indexInteraction(interaction);
+    this.stats.recorded++;
+    this.scheduleSave();
+  }
+
+  // ========================================
+  // REPLAY
+  // ========================================
+
+  /**
+   * Find the recorded response for a request. Lenient matching falls back to method and path.
+   */
+  replay(key: string, method: string, requestPath: string): ReplayResult | null {
+    if (!this.isReplaying()) return null;
+
+    let matchedBy: ReplayResult["matchedBy"] = "strict";
+    let counterKey = `strict:${key}`;
+    let candidates = this.strictIndex.get(key);
+
+    if (!candidates && this.config.matching === "lenient") {
+      const lenientKey = this.lenientKey(method, requestPath);
+      matchedBy = "lenient";
+      counterKey = `lenient:${lenientKey}`;
+      candidates = this.lenientIndex.get(lenientKey);
+    }
+
+    if (!candidates || candidates.length === 0) {
+      this.stats.misses++;
+      return null;
+    }
+
+    // The last recording keeps answering once a repeated request runs past the recorded ones
+    const count = this.replayCounters.get(counterKey) ?? 0;
+    this.replayCounters.set(counterKey, count + 1);
+    const interaction = candidates[Math.min(count, candidates.length - 1)];
+
+    this.stats.replayed++;
+    const headers = Object.fromEntries(
+      Object.entries(interaction.response.headers).filter(([, value]) => value !== REDACTED)
+    );
+
+    return { interaction, matchedBy, headers, data: this.decodeBody(interaction.response) };
+  }
+
+  getMissStatus(): number {
+    return this.config.missStatus;
+  }
+
+  // ========================================
+  // CASSETTE FILES
+  // ========================================
+
+  async listCassettes(): Promise<CassetteSummary[]> {
+    const files = await fs.readdir(this.config.cassetteDir);
+    const summaries: CassetteSummary[] = [];
+
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const stat = await fs.stat(path.join(this.config.cassetteDir, file));
+      const name = file.slice(0, -".json".length);
+      summaries.push({
+        name,
+        size: stat.size,
+        modifiedAt: stat.mtime.toISOString(),
+        active: this.config.mode !== "off" && name === this.config.cassette,
+      });
+    }
+
+    return summaries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCassette(name: string): Promise<Cassette | null> {
+    this.validateName(name);
+
+    if (this.cassette?.name === name) {
+      return this.cassette;
+    }
+    return await this.readCassette(name);
+  }
+
+  /**
+   * Store an uploaded cassette, reloading it when it is the active one
+   */
+  async saveCassette(name: string, cassette: Partial<Cassette>): Promise<Cassette> {
+    this.validateName(name);
+
+    if (!Array.isArray(cassette?.interactions)) {
+      throw new ValidationError(
+        "Cassette must contain an interactions array",
+        "INVALID_CASSETTE",
+        400
+      );
+    }
+
+    const now = new Date().toISOString();
+    const normalized: Cassette = {
+      version: CASSETTE_VERSION,
+      name,
+      createdAt: cassette.createdAt ?? now,
+      updatedAt: now,
+      interactions: cassette.interactions,
+    };
+
+    await this.writeCassette(normalized);
+
+    if (this.config.mode !== "off" && this.config.cassette === name) {
+      await this.load(name);
+    }
+    return normalized;
+  }
+
+  async deleteCassette(name: string): Promise<boolean> {
+    this.validateName(name);
+
+    if (this.config.mode !== "off" && this.config.cassette === name) {
+      throw new ValidationError(
+        `Cassette '${name}' is in use, switch recording mode off first`,
+        "CASSETTE_IN_USE",
+        409,
+        { name }
+      );
+    }
+
+    try {
+      await fs.unlink(this.cassettePath(name));
+      return true;
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Write pending recordings to disk
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+
+    if (this.cassette && this.isRecording()) {
+      this.cassette.updatedAt = new Date().toISOString();
+      await this.writeCassette(this.cassette);
+    }
+  }
+
+  private async load(name: string): Promise<void> {
+    this.validateName(name);
+
+    const now = new Date().toISOString();
+    const existing = await this.readCassette(name);
+
+    // Recording appends to an existing cassette, replaying a missing one misses every request
+    this.cassette = existing ?? {
+      version: CASSETTE_VERSION,
+      name,
+      createdAt: now,
+      updatedAt: now,
+      interactions: [],
+    };
+    this.rebuildIndex();
+  }
+
+  private async readCassette(name: string): Promise<Cassette | null> {
+    try {
+      const content = await fs.readFile(this.cassettePath(name), "utf8");
+      const cassette = JSON.parse(content) as Cassette;
+      return { ...cassette, name, interactions: cassette.interactions ?? [] };
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw new ValidationError(
+        `Cassette '${name}' could not be read: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        "INVALID_CASSETTE",
+        400,
+        { name }
+      );
+    }
+  }
+
+  // Write to a temp file first so a crash never leaves a truncated cassette
+  private async writeCassette(cassette: Cassette): Promise<void> {
+    const filePath = this.cassettePath(cassette.name);
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.writeFile(tempPath, JSON.stringify(cassette, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush().catch((error) => {
+        console.error("Failed to write cassette:", error);
+      });
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private cassettePath(name: string): string {
+    return path.join(this.config.cassetteDir, `${name}.json`);
+  }
+
+  private validateName(name: string): void {
+    if (!name || !CASSETTE_NAME_PATTERN.test(name) || name.includes("..")) {
+      throw new ValidationError(
+        "Cassette names may only contain letters, digits, '-', '_' and '.'",
+        "INVALID_CASSETTE_NAME",
+        400,
+        { name }
+      );
+    }
+  }
+
+  // ========================================
+  // INDEX & ENCODING
+  // ========================================
+
+  private rebuildIndex(): void {
+    this.strictIndex.clear();
+    this.lenientIndex.clear();
+    this.replayCounters.clear();
+    this.cassette?.interactions.forEach((interaction) => this.indexInteraction(interaction));
+  }
+
+  private indexInteraction(interaction: CassetteInteraction): void {
+    const lenientKey =
+      interaction.lenientKey ??
+      this.lenientKey(interaction.request.method, interaction.request.path);
+
+    for (const [index, key] of [
+      [this.strictIndex, interaction.key],
+      [this.lenientIndex, lenientKey],
+    ] as const) {
+      const list = index.get(key) ?? [];
+      list.push(interaction);
+      index.set(key, list);
+    }
+  }
+
+  private lenientKey(method: string, requestPath: string): string {
+    return `${method.toUpperCase()} ${requestPath.split("?")[0]}`;
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.entries(headers).forEach(([key, value]) => {
+      result[key] = SENSITIVE_HEADERS.includes(key.toLowerCase()) ? REDACTED : value;
+    });
+    return result;
+  }
+
+  private encodeBody(body: unknown): Pick<CassetteResponse, "body" | "encoding"> {
+    if (Buffer.isBuffer(body)) {
+      return { body: body.toString("base64"), encoding: "base64" };
+    }
+    if (typeof body === "string") {
+      return { body, encoding: "text" };
+    }
+    return { body, encoding: "json" };
+  }
+
+  private decodeBody(response: CassetteResponse): unknown {
+    if (response.encoding === "base64" && typeof response.body === "string") {
+      return Buffer.from(response.body, "base64");
+    }
+    return response.body;
+  }
+}
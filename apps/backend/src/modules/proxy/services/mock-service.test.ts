@@ -0,0 +1,121 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import type { FastifyInstance } from "fastify";
+import { MockRepository } from "@/database/repositories/mock-repository.js";
+import { DatabaseAdapter, DatabaseDialect } from "@/database/types.js";
+import { MockDefinition } from "@/types/index.js";
+import { StoreSync } from "@/services/synced-store.js";
+import { MockRequestInfo, MockService } from "./mock-service.js";
+
+async function startService(t: TestContext) {
+  const mocks = new Map<string, MockDefinition>();
+  const repository = MockRepository.prototype;
+  t.mock.method(repository, "ensureTables", async () => {});
+  t.mock.method(repository, "listMocks", async () =>
+    [...mocks.values()].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+  );
+  t.mock.method(repository, "saveMock", async (mock: MockDefinition) => {
+    mocks.set(mock.id, mock);
+  });
+
+  const app = {
+    recovery: { withRetry: (fn: () => Promise<unknown>) => fn() },
+    errorTracker: { trackError: () => {} },
+  } as unknown as FastifyInstance;
+  const service = new MockService(app);
+  await new StoreSync([service], 0).initialize({
+    getDialect: () => DatabaseDialect.SQLITE,
+  } as DatabaseAdapter);
+  return service;
+}
+
+const request = (method: string, path: string, extra: Partial<MockRequestInfo> = {}) => ({
+  method,
+  path,
+  query: {},
+  headers: {},
+  ...extra,
+});
+
+test("the highest priority mock matching the path template wins", async (t) => {
+  const mocks = await startService(t);
+  await mocks.createMock({
+    enabled: true,
+    match: { methods: ["get"], path: "/users/:id" },
+    response: { status: 200, body: { id: "{{params.id}}", search: "{{query.q}}" } },
+  });
+  await mocks.createMock({
+    enabled: true,
+    priority: 10,
+    match: { path: "/users/me" },
+    response: { status: 200, body: { me: true } },
+  });
+  await mocks.createMock({
+    enabled: true,
+    match: { path: "/files/**" },
+    response: { status: 204 },
+  });
+
+  assert.deepEqual(mocks.match(request("GET", "/users/me"))?.mock.response.body, { me: true });
+  const info = request("GET", "/users/42", { query: { q: "x" } });
+  const result = mocks.match(info)!;
+  assert.deepEqual(result.params, { id: "42" });
+  assert.deepEqual(mocks.render(result, info).body, { id: "42", search: "x" });
+
+  assert.equal(mocks.match(request("POST", "/users/42")), null);
+  assert.equal(mocks.match(request("GET", "/files/a/b.txt"))?.mock.response.status, 204);
+  assert.equal(mocks.match(request("GET", "/users/42/orders")), null);
+});
+
+test("path parameters are taken from the decoded path without decoding again", async (t) => {
+  const mocks = await startService(t);
+  await mocks.createMock({
+    enabled: true,
+    match: { path: "/search/{term}" },
+    response: { status: 200, body: "{{params.term}}" },
+  });
+
+  // The router decoded "100%25" to "100%" and "100%2525" to "100%25"
+  assert.deepEqual(mocks.match(request("GET", "/search/100%"))?.params, { term: "100%" });
+  assert.deepEqual(mocks.match(request("GET", "/search/100%25"))?.params, { term: "100%25" });
+});
+
+test("query, header and body conditions must all match", async (t) => {
+  const mocks = await startService(t);
+  await mocks.createMock({
+    enabled: true,
+    match: {
+      path: "/orders",
+      query: { page: "*" },
+      headers: { "X-Tenant": "acme" },
+      body: { "customer.tier": "gold" },
+    },
+    response: { status: 201 },
+  });
+  const info = {
+    query: { page: ["1", "2"] },
+    headers: { "x-tenant": "acme" },
+    body: { customer: { tier: "gold" } },
+  };
+
+  assert.ok(mocks.match(request("POST", "/orders", info)));
+  assert.equal(mocks.match(request("POST", "/orders", { ...info, query: {} })), null);
+  assert.equal(
+    mocks.match(request("POST", "/orders", { ...info, body: { customer: { tier: "basic" } } })),
+    null
+  );
+});
+
+test("invalid mocks are refused when they are saved", async (t) => {
+  const mocks = await startService(t);
+
+  await assert.rejects(
+    mocks.createMock({ enabled: true, match: { path: "/a" }, response: { status: 99 } }),
+    { code: "INVALID_MOCK" }
+  );
+  await assert.rejects(
+    mocks.createMock({ enabled: true, match: { path: "re:(" }, response: { status: 200 } }),
+    { code: "INVALID_MOCK" }
+  );
+  assert.deepEqual(mocks.listMocks(), []);
+});
@@ -0,0 +1,348 @@
+import crypto from "crypto";
+import type { FastifyInstance } from "fastify";
+import { MockRepository } from "@/database/repositories/mock-repository.js";
+import { MockDefinition, MockResponse } from "@/types/index.js";
+import { DatabaseError, ValidationError } from "@/types/errors.js";
+import { SyncedStore } from "@/services/synced-store.js";
+import { mocksFromOpenApi, OpenApiImportOptions } from "./openapi-mocks.js";
+
+const MAX_DELAY_MS = 60000;
+const REGEX_PREFIX = "re:";
+
+export interface MockRequestInfo {
+  method: string;
+  path: string; // Decoded path after the API prefix, always starting with "/"
+  query: Record<string, unknown>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockMatchResult {
+  mock: MockDefinition;
+  params: Record<string, string>;
+}
+
+interface CompiledMock {
+  mock: MockDefinition;
+  pathRegex: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * Stub responses for paths the upstream does not serve (yet), stored in the snapshot database
+ * Every node reloads the mocks periodically so changes propagate across the cluster
+ */
+export class MockService extends SyncedStore<MockRepository> {
+  private mocks: CompiledMock[] = [];
+
+  constructor(app: FastifyInstance) {
+    super(app, {
+      name: "mock-service",
+      label: "mocks",
+      createRepository: (db) => new MockRepository(db),
+    });
+  }
+
+  /**
+   * Load mocks from the database, replacing the local copy
+   */
+  async reload(): Promise<void> {
+    const repository = this.getRepository();
+
+    try {
+      const mocks = await this.app.recovery.withRetry(
+        () => repository.listMocks(),
+        "database",
+        { operation: "mock-service.reload" }
+      );
+
+      this.mocks = mocks.flatMap((mock) => {
+        try {
+          return [this.compile(mock)];
+        } catch {
+          // Skip mocks another node stored that no longer compile
+          return [];
+        }
+      });
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation: "mock-service.reload" });
+      throw new DatabaseError("Failed to load mocks", "DATABASE_QUERY_ERROR", 500);
+    }
+  }
+
+  // ========================================
+  // MOCKS
+  // ========================================
+
+  listMocks(): MockDefinition[] {
+    return this.mocks.map(({ mock }) => ({ ...mock }));
+  }
+
+  getMock(id: string): MockDefinition | undefined {
+    return this.mocks.find(({ mock }) => mock.id === id)?.mock;
+  }
+
+  async createMock(input: Omit<MockDefinition, "id"> & { id?: string }): Promise<MockDefinition> {
+    const id = input.id ?? crypto.randomUUID();
+    if (this.getMock(id)) {
+      throw new ValidationError(`Mock '${id}' already exists`, "MOCK_EXISTS", 409, { id });
+    }
+
+    const now = new Date().toISOString();
+    const mock = this.validate({
+      ...input,
+      id,
+      source: input.source ?? "manual",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await this.write("mock-service.create", (repository) => repository.saveMock(mock));
+    return mock;
+  }
+
+  async updateMock(id: string, updates: Partial<MockDefinition>): Promise<MockDefinition> {
+    const existing = this.getMock(id);
+    if (!existing) {
+      throw new ValidationError(`Mock '${id}' not found`, "MOCK_NOT_FOUND", 404, { id });
+    }
+
+    const mock = this.validate({
+      ...existing,
+      ...updates,
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await this.write("mock-service.update", (repository) => repository.saveMock(mock));
+    return mock;
+  }
+
+  async removeMock(id: string): Promise<boolean> {
+    let removed = false;
+    await this.write("mock-service.remove", async (repository) => {
+      removed = await repository.deleteMock(id);
+    });
+    return removed;
+  }
+
+  /**
+   * Create mocks from the examples of an OpenAPI document, re-imports update mocks in place
+   */
+  async importOpenApi(
+    spec: unknown,
+    options: OpenApiImportOptions & { replace?: boolean } = {}
+  ): Promise<MockDefinition[]> {
+    const now = new Date().toISOString();
+    const mocks = mocksFromOpenApi(spec, options).map((mock) =>
+      this.validate({
+        ...mock,
+        createdAt: this.getMock(mock.id)?.createdAt ?? now,
+        updatedAt: now,
+      })
+    );
+
+    await this.write("mock-service.import-openapi", async (repository) => {
+      if (options.replace) {
+        await repository.deleteMocksBySource("openapi");
+      }
+      for (const mock of mocks) {
+        await repository.saveMock(mock);
+      }
+    });
+    return mocks;
+  }
+
+  // ========================================
+  // MATCHING
+  // ========================================
+
+  /**
+   * Find the first enabled mock matching a request, mocks are kept in priority order
+   */
+  match(request: MockRequestInfo): MockMatchResult | null {
+    for (const compiled of this.mocks) {
+      const { mock } = compiled;
+      if (!mock.enabled) continue;
+
+      const { methods, query, headers, body } = mock.match;
+      if (methods && methods.length > 0 && !methods.includes(request.method.toUpperCase())) {
+        continue;
+      }
+
+      const pathMatch = compiled.pathRegex.exec(request.path);
+      if (!pathMatch) continue;
+
+      if (query && !this.matchesValues(query, (name) => request.query[name])) continue;
+      if (headers && !this.matchesValues(headers, (name) => request.headers[name.toLowerCase()])) {
+        continue;
+      }
+      if (body && !this.matchesValues(body, (name) => this.getPath(request.body, name))) continue;
+
+      // The path is already decoded by the router, params are taken as they are
+      const params: Record<string, string> = { ...pathMatch.groups };
+      compiled.paramNames.forEach((name, index) => {
+        params[name] = pathMatch[index + 1] ?? "";
+      });
+
+      return { mock, params };
+    }
+
+    return null;
+  }
+
+  /**
+   * Produce the response for a matched mock, filling placeholders from the request
+   */
+  render(
+    result: MockMatchResult,
+    request: MockRequestInfo
+  ): Required<Pick<MockResponse, "status" | "headers">> & Pick<MockResponse, "body" | "delay"> {
+    const context = {
+      request: { method: request.method, path: request.path },
+      params: result.params,
+      query: request.query,
+      headers: request.headers,
+      body: request.body,
+    };
+    const { status, headers = {}, body, delay } = result.mock.response;
+
+    return {
+      status,
+      headers: this.fillTemplate(headers, context) as Record<string, string>,
+      body: this.fillTemplate(body, context),
+      delay: delay ? Math.min(delay, MAX_DELAY_MS) : undefined,
+    };
+  }
+
+  private matchesValues(
+    expected: Record<string, unknown>,
+    lookup: (name: string) => unknown
+  ): boolean {
+    return Object.entries(expected).every(([name, value]) => {
+      const actual = lookup(name);
+      if (actual === undefined) return false;
+      if (value === "*") return true;
+
+      // Repeated query parameters match when any of their values does
+      const candidates = Array.isArray(actual) && !Array.isArray(value) ? actual : [actual];
+      return candidates.some((candidate) =>
+        typeof value === "object" && value !== null
+          ? JSON.stringify(candidate) === JSON.stringify(value)
+          : String(candidate) === String(value)
+      );
+    });
+  }
+
+  private fillTemplate(value: unknown, context: Record<string, unknown>): unknown {
+    if (typeof value === "string") {
+      return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name: string) => {
+        if (name === "now") return new Date().toISOString();
+        if (name === "uuid") return crypto.randomUUID();
+
+        const resolved = this.getPath(context, name);
+        if (resolved === undefined) return placeholder;
+        return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+      });
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.fillTemplate(item, context));
+    }
+
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.fillTemplate(item, context)])
+      );
+    }
+
+    return value;
+  }
+
+  private getPath(source: unknown, path: string): unknown {
+    return path.split(".").reduce<unknown>((node, part) => {
+      if (node && typeof node === "object") {
+        return (node as Record<string, unknown>)[part];
+      }
+      return undefined;
+    }, source);
+  }
+
+  // ========================================
+  // VALIDATION
+  // ========================================
+
+  private validate(mock: MockDefinition): MockDefinition {
+    if (!mock.match?.path || typeof mock.match.path !== "string") {
+      throw new ValidationError("Mock match.path is required", "INVALID_MOCK", 400, {
+        id: mock.id,
+      });
+    }
+
+    const status = mock.response?.status;
+    if (!Number.isInteger(status) || status < 100 || status > 599) {
+      throw new ValidationError(
+        "Mock response.status must be an HTTP status code",
+        "INVALID_MOCK",
+        400,
+        { id: mock.id, status }
+      );
+    }
+
+    const normalized: MockDefinition = {
+      ...mock,
+      enabled: mock.enabled !== false,
+      match: {
+        ...mock.match,
+        methods: mock.match.methods?.map((method) => method.toUpperCase()),
+      },
+    };
+
+    // Surface invalid patterns on write instead of on the next reload
+    this.compile(normalized);
+    return normalized;
+  }
+
+  /**
+   * Turn a path template into a regex: ":id" and "{id}" capture one segment,
+   * "*" matches within a segment and "**" across segments
+   */
+  private compile(mock: MockDefinition): CompiledMock {
+    const { path } = mock.match;
+
+    if (path.startsWith(REGEX_PREFIX)) {
+      try {
+        return { mock, pathRegex: new RegExp(path.slice(REGEX_PREFIX.length)), paramNames: [] };
+      } catch (error) {
+        throw new ValidationError(
+          `Invalid mock path regex: ${error instanceof Error ? error.message : String(error)}`,
+          "INVALID_MOCK",
+          400,
+          { id: mock.id, path }
+        );
+      }
+    }
+
+    const paramNames: string[] = [];
+    const normalized = path.startsWith("/") ? path : `/${path}`;
+    const source = normalized
+      .split("/")
+      .map((segment) => {
+        const param = segment.match(/^(?::(\w+)|\{(\w+)\})$/);
+        if (param) {
+          paramNames.push(param[1] ?? param[2]);
+          return "([^/]+)";
+        }
+        if (segment === "**") return ".*";
+
+        return segment
+          .split("*")
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+          .join("[^/]*");
+      })
+      .join("/");
+
+    return { mock, pathRegex: new RegExp(`^${source}/?$`), paramNames };
+  }
+}
@@ -0,0 +1,172 @@
+import { MockDefinition } from "@/types/index.js";
+import { ValidationError } from "@/types/errors.js";
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete", "head", "options"];
+const MAX_SCHEMA_DEPTH = 8;
+
+export interface OpenApiImportOptions {
+  pathPrefix?: string; // Prepended to every spec path, e.g. when the spec omits a version prefix
+  enabled?: boolean;
+  priority?: number;
+}
+
+/**
+ * Build mocks from an OpenAPI 3 / Swagger 2 document using the examples of each operation.
+ * Operations without an example get a body generated from the response schema.
+ */
+export function mocksFromOpenApi(
+  spec: any,
+  options: OpenApiImportOptions = {}
+): MockDefinition[] {
+  if (!spec || typeof spec !== "object" || !spec.paths || typeof spec.paths !== "object") {
+    throw new ValidationError(
+      "OpenAPI document must contain a paths object",
+      "INVALID_OPENAPI_SPEC",
+      400
+    );
+  }
+
+  const prefix = (options.pathPrefix ?? "").replace(/\/+$/, "");
+  const mocks: MockDefinition[] = [];
+
+  for (const [path, pathItem] of Object.entries<any>(spec.paths)) {
+    if (!pathItem || typeof pathItem !== "object") continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      const response = pickResponse(operation.responses);
+      const mockPath = `${prefix}${path.startsWith("/") ? path : `/${path}`}`;
+
+      mocks.push({
+        id: `openapi-${slugify(operation.operationId ?? `${method}-${mockPath}`)}`,
+        name: operation.summary ?? operation.operationId ?? `${method.toUpperCase()} ${path}`,
+        enabled: options.enabled !== false,
+        priority: options.priority ?? 0,
+        match: { methods: [method.toUpperCase()], path: mockPath },
+        response: {
+          status: response.status,
+          headers: response.contentType ? { "content-type": response.contentType } : undefined,
+          body: response.definition ? exampleFor(spec, response.definition) : undefined,
+        },
+        source: "openapi",
+      });
+    }
+  }
+
+  return mocks;
+}
+
+/**
+ * Prefer the lowest 2xx response, then "default", then whatever is declared first
+ */
+function pickResponse(responses: Record<string, any> | undefined): {
+  status: number;
+  contentType?: string;
+  definition?: any;
+} {
+  const entries = Object.entries(responses ?? {});
+  const success = entries
+    .filter(([code]) => /^2\d\d$/.test(code))
+    .sort(([a], [b]) => Number(a) - Number(b))[0];
+  const [code, response] =
+    success ?? entries.find(([code]) => code === "default") ?? entries[0] ?? ["200", {}];
+  const status = /^\d{3}$/.test(code) ? Number(code) : 200;
+
+  // OpenAPI 3 keeps examples per media type
+  if (response?.content && typeof response.content === "object") {
+    const mediaTypes = Object.keys(response.content);
+    const contentType = mediaTypes.find((type) => type.includes("json")) ?? mediaTypes[0];
+    return {
+      status,
+      contentType,
+      definition: contentType ? response.content[contentType] : undefined,
+    };
+  }
+
+  // Swagger 2 keeps examples and the schema on the response itself
+  if (response?.examples || response?.schema) {
+    const examples = response.examples ?? {};
+    const contentType =
+      Object.keys(examples).find((type) => type.includes("json")) ?? "application/json";
+    return {
+      status,
+      contentType,
+      definition: { example: examples[contentType], schema: response.schema },
+    };
+  }
+
+  return { status };
+}
+
+function exampleFor(spec: any, definition: any): unknown {
+  if (definition.example !== undefined) return definition.example;
+
+  if (definition.examples && typeof definition.examples === "object") {
+    const first: any = Object.values(definition.examples)[0];
+    const example = first?.$ref ? resolveRef(spec, first.$ref) : first;
+    if (example?.value !== undefined) return example.value;
+  }
+
+  return definition.schema ? exampleFromSchema(spec, definition.schema, 0) : undefined;
+}
+
+function exampleFromSchema(spec: any, schema: any, depth: number): unknown {
+  if (!schema || depth > MAX_SCHEMA_DEPTH) return null;
+  if (schema.$ref) return exampleFromSchema(spec, resolveRef(spec, schema.$ref), depth + 1);
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  const composed = schema.allOf ?? schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(composed) && composed.length > 0) {
+    if (!schema.allOf) return exampleFromSchema(spec, composed[0], depth + 1);
+    return composed.reduce(
+      (merged: Record<string, unknown>, part: any) => ({
+        ...merged,
+        ...(exampleFromSchema(spec, part, depth + 1) as Record<string, unknown>),
+      }),
+      {}
+    );
+  }
+
+  switch (schema.type) {
+    case "array":
+      return [exampleFromSchema(spec, schema.items, depth + 1)];
+    case "string":
+      return schema.format === "date-time" ? new Date(0).toISOString() : "string";
+    case "integer":
+    case "number":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return true;
+    case "object":
+    default: {
+      if (!schema.properties) return schema.type === "object" ? {} : null;
+      const result: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries(schema.properties)) {
+        result[name] = exampleFromSchema(spec, property, depth + 1);
+      }
+      return result;
+    }
+  }
+}
+
+// Only local references ("#/components/schemas/User") are supported
+function resolveRef(spec: any, ref: string): any {
+  if (!ref.startsWith("#/")) return null;
+
+  return ref
+    .slice(2)
+    .split("/")
+    .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce((node, part) => (node && typeof node === "object" ? node[part] : undefined), spec);
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
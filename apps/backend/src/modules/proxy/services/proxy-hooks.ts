@@ -0,0 +1,266 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { ProxyPluginsConfig } from "@/types/index.js";
+import type { ProcessedRequest } from "@/utils/request.js";
+import type { ResolvedRoute } from "./routing-table.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Shared by all hooks of one proxied request
+ */
+export interface ProxyHookContext {
+  app: FastifyInstance;
+  request: FastifyRequest;
+  route: ResolvedRoute;
+  proxyRequest: ProcessedRequest; // Changes to method, targetUrl, headers or body are forwarded
+  cacheKey?: string; // Set once the cache key is generated
+  state: Record<string, unknown>; // Scratch space for passing data between hooks
+}
+
+// Returned by onRequest or beforeForward to answer without contacting the upstream
+export interface ProxyHookResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface ProxyUpstreamResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+export interface ProxyHooks {
+  // After routing and request transforms, before mocks and the cache key
+  onRequest(context: ProxyHookContext): MaybePromise<ProxyHookResponse | void>;
+  // Return false to skip the cache lookup for this request
+  beforeCacheLookup(context: ProxyHookContext): MaybePromise<boolean | void>;
+  // On a cache miss, right before the upstream call
+  beforeForward(context: ProxyHookContext): MaybePromise<ProxyHookResponse | void>;
+  // Upstream responses only, return a replacement to change what is cached and sent
+  afterResponse(
+    context: ProxyHookContext,
+    response: ProxyUpstreamResponse
+  ): MaybePromise<ProxyUpstreamResponse | void>;
+  // Return false to keep the response out of the cache
+  beforeCacheStore(
+    context: ProxyHookContext,
+    response: ProxyUpstreamResponse
+  ): MaybePromise<boolean | void>;
+  onError(context: ProxyHookContext, error: unknown): MaybePromise<void>;
+}
+
+export type ProxyHookName = keyof ProxyHooks;
+
+export interface ProxyPlugin {
+  name: string;
+  description?: string;
+  priority?: number; // Higher runs first, plugins with equal priority run in registration order
+  hooks: Partial<ProxyHooks>;
+  initialize?(app: FastifyInstance): MaybePromise<void>;
+  close?(): MaybePromise<void>;
+}
+
+export interface ProxyPluginInfo {
+  name: string;
+  description?: string;
+  priority: number;
+  hooks: ProxyHookName[];
+  source: string; // "builtin", a file path or a package name
+}
+
+/**
+ * Typed hooks around the proxy request lifecycle. Plugins are registered in code, discovered
+ * from `*-proxy-plugin.js` files or loaded from npm packages, like the storage plugins.
+ * A failing hook is logged and skipped, it never fails the proxied request.
+ */
+export class ProxyHookRegistry {
+  private app: FastifyInstance;
+  private plugins: Array<{ plugin: ProxyPlugin; source: string }> = [];
+
+  constructor(app: FastifyInstance) {
+    this.app = app;
+  }
+
+  async initialize(config: ProxyPluginsConfig): Promise<void> {
+    if (!config.enabled) return;
+
+    await this.discoverPlugins(config.directory);
+    for (const name of config.packages) {
+      await this.loadModule(name, name);
+    }
+
+    for (const { plugin } of this.plugins) {
+      await plugin.initialize?.(this.app);
+    }
+  }
+
+  /**
+   * Register a proxy plugin, names must be unique
+   */
+  register(plugin: ProxyPlugin, source: string = "builtin"): void {
+    if (!plugin?.name || typeof plugin.hooks !== "object") {
+      throw new Error("Proxy plugins need a name and a hooks object");
+    }
+    if (this.plugins.some((entry) => entry.plugin.name === plugin.name)) {
+      throw new Error(`Proxy plugin '${plugin.name}' is already registered`);
+    }
+
+    this.plugins.push({ plugin, source });
+    // Stable sort keeps registration order for plugins with equal priority
+    this.plugins.sort((a, b) => (b.plugin.priority ?? 0) - (a.plugin.priority ?? 0));
+    this.app.log.info(`Registered proxy plugin: ${plugin.name} (${source})`);
+  }
+
+  unregister(name: string): boolean {
+    const count = this.plugins.length;
+    this.plugins = this.plugins.filter((entry) => entry.plugin.name !== name);
+    return this.plugins.length < count;
+  }
+
+  listPlugins(): ProxyPluginInfo[] {
+    return this.plugins.map(({ plugin, source }) => ({
+      name: plugin.name,
+      description: plugin.description,
+      priority: plugin.priority ?? 0,
+      hooks: Object.keys(plugin.hooks) as ProxyHookName[],
+      source,
+    }));
+  }
+
+  hasHook(hook: ProxyHookName): boolean {
+    return this.plugins.some(({ plugin }) => typeof plugin.hooks[hook] === "function");
+  }
+
+  /**
+   * Auto-discover and register plugins from a directory
+   */
+  async discoverPlugins(pluginDir: string): Promise<void> {
+    try {
+      const fs = await import("fs/promises");
+      const path = await import("path");
+
+      const files = await fs.readdir(pluginDir);
+
+      for (const file of files) {
+        if (/-proxy-plugin\.(js|mjs|ts)$/.test(file)) {
+          const pluginPath = path.resolve(pluginDir, file);
+          await this.loadModule(pluginPath, pluginPath);
+        }
+      }
+    } catch (error) {
+      // Plugin directory doesn't exist or can't be read - that's fine
+      this.app.log.debug(`Proxy plugin discovery failed for ${pluginDir}: ${error}`);
+    }
+  }
+
+  // ========================================
+  // HOOK RUNNERS
+  // ========================================
+
+  // The first plugin returning a response answers the request
+  async runUntilResponse(
+    hook: "onRequest" | "beforeForward",
+    context: ProxyHookContext
+  ): Promise<ProxyHookResponse | null> {
+    for (const { plugin } of this.plugins) {
+      const handler = plugin.hooks[hook];
+      if (!handler) continue;
+
+      const response = await this.invoke(plugin, hook, () => handler(context));
+      if (response) return response;
+    }
+    return null;
+  }
+
+  // A single false vetoes
+  async allows(
+    hook: "beforeCacheLookup" | "beforeCacheStore",
+    context: ProxyHookContext,
+    response?: ProxyUpstreamResponse
+  ): Promise<boolean> {
+    for (const { plugin } of this.plugins) {
+      const handler = plugin.hooks[hook];
+      if (!handler) continue;
+
+      const allowed = await this.invoke(plugin, hook, () => handler(context, response!));
+      if (allowed === false) return false;
+    }
+    return true;
+  }
+
+  // Each plugin receives the response returned by the previous one
+  async runAfterResponse(
+    context: ProxyHookContext,
+    response: ProxyUpstreamResponse
+  ): Promise<ProxyUpstreamResponse> {
+    let current = response;
+    for (const { plugin } of this.plugins) {
+      const handler = plugin.hooks.afterResponse;
+      if (!handler) continue;
+
+      current = (await this.invoke(plugin, "afterResponse", () => handler(context, current))) ??
+        current;
+    }
+    return current;
+  }
+
+  async runOnError(context: ProxyHookContext, error: unknown): Promise<void> {
+    for (const { plugin } of this.plugins) {
+      const handler = plugin.hooks.onError;
+      if (!handler) continue;
+
+      await this.invoke(plugin, "onError", () => handler(context, error));
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const { plugin } of this.plugins) {
+      try {
+        await plugin.close?.();
+      } catch (error) {
+        this.app.errorTracker.trackError(error, {
+          operation: "proxy-hooks.close",
+          context: { plugin: plugin.name },
+        });
+        // Don't throw - cleanup failures shouldn't affect shutdown
+      }
+    }
+  }
+
+  private async invoke<T>(
+    plugin: ProxyPlugin,
+    hook: ProxyHookName,
+    fn: () => MaybePromise<T>
+  ): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (error) {
+      this.app.log.warn({ error, plugin: plugin.name, hook }, "Proxy plugin hook failed");
+      this.app.metrics.incrementPluginHookError(plugin.name, hook);
+      this.app.errorTracker.trackError(error, {
+        operation: `proxy-hooks.${hook}`,
+        context: { plugin: plugin.name },
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Plugin modules default-export a plugin, or `{ register(registry) }` to register several
+   */
+  private async loadModule(specifier: string, source: string): Promise<void> {
+    try {
+      const pluginModule = await import(specifier);
+      const exported = pluginModule.default ?? pluginModule;
+
+      if (typeof exported?.register === "function") {
+        await exported.register(this);
+      } else {
+        this.register(exported as ProxyPlugin, source);
+      }
+    } catch (error) {
+      this.app.log.warn({ error, source }, "Failed to load proxy plugin");
+    }
+  }
+}
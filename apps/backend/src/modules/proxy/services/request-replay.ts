@@ -0,0 +1,495 @@
+import crypto from "crypto";
+import { FastifyInstance } from "fastify";
+import { ProxyError, ValidationError } from "@/types/errors.js";
+import { forwardRequest } from "@/utils/http-client.js";
+import { ProcessedRequest } from "@/utils/request.js";
+import {
+  LoggedRequest,
+  RequestFilters,
+} from "@/modules/monitoring/services/request-logger.js";
+
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 20;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 5000;
+const MAX_JOBS = 20; // Finished jobs beyond this are dropped, oldest first
+const MAX_DIFFS_PER_REQUEST = 50;
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+// Headers that change on every response and would drown real differences
+const VOLATILE_HEADERS = [
+  "date",
+  "age",
+  "expires",
+  "last-modified",
+  "etag",
+  "set-cookie",
+  "content-length",
+  "transfer-encoding",
+  "connection",
+  "keep-alive",
+  "server-timing",
+  "x-request-id",
+  "x-correlation-id",
+  "x-cache",
+  "x-cache-status",
+];
+
+export type ReplayBaseline = "log" | "cache";
+export type ReplayJobStatus = "running" | "completed" | "cancelled" | "failed";
+
+export interface ReplayOptions {
+  filters?: RequestFilters;
+  baseline?: ReplayBaseline; // Compare with the logged response or the cached entry
+  concurrency?: number;
+  targetBaseUrl?: string; // Send requests to another upstream, e.g. a canary
+  timeout?: number; // Per request, in milliseconds
+  includeUnsafe?: boolean; // Replay POST/PUT/PATCH/DELETE as well
+  ignoreHeaders?: string[];
+  ignorePaths?: string[]; // JSON paths excluded from the body diff, e.g. "$.meta.requestId"
+}
+
+export interface JsonDiff {
+  path: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface HeaderChange {
+  name: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ReplayComparison {
+  requestId?: string;
+  method: string;
+  url: string;
+  status: { before: number; after?: number };
+  statusChanged: boolean;
+  headerChanges: HeaderChange[];
+  bodyDiff: JsonDiff[];
+  bodyDiffTruncated?: boolean;
+  bodyCompared: boolean; // False when no usable baseline body exists (truncated or missing)
+  durationMs: number;
+  error?: string;
+}
+
+export interface ReplaySummary {
+  total: number;
+  replayed: number;
+  unchanged: number;
+  statusChanged: number;
+  headerChanged: number;
+  bodyChanged: number;
+  errors: number;
+  skipped: number; // Unsafe methods or requests without a baseline
+}
+
+export interface ReplayJob {
+  id: string;
+  status: ReplayJobStatus;
+  options: Required<Pick<ReplayOptions, "baseline" | "concurrency" | "includeUnsafe">> &
+    ReplayOptions;
+  createdAt: string;
+  finishedAt?: string;
+  progress: { total: number; completed: number };
+  summary: ReplaySummary;
+  results: ReplayComparison[]; // Only requests that changed or failed
+  error?: string;
+}
+
+interface Baseline {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+  hasBody: boolean;
+}
+
+/**
+ * Re-issues logged requests against the upstream and diffs the new responses with the
+ * logged or cached ones, as a regression check against real traffic
+ */
+export class RequestReplayService {
+  private app: FastifyInstance;
+  private jobs: Map<string, ReplayJob> = new Map();
+  private cancelled: Set<string> = new Set();
+
+  constructor(app: FastifyInstance) {
+    this.app = app;
+  }
+
+  /**
+   * Start a replay job in the background and return it right away
+   */
+  async startJob(options: ReplayOptions = {}): Promise<ReplayJob> {
+    const job = this.createJob(options);
+    const requests = await this.app.requestLogger.getRequests({
+      ...job.options.filters,
+      limit: Math.min(job.options.filters?.limit ?? DEFAULT_LIMIT, MAX_LIMIT),
+    });
+
+    job.progress.total = requests.length;
+    job.summary.total = requests.length;
+    this.jobs.set(job.id, job);
+    this.pruneJobs();
+
+    void this.run(job, requests).catch((error) => {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+      job.finishedAt = new Date().toISOString();
+      this.app.errorTracker.trackError(error, {
+        operation: "request-replay.run",
+        context: { jobId: job.id },
+      });
+    });
+
+    return job;
+  }
+
+  listJobs(): Omit<ReplayJob, "results">[] {
+    return Array.from(this.jobs.values())
+      .map(({ results: _results, ...job }) => job)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  getJob(id: string): ReplayJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Stop a running job, requests already in flight still finish
+   */
+  cancelJob(id: string): ReplayJob | undefined {
+    const job = this.jobs.get(id);
+    if (job?.status === "running") {
+      this.cancelled.add(id);
+    }
+    return job;
+  }
+
+  deleteJob(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job) return false;
+
+    if (job.status === "running") {
+      throw new ProxyError(
+        "Cancel the replay job before removing it",
+        "REPLAY_JOB_RUNNING",
+        409,
+        { jobId: id }
+      );
+    }
+
+    return this.jobs.delete(id);
+  }
+
+  close(): void {
+    for (const job of this.jobs.values()) {
+      if (job.status === "running") {
+        this.cancelled.add(job.id);
+      }
+    }
+  }
+
+  private createJob(options: ReplayOptions): ReplayJob {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      throw new ValidationError(
+        `concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`,
+        "INVALID_REPLAY_OPTIONS",
+        400
+      );
+    }
+
+    const baseline = options.baseline ?? "log";
+    if (baseline !== "log" && baseline !== "cache") {
+      throw new ValidationError(
+        "baseline must be 'log' or 'cache'",
+        "INVALID_REPLAY_OPTIONS",
+        400
+      );
+    }
+
+    if (options.targetBaseUrl) {
+      try {
+        new URL(options.targetBaseUrl);
+      } catch {
+        throw new ValidationError(
+          "targetBaseUrl must be an absolute URL",
+          "INVALID_REPLAY_OPTIONS",
+          400
+        );
+      }
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      status: "running",
+      options: {
+        ...options,
+        baseline,
+        concurrency,
+        includeUnsafe: options.includeUnsafe === true,
+      },
+      createdAt: new Date().toISOString(),
+      progress: { total: 0, completed: 0 },
+      summary: {
+        total: 0,
+        replayed: 0,
+        unchanged: 0,
+        statusChanged: 0,
+        headerChanged: 0,
+        bodyChanged: 0,
+        errors: 0,
+        skipped: 0,
+      },
+      results: [],
+    };
+  }
+
+  // Bounded concurrency: a fixed number of workers pull from a shared cursor
+  private async run(job: ReplayJob, requests: LoggedRequest[]): Promise<void> {
+    let cursor = 0;
+
+    const worker = async () => {
+      while (cursor < requests.length && !this.cancelled.has(job.id)) {
+        const loggedRequest = requests[cursor++];
+        await this.replayOne(job, loggedRequest);
+        job.progress.completed++;
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(job.options.concurrency, requests.length) }, worker)
+    );
+
+    job.status = this.cancelled.delete(job.id) ? "cancelled" : "completed";
+    job.finishedAt = new Date().toISOString();
+    this.app.log.info({ jobId: job.id, ...job.summary }, `Request replay ${job.status}`);
+  }
+
+  private async replayOne(job: ReplayJob, loggedRequest: LoggedRequest): Promise<void> {
+    const { summary, options } = job;
+
+    if (!options.includeUnsafe && !SAFE_METHODS.includes(loggedRequest.method)) {
+      summary.skipped++;
+      return;
+    }
+
+    const baseline = await this.getBaseline(loggedRequest, options.baseline);
+    if (!baseline) {
+      summary.skipped++;
+      return;
+    }
+
+    const request = this.toProcessedRequest(loggedRequest, options.targetBaseUrl);
+    const comparison: ReplayComparison = {
+      requestId: loggedRequest.id,
+      method: request.method,
+      url: request.targetUrl,
+      status: { before: baseline.status },
+      statusChanged: false,
+      headerChanges: [],
+      bodyDiff: [],
+      bodyCompared: false,
+      durationMs: 0,
+    };
+
+    const startTime = Date.now();
+    try {
+      const response = await forwardRequest(request, { timeout: options.timeout });
+      comparison.durationMs = Date.now() - startTime;
+      comparison.status.after = response.status;
+      comparison.statusChanged = response.status !== baseline.status;
+      comparison.headerChanges = diffHeaders(
+        baseline.headers,
+        response.headers,
+        options.ignoreHeaders ?? []
+      );
+
+      if (baseline.hasBody) {
+        const diff = diffJson(baseline.body, normalizeBody(response.data), "$", {
+          ignorePaths: new Set(options.ignorePaths ?? []),
+          diffs: [],
+        });
+        comparison.bodyCompared = true;
+        comparison.bodyDiff = diff.slice(0, MAX_DIFFS_PER_REQUEST);
+        comparison.bodyDiffTruncated = diff.length > MAX_DIFFS_PER_REQUEST || undefined;
+      }
+    } catch (error) {
+      comparison.durationMs = Date.now() - startTime;
+      comparison.error = error instanceof Error ? error.message : String(error);
+    }
+
+    summary.replayed++;
+    if (comparison.error) summary.errors++;
+    if (comparison.statusChanged) summary.statusChanged++;
+    if (comparison.headerChanges.length > 0) summary.headerChanged++;
+    if (comparison.bodyDiff.length > 0) summary.bodyChanged++;
+
+    const changed =
+      comparison.error !== undefined ||
+      comparison.statusChanged ||
+      comparison.headerChanges.length > 0 ||
+      comparison.bodyDiff.length > 0;
+
+    if (changed) {
+      job.results.push(comparison);
+    } else {
+      summary.unchanged++;
+    }
+  }
+
+  private async getBaseline(
+    loggedRequest: LoggedRequest,
+    source: ReplayBaseline
+  ): Promise<Baseline | null> {
+    if (source === "cache") {
+      if (!loggedRequest.cacheKey) return null;
+
+      const entry = await this.app.cache.get(loggedRequest.cacheKey);
+      if (!entry) return null;
+
+      return {
+        status: entry.status,
+        headers: entry.headers,
+        body: normalizeBody(entry.data),
+        hasBody: true,
+      };
+    }
+
+    const body = parseJson(loggedRequest.responseBody);
+    return {
+      status: loggedRequest.statusCode,
+      headers: (parseJson(loggedRequest.responseHeaders) as Record<string, string>) ?? {},
+      body,
+      // Truncated bodies are no longer valid JSON and cannot be compared
+      hasBody: body !== undefined,
+    };
+  }
+
+  private toProcessedRequest(
+    loggedRequest: LoggedRequest,
+    targetBaseUrl?: string
+  ): ProcessedRequest {
+    let targetUrl = loggedRequest.targetUrl;
+    if (targetBaseUrl) {
+      const original = new URL(loggedRequest.targetUrl);
+      const base = new URL(targetBaseUrl);
+      const basePath = base.pathname.replace(/\/+$/, "");
+      targetUrl = `${base.origin}${basePath}${original.pathname}${original.search}`;
+    }
+
+    return {
+      method: loggedRequest.method,
+      targetUrl,
+      headers: (parseJson(loggedRequest.requestHeaders) as Record<string, string>) ?? {},
+      body: parseJson(loggedRequest.requestBody),
+      originalContentType: loggedRequest.contentType,
+    };
+  }
+
+  private pruneJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => job.status !== "running")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    while (this.jobs.size > MAX_JOBS && finished.length > 0) {
+      this.jobs.delete(finished.shift()!.id);
+    }
+  }
+}
+
+/**
+ * Structured diff of two JSON values, paths use "$.a.b[0]" notation
+ */
+export function diffJson(
+  before: unknown,
+  after: unknown,
+  path: string,
+  state: { ignorePaths: Set<string>; diffs: JsonDiff[] }
+): JsonDiff[] {
+  const { ignorePaths, diffs } = state;
+  if (ignorePaths.has(path) || diffs.length > MAX_DIFFS_PER_REQUEST) return diffs;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      const itemPath = `${path}[${i}]`;
+      if (i >= after.length) diffs.push({ path: itemPath, type: "removed", before: before[i] });
+      else if (i >= before.length) diffs.push({ path: itemPath, type: "added", after: after[i] });
+      else diffJson(before[i], after[i], itemPath, state);
+    }
+    return diffs;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const keyPath = `${path}.${key}`;
+      if (ignorePaths.has(keyPath)) continue;
+
+      if (!(key in after)) diffs.push({ path: keyPath, type: "removed", before: before[key] });
+      else if (!(key in before)) diffs.push({ path: keyPath, type: "added", after: after[key] });
+      else diffJson(before[key], after[key], keyPath, state);
+    }
+    return diffs;
+  }
+
+  if (before !== after) {
+    diffs.push({ path, type: "changed", before, after });
+  }
+  return diffs;
+}
+
+function diffHeaders(
+  before: Record<string, string>,
+  after: Record<string, string>,
+  ignoreHeaders: string[]
+): HeaderChange[] {
+  const ignored = new Set([
+    ...VOLATILE_HEADERS,
+    ...ignoreHeaders.map((name) => name.toLowerCase()),
+  ]);
+  const lowerBefore = lowercaseKeys(before);
+  const lowerAfter = lowercaseKeys(after);
+  const names = new Set([...Object.keys(lowerBefore), ...Object.keys(lowerAfter)]);
+  const changes: HeaderChange[] = [];
+
+  for (const name of names) {
+    if (ignored.has(name) || lowerBefore[name] === lowerAfter[name]) continue;
+    changes.push({ name, before: lowerBefore[name], after: lowerAfter[name] });
+  }
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Binary bodies are compared by content, anything else as JSON
+function normalizeBody(data: unknown): unknown {
+  return Buffer.isBuffer(data) ? `[binary sha256:${sha256(data)}]` : data;
+}
+
+function parseJson(value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function lowercaseKeys(values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).map(([key, value]) => [key.toLowerCase(), String(value)])
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex").substring(0, 16);
+}
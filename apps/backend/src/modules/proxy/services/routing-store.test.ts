@@ -0,0 +1,106 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import type { FastifyInstance } from "fastify";
+import { RoutingRepository } from "@/database/repositories/routing-repository.js";
+import { DatabaseAdapter, DatabaseDialect } from "@/database/types.js";
+import { RouteConfig, UpstreamConfig } from "@/types/index.js";
+import { StoreSync } from "@/services/synced-store.js";
+import { RoutingStore } from "./routing-store.js";
+import { RoutingTable } from "./routing-table.js";
+
+type Row<T extends object> = T | { removed: true };
+
+// Tables shared by every node, behind the repository methods the store calls
+function mockDatabase(t: TestContext) {
+  const routes = new Map<string, Row<RouteConfig>>();
+  const upstreams = new Map<string, Row<UpstreamConfig>>();
+  const list = <T extends object>(rows: Map<string, Row<T>>) => ({
+    definitions: [...rows.values()].filter((row): row is T => !("removed" in row)),
+    removed: [...rows].filter(([, row]) => "removed" in row).map(([key]) => key),
+  });
+  const repository = RoutingRepository.prototype;
+
+  t.mock.method(repository, "ensureTables", async () => {});
+  t.mock.method(repository, "listRoutes", async () => list(routes));
+  t.mock.method(repository, "saveRoute", async (route: RouteConfig) => {
+    routes.set(route.id, route);
+  });
+  t.mock.method(repository, "deleteRoute", async (id: string) => routes.delete(id));
+  t.mock.method(repository, "saveRemovedRoute", async (id: string) => {
+    routes.set(id, { removed: true });
+  });
+  t.mock.method(repository, "listUpstreams", async () => list(upstreams));
+  t.mock.method(repository, "saveRemovedUpstream", async (name: string) => {
+    upstreams.set(name, { removed: true });
+  });
+
+  return { routes };
+}
+
+async function startNode() {
+  const app = {
+    recovery: { withRetry: (fn: () => Promise<unknown>) => fn() },
+    errorTracker: { trackError: () => {} },
+  } as unknown as FastifyInstance;
+  const table = new RoutingTable(
+    {
+      upstreams: [
+        { name: "admin", url: "http://admin.test" },
+        { name: "reports", url: "http://reports.test" },
+      ],
+      routes: [
+        { id: "admin", upstream: "admin", match: { pathPrefix: "/admin" }, enabled: true },
+      ],
+    },
+    "http://default.test"
+  );
+
+  const store = new RoutingStore(app, table);
+  const sync = new StoreSync([store], 0);
+  await sync.initialize({ getDialect: () => DatabaseDialect.SQLITE } as DatabaseAdapter);
+  return { store, sync, table };
+}
+
+test("removed configured routes and upstreams stay removed on every node", async (t) => {
+  mockDatabase(t);
+  const first = await startNode();
+  const second = await startNode();
+
+  assert.equal(await first.store.removeRoute("admin"), true);
+  assert.equal(await first.store.removeUpstream("reports"), true);
+  assert.equal(first.table.getRoute("admin"), undefined);
+
+  await second.sync.sync();
+  assert.equal(second.table.getRoute("admin"), undefined);
+  assert.equal(second.table.getUpstream("reports"), undefined);
+
+  // A restarted node starts from the configuration and applies the tombstones
+  const restarted = await startNode();
+  assert.equal(restarted.table.getRoute("admin"), undefined);
+  assert.ok(restarted.table.getUpstream("admin"));
+
+  // Adding the route again replaces its tombstone
+  await restarted.store.addRoute({
+    id: "admin",
+    upstream: "admin",
+    match: { pathPrefix: "/backoffice" },
+    enabled: true,
+  });
+  await first.sync.sync();
+  assert.equal(first.table.getRoute("admin")?.match.pathPrefix, "/backoffice");
+});
+
+test("routes only known from the database are deleted without a tombstone", async (t) => {
+  const { routes } = mockDatabase(t);
+  const node = await startNode();
+
+  await node.store.addRoute({
+    id: "reports",
+    upstream: "reports",
+    match: { pathPrefix: "/reports" },
+    enabled: true,
+  });
+  assert.equal(await node.store.removeRoute("reports"), true);
+  assert.equal(routes.has("reports"), false);
+  assert.equal(await node.store.removeRoute("reports"), false);
+});
@@ -0,0 +1,152 @@
+import type { FastifyInstance } from "fastify";
+import {
+  RoutingRepository,
+  StoredDefinitions,
+} from "@/database/repositories/routing-repository.js";
+import { RouteConfig, UpstreamConfig } from "@/types/index.js";
+import { DatabaseError, ValidationError } from "@/types/errors.js";
+import { SyncedStore } from "@/services/synced-store.js";
+import { RoutingTable } from "./routing-table.js";
+
+/**
+ * Routes and upstreams changed through the /routes API, stored in the snapshot database so
+ * they survive restarts and are shared by cluster nodes. Routes and upstreams from the
+ * configuration are kept next to the stored ones until they are changed, which stores them,
+ * or removed, which stores a tombstone.
+ */
+export class RoutingStore extends SyncedStore<RoutingRepository> {
+  private routingTable: RoutingTable;
+  private configUpstreams: UpstreamConfig[];
+  private configRoutes: RouteConfig[];
+
+  constructor(app: FastifyInstance, routingTable: RoutingTable) {
+    super(app, {
+      name: "routing-store",
+      label: "routes",
+      createRepository: (db) => new RoutingRepository(db),
+    });
+    this.routingTable = routingTable;
+    // The table starts out with the configured upstreams (including the default) and routes
+    this.configUpstreams = routingTable.listUpstreams();
+    this.configRoutes = routingTable.listRoutes();
+  }
+
+  /**
+   * Load routes and upstreams from the database and apply them on top of the configured ones
+   */
+  async reload(): Promise<void> {
+    const repository = this.getRepository();
+
+    try {
+      const [upstreams, routes] = await this.app.recovery.withRetry(
+        () => Promise.all([repository.listUpstreams(), repository.listRoutes()]),
+        "database",
+        { operation: "routing-store.reload" }
+      );
+
+      this.routingTable.load(
+        mergeBy("name", upstreams, this.configUpstreams),
+        mergeBy("id", routes, this.configRoutes)
+      );
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation: "routing-store.reload" });
+      throw new DatabaseError("Failed to load routes", "DATABASE_QUERY_ERROR", 500);
+    }
+  }
+
+  // ========================================
+  // ROUTES
+  // ========================================
+
+  async addRoute(route: RouteConfig): Promise<RouteConfig> {
+    if (this.routingTable.getRoute(route.id)) {
+      throw new ValidationError(`Route '${route.id}' already exists`, "ROUTE_EXISTS", 409, {
+        id: route.id,
+      });
+    }
+
+    const normalized = this.routingTable.validateRoute(route);
+    await this.write("routing-store.save-route", (repository) =>
+      repository.saveRoute(normalized)
+    );
+    return normalized;
+  }
+
+  async updateRoute(id: string, updates: Partial<RouteConfig>): Promise<RouteConfig> {
+    const existing = this.routingTable.getRoute(id);
+    if (!existing) {
+      throw new ValidationError(`Route '${id}' not found`, "ROUTE_NOT_FOUND", 404, { id });
+    }
+
+    const normalized = this.routingTable.validateRoute({ ...existing, ...updates, id });
+    await this.write("routing-store.save-route", (repository) =>
+      repository.saveRoute(normalized)
+    );
+    return normalized;
+  }
+
+  async removeRoute(id: string): Promise<boolean> {
+    // Configured routes would come back with the next reload without their tombstone
+    const configured =
+      !!this.routingTable.getRoute(id) && this.configRoutes.some((route) => route.id === id);
+
+    let deleted = false;
+    await this.write("routing-store.delete-route", async (repository) => {
+      if (configured) {
+        await repository.saveRemovedRoute(id);
+        deleted = true;
+      } else {
+        deleted = await repository.deleteRoute(id);
+      }
+    });
+    return deleted;
+  }
+
+  // ========================================
+  // UPSTREAMS
+  // ========================================
+
+  async setUpstream(upstream: UpstreamConfig): Promise<UpstreamConfig> {
+    const normalized = this.routingTable.validateUpstream(upstream);
+    await this.write("routing-store.save-upstream", (repository) =>
+      repository.saveUpstream(normalized)
+    );
+    return normalized;
+  }
+
+  async removeUpstream(name: string): Promise<boolean> {
+    this.routingTable.checkUpstreamRemovable(name);
+    const configured =
+      !!this.routingTable.getUpstream(name) &&
+      this.configUpstreams.some((upstream) => upstream.name === name);
+
+    let deleted = false;
+    await this.write("routing-store.delete-upstream", async (repository) => {
+      if (configured) {
+        await repository.saveRemovedUpstream(name);
+        deleted = true;
+      } else {
+        deleted = await repository.deleteUpstream(name);
+      }
+    });
+    return deleted;
+  }
+}
+
+// Stored entries replace configured ones with the same key in place, so route order holds,
+// and tombstones drop them
+function mergeBy<K extends string, T extends Record<K, string>>(
+  key: K,
+  stored: StoredDefinitions<T>,
+  configured: T[]
+): T[] {
+  const storedByKey = new Map(stored.definitions.map((item) => [item[key], item]));
+  const configuredKeys = new Set(configured.map((item) => item[key]));
+  const removed = new Set(stored.removed);
+  return [
+    ...configured
+      .filter((item) => !removed.has(item[key]))
+      .map((item) => storedByKey.get(item[key]) ?? item),
+    ...stored.definitions.filter((item) => !configuredKeys.has(item[key])),
+  ];
+}
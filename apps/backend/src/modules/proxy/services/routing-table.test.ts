@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RoutingTable } from "./routing-table.js";
+
+const DEFAULT_URL = "http://default.test";
+
+function createTable() {
+  return new RoutingTable(
+    {
+      upstreams: [{ name: "admin", url: "http://admin.test" }],
+      routes: [
+        { id: "admin", upstream: "admin", match: { pathPrefix: "/admin" }, enabled: true },
+      ],
+    },
+    DEFAULT_URL
+  );
+}
+
+function resolve(table: RoutingTable, path: string) {
+  return table.resolve({ method: "GET", path, headers: {} });
+}
+
+test("paths are normalized before prefix matching", () => {
+  const table = createTable();
+
+  const paths = ["/admin/users", "//admin/users", "/public/../admin/users", "/./admin//users"];
+  for (const path of paths) {
+    const resolved = resolve(table, path);
+    assert.equal(resolved.route?.id, "admin", path);
+    assert.equal(resolved.targetPath, "admin/users", path);
+  }
+  assert.equal(resolve(table, "/administrator").route, null);
+  assert.equal(resolve(table, "/admin/../public").route, null);
+});
+
+test("loading keeps pools of unchanged upstreams and drops removed ones", () => {
+  const table = createTable();
+  const adminPool = table.getPool("admin");
+
+  table.load(
+    [
+      { name: "admin", url: "http://admin.test/" },
+      { name: "users", url: "http://users.test" },
+    ],
+    [{ id: "users", upstream: "users", match: { pathPrefix: "/users" }, enabled: true }]
+  );
+  assert.equal(table.getPool("admin"), adminPool);
+  assert.equal(resolve(table, "/users/1").upstream.name, "users");
+  assert.equal(resolve(table, "/admin").route, null);
+
+  table.load([{ name: "users", url: "http://users.test" }], []);
+  assert.equal(table.getUpstream("admin"), undefined);
+  // The default upstream can't be dropped
+  assert.equal(resolve(table, "/users/1").upstream.url, DEFAULT_URL);
+});
+
+test("loading skips definitions that no longer validate", () => {
+  const table = createTable();
+
+  table.load(
+    [{ name: "broken", url: "not a url" }],
+    [
+      { id: "orphan", upstream: "broken", match: { pathPrefix: "/broken" }, enabled: true },
+      { id: "fallback", upstream: "default", match: { pathPrefix: "/" }, enabled: true },
+    ]
+  );
+  assert.equal(table.getUpstream("broken"), undefined);
+  assert.deepEqual(table.listRoutes().map((route) => route.id), ["fallback"]);
+});
+
+test("validation doesn't change the table", () => {
+  const table = createTable();
+
+  table.validateUpstream({ name: "new", url: "http://new.test" });
+  table.validateRoute({
+    id: "new",
+    upstream: "admin",
+    match: { pathPrefix: "/new" },
+    enabled: true,
+  });
+  assert.equal(table.getUpstream("new"), undefined);
+  assert.equal(table.getRoute("new"), undefined);
+  assert.throws(() => table.checkUpstreamRemovable("admin"), { code: "UPSTREAM_IN_USE" });
+  assert.throws(() => table.checkUpstreamRemovable("default"), { code: "UPSTREAM_IN_USE" });
+});
@@ -0,0 +1,405 @@
+import { posix } from "path";
+import {
+  BodyTransform,
+  HeaderRewrite,
+  QueryRewrite,
+  ResiliencePolicy,
+  RouteCacheSettings,
+  RouteConfig,
+  RoutingConfig,
+  UpstreamConfig,
+} from "@/types/index.js";
+import { ValidationError } from "@/types/errors.js";
+import { UpstreamPool, UpstreamPoolStatus } from "./upstream-pool.js";
+import { rewritePath, validateTransforms } from "./transforms.js";
+import { validateCacheInvalidation } from "./cache-invalidation.js";
+
+export const DEFAULT_UPSTREAM = "default";
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface RouteRequestInfo {
+  method: string;
+  path: string; // Path after the API prefix, always starting with "/"
+  host?: string;
+  headers: Record<string, string>;
+}
+
+export interface ResolvedRoute {
+  route: RouteConfig | null; // null when the default upstream is used
+  upstream: UpstreamConfig;
+  pool: UpstreamPool;
+  targetPath: string;
+  timeout: number;
+  cache: RouteCacheSettings;
+  requestHeaders: HeaderRewrite;
+  responseHeaders: HeaderRewrite;
+  queryRewrite: QueryRewrite;
+  requestBody: BodyTransform;
+  responseBody: BodyTransform;
+  resilience: ResiliencePolicy;
+  breakerName: string; // Circuit breakers and retry budgets are kept per route
+}
+
+/**
+ * Routing table mapping path prefixes, hosts and headers to named upstreams
+ */
+export class RoutingTable {
+  private upstreams: Map<string, UpstreamConfig> = new Map();
+  private pools: Map<string, UpstreamPool> = new Map();
+  private routes: RouteConfig[] = [];
+  private healthChecksRunning = false;
+
+  constructor(config: RoutingConfig | undefined, defaultTargetUrl: string) {
+    this.setUpstream({ name: DEFAULT_UPSTREAM, url: defaultTargetUrl });
+
+    for (const upstream of config?.upstreams ?? []) {
+      this.setUpstream(upstream);
+    }
+
+    for (const route of config?.routes ?? []) {
+      this.addRoute(route);
+    }
+  }
+
+  /**
+   * Resolve the upstream and effective settings for an incoming request
+   */
+  resolve(request: RouteRequestInfo): ResolvedRoute {
+    // Matched and forwarded paths are the same normalized path, so "//admin" or
+    // "/public/../admin" can't step around the route for "/admin"
+    const normalized = { ...request, path: posix.normalize(`/${request.path}`) };
+    const route = this.routes.find((candidate) => this.matches(candidate, normalized)) ?? null;
+    const upstream = this.upstreams.get(route?.upstream ?? DEFAULT_UPSTREAM)!;
+
+    let targetPath = normalized.path;
+    if (route?.stripPrefix && route.match.pathPrefix) {
+      targetPath = targetPath.slice(this.normalizePath(route.match.pathPrefix).length) || "/";
+    }
+
+    return {
+      route,
+      upstream,
+      pool: this.pools.get(upstream.name)!,
+      // Upstream rules run first, so route rules see the path the upstream would get
+      targetPath: rewritePath(targetPath.replace(/^\/+/, ""), [
+        ...(upstream.pathRewrite ?? []),
+        ...(route?.pathRewrite ?? []),
+      ]),
+      timeout: route?.timeout ?? upstream.timeout ?? DEFAULT_TIMEOUT_MS,
+      cache: { ...upstream.cache, ...route?.cache },
+      requestHeaders: this.mergeRewrites(upstream.requestHeaders, route?.requestHeaders),
+      responseHeaders: this.mergeRewrites(upstream.responseHeaders, route?.responseHeaders),
+      queryRewrite: this.mergeRewrites(upstream.queryRewrite, route?.queryRewrite),
+      requestBody: this.mergeBodyTransforms(upstream.requestBody, route?.requestBody),
+      responseBody: this.mergeBodyTransforms(upstream.responseBody, route?.responseBody),
+      resilience: this.mergeResilience(upstream.resilience, route?.resilience),
+      breakerName: route ? `route:${route.id}` : `upstream:${upstream.name}`,
+    };
+  }
+
+  // ========================================
+  // ROUTES
+  // ========================================
+
+  listRoutes(): RouteConfig[] {
+    return this.routes.map((route) => ({ ...route }));
+  }
+
+  getRoute(id: string): RouteConfig | undefined {
+    return this.routes.find((route) => route.id === id);
+  }
+
+  addRoute(route: RouteConfig): RouteConfig {
+    if (this.getRoute(route.id)) {
+      throw new ValidationError(`Route '${route.id}' already exists`, "ROUTE_EXISTS", 409, {
+        id: route.id,
+      });
+    }
+
+    const normalized = this.validateRoute(route);
+    this.routes.push(normalized);
+    this.sortRoutes();
+    return normalized;
+  }
+
+  /**
+   * Replace the upstreams and routes, e.g. with the ones stored by the cluster. Pools of
+   * unchanged upstreams are kept with their health state, definitions that no longer validate
+   * are skipped.
+   */
+  load(upstreams: UpstreamConfig[], routes: RouteConfig[]): void {
+    const names = new Set(upstreams.map((upstream) => upstream.name));
+    for (const upstream of upstreams) {
+      try {
+        const normalized = this.validateUpstream(upstream);
+        if (JSON.stringify(normalized) !== JSON.stringify(this.upstreams.get(upstream.name))) {
+          this.setUpstream(normalized);
+        }
+      } catch {
+        names.delete(upstream.name);
+      }
+    }
+    for (const name of this.upstreams.keys()) {
+      if (!names.has(name) && name !== DEFAULT_UPSTREAM) {
+        this.pools.get(name)?.stopHealthChecks();
+        this.pools.delete(name);
+        this.upstreams.delete(name);
+      }
+    }
+
+    this.routes = routes.flatMap((route) => {
+      try {
+        return [this.validateRoute(route)];
+      } catch {
+        return [];
+      }
+    });
+    this.sortRoutes();
+  }
+
+  // ========================================
+  // UPSTREAMS
+  // ========================================
+
+  listUpstreams(): UpstreamConfig[] {
+    return Array.from(this.upstreams.values()).map((upstream) => ({ ...upstream }));
+  }
+
+  getUpstream(name: string): UpstreamConfig | undefined {
+    return this.upstreams.get(name);
+  }
+
+  setUpstream(upstream: UpstreamConfig): UpstreamConfig {
+    const normalized = this.validateUpstream(upstream);
+    const pool = new UpstreamPool(normalized);
+
+    this.pools.get(upstream.name)?.stopHealthChecks();
+    this.upstreams.set(upstream.name, normalized);
+    this.pools.set(upstream.name, pool);
+
+    if (this.healthChecksRunning) {
+      pool.startHealthChecks();
+    }
+    return normalized;
+  }
+
+  /**
+   * Check an upstream definition without applying it, returns it normalized
+   */
+  validateUpstream(upstream: UpstreamConfig): UpstreamConfig {
+    if (!upstream.name) {
+      throw new ValidationError("Upstream name is required", "INVALID_UPSTREAM", 400);
+    }
+
+    for (const url of [upstream.url, ...(upstream.members ?? []).map((member) => member.url)]) {
+      try {
+        new URL(url);
+      } catch {
+        throw new ValidationError(
+          `Upstream '${upstream.name}' has an invalid url: ${url}`,
+          "INVALID_UPSTREAM",
+          400,
+          { name: upstream.name }
+        );
+      }
+    }
+
+    this.validateResilience(`Upstream '${upstream.name}'`, upstream.resilience);
+    validateTransforms(`Upstream '${upstream.name}'`, upstream);
+    validateCacheInvalidation(`Upstream '${upstream.name}'`, upstream.cache);
+
+    return { ...upstream, url: upstream.url.replace(/\/+$/, "") };
+  }
+
+  /**
+   * Throws unless the upstream can be removed: it isn't the default and no route uses it
+   */
+  checkUpstreamRemovable(name: string): void {
+    if (name === DEFAULT_UPSTREAM) {
+      throw new ValidationError(
+        "The default upstream cannot be removed",
+        "UPSTREAM_IN_USE",
+        409,
+        { name }
+      );
+    }
+
+    const referencedBy = this.routes.filter((route) => route.upstream === name).map((r) => r.id);
+    if (referencedBy.length > 0) {
+      throw new ValidationError(
+        `Upstream '${name}' is referenced by routes: ${referencedBy.join(", ")}`,
+        "UPSTREAM_IN_USE",
+        409,
+        { name, routes: referencedBy }
+      );
+    }
+  }
+
+  // ========================================
+  // UPSTREAM POOLS
+  // ========================================
+
+  getPool(name: string): UpstreamPool | undefined {
+    return this.pools.get(name);
+  }
+
+  getPoolStatus(): UpstreamPoolStatus[] {
+    return Array.from(this.pools.values()).map((pool) => pool.getStatus());
+  }
+
+  startHealthChecks(): void {
+    this.healthChecksRunning = true;
+    this.pools.forEach((pool) => pool.startHealthChecks());
+  }
+
+  stopHealthChecks(): void {
+    this.healthChecksRunning = false;
+    this.pools.forEach((pool) => pool.stopHealthChecks());
+  }
+
+  // ========================================
+  // MATCHING
+  // ========================================
+
+  private matches(route: RouteConfig, request: RouteRequestInfo): boolean {
+    if (!route.enabled) return false;
+
+    const { pathPrefix, hosts, headers, methods } = route.match;
+
+    if (methods && methods.length > 0 && !methods.includes(request.method.toUpperCase())) {
+      return false;
+    }
+
+    if (pathPrefix && !this.matchesPathPrefix(request.path, pathPrefix)) {
+      return false;
+    }
+
+    if (hosts && hosts.length > 0) {
+      const host = (request.host || "").toLowerCase();
+      if (!hosts.some((pattern) => this.matchesHost(host, pattern.toLowerCase()))) {
+        return false;
+      }
+    }
+
+    if (headers) {
+      const matchesHeaders = Object.entries(headers).every(([name, expected]) => {
+        const actual = request.headers[name.toLowerCase()];
+        if (actual === undefined) return false;
+        return expected === "*" || actual === expected;
+      });
+      if (!matchesHeaders) return false;
+    }
+
+    return true;
+  }
+
+  private matchesPathPrefix(path: string, pathPrefix: string): boolean {
+    const prefix = this.normalizePath(pathPrefix);
+    if (prefix === "/") return true;
+    return path === prefix || path.startsWith(`${prefix}/`) || path.startsWith(`${prefix}?`);
+  }
+
+  private matchesHost(host: string, pattern: string): boolean {
+    if (pattern.startsWith("*.")) {
+      return host.endsWith(pattern.slice(1));
+    }
+    return host === pattern;
+  }
+
+  private normalizePath(path: string): string {
+    const withSlash = path.startsWith("/") ? path : `/${path}`;
+    return withSlash.length > 1 ? withSlash.replace(/\/+$/, "") : withSlash;
+  }
+
+  private mergeRewrites(base?: HeaderRewrite, override?: HeaderRewrite): HeaderRewrite {
+    return {
+      set: { ...base?.set, ...override?.set },
+      remove: [...(base?.remove ?? []), ...(override?.remove ?? [])],
+      rename: { ...base?.rename, ...override?.rename },
+    };
+  }
+
+  private mergeBodyTransforms(base?: BodyTransform, override?: BodyTransform): BodyTransform {
+    return {
+      set: { ...base?.set, ...override?.set },
+      remove: [...(base?.remove ?? []), ...(override?.remove ?? [])],
+      patch: [...(base?.patch ?? []), ...(override?.patch ?? [])],
+    };
+  }
+
+  private mergeResilience(base?: ResiliencePolicy, override?: ResiliencePolicy): ResiliencePolicy {
+    const retry =
+      base?.retry || override?.retry
+        ? {
+            ...base?.retry,
+            ...override?.retry,
+            maxRetries: override?.retry?.maxRetries ?? base?.retry?.maxRetries ?? 0,
+          }
+        : undefined;
+    const circuitBreaker =
+      base?.circuitBreaker || override?.circuitBreaker
+        ? { ...base?.circuitBreaker, ...override?.circuitBreaker }
+        : undefined;
+
+    return { retry, circuitBreaker };
+  }
+
+  private validateResilience(owner: string, policy?: ResiliencePolicy): void {
+    const { retry, circuitBreaker } = policy ?? {};
+    const invalid = (message: string) =>
+      new ValidationError(`${owner}: ${message}`, "INVALID_RESILIENCE_POLICY", 400);
+
+    if (retry) {
+      if (!Number.isInteger(retry.maxRetries) || retry.maxRetries < 0 || retry.maxRetries > 10) {
+        throw invalid("retry.maxRetries must be an integer between 0 and 10");
+      }
+      if (retry.jitter && !["full", "equal", "none"].includes(retry.jitter)) {
+        throw invalid("retry.jitter must be 'full', 'equal' or 'none'");
+      }
+      if (retry.budget && !(retry.budget.ratio >= 0 && retry.budget.ratio <= 1)) {
+        throw invalid("retry.budget.ratio must be between 0 and 1");
+      }
+    }
+
+    if (circuitBreaker?.failureThreshold !== undefined && circuitBreaker.failureThreshold < 1) {
+      throw invalid("circuitBreaker.failureThreshold must be at least 1");
+    }
+  }
+
+  /**
+   * Check a route definition against the current upstreams without applying it, returns it
+   * normalized
+   */
+  validateRoute(route: RouteConfig): RouteConfig {
+    if (!route.id) {
+      throw new ValidationError("Route id is required", "INVALID_ROUTE", 400);
+    }
+
+    if (!route.upstream || !this.upstreams.has(route.upstream)) {
+      throw new ValidationError(
+        `Route '${route.id}' references unknown upstream '${route.upstream}'`,
+        "UNKNOWN_UPSTREAM",
+        400,
+        { id: route.id, upstream: route.upstream }
+      );
+    }
+
+    this.validateResilience(`Route '${route.id}'`, route.resilience);
+    validateTransforms(`Route '${route.id}'`, route);
+    validateCacheInvalidation(`Route '${route.id}'`, route.cache);
+
+    return {
+      ...route,
+      match: {
+        ...route.match,
+        methods: route.match?.methods?.map((method) => method.toUpperCase()),
+      },
+      enabled: route.enabled !== false,
+    };
+  }
+
+  private sortRoutes(): void {
+    // Stable sort keeps declaration order for routes with equal priority
+    this.routes.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+}
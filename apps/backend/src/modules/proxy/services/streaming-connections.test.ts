@@ -0,0 +1,105 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import type { FastifyInstance } from "fastify";
+import { forwardRequest } from "@/utils/http-client.js";
+import { StreamingConnectionTracker } from "./streaming-connections.js";
+
+// An upstream event stream that sends the given events and stays open until cancelled
+function createUpstream(events: string[]) {
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) controller.enqueue(new TextEncoder().encode(event));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return { body, cancelled: () => cancelled };
+}
+
+function createTracker() {
+  const observed: Array<{ type: string; bytesSent: number }> = [];
+  const active: number[] = [];
+  const app = {
+    metrics: {
+      updateActiveConnections: (count: number) => active.push(count),
+      observeStreamingConnection: (
+        type: string,
+        _duration: number,
+        _bytesReceived: number,
+        bytesSent: number
+      ) => observed.push({ type, bytesSent }),
+    },
+  } as unknown as FastifyInstance;
+  return { tracker: new StreamingConnectionTracker(app), observed, active };
+}
+
+async function forwardEvents(t: TestContext, events: string[]) {
+  const upstream = createUpstream(events);
+  t.mock.method(globalThis, "fetch", async () =>
+    new Response(upstream.body, {
+      headers: { "content-type": "text/event-stream", "cache-control": "no-cache" },
+    })
+  );
+  const response = await forwardRequest({
+    method: "GET",
+    targetUrl: "http://events.test/stream",
+    headers: { accept: "text/event-stream" },
+    body: undefined,
+  });
+  return { response, upstream };
+}
+
+test("event streams are returned before the upstream ends and pass through as sent", async (t) => {
+  const { tracker, observed } = createTracker();
+  const { response, upstream } = await forwardEvents(t, ["data: 1\n\n", "data: 2\n\n"]);
+
+  assert.equal(response.data, null);
+  assert.equal(response.headers["content-type"], "text/event-stream");
+  const stream = tracker.trackEventStream(response.stream!.take()!);
+  assert.deepEqual(tracker.getStats().sse, { active: 1, total: 1 });
+
+  const chunks = stream[Symbol.asyncIterator]();
+  assert.equal((await chunks.next()).value.toString(), "data: 1\n\n");
+  assert.equal((await chunks.next()).value.toString(), "data: 2\n\n");
+  assert.equal(upstream.cancelled(), false);
+  assert.deepEqual(observed, []);
+
+  // The client going away cancels the upstream and reports the bytes sent
+  stream.destroy();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.ok(upstream.cancelled());
+  assert.deepEqual(tracker.getStats().sse, { active: 0, total: 1 });
+  assert.deepEqual(observed, [{ type: "sse", bytesSent: 18 }]);
+});
+
+test("an upstream that ends closes the client stream and is reported once", async () => {
+  const { tracker, observed, active } = createTracker();
+  const stream = tracker.trackEventStream(Readable.from([Buffer.from("data: done\n\n")]));
+
+  let text = "";
+  for await (const chunk of stream) text += chunk.toString();
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.equal(text, "data: done\n\n");
+  assert.deepEqual(observed, [{ type: "sse", bytesSent: 12 }]);
+  assert.deepEqual(active, [1, 0]);
+});
+
+test("closing all connections cancels every open event stream", async (t) => {
+  const { tracker, observed } = createTracker();
+  const first = await forwardEvents(t, ["data: a\n\n"]);
+  const second = await forwardEvents(t, []);
+  tracker.trackEventStream(first.response.stream!.take()!);
+  tracker.trackEventStream(second.response.stream!.take()!);
+  assert.equal(tracker.getStats().sse.active, 2);
+
+  tracker.closeAll();
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.ok(first.upstream.cancelled() && second.upstream.cancelled());
+  assert.deepEqual(tracker.getStats().sse, { active: 0, total: 2 });
+  assert.equal(observed.length, 2);
+});
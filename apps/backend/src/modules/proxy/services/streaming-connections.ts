@@ -0,0 +1,110 @@
+import type { FastifyInstance } from "fastify";
+import type { Socket } from "net";
+import { pipeline, Readable, Transform } from "stream";
+
+export type StreamingConnectionType = "sse" | "websocket";
+
+export interface StreamingConnectionStats {
+  active: number;
+  total: number;
+}
+
+interface ActiveConnection {
+  close: () => void;
+}
+
+/**
+ * Tracks long-lived proxied connections, Server-Sent Events and WebSockets, and reports
+ * their count, duration and bytes to the metrics service once they close.
+ */
+export class StreamingConnectionTracker {
+  private app: FastifyInstance;
+  private connections: Record<StreamingConnectionType, Set<ActiveConnection>> = {
+    sse: new Set(),
+    websocket: new Set(),
+  };
+  private totals: Record<StreamingConnectionType, number> = { sse: 0, websocket: 0 };
+
+  constructor(app: FastifyInstance) {
+    this.app = app;
+  }
+
+  /**
+   * Count the bytes of an event stream sent to the client, the returned stream replaces it
+   */
+  trackEventStream(source: Readable): Readable {
+    let bytesSent = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesSent += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    const finish = this.open("sse", () => counter.destroy());
+    // Closing either side, e.g. the client going away, also cancels the upstream body
+    pipeline(source, counter, () => finish(0, bytesSent));
+    return counter;
+  }
+
+  /**
+   * Track an upgraded client socket, `onClose` runs once the connection is gone
+   */
+  trackWebSocket(client: Socket, upstream: Socket, onClose?: () => void): void {
+    const finish = this.open("websocket", () => {
+      client.destroy();
+      upstream.destroy();
+    });
+
+    client.once("close", () => {
+      finish(client.bytesRead, client.bytesWritten);
+      onClose?.();
+    });
+  }
+
+  getStats(): Record<StreamingConnectionType, StreamingConnectionStats> {
+    return {
+      sse: { active: this.connections.sse.size, total: this.totals.sse },
+      websocket: { active: this.connections.websocket.size, total: this.totals.websocket },
+    };
+  }
+
+  /**
+   * Close all open connections, e.g. on shutdown
+   */
+  closeAll(): void {
+    for (const connections of Object.values(this.connections)) {
+      for (const connection of [...connections]) {
+        connection.close();
+      }
+    }
+  }
+
+  private open(
+    type: StreamingConnectionType,
+    close: () => void
+  ): (bytesReceived: number, bytesSent: number) => void {
+    const connections = this.connections[type];
+    const connection: ActiveConnection = { close };
+    const startTime = Date.now();
+
+    connections.add(connection);
+    this.totals[type]++;
+    this.app.metrics.updateActiveConnections(connections.size, type);
+
+    let finished = false;
+    return (bytesReceived, bytesSent) => {
+      if (finished) return;
+      finished = true;
+
+      connections.delete(connection);
+      this.app.metrics.updateActiveConnections(connections.size, type);
+      this.app.metrics.observeStreamingConnection(
+        type,
+        (Date.now() - startTime) / 1000,
+        bytesReceived,
+        bytesSent
+      );
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ValidationError } from "@/types/errors.js";
+import {
+  applyBodyTransform,
+  applyJsonPatch,
+  parseJsonPath,
+  rewritePath,
+  validateTransforms,
+} from "./transforms.js";
+
+test("set, remove and patch change a copy of the body", () => {
+  const body = { items: [{ id: 1 }, { id: 2 }], secret: "x" };
+  const result = applyBodyTransform(body, {
+    set: { "$.items[*].seen": true, "$.meta.source": "proxy", "$.list[0]": "a" },
+    remove: ["$.secret"],
+    patch: [{ op: "replace", path: "/items/0/id", value: 10 }],
+  });
+
+  assert.deepEqual(result, {
+    items: [
+      { id: 10, seen: true },
+      { id: 2, seen: true },
+    ],
+    meta: { source: "proxy" },
+    list: ["a"],
+  });
+  assert.deepEqual(body, { items: [{ id: 1 }, { id: 2 }], secret: "x" });
+});
+
+test("a failing patch operation applies none of the operations", () => {
+  const document = { a: 1 };
+  assert.throws(
+    () =>
+      applyJsonPatch(document, [
+        { op: "add", path: "/b", value: 2 },
+        { op: "test", path: "/a", value: 2 },
+      ]),
+    ValidationError
+  );
+  assert.deepEqual(document, { a: 1 });
+});
+
+test("prototype keys are refused in paths and pointers", () => {
+  for (const path of ["$.__proto__.polluted", "$['constructor'].prototype", "$.a.prototype"]) {
+    assert.throws(() => parseJsonPath(path), ValidationError);
+    assert.throws(
+      () => validateTransforms("route /api", { responseBody: { set: { [path]: "yes" } } }),
+      /INVALID_TRANSFORM|not allowed/
+    );
+  }
+  assert.throws(
+    () =>
+      validateTransforms("route /api", {
+        requestBody: { patch: [{ op: "add", path: "/__proto__/polluted", value: "yes" }] },
+      }),
+    ValidationError
+  );
+
+  assert.throws(() => applyBodyTransform({}, { set: { "$.__proto__.polluted": "yes" } }));
+  assert.throws(() =>
+    applyJsonPatch({}, [{ op: "add", path: "/constructor/prototype/polluted", value: "yes" }])
+  );
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test("inherited properties are not followed", () => {
+  const result = applyBodyTransform({}, { set: { "$.toString.name": "x" } });
+
+  assert.deepEqual(result, { toString: { name: "x" } });
+  assert.equal(typeof Object.prototype.toString, "function");
+});
+
+test("path rewrites apply in order", () => {
+  const rules = [
+    { pattern: "^/v1/", replacement: "/v2/" },
+    { pattern: "/users/(\\d+)$", replacement: "/accounts/$1" },
+  ];
+  assert.equal(rewritePath("v1/users/7", rules), "v2/accounts/7");
+});
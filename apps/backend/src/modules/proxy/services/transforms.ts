@@ -0,0 +1,476 @@
+import type { FastifyRequest } from "fastify";
+import {
+  BodyTransform,
+  JsonPatchOperation,
+  PathRewrite,
+  QueryRewrite,
+  TransformSettings,
+} from "@/types/index.js";
+import { ValidationError } from "@/types/errors.js";
+
+// Only these environment variables can be injected, route definitions can be changed through
+// the admin API and must not be able to read secrets such as JWT_SECRET
+const ENV_PREFIX = "TRANSFORM_";
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+const PATCH_OPS = ["add", "remove", "replace", "move", "copy", "test"];
+// Keys that would reach or replace an object's prototype instead of one of its properties
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+type PathSegment = string | number | "*";
+type JsonContainer = Record<string, unknown> | unknown[];
+
+/**
+ * Values available to {{...}} placeholders
+ */
+export interface TransformContext {
+  auth: {
+    sessionId?: string;
+    role?: string;
+    keyName?: string;
+    authenticated: boolean;
+  };
+  request: { id: string; ip: string; method: string; path: string };
+  headers: Record<string, string>;
+  query: Record<string, unknown>;
+}
+
+export function createTransformContext(
+  request: FastifyRequest,
+  headers: Record<string, string>
+): TransformContext {
+  return {
+    auth: {
+      sessionId: request.auth?.sessionId,
+      role: request.auth?.role,
+      keyName: request.auth?.keyName,
+      authenticated: request.auth?.authenticated ?? false,
+    },
+    request: {
+      id: request.id,
+      ip: request.ip,
+      method: request.method,
+      path: request.url.split("?")[0],
+    },
+    headers,
+    query: (request.query as Record<string, unknown>) ?? {},
+  };
+}
+
+/**
+ * Fill placeholders in strings, arrays and objects. A string that is a single placeholder
+ * keeps the type of the value, unknown placeholders become empty (or undefined).
+ */
+export function renderTemplate(value: unknown, context: TransformContext): unknown {
+  if (typeof value === "string") {
+    const single = SINGLE_PLACEHOLDER.exec(value);
+    if (single) return lookup(context, single[1]);
+
+    return value.replace(PLACEHOLDER, (_placeholder, name: string) => {
+      const resolved = lookup(context, name);
+      if (resolved === undefined || resolved === null) return "";
+      return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplate(item, context));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplate(item, context)])
+    );
+  }
+
+  return value;
+}
+
+function lookup(context: TransformContext, name: string): unknown {
+  if (name.startsWith("env.")) {
+    const variable = name.slice(4);
+    return variable.startsWith(ENV_PREFIX) ? process.env[variable] : undefined;
+  }
+
+  return name.split(".").reduce<unknown>((node, part) => {
+    if (node && typeof node === "object") {
+      return (node as Record<string, unknown>)[part];
+    }
+    return undefined;
+  }, context);
+}
+
+// ========================================
+// PATH AND QUERY
+// ========================================
+
+/**
+ * Rewrite a target path (without the leading "/") with every matching rule in order
+ */
+export function rewritePath(targetPath: string, rules?: PathRewrite[]): string {
+  if (!rules || rules.length === 0) return targetPath;
+
+  const rewritten = rules.reduce(
+    (path, rule) => path.replace(new RegExp(rule.pattern), rule.replacement),
+    `/${targetPath}`
+  );
+  return rewritten.replace(/^\/+/, "");
+}
+
+export function applyQueryRewrite(
+  query: Record<string, unknown>,
+  rewrite?: QueryRewrite,
+  context?: TransformContext
+): Record<string, unknown> {
+  if (!rewrite) return query;
+
+  const result: Record<string, unknown> = {};
+  Object.entries(query).forEach(([name, value]) => {
+    if (rewrite.remove?.includes(name)) return;
+    result[rewrite.rename?.[name] ?? name] = value;
+  });
+
+  Object.entries(rewrite.set ?? {}).forEach(([name, value]) => {
+    const rendered = context ? renderTemplate(value, context) : value;
+    if (rendered === undefined || rendered === "") return;
+    result[name] = typeof rendered === "object" ? JSON.stringify(rendered) : String(rendered);
+  });
+
+  return result;
+}
+
+// ========================================
+// JSON BODIES
+// ========================================
+
+/**
+ * Apply set, remove and JSON Patch changes to a parsed JSON body. Bodies that are not JSON
+ * objects or arrays are returned unchanged. Throws when a patch operation fails.
+ */
+export function applyBodyTransform(
+  body: unknown,
+  transform?: BodyTransform,
+  context?: TransformContext
+): unknown {
+  if (!transform || !body || typeof body !== "object") return body;
+
+  let result: unknown = structuredClone(body);
+
+  for (const [path, value] of Object.entries(transform.set ?? {})) {
+    const rendered = context ? renderTemplate(value, context) : value;
+    if (rendered === undefined) continue;
+    result = setJsonPath(result, parseJsonPath(path), rendered);
+  }
+
+  for (const path of transform.remove ?? []) {
+    removeJsonPath(result, parseJsonPath(path));
+  }
+
+  if (transform.patch && transform.patch.length > 0) {
+    result = applyJsonPatch(result, transform.patch);
+  }
+
+  return result;
+}
+
+/**
+ * Parse the supported JSONPath subset: $, .name, ['name'], [0] and the [*] / .* wildcards
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  if (!path.startsWith("$")) {
+    throw invalidTransform(`JSONPath must start with '$': ${path}`);
+  }
+
+  const segments: PathSegment[] = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*|\*)|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+  pattern.lastIndex = 1;
+
+  while (pattern.lastIndex < path.length) {
+    const match = pattern.exec(path);
+    if (!match) {
+      throw invalidTransform(`Unsupported JSONPath: ${path}`);
+    }
+
+    const token = match[1] ?? match[2];
+    if (token === "*") {
+      segments.push("*");
+    } else if (/^\d+$/.test(token) && match[2] !== undefined) {
+      segments.push(Number(token));
+    } else {
+      segments.push(safeKey(token.replace(/^['"]|['"]$/g, ""), path));
+    }
+  }
+
+  return segments;
+}
+
+function setJsonPath(root: unknown, segments: PathSegment[], value: unknown): unknown {
+  if (segments.length === 0) return value;
+
+  const visit = (node: unknown, index: number): void => {
+    if (!isContainer(node)) return;
+    const segment = segments[index];
+    const last = index === segments.length - 1;
+
+    if (segment === "*") {
+      const children = Array.isArray(node)
+        ? node.map((_item, position) => position)
+        : Object.keys(node);
+      for (const key of children) {
+        if (last) {
+          setChild(node, key, value);
+        } else {
+          visit(getChild(node, key), index + 1);
+        }
+      }
+      return;
+    }
+
+    if (last) {
+      setChild(node, segment, value);
+      return;
+    }
+
+    // Missing parents are created, as arrays when the next segment is an index
+    let child = getChild(node, segment);
+    if (child === undefined || child === null) {
+      child = typeof segments[index + 1] === "number" ? [] : {};
+      setChild(node, segment, child);
+    }
+    visit(child, index + 1);
+  };
+
+  visit(root, 0);
+  return root;
+}
+
+function removeJsonPath(root: unknown, segments: PathSegment[]): void {
+  if (segments.length === 0) return;
+
+  const parents = resolveJsonPath(root, segments.slice(0, -1));
+  const segment = segments[segments.length - 1];
+
+  for (const parent of parents) {
+    if (Array.isArray(parent)) {
+      if (segment === "*") {
+        parent.length = 0;
+      } else if (typeof segment === "number") {
+        parent.splice(segment, 1);
+      }
+    } else if (isObject(parent)) {
+      const keys = segment === "*" ? Object.keys(parent) : [String(segment)];
+      keys.forEach((key) => delete parent[key]);
+    }
+  }
+}
+
+function resolveJsonPath(root: unknown, segments: PathSegment[]): unknown[] {
+  return segments.reduce<unknown[]>(
+    (nodes, segment) =>
+      nodes.flatMap((node) => {
+        if (!isContainer(node)) return [];
+        if (segment === "*") return Object.values(node);
+
+        const child = getChild(node, segment);
+        return child === undefined ? [] : [child];
+      }),
+    [root]
+  );
+}
+
+/**
+ * RFC 6902 JSON Patch. Works on a copy, so a failing operation leaves the document unchanged.
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = structuredClone(document);
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case "add":
+        result = addPointer(result, parsePointer(operation.path), clone(operation.value));
+        break;
+      case "remove":
+        removePointer(result, parsePointer(operation.path));
+        break;
+      case "replace": {
+        const segments = parsePointer(operation.path);
+        getPointer(result, segments);
+        if (segments.length === 0) {
+          result = clone(operation.value);
+        } else {
+          removePointer(result, segments);
+          result = addPointer(result, segments, clone(operation.value));
+        }
+        break;
+      }
+      case "move": {
+        const from = parsePointer(operation.from);
+        const value = getPointer(result, from);
+        removePointer(result, from);
+        result = addPointer(result, parsePointer(operation.path), value);
+        break;
+      }
+      case "copy": {
+        const value = clone(getPointer(result, parsePointer(operation.from)));
+        result = addPointer(result, parsePointer(operation.path), value);
+        break;
+      }
+      case "test": {
+        const actual = getPointer(result, parsePointer(operation.path));
+        if (JSON.stringify(actual) !== JSON.stringify(operation.value)) {
+          throw invalidTransform(`JSON Patch test failed at '${operation.path}'`);
+        }
+        break;
+      }
+      default:
+        throw invalidTransform(`Unknown JSON Patch operation: ${(operation as any).op}`);
+    }
+  }
+
+  return result;
+}
+
+// JSON Pointer (RFC 6901), "" is the whole document
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (typeof pointer !== "string" || !pointer.startsWith("/")) {
+    throw invalidTransform(`JSON Pointer must start with '/': ${pointer}`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => safeKey(segment.replace(/~1/g, "/").replace(/~0/g, "~"), pointer));
+}
+
+function getPointer(document: unknown, segments: string[]): unknown {
+  return segments.reduce<unknown>((node, segment) => {
+    const exists = Array.isArray(node)
+      ? /^\d+$/.test(segment) && Number(segment) < node.length
+      : isObject(node) && Object.prototype.hasOwnProperty.call(node, segment);
+
+    if (!exists) {
+      throw invalidTransform(`JSON Pointer '/${segments.join("/")}' does not exist`);
+    }
+    return getChild(node as JsonContainer, segment);
+  }, document);
+}
+
+function addPointer(document: unknown, segments: string[], value: unknown): unknown {
+  if (segments.length === 0) return value;
+
+  const parent = getPointer(document, segments.slice(0, -1));
+  const key = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    const index = key === "-" ? parent.length : Number(key);
+    if (!/^(\d+|-)$/.test(key) || index > parent.length) {
+      throw invalidTransform(`Invalid array index '${key}' in JSON Patch`);
+    }
+    parent.splice(index, 0, value);
+  } else if (isObject(parent)) {
+    setChild(parent, key, value);
+  } else {
+    throw invalidTransform(`Cannot add to a non-container at '/${segments.join("/")}'`);
+  }
+  return document;
+}
+
+function removePointer(document: unknown, segments: string[]): void {
+  if (segments.length === 0) {
+    throw invalidTransform("JSON Patch cannot remove the whole document");
+  }
+
+  getPointer(document, segments);
+  const parent = getPointer(document, segments.slice(0, -1));
+  const key = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete (parent as Record<string, unknown>)[key];
+  }
+}
+
+// ========================================
+// VALIDATION
+// ========================================
+
+/**
+ * Check the transforms of a route or upstream when it is added or changed
+ */
+export function validateTransforms(owner: string, settings: TransformSettings): void {
+  const fail = (message: string) =>
+    new ValidationError(`${owner}: ${message}`, "INVALID_TRANSFORM", 400);
+
+  for (const rule of settings.pathRewrite ?? []) {
+    if (typeof rule?.pattern !== "string" || typeof rule.replacement !== "string") {
+      throw fail("pathRewrite rules need a pattern and a replacement");
+    }
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      throw fail(`invalid pathRewrite pattern '${rule.pattern}'`);
+    }
+  }
+
+  for (const transform of [settings.requestBody, settings.responseBody]) {
+    if (!transform) continue;
+
+    try {
+      Object.keys(transform.set ?? {}).forEach(parseJsonPath);
+      (transform.remove ?? []).forEach(parseJsonPath);
+
+      for (const operation of transform.patch ?? []) {
+        if (!PATCH_OPS.includes(operation?.op)) {
+          throw invalidTransform(`unknown JSON Patch operation '${operation?.op}'`);
+        }
+        parsePointer(operation.path);
+        if (operation.op === "move" || operation.op === "copy") {
+          parsePointer(operation.from);
+        }
+      }
+    } catch (error) {
+      throw fail(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+function invalidTransform(message: string): ValidationError {
+  return new ValidationError(message, "INVALID_TRANSFORM", 400);
+}
+
+function safeKey(key: string, path: string): string {
+  if (UNSAFE_KEYS.includes(key)) {
+    throw invalidTransform(`'${key}' is not allowed in paths: ${path}`);
+  }
+  return key;
+}
+
+// Own properties only, so inherited keys never lead a transform out of the document
+function getChild(container: JsonContainer, key: string | number): unknown {
+  return Object.prototype.hasOwnProperty.call(container, key)
+    ? (container as Record<string | number, unknown>)[key]
+    : undefined;
+}
+
+// Defined rather than assigned, so no inherited setter such as __proto__ runs
+function setChild(container: JsonContainer, key: string | number, value: unknown): void {
+  Object.defineProperty(container, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function isContainer(value: unknown): value is JsonContainer {
+  return typeof value === "object" && value !== null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
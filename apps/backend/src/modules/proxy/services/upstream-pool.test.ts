@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { UpstreamConfig } from "@/types/index.js";
+import { UpstreamPool } from "./upstream-pool.js";
+
+const pool = (overrides: Partial<UpstreamConfig> = {}) =>
+  new UpstreamPool({
+    name: "api",
+    url: "http://api.internal",
+    members: [{ url: "http://a.internal" }, { url: "http://b.internal/" }],
+    ...overrides,
+  });
+
+// Acquire and release right away, returning the chosen member URLs
+function pick(upstream: UpstreamPool, count: number, headers: Record<string, string> = {}) {
+  return Array.from({ length: count }, () => {
+    const member = upstream.acquire(headers)!;
+    upstream.release(member, true);
+    return member.url;
+  });
+}
+
+test("round-robin and weighted pools spread requests over the members", () => {
+  assert.deepEqual(pick(pool(), 3), [
+    "http://a.internal",
+    "http://b.internal",
+    "http://a.internal",
+  ]);
+
+  const weighted = pool({
+    loadBalancing: "weighted",
+    members: [{ url: "http://a.internal", weight: 2 }, { url: "http://b.internal" }],
+  });
+  assert.deepEqual(pick(weighted, 3), [
+    "http://a.internal",
+    "http://b.internal",
+    "http://a.internal",
+  ]);
+});
+
+test("least-connections skips busy members and consistent hashing sticks to one", () => {
+  const leastConnections = pool({ loadBalancing: "least-connections" });
+  const busy = leastConnections.acquire()!;
+  assert.notEqual(leastConnections.acquire()!.url, busy.url);
+
+  const hashed = pool({ loadBalancing: "consistent-hash", hashHeader: "X-User" });
+  const [first, ...rest] = pick(hashed, 5, { "x-user": "alice" });
+  assert.ok(rest.every((url) => url === first));
+  assert.equal(
+    hashed.resolveUrl("http://api.internal/orders?id=1", hashed.acquire({ "x-user": "alice" })!),
+    `${first}/orders?id=1`
+  );
+});
+
+test("failing members are ejected until the cool-down has passed", (t) => {
+  let now = 0;
+  t.mock.method(Date, "now", () => now);
+  const upstream = pool({ healthCheck: { unhealthyThreshold: 2, cooldown: 1000 } });
+  const fail = () => {
+    // Round-robin alternates, b succeeds in between
+    const member = upstream.acquire()!;
+    upstream.release(member, member.url !== "http://a.internal", "ECONNRESET");
+    return member.url;
+  };
+
+  assert.deepEqual([fail(), fail(), fail()], [
+    "http://a.internal",
+    "http://b.internal",
+    "http://a.internal",
+  ]);
+  const [a] = upstream.getStatus().members;
+  assert.deepEqual(
+    [a.healthy, a.lastError, a.ejectedUntil],
+    [false, "ECONNRESET", new Date(1000).toISOString()]
+  );
+  assert.deepEqual(pick(upstream, 3), Array(3).fill("http://b.internal"));
+
+  // Once the cool-down has passed a single failure ejects it again
+  now = 1000;
+  while (fail() !== "http://a.internal") {
+    // b is picked until round-robin reaches a again
+  }
+  assert.equal(upstream.getStatus().members[0].ejectedUntil, new Date(2000).toISOString());
+
+  // And a single success brings it back
+  now = 2000;
+  assert.ok(pick(upstream, 2).includes("http://a.internal"));
+  assert.equal(upstream.getStatus().healthyMembers, 2);
+});
+
+test("active health checks mark members by their status", async (t) => {
+  const probes: string[] = [];
+  t.mock.method(globalThis, "fetch", async (url: string) => {
+    probes.push(url);
+    return new Response(null, { status: url.startsWith("http://b.internal") ? 503 : 204 });
+  });
+  const upstream = pool({ healthCheck: { unhealthyThreshold: 1, path: "healthz" } });
+
+  const status = await upstream.checkHealth();
+
+  assert.deepEqual(probes, ["http://a.internal/healthz", "http://b.internal/healthz"]);
+  assert.equal(status.healthyMembers, 1);
+  assert.equal(status.members[1].lastError, "Health check returned status 503");
+  assert.deepEqual(pick(upstream, 2), ["http://a.internal", "http://a.internal"]);
+});
@@ -0,0 +1,329 @@
+import { createHash } from "crypto";
+import {
+  LoadBalancingStrategy,
+  UpstreamConfig,
+  UpstreamHealthCheckConfig,
+} from "@/types/index.js";
+
+const DEFAULT_HEALTH_CHECK: Required<Omit<UpstreamHealthCheckConfig, "expectedStatus">> = {
+  enabled: false,
+  path: "/",
+  interval: 10000,
+  timeout: 5000,
+  unhealthyThreshold: 3,
+  cooldown: 30000,
+};
+
+const HASH_RING_REPLICAS = 100;
+
+export interface PoolMember {
+  url: string;
+  weight: number;
+  healthy: boolean;
+  activeConnections: number;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  ejectedUntil?: number;
+  lastCheck?: number;
+  lastResponseTime?: number;
+  lastError?: string;
+  currentWeight: number; // Smooth weighted round-robin state
+}
+
+export interface PoolMemberStatus {
+  url: string;
+  weight: number;
+  healthy: boolean;
+  activeConnections: number;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  ejectedUntil?: string;
+  lastCheck?: string;
+  lastResponseTime?: number;
+  lastError?: string;
+}
+
+export interface UpstreamPoolStatus {
+  upstream: string;
+  strategy: LoadBalancingStrategy;
+  activeHealthChecks: boolean;
+  totalMembers: number;
+  healthyMembers: number;
+  members: PoolMemberStatus[];
+}
+
+/**
+ * Pool of backend instances behind a named upstream with load balancing and health tracking
+ */
+export class UpstreamPool {
+  readonly name: string;
+  readonly strategy: LoadBalancingStrategy;
+  private baseUrl: string;
+  private hashHeader?: string;
+  private healthCheck: typeof DEFAULT_HEALTH_CHECK & { expectedStatus?: number[] };
+  private members: PoolMember[];
+  private hashRing: Array<{ hash: number; member: PoolMember }> = [];
+  private roundRobinIndex = 0;
+  private healthCheckTimer?: NodeJS.Timeout;
+
+  constructor(config: UpstreamConfig) {
+    this.name = config.name;
+    this.baseUrl = config.url;
+    this.strategy = config.loadBalancing ?? "round-robin";
+    this.hashHeader = config.hashHeader?.toLowerCase();
+    this.healthCheck = { ...DEFAULT_HEALTH_CHECK, ...config.healthCheck };
+
+    const memberConfigs =
+      config.members && config.members.length > 0 ? config.members : [{ url: config.url }];
+
+    this.members = memberConfigs.map((member) => ({
+      url: member.url.replace(/\/+$/, ""),
+      weight: Math.max(1, member.weight ?? 1),
+      healthy: true,
+      activeConnections: 0,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      currentWeight: 0,
+    }));
+
+    if (this.strategy === "consistent-hash") {
+      this.buildHashRing();
+    }
+  }
+
+  /**
+   * Pick a member for the next request and mark it as in-flight
+   */
+  acquire(headers: Record<string, string> = {}): PoolMember | null {
+    const candidates = this.members.filter((member) => this.isAvailable(member));
+    if (candidates.length === 0) return null;
+
+    const member = this.select(candidates, headers);
+    member.activeConnections++;
+    member.totalRequests++;
+    return member;
+  }
+
+  /**
+   * Release an in-flight member and record the outcome for passive health tracking
+   */
+  release(member: PoolMember, success: boolean, error?: string): void {
+    member.activeConnections = Math.max(0, member.activeConnections - 1);
+
+    if (success) {
+      this.markSuccess(member);
+    } else {
+      member.totalFailures++;
+      this.markFailure(member, error);
+    }
+  }
+
+  /**
+   * Rewrite a target URL built from the upstream base URL onto the chosen member
+   */
+  resolveUrl(targetUrl: string, member: PoolMember): string {
+    if (targetUrl.startsWith(this.baseUrl)) {
+      return `${member.url}${targetUrl.slice(this.baseUrl.length)}`;
+    }
+    return targetUrl;
+  }
+
+  getStatus(): UpstreamPoolStatus {
+    return {
+      upstream: this.name,
+      strategy: this.strategy,
+      activeHealthChecks: this.healthCheck.enabled,
+      totalMembers: this.members.length,
+      healthyMembers: this.members.filter((member) => member.healthy).length,
+      members: this.members.map((member) => ({
+        url: member.url,
+        weight: member.weight,
+        healthy: member.healthy,
+        activeConnections: member.activeConnections,
+        consecutiveFailures: member.consecutiveFailures,
+        totalRequests: member.totalRequests,
+        totalFailures: member.totalFailures,
+        ejectedUntil: member.ejectedUntil ? new Date(member.ejectedUntil).toISOString() : undefined,
+        lastCheck: member.lastCheck ? new Date(member.lastCheck).toISOString() : undefined,
+        lastResponseTime: member.lastResponseTime,
+        lastError: member.lastError,
+      })),
+    };
+  }
+
+  // ========================================
+  // ACTIVE HEALTH CHECKS
+  // ========================================
+
+  startHealthChecks(): void {
+    if (!this.healthCheck.enabled || this.healthCheckTimer) return;
+
+    this.healthCheckTimer = setInterval(() => {
+      void this.checkHealth();
+    }, this.healthCheck.interval);
+    this.healthCheckTimer.unref();
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+
+  /**
+   * Probe every member once
+   */
+  async checkHealth(): Promise<UpstreamPoolStatus> {
+    await Promise.all(this.members.map((member) => this.probe(member)));
+    return this.getStatus();
+  }
+
+  private async probe(member: PoolMember): Promise<void> {
+    const startTime = Date.now();
+    const path = this.healthCheck.path.startsWith("/")
+      ? this.healthCheck.path
+      : `/${this.healthCheck.path}`;
+
+    try {
+      const response = await fetch(`${member.url}${path}`, {
+        method: "GET",
+        signal: AbortSignal.timeout(this.healthCheck.timeout),
+      });
+      member.lastCheck = Date.now();
+      member.lastResponseTime = member.lastCheck - startTime;
+
+      const expected = this.healthCheck.expectedStatus;
+      const ok = expected ? expected.includes(response.status) : response.status < 500;
+
+      if (ok) {
+        this.markSuccess(member);
+      } else {
+        this.markFailure(member, `Health check returned status ${response.status}`);
+      }
+    } catch (error) {
+      member.lastCheck = Date.now();
+      this.markFailure(
+        member,
+        `Health check failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // ========================================
+  // HEALTH STATE
+  // ========================================
+
+  private isAvailable(member: PoolMember): boolean {
+    if (member.healthy) return true;
+    // Ejected members get another chance once the cool-down has passed
+    return member.ejectedUntil !== undefined && Date.now() >= member.ejectedUntil;
+  }
+
+  private markSuccess(member: PoolMember): void {
+    member.consecutiveFailures = 0;
+    member.lastError = undefined;
+
+    if (!member.healthy && (member.ejectedUntil === undefined || Date.now() >= member.ejectedUntil)) {
+      member.healthy = true;
+      member.ejectedUntil = undefined;
+    }
+  }
+
+  private markFailure(member: PoolMember, error?: string): void {
+    member.consecutiveFailures++;
+    member.lastError = error;
+
+    // A failure after the cool-down ejects the member again straight away
+    const threshold = member.healthy ? this.healthCheck.unhealthyThreshold : 1;
+    if (member.consecutiveFailures >= threshold) {
+      member.healthy = false;
+      member.ejectedUntil = Date.now() + this.healthCheck.cooldown;
+    }
+  }
+
+  // ========================================
+  // LOAD BALANCING
+  // ========================================
+
+  private select(candidates: PoolMember[], headers: Record<string, string>): PoolMember {
+    switch (this.strategy) {
+      case "least-connections":
+        return this.selectLeastConnections(candidates);
+      case "weighted":
+        return this.selectWeighted(candidates);
+      case "consistent-hash":
+        return this.selectConsistentHash(candidates, headers);
+      case "round-robin":
+      default:
+        return this.selectRoundRobin(candidates);
+    }
+  }
+
+  private selectRoundRobin(candidates: PoolMember[]): PoolMember {
+    const member = candidates[this.roundRobinIndex % candidates.length];
+    this.roundRobinIndex = (this.roundRobinIndex + 1) % Number.MAX_SAFE_INTEGER;
+    return member;
+  }
+
+  private selectLeastConnections(candidates: PoolMember[]): PoolMember {
+    const minConnections = Math.min(...candidates.map((member) => member.activeConnections));
+    return this.selectRoundRobin(
+      candidates.filter((member) => member.activeConnections === minConnections)
+    );
+  }
+
+  // Smooth weighted round-robin, spreads heavier members evenly instead of in bursts
+  private selectWeighted(candidates: PoolMember[]): PoolMember {
+    const totalWeight = candidates.reduce((sum, member) => sum + member.weight, 0);
+    let best = candidates[0];
+
+    for (const member of candidates) {
+      member.currentWeight += member.weight;
+      if (member.currentWeight > best.currentWeight) {
+        best = member;
+      }
+    }
+
+    best.currentWeight -= totalWeight;
+    return best;
+  }
+
+  private selectConsistentHash(
+    candidates: PoolMember[],
+    headers: Record<string, string>
+  ): PoolMember {
+    const key = this.hashHeader ? headers[this.hashHeader] : undefined;
+    if (!key) return this.selectRoundRobin(candidates);
+
+    const hash = this.hash(key);
+    const start = this.hashRing.findIndex((node) => node.hash >= hash);
+
+    // Walk the ring clockwise until an available member is found
+    for (let i = 0; i < this.hashRing.length; i++) {
+      const node = this.hashRing[((start === -1 ? 0 : start) + i) % this.hashRing.length];
+      if (candidates.includes(node.member)) {
+        return node.member;
+      }
+    }
+
+    return this.selectRoundRobin(candidates);
+  }
+
+  private buildHashRing(): void {
+    this.hashRing = this.members.flatMap((member) =>
+      Array.from({ length: HASH_RING_REPLICAS * member.weight }, (_, replica) => ({
+        hash: this.hash(`${member.url}#${replica}`),
+        member,
+      }))
+    );
+    this.hashRing.sort((a, b) => a.hash - b.hash);
+  }
+
+  private hash(value: string): number {
+    return createHash("md5").update(value).digest().readUInt32BE(0);
+  }
+}
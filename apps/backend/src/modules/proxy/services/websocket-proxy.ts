@@ -0,0 +1,203 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import http, { IncomingMessage, ServerResponse } from "http";
+import https from "https";
+import type { Socket } from "net";
+import type { Duplex } from "stream";
+import { filterForwardedHeaders, ProcessedRequest } from "@/utils/request.js";
+import { HttpClientError } from "@/utils/http-client.js";
+import type { ResolvedRoute } from "./routing-table.js";
+import type { PoolMember } from "./upstream-pool.js";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+interface PendingUpgrade {
+  socket: Duplex;
+  head: Buffer;
+  upgraded: boolean;
+}
+
+type UpstreamHandshake =
+  | { upgraded: true; response: IncomingMessage; socket: Socket; head: Buffer }
+  | { upgraded: false; response: IncomingMessage };
+
+/**
+ * Proxies WebSocket upgrades under the API prefix. Upgrade requests are routed through
+ * Fastify like any other request, so authentication, rate limits, routing and the onRequest
+ * hooks apply, and the proxy route hands them over once they are accepted.
+ */
+export class WebSocketProxy {
+  private app: FastifyInstance;
+  private upgrades = new WeakMap<IncomingMessage, PendingUpgrade>();
+
+  constructor(app: FastifyInstance) {
+    this.app = app;
+  }
+
+  /**
+   * Start accepting upgrade requests, without this Node closes them
+   */
+  attach(): void {
+    this.app.server.on("upgrade", (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(request, socket, head);
+    });
+  }
+
+  isUpgrade(request: FastifyRequest): boolean {
+    return this.upgrades.has(request.raw);
+  }
+
+  /**
+   * Open the upstream WebSocket and pipe both sockets. An upstream refusing the upgrade is
+   * answered with its own response, returned as a stream for the caller to send.
+   */
+  async proxy(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    route: ResolvedRoute,
+    proxyRequest: ProcessedRequest
+  ): Promise<IncomingMessage | undefined> {
+    const upgrade = this.upgrades.get(request.raw)!;
+
+    // Pick a pool member when the upstream is load balanced
+    let member: PoolMember | null = null;
+    let targetUrl = proxyRequest.targetUrl;
+    if (route.pool) {
+      member = route.pool.acquire(proxyRequest.headers);
+      if (!member) {
+        throw new HttpClientError(
+          `No healthy members available in upstream '${route.pool.name}'`,
+          "NO_HEALTHY_UPSTREAM",
+          503,
+          "network"
+        );
+      }
+      targetUrl = route.pool.resolveUrl(targetUrl, member);
+    }
+
+    let handshake: UpstreamHandshake;
+    try {
+      handshake = await this.connect(targetUrl, proxyRequest.headers, route.timeout);
+    } catch (error) {
+      if (member) {
+        route.pool!.release(member, false, error instanceof Error ? error.message : undefined);
+      }
+      throw error;
+    }
+
+    if (!handshake.upgraded) {
+      const { response } = handshake;
+      if (member) route.pool!.release(member, response.statusCode! < 500);
+      const { connection: _connection, "transfer-encoding": _encoding, ...headers } =
+        response.headers;
+      reply.status(response.statusCode ?? 502);
+      reply.headers(headers);
+      return response;
+    }
+
+    // The connection belongs to the WebSocket from here on, Fastify no longer answers it
+    reply.hijack();
+    upgrade.upgraded = true;
+    const client = upgrade.socket as Socket;
+    const upstream = handshake.socket;
+    client.write(formatResponseHead(handshake.response));
+    if (handshake.head.length > 0) client.write(handshake.head);
+    if (upgrade.head.length > 0) upstream.write(upgrade.head);
+
+    // The route timeout covers the handshake, open connections are idle as long as they like
+    upstream.setTimeout(0);
+    client.setTimeout(0);
+    upstream.on("error", (error) => this.onSocketError(error, client, upstream));
+    client.on("error", (error) => this.onSocketError(error, client, upstream));
+    upstream.on("close", () => client.destroy());
+    client.on("close", () => upstream.destroy());
+    client.pipe(upstream).pipe(client);
+
+    this.app.streamingConnections.trackWebSocket(client, upstream, () => {
+      if (member) route.pool!.release(member, true);
+    });
+    return undefined;
+  }
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    socket.on("error", (error) => {
+      this.app.log.debug({ error, url: request.url }, "WebSocket client socket error");
+    });
+    const upgrade: PendingUpgrade = { socket, head, upgraded: false };
+    this.upgrades.set(request, upgrade);
+
+    // Rejected upgrades, e.g. missing credentials or unknown paths, get a regular response
+    const response = new ServerResponse(request);
+    response.assignSocket(socket as Socket);
+    response.on("finish", () => {
+      if (!upgrade.upgraded) socket.end();
+    });
+
+    try {
+      this.app.routing(request, response);
+    } catch (error) {
+      this.app.log.warn({ error, url: request.url }, "Failed to route WebSocket upgrade");
+      socket.destroy();
+    }
+  }
+
+  private connect(
+    targetUrl: string,
+    headers: Record<string, string>,
+    timeout?: number
+  ): Promise<UpstreamHandshake> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(targetUrl);
+      const client = url.protocol === "https:" ? https : http;
+      const upstreamRequest = client.request(url, {
+        method: "GET",
+        headers: filterForwardedHeaders(headers),
+        timeout: timeout ?? DEFAULT_TIMEOUT_MS,
+      });
+
+      upstreamRequest.on("upgrade", (response, socket, head) => {
+        resolve({ upgraded: true, response, socket, head });
+      });
+      upstreamRequest.on("response", (response) => {
+        resolve({ upgraded: false, response });
+      });
+      upstreamRequest.on("timeout", () => {
+        upstreamRequest.destroy(
+          new HttpClientError(
+            "WebSocket handshake timeout - target server took too long to respond",
+            "ETIMEDOUT",
+            504,
+            "timeout"
+          )
+        );
+      });
+      upstreamRequest.on("error", (error: NodeJS.ErrnoException) => {
+        reject(
+          error instanceof HttpClientError
+            ? error
+            : new HttpClientError(
+                `WebSocket connection to target server failed: ${error.message}`,
+                error.code ?? "NETWORK_ERROR",
+                502,
+                "network"
+              )
+        );
+      });
+      upstreamRequest.end();
+    });
+  }
+
+  private onSocketError(error: Error, client: Socket, upstream: Socket): void {
+    this.app.log.debug({ error }, "WebSocket connection closed with an error");
+    client.destroy();
+    upstream.destroy();
+  }
+}
+
+// Status line and headers of the upstream 101 response, relayed as received
+function formatResponseHead(response: IncomingMessage): string {
+  const lines = [`HTTP/1.1 ${response.statusCode} ${response.statusMessage ?? ""}`.trimEnd()];
+  for (let i = 0; i < response.rawHeaders.length; i += 2) {
+    lines.push(`${response.rawHeaders[i]}: ${response.rawHeaders[i + 1]}`);
+  }
+  return `${lines.join("\r\n")}\r\n\r\n`;
+}
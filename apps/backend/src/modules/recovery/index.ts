@@ -1,4 +1,6 @@
 // Recovery Module - Error handling, recovery, and snapshots
 export { RecoveryService } from './services/recovery.js';
 export { ErrorTrackerService } from './services/error-tracker.js';
-export { SnapshotManager } from './services/snapshot-manager.js'; 
\ No newline at end of file
+export { SnapshotManager } from './services/snapshot-manager.js';
+export { CircuitBreaker } from './services/circuit-breaker.js';
+export { recoveryRoutes } from './routes/recovery.js'; 
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { FastifyInstance } from "fastify";
+import { createErrorResponse } from "@/utils/response.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
+
+interface BreakerParams {
+  name: string;
+}
+
+export async function recoveryRoutes(fastify: FastifyInstance) {
+  // Error handler for recovery management errors
+  const handleRecoveryError = (error: unknown, reply: any, operation: string) => {
+    fastify.log.error(`Recovery management error [${operation}]:`, error);
+    reply.status(500);
+    return createErrorResponse(error);
+  };
+
+  // ========================================
+  // CIRCUIT BREAKERS
+  // ========================================
+
+  // GET /recovery/breakers - State of every route circuit breaker
+  fastify.get(
+    "/recovery/breakers",
+    { preHandler: requirePermission(PERMISSIONS.RECOVERY_READ) },
+    async (_request, reply) => {
+      try {
+        const breakers = fastify.recovery.listBreakers();
+        return {
+          breakers,
+          total: breakers.length,
+          open: breakers.filter((breaker) => breaker.state === "open").length,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        return handleRecoveryError(error, reply, "list-breakers");
+      }
+    }
+  );
+
+  // GET /recovery/breakers/:name - State of a single circuit breaker
+  fastify.get<{ Params: BreakerParams }>(
+    "/recovery/breakers/:name",
+    { preHandler: requirePermission(PERMISSIONS.RECOVERY_READ) },
+    async (request, reply) => {
+      try {
+        const breaker = fastify.recovery.getBreakerStatus(request.params.name);
+
+        if (!breaker) {
+          reply.status(404);
+          return { error: "Circuit breaker not found" };
+        }
+
+        return { breaker };
+      } catch (error) {
+        return handleRecoveryError(error, reply, "get-breaker");
+      }
+    }
+  );
+
+  // POST /recovery/breakers/:name/reset - Close a circuit breaker manually
+  fastify.post<{ Params: BreakerParams }>(
+    "/recovery/breakers/:name/reset",
+    { preHandler: requirePermission(PERMISSIONS.RECOVERY_MANAGE) },
+    async (request, reply) => {
+      try {
+        const before = fastify.recovery.getBreakerStatus(request.params.name);
+        const reset = fastify.recovery.resetBreaker(request.params.name);
+
+        if (!reset) {
+          reply.status(404);
+          return { error: "Circuit breaker not found" };
+        }
+
+        const breaker = fastify.recovery.getBreakerStatus(request.params.name);
+        request.audit = { target: request.params.name, before, after: breaker };
+        fastify.log.info({ breaker: request.params.name }, "Circuit breaker reset");
+        return { success: true, breaker };
+      } catch (error) {
+        return handleRecoveryError(error, reply, "reset-breaker");
+      }
+    }
+  );
+}
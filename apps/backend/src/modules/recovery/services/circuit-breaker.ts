@@ -0,0 +1,165 @@
+import { CircuitBreakerPolicy } from "@/types/index.js";
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+const DEFAULT_FAILURE_STATUSES = [500, 502, 503, 504];
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  halfOpenSuccesses: number;
+  openedAt: string | null;
+  retryAfterMs: number; // Time left until probes are allowed, 0 unless open
+  totals: { requests: number; failures: number; rejected: number; opened: number };
+  policy: Required<Omit<CircuitBreakerPolicy, "enabled">>;
+}
+
+/**
+ * Closed -> open after consecutive failures, open -> half-open after the reset timeout,
+ * half-open -> closed after enough successful probes (or back to open on a failed probe)
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private policy: Required<Omit<CircuitBreakerPolicy, "enabled">>;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private halfOpenSuccesses = 0;
+  private probesInFlight = 0;
+  private openedAt = 0;
+  private totals = { requests: 0, failures: 0, rejected: 0, opened: 0 };
+
+  constructor(name: string, policy: CircuitBreakerPolicy = {}) {
+    this.name = name;
+    this.policy = CircuitBreaker.normalizePolicy(policy);
+  }
+
+  static normalizePolicy(
+    policy: CircuitBreakerPolicy
+  ): Required<Omit<CircuitBreakerPolicy, "enabled">> {
+    return {
+      failureThreshold: Math.max(1, policy.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD),
+      resetTimeoutMs: Math.max(0, policy.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS),
+      halfOpenMaxProbes: Math.max(1, policy.halfOpenMaxProbes ?? 1),
+      successThreshold: Math.max(1, policy.successThreshold ?? 1),
+      failureStatuses: policy.failureStatuses ?? DEFAULT_FAILURE_STATUSES,
+    };
+  }
+
+  /**
+   * Policies can change at runtime with the routing table, the state is kept
+   */
+  updatePolicy(policy: CircuitBreakerPolicy): void {
+    this.policy = CircuitBreaker.normalizePolicy(policy);
+  }
+
+  /**
+   * Reserve a slot for a request, false when the circuit rejects it
+   */
+  tryAcquire(): boolean {
+    if (this.state === "open") {
+      if (Date.now() - this.openedAt < this.policy.resetTimeoutMs) {
+        this.totals.rejected++;
+        return false;
+      }
+      this.state = "half-open";
+      this.halfOpenSuccesses = 0;
+      this.probesInFlight = 0;
+    }
+
+    if (this.state === "half-open") {
+      if (this.probesInFlight >= this.policy.halfOpenMaxProbes) {
+        this.totals.rejected++;
+        return false;
+      }
+      this.probesInFlight++;
+    }
+
+    this.totals.requests++;
+    return true;
+  }
+
+  isFailureStatus(status: number): boolean {
+    return this.policy.failureStatuses.includes(status);
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+
+    if (this.state === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.policy.successThreshold) {
+        this.state = "closed";
+        this.halfOpenSuccesses = 0;
+      }
+    }
+  }
+
+  recordFailure(): void {
+    this.totals.failures++;
+    this.consecutiveFailures++;
+
+    if (this.state === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.open();
+      return;
+    }
+
+    if (this.state === "closed" && this.consecutiveFailures >= this.policy.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Give back a slot without an outcome, e.g. when the request failed before reaching the upstream
+   */
+  release(): void {
+    if (this.state === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  reset(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.halfOpenSuccesses = 0;
+    this.probesInFlight = 0;
+    this.openedAt = 0;
+  }
+
+  getState(): CircuitState {
+    // An open circuit past its reset timeout reports as half-open, the next request probes it
+    if (this.state === "open" && this.getRetryAfterMs() === 0) {
+      return "half-open";
+    }
+    return this.state;
+  }
+
+  getRetryAfterMs(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.policy.resetTimeoutMs - Date.now());
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      halfOpenSuccesses: this.halfOpenSuccesses,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAfterMs: this.getRetryAfterMs(),
+      totals: { ...this.totals },
+      policy: { ...this.policy },
+    };
+  }
+
+  private open(): void {
+    this.state = "open";
+    this.openedAt = Date.now();
+    this.halfOpenSuccesses = 0;
+    this.totals.opened++;
+  }
+}
@@ -1,5 +1,21 @@
 import type { FastifyInstance } from "fastify";
-import { CacheError, BackendError } from "@/types/errors.js";
+import { CacheError, BackendError, CircuitOpenError } from "@/types/errors.js";
+import {
+  CircuitBreakerPolicy,
+  ResiliencePolicy,
+  RetryBudget,
+  RetryPolicy,
+} from "@/types/index.js";
+import { HttpClientError } from "@/utils/http-client.js";
+import { CircuitBreaker, CircuitBreakerStatus } from "./circuit-breaker.js";
+
+// Defaults for per-route upstream policies
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const DEFAULT_RETRY_STATUSES = [502, 503, 504];
+const DEFAULT_ROUTE_BACKOFF_MS = 100;
+const DEFAULT_ROUTE_MAX_BACKOFF_MS = 2000;
+const DEFAULT_BUDGET_WINDOW_MS = 10000;
+const DEFAULT_BUDGET_MIN_RETRIES = 10;
 
 interface RecoveryStrategy {
   maxRetries: number;
@@ -138,50 +154,221 @@ export class RecoveryService {
       resetTimeoutMs: number;
     }
   ): Promise<T> {
-    const state = this.getCircuitBreakerState(breakerName);
-    const now = Date.now();
+    const breaker = this.getBreaker(breakerName, options);
 
-    if (
-      state.status === "open" &&
-      now - state.lastFailure < options.resetTimeoutMs
-    ) {
-      throw new Error(`Circuit breaker '${breakerName}' is open`);
+    if (!breaker.tryAcquire()) {
+      throw new CircuitOpenError(`Circuit breaker '${breakerName}' is open`, "CIRCUIT_OPEN", 503, {
+        breaker: breakerName,
+        retryAfterMs: breaker.getRetryAfterMs(),
+      });
     }
 
     try {
       const result = await operation();
-      state.failures = 0;
-      state.status = "closed";
+      breaker.recordSuccess();
       return result;
     } catch (error) {
-      state.failures++;
-      state.lastFailure = now;
+      breaker.recordFailure();
+      throw error;
+    }
+  }
+
+  /**
+   * Run an upstream call under a route's retry and circuit-breaker policy.
+   * Responses with a retryable status are returned as they are once retries run out.
+   */
+  async withRoutePolicy<T extends { status: number }>(
+    name: string,
+    policy: ResiliencePolicy,
+    method: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const breaker =
+      policy.circuitBreaker && policy.circuitBreaker.enabled !== false
+        ? this.getBreaker(name, policy.circuitBreaker)
+        : null;
+    const retry = policy.retry;
+    const retryMethods = retry?.retryMethods?.map((m) => m.toUpperCase()) ?? IDEMPOTENT_METHODS;
+    const maxRetries =
+      retry && retryMethods.includes(method.toUpperCase()) ? Math.max(0, retry.maxRetries) : 0;
+    const retryStatuses = retry?.retryOnStatus ?? DEFAULT_RETRY_STATUSES;
 
-      if (state.failures >= options.failureThreshold) {
-        state.status = "open";
+    this.recordBudgetRequest(name, retry?.budget);
+
+    let lastResponse: T | undefined;
+    let lastError: unknown;
+
+    for (let attempt = 0; ; attempt++) {
+      if (breaker && !breaker.tryAcquire()) {
+        this.app.metrics.incrementCircuitRejection(name);
+
+        // A retry cut short by the breaker keeps the outcome of the previous attempt
+        if (lastResponse) return lastResponse;
+        if (lastError) throw lastError;
+
+        throw new CircuitOpenError(`Circuit breaker '${name}' is open`, "CIRCUIT_OPEN", 503, {
+          breaker: name,
+          retryAfterMs: breaker.getRetryAfterMs(),
+        });
       }
 
-      throw error;
+      try {
+        lastResponse = await operation();
+        lastError = undefined;
+      } catch (error) {
+        const upstreamFailure =
+          error instanceof HttpClientError &&
+          (error.type === "timeout" || error.type === "network");
+
+        if (!upstreamFailure) {
+          breaker?.release();
+          throw error;
+        }
+
+        breaker?.recordFailure();
+        lastResponse = undefined;
+        lastError = error;
+
+        if (
+          attempt < maxRetries &&
+          retry!.retryOnNetworkError !== false &&
+          this.consumeRetryBudget(name, retry!.budget)
+        ) {
+          await this.backoff(name, retry!, attempt, error.type);
+          continue;
+        }
+        throw error;
+      }
+
+      if (breaker) {
+        if (breaker.isFailureStatus(lastResponse.status)) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+      }
+
+      if (
+        attempt < maxRetries &&
+        retryStatuses.includes(lastResponse.status) &&
+        this.consumeRetryBudget(name, retry!.budget)
+      ) {
+        // A streamed body of the dropped attempt would keep its upstream connection open
+        (lastResponse as { stream?: { discard(): void } }).stream?.discard();
+        await this.backoff(name, retry!, attempt, `status_${lastResponse.status}`);
+        continue;
+      }
+
+      return lastResponse;
     }
   }
 
-  private circuitBreakers = new Map<
+  // ========================================
+  // CIRCUIT BREAKERS
+  // ========================================
+
+  listBreakers(): CircuitBreakerStatus[] {
+    return Array.from(this.circuitBreakers.values()).map((breaker) => breaker.getStatus());
+  }
+
+  getBreakerStatus(name: string): CircuitBreakerStatus | undefined {
+    return this.circuitBreakers.get(name)?.getStatus();
+  }
+
+  resetBreaker(name: string): boolean {
+    const breaker = this.circuitBreakers.get(name);
+    if (!breaker) return false;
+
+    breaker.reset();
+    return true;
+  }
+
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+  private retryBudgets = new Map<
     string,
     {
-      status: "closed" | "open";
-      failures: number;
-      lastFailure: number;
+      windowStart: number;
+      requests: number;
+      retries: number;
     }
   >();
 
-  private getCircuitBreakerState(name: string) {
-    if (!this.circuitBreakers.has(name)) {
-      this.circuitBreakers.set(name, {
-        status: "closed",
-        failures: 0,
-        lastFailure: 0,
-      });
+  private getBreaker(name: string, policy: CircuitBreakerPolicy): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, policy);
+      this.circuitBreakers.set(name, breaker);
+    } else {
+      breaker.updatePolicy(policy);
     }
-    return this.circuitBreakers.get(name)!;
+    return breaker;
+  }
+
+  // ========================================
+  // RETRY BUDGETS
+  // ========================================
+
+  private getBudgetWindow(name: string, budget: RetryBudget) {
+    const now = Date.now();
+    let window = this.retryBudgets.get(name);
+
+    if (!window || now - window.windowStart >= (budget.windowMs ?? DEFAULT_BUDGET_WINDOW_MS)) {
+      window = { windowStart: now, requests: 0, retries: 0 };
+      this.retryBudgets.set(name, window);
+    }
+    return window;
+  }
+
+  private recordBudgetRequest(name: string, budget?: RetryBudget): void {
+    if (!budget) return;
+    this.getBudgetWindow(name, budget).requests++;
+  }
+
+  // Retries may not exceed a share of the traffic, so retries cannot multiply an outage
+  private consumeRetryBudget(name: string, budget?: RetryBudget): boolean {
+    if (!budget) return true;
+
+    const window = this.getBudgetWindow(name, budget);
+    const allowed = Math.max(
+      budget.minRetries ?? DEFAULT_BUDGET_MIN_RETRIES,
+      Math.floor(window.requests * budget.ratio)
+    );
+
+    if (window.retries >= allowed) {
+      this.app.metrics.incrementRetryBudgetExhausted(name);
+      return false;
+    }
+
+    window.retries++;
+    return true;
+  }
+
+  private async backoff(
+    name: string,
+    retry: RetryPolicy,
+    attempt: number,
+    reason: string
+  ): Promise<void> {
+    const base = Math.min(
+      (retry.backoffMs ?? DEFAULT_ROUTE_BACKOFF_MS) * 2 ** attempt,
+      retry.maxBackoffMs ?? DEFAULT_ROUTE_MAX_BACKOFF_MS
+    );
+    const jitter = retry.jitter ?? "full";
+    const delay =
+      jitter === "full"
+        ? Math.random() * base
+        : jitter === "equal"
+          ? base / 2 + (Math.random() * base) / 2
+          : base;
+
+    this.app.metrics.incrementUpstreamRetry(name, reason);
+    this.app.log.warn({
+      msg: `Retrying upstream request, attempt ${attempt + 2}/${retry.maxRetries + 1}`,
+      route: name,
+      reason,
+      delayMs: Math.round(delay),
+    });
+
+    await this.delay(delay);
   }
 }
@@ -8,6 +8,7 @@ import {
   SnapshotRepository,
   SnapshotData,
   SnapshotStats as RepoSnapshotStats,
+  StorageConfig,
 } from "@/database/index.js";
 import type { FastifyInstance } from "fastify";
 import { DatabaseError } from "@/types/errors.js";
@@ -65,6 +66,10 @@ export interface SnapshotStats {
 
 type DbRow = Record<string, any>;
 
+// Unchanged responses rewrite their stale fallback snapshot at most this often
+const FALLBACK_REFRESH_MS = 60 * 1000;
+const MAX_TRACKED_FALLBACKS = 10000;
+
 export class SnapshotManager {
   private app: FastifyInstance;
   private enabled: boolean;
@@ -72,15 +77,20 @@ export class SnapshotManager {
   private db: DatabaseAdapter | null = null;
   private sqlGenerator: SQLGenerator | null = null;
   private repository: SnapshotRepository | null = null;
+  private storage: Pick<StorageConfig, "compression" | "encryption">;
+  // URL -> body hash and time of the last fallback write, least recently written first
+  private fallbackWrites: Map<string, { hash: string; savedAt: number }> = new Map();
 
   constructor(
     app: FastifyInstance,
     enabled: boolean,
-    dbConfig: DatabaseConfig
+    dbConfig: DatabaseConfig,
+    storage: Pick<StorageConfig, "compression" | "encryption"> = {}
   ) {
     this.app = app;
     this.enabled = enabled;
     this.dbConfig = dbConfig;
+    this.storage = storage;
   }
 
   async initialize(): Promise<void> {
@@ -94,7 +104,11 @@ export class SnapshotManager {
           await this.db.initialize();
 
           this.sqlGenerator = new SQLGenerator(this.db.getDialect());
-          this.repository = new SnapshotRepository(this.db);
+          this.repository = new SnapshotRepository(
+            this.db,
+            this.app.payloadCodec,
+            this.storage
+          );
 
           // Create tables if they don't exist
           await this.ensureTables();
@@ -120,6 +134,20 @@ export class SnapshotManager {
     }
   }
 
+  /**
+   * The open database connection, shared with the stores kept in the same database
+   */
+  getAdapter(): DatabaseAdapter {
+    if (!this.db) {
+      throw new DatabaseError(
+        "Snapshot database is not initialized",
+        "DATABASE_NOT_INITIALIZED",
+        503
+      );
+    }
+    return this.db;
+  }
+
   private async ensureTables(): Promise<void> {
     if (!this.db || !this.sqlGenerator) return;
 
@@ -185,6 +213,32 @@ export class SnapshotManager {
     }
   }
 
+  /**
+   * Keep the latest good response of a URL as its stale fallback. The snapshot is only
+   * rewritten when the body changed or the last write is older than FALLBACK_REFRESH_MS.
+   */
+  async saveFallback(
+    url: string,
+    data: any,
+    headers: Record<string, string>,
+    status: number,
+    ttl: number,
+    tags?: string[]
+  ): Promise<void> {
+    if (!this.enabled || !this.repository) return;
+
+    const hash = crypto.createHash("sha256").update(JSON.stringify(data)).digest("hex");
+    const last = this.fallbackWrites.get(url);
+    if (last?.hash === hash && Date.now() - last.savedAt < FALLBACK_REFRESH_MS) return;
+
+    await this.saveSnapshot(url, data, headers, status, ttl, tags);
+    this.fallbackWrites.delete(url);
+    this.fallbackWrites.set(url, { hash, savedAt: Date.now() });
+    if (this.fallbackWrites.size > MAX_TRACKED_FALLBACKS) {
+      this.fallbackWrites.delete(this.fallbackWrites.keys().next().value!);
+    }
+  }
+
   async getSnapshot(url: string): Promise<any> {
     if (!this.enabled || !this.repository) return null;
 
@@ -198,12 +252,12 @@ export class SnapshotManager {
             await this.repository!.updateAccessStats(snapshot.id);
 
             return {
-              data: JSON.parse(snapshot.data),
-              headers: JSON.parse(snapshot.headers),
-              status: snapshot.status,
+              data: JSON.parse(snapshot.response_body),
+              headers: JSON.parse(snapshot.response_headers),
+              status: snapshot.status_code,
               createdAt: snapshot.created_at,
               expiresAt: snapshot.expires_at,
-              lastAccessed: snapshot.last_accessed,
+              lastAccessed: snapshot.last_accessed_at,
               accessCount: snapshot.access_count,
               tags: snapshot.tags ? JSON.parse(snapshot.tags) : [],
             };
@@ -244,6 +298,11 @@ export class SnapshotManager {
             active: stats.active,
             expired: stats.expired,
             avgAccessCount: stats.avgAccessCount,
+            // Raw vs stored bytes of snapshots written since startup
+            encoding:
+              this.storage.compression || this.storage.encryption
+                ? this.app.payloadCodec.getStats().snapshots
+                : undefined,
           };
         },
         "database",
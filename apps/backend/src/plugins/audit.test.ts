@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Fastify from "fastify";
+import type { AuditEntry } from "@/modules/monitoring/services/audit-log.js";
+import { auditHook } from "./audit.js";
+
+async function buildApp() {
+  const entries: Array<Partial<AuditEntry>> = [];
+  const app = Fastify();
+  app.decorate("config", { apiPrefix: "/proxy" } as any);
+  app.decorate("audit", {
+    isEnabled: () => true,
+    record: async (entry: Partial<AuditEntry>) => {
+      entries.push(entry);
+    },
+  } as any);
+  app.addHook("onSend", auditHook);
+
+  app.put<{ Params: { id: string } }>("/api/routes/:id", async (request) => {
+    request.audit = { target: request.params.id, before: { timeout: 10 }, after: { timeout: 5 } };
+    return { success: true };
+  });
+  app.delete<{ Params: { name: string } }>("/api/cassettes/:name", async (_request, reply) => {
+    reply.status(404);
+    return { error: "Cassette not found" };
+  });
+  app.post("/api/routes/match", { config: { audit: false } }, async () => ({ route: null }));
+  app.get("/api/routes", async () => ({ routes: [] }));
+  app.post("/health/check", async () => ({ ok: true }));
+  await app.ready();
+
+  return { app, entries };
+}
+
+test("mutating admin requests are recorded with the handler's diff", async (t) => {
+  const { app, entries } = await buildApp();
+  t.after(() => app.close());
+
+  await app.inject({ method: "PUT", url: "/api/routes/orders?dry=1", payload: {} });
+  await app.inject({ method: "DELETE", url: "/api/cassettes/smoke" });
+
+  const [update, remove] = entries;
+  assert.equal(entries.length, 2);
+  assert.deepEqual(
+    {
+      action: update.action,
+      path: update.path,
+      target: update.target,
+      before: update.before,
+      after: update.after,
+      outcome: update.outcome,
+    },
+    {
+      action: "PUT /api/routes/:id",
+      path: "/api/routes/orders",
+      target: "orders",
+      before: { timeout: 10 },
+      after: { timeout: 5 },
+      outcome: "success",
+    }
+  );
+  // Without a diff the route parameters name the target
+  assert.equal(remove.target, "smoke");
+  assert.equal(remove.outcome, "failure");
+  assert.equal(remove.error, "Cassette not found");
+});
+
+test("reads, opted-out routes and paths outside the admin API are not recorded", async (t) => {
+  const { app, entries } = await buildApp();
+  t.after(() => app.close());
+
+  await app.inject({ method: "POST", url: "/api/routes/match", payload: { path: "/" } });
+  await app.inject({ method: "GET", url: "/api/routes" });
+  await app.inject({ method: "POST", url: "/health/check" });
+
+  assert.deepEqual(entries, []);
+});
@@ -0,0 +1,89 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import type { AuditContext, AuditOutcome } from "@/modules/monitoring/services/audit-log.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    audit?: AuditContext;
+  }
+  interface FastifyContextConfig {
+    audit?: boolean; // false keeps a mutating admin route out of the audit log
+  }
+}
+
+const AUDITED_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+const ADMIN_PREFIX = "/api/";
+
+/**
+ * Global onSend hook recording every mutating admin request in the audit log, including
+ * requests rejected by authentication. Request bodies are never recorded, handlers describe
+ * their change through `request.audit`.
+ */
+export const auditHook = async (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown
+) => {
+  const audit = request.server.audit;
+  const route = request.routeOptions.url;
+
+  if (
+    !audit?.isEnabled() ||
+    !route?.startsWith(ADMIN_PREFIX) ||
+    !AUDITED_METHODS.includes(request.method) ||
+    request.routeOptions.config.audit === false ||
+    route === `${request.server.config.apiPrefix}/*`
+  ) {
+    return payload;
+  }
+
+  const statusCode = reply.statusCode;
+  const context = request.audit ?? {};
+
+  // Not awaited, the response does not wait for the audit store
+  void audit.record({
+    actor: {
+      id: request.auth?.sessionId,
+      role: request.auth?.authenticated ? request.auth.role : undefined,
+      authenticated: request.auth?.authenticated ?? false,
+    },
+    action: `${request.method} ${route}`,
+    method: request.method,
+    path: request.url.split("?")[0],
+    target: context.target ?? describeParams(request.params),
+    before: context.before,
+    after: context.after,
+    sourceIp: request.ip,
+    userAgent: request.headers["user-agent"],
+    outcome: getOutcome(statusCode),
+    statusCode,
+    requestId: request.id,
+    error: statusCode >= 400 ? getErrorMessage(payload) : undefined,
+  });
+
+  return payload;
+};
+
+function getOutcome(statusCode: number): AuditOutcome {
+  if (statusCode === 401 || statusCode === 403) return "denied";
+  return statusCode >= 400 ? "failure" : "success";
+}
+
+// Route parameters name the target unless the handler says otherwise, e.g. "nodeId=node-1"
+function describeParams(params: unknown): string | undefined {
+  const entries = Object.entries((params ?? {}) as Record<string, unknown>);
+  if (entries.length === 0) return undefined;
+  if (entries.length === 1) return String(entries[0][1]);
+  return entries.map(([name, value]) => `${name}=${value}`).join(",");
+}
+
+function getErrorMessage(payload: unknown): string | undefined {
+  if (typeof payload !== "string") return undefined;
+
+  try {
+    const body = JSON.parse(payload);
+    const message = body?.message ?? body?.error;
+    return typeof message === "string" ? message : undefined;
+  } catch {
+    return payload.substring(0, 200);
+  }
+}
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Fastify from "fastify";
+import { AuthConfig, Role } from "@/types/index.js";
+import { AuthService } from "@/modules/auth/services/auth-service.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
+import { authMiddleware, requirePermission, requireProxyAccess } from "./auth.js";
+
+async function buildApp() {
+  const authService = new AuthService("test-salt", "test-secret");
+  const admin = authService.createApiKey("admin", Role.ADMIN);
+  const reader = authService.createApiKey("reader", Role.READ_ONLY);
+  const auth: AuthConfig = {
+    enabled: true,
+    apiKeys: [admin.apiKey, reader.apiKey],
+    users: [],
+    roles: [],
+    enableUserAuth: false,
+    sessionTTL: 86400,
+    hashSalt: "test-salt",
+    maxLoginAttempts: 5,
+    lockoutDuration: 900,
+    keyRotationOverlap: 0,
+    keyExpiryWarningDays: 7,
+    // Neither the admin API nor the proxied paths are listed
+    protectedPaths: ["/api/cache*"],
+  };
+
+  const app = Fastify();
+  app.decorate("config", { auth } as any);
+  app.decorate("authService", authService);
+  app.decorateRequest("auth", undefined);
+
+  app.post(
+    "/api/routes",
+    { preHandler: requirePermission(PERMISSIONS.ROUTING_WRITE) },
+    async () => ({ ok: true })
+  );
+  // Authentication without a role or permission check
+  app.get("/api/cache/stats", { preHandler: authMiddleware() }, async () => ({ ok: true }));
+  app.get("/health", { preHandler: authMiddleware() }, async () => ({ ok: true }));
+  app.all("/proxy/*", { preHandler: requireProxyAccess() }, async () => ({ ok: true }));
+  await app.ready();
+
+  return { app, adminKey: admin.plainKey, readerKey: reader.plainKey };
+}
+
+test("routes checking permissions authenticate outside the protected paths", async (t) => {
+  const { app, adminKey, readerKey } = await buildApp();
+  t.after(() => app.close());
+  const post = (key?: string) =>
+    app.inject({
+      method: "POST",
+      url: "/api/routes",
+      headers: key ? { "x-api-key": key } : {},
+    });
+
+  assert.equal((await post()).statusCode, 401);
+  assert.equal((await post(readerKey)).statusCode, 403);
+  assert.equal((await post(adminKey)).statusCode, 200);
+  assert.equal((await app.inject({ url: "/proxy/payments/1" })).statusCode, 401);
+});
+
+test("protected paths add authentication to routes without checks", async (t) => {
+  const { app, readerKey } = await buildApp();
+  t.after(() => app.close());
+
+  assert.equal((await app.inject({ url: "/api/cache/stats" })).statusCode, 401);
+  assert.equal((await app.inject({ url: "/api/%63ache/stats" })).statusCode, 401);
+  const authenticated = await app.inject({
+    url: "/api/cache/stats",
+    headers: { "x-api-key": readerKey },
+  });
+  assert.equal(authenticated.statusCode, 200);
+  assert.equal((await app.inject({ url: "/health" })).statusCode, 200);
+});
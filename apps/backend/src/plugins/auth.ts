@@ -1,5 +1,13 @@
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
 import { Role } from "@/types/index.js";
+import { ProxyError } from "@/types/errors.js";
+import type { TokenPayload } from "@/modules/auth/services/auth-service.js";
+import {
+  hasPermission,
+  proxyRoutePermission,
+  resolvePermissions,
+} from "@/modules/auth/services/permissions.js";
+import { getProxyPath, resolveRequestPath } from "@/utils/request.js";
 
 // Extend FastifyRequest to include auth context
 declare module 'fastify' {
@@ -8,19 +16,24 @@ declare module 'fastify' {
       role: Role;
       keyName?: string;
       sessionId?: string;
+      permissions?: string[];
       authenticated: boolean;
+      claims?: Record<string, unknown>; // Verified token payload, the provider's for OIDC
     };
   }
 }
 
 export interface AuthPluginOptions {
   requiredRoles?: Role[];
+  requiredPermissions?: string[];
+  // Permission computed from the request, e.g. for proxied paths
+  resolvePermission?: (request: FastifyRequest) => string;
   skipAuth?: boolean;
 }
 
 // Auth middleware function
-export const authMiddleware = (options: AuthPluginOptions = {}) => {
-  return async (request: FastifyRequest, reply: FastifyReply) => {
+export const authMiddleware = (options: AuthPluginOptions = {}): preHandlerHookHandler => {
+  const authenticate = async (request: FastifyRequest, reply: FastifyReply) => {
     const { auth } = request.server.config;
 
     // Skip auth if disabled globally or for this specific route
@@ -32,15 +45,13 @@ export const authMiddleware = (options: AuthPluginOptions = {}) => {
       return;
     }
 
-    // Check if current path requires auth
-    const currentPath = request.url;
-    const requiresAuth = auth.protectedPaths.some((pattern) => {
-      // Simple glob pattern matching (supports * wildcard)
-      const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-      return regex.test(currentPath);
-    });
+    // Routes checking roles or permissions always authenticate, protected paths add the rest
+    const checksAccess =
+      !!options.requiredRoles?.length ||
+      !!options.requiredPermissions?.length ||
+      !!options.resolvePermission;
 
-    if (!requiresAuth) {
+    if (!checksAccess && !isProtectedPath(request.url, auth.protectedPaths)) {
       request.auth = {
         role: Role.USER,
         authenticated: false,
@@ -70,8 +81,44 @@ export const authMiddleware = (options: AuthPluginOptions = {}) => {
       });
     }
 
-    // Verify JWT token
-    const tokenPayload = authService.verifyToken(token);
+    // Verify JWT token, tokens of the OIDC provider are validated against its JWKS
+    let tokenPayload: TokenPayload | null = authService.verifyToken(token);
+    let claims: Record<string, unknown> | undefined;
+    const oidc = request.server.oidc;
+    if (!tokenPayload && oidc?.isEnabled() && oidc.isProviderToken(token)) {
+      try {
+        const identity = await oidc.authenticate(token);
+        tokenPayload = {
+          userId: `oidc:${identity.subject}`,
+          role: identity.role,
+          type: 'oidc',
+          roles: identity.roles,
+          permissions: identity.permissions,
+        };
+        claims = identity.claims;
+      } catch (error) {
+        // 401 for bad tokens, 403 for unmapped roles, 502 when the provider is unreachable
+        const statusCode = error instanceof ProxyError ? error.statusCode : 401;
+        request.log.debug({ error }, 'OIDC token rejected');
+        const label =
+          statusCode === 403 ? 'Forbidden' : statusCode === 401 ? 'Unauthorized' : 'Bad Gateway';
+        return reply.status(statusCode).send({
+          error: label,
+          message: error instanceof Error ? error.message : 'Invalid or expired token.',
+        });
+      }
+    }
+
+    // Plain API keys, e.g. X-API-Key: <key>, including secrets within a rotation overlap
+    let usedPreviousKey = false;
+    if (!tokenPayload && token.split('.').length !== 3) {
+      const match = authService.findApiKey(token, auth.apiKeys);
+      if (match) {
+        tokenPayload = { apiKeyId: match.apiKey.id, role: match.apiKey.role, type: 'apikey' };
+        usedPreviousKey = match.usedPreviousKey;
+      }
+    }
+
     if (!tokenPayload) {
       return reply.status(401).send({
         error: 'Unauthorized',
@@ -79,6 +126,43 @@ export const authMiddleware = (options: AuthPluginOptions = {}) => {
       });
     }
 
+    // Tokens stop working once their API key or user is disabled or deleted
+    const { apiKeyId, userId } = tokenPayload;
+    if (apiKeyId) {
+      const apiKey = auth.apiKeys.find((key) => key.id === apiKeyId);
+      if (!apiKey?.enabled || (apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date())) {
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'API key is disabled, expired or deleted.',
+        });
+      }
+
+      const authStore = request.server.authStore;
+      authStore?.touchApiKey(apiKey);
+      const warning = authStore?.getKeyWarning(apiKey, usedPreviousKey);
+      if (warning) {
+        reply.header('Warning', `299 - "${warning}"`);
+      }
+    } else if (tokenPayload.type === 'user') {
+      const user = auth.users.find((account) => account.id === userId);
+      if (!user?.enabled) {
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'User is disabled or deleted.',
+        });
+      }
+    }
+
+    // Set auth context, before the checks so rejected requests still show who made them
+    const permissions = resolvePermissions(auth, tokenPayload);
+    request.auth = {
+      role: tokenPayload.role,
+      sessionId: tokenPayload.userId || tokenPayload.apiKeyId,
+      permissions,
+      authenticated: true,
+      claims: claims ?? { ...tokenPayload },
+    };
+
     // Check role requirements
     if (options.requiredRoles && !options.requiredRoles.includes(tokenPayload.role)) {
       return reply.status(403).send({
@@ -87,15 +171,46 @@ export const authMiddleware = (options: AuthPluginOptions = {}) => {
       });
     }
 
-    // Set auth context
-    request.auth = {
-      role: tokenPayload.role,
-      sessionId: tokenPayload.userId || tokenPayload.apiKeyId,
-      authenticated: true,
-    };
+    // Check permission requirements
+    const requiredPermissions = [
+      ...(options.requiredPermissions ?? []),
+      ...(options.resolvePermission ? [options.resolvePermission(request)] : []),
+    ];
+    const missing = requiredPermissions.filter(
+      (permission) => !hasPermission(permissions, permission)
+    );
+
+    if (missing.length > 0) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: `Insufficient permissions. Required: ${missing.join(', ')}`,
+      });
+    }
+  };
+
+  // Callback style, the hook type route options expect. Once the checks replied Fastify skips
+  // the remaining hooks and the handler.
+  return (request, reply, done) => {
+    authenticate(request, reply).then(() => done(), done);
   };
 };
 
+// Paths are matched both as sent and decoded so "/api/%70ayments" can't slip past
+// "/api/payments*". Paths that can't be decoded safely are always protected.
+function isProtectedPath(url: string, protectedPaths: string[]): boolean {
+  let decodedPath: string | null;
+  try {
+    decodedPath = resolveRequestPath(url);
+  } catch {
+    decodedPath = null;
+  }
+  return protectedPaths.some((pattern) => {
+    // Simple glob pattern matching (supports * wildcard)
+    const regex = new RegExp(pattern.replace(/\*/g, '.*'));
+    return decodedPath === null || regex.test(url) || regex.test(decodedPath);
+  });
+}
+
 // Fastify plugin for auth
 export const authPlugin = async (fastify: FastifyInstance) => {
   // Register auth decorator
@@ -127,12 +242,23 @@ export const requireReadAccess = () => {
   return authMiddleware({ requiredRoles: [Role.READ_ONLY, Role.ADMIN] });
 };
 
+// Helper function to create middleware checking permissions (e.g. "cache:invalidate")
+export const requirePermission = (...permissions: string[]) => {
+  return authMiddleware({ requiredPermissions: permissions });
+};
+
+// Helper function to create middleware checking "proxy:route:<path>" for proxied requests
+export const requireProxyAccess = () => {
+  return authMiddleware({
+    // The wildcard param is the decoded path that is forwarded, unlike request.url
+    resolvePermission: (request) => proxyRoutePermission(getProxyPath(request)),
+  });
+};
+
 // Extend FastifyInstance type
 declare module 'fastify' {
   interface FastifyInstance {
-    requireAuth: (
-      options?: AuthPluginOptions
-    ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requireAuth: (options?: AuthPluginOptions) => preHandlerHookHandler;
     isAuthEnabled: () => boolean;
   }
 }
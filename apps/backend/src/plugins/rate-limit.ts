@@ -0,0 +1,35 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+
+/**
+ * Global onRequest hook enforcing rate limit rules and API key quotas.
+ * Registered on the root instance so it covers every route.
+ */
+export const rateLimitHook = async (request: FastifyRequest, reply: FastifyReply) => {
+  const decision = await request.server.rateLimiter.check(request);
+  if (!decision) return;
+
+  const { result } = decision;
+  const resetSeconds = Math.ceil(result.resetMs / 1000);
+
+  // IETF RateLimit header fields, describing the most restrictive limit
+  reply.header("RateLimit-Limit", result.limit);
+  reply.header("RateLimit-Remaining", result.remaining);
+  reply.header("RateLimit-Reset", resetSeconds);
+  reply.header("RateLimit-Policy", `${result.limit};w=${Math.ceil(decision.windowMs / 1000)}`);
+
+  if (decision.allowed) return;
+
+  const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  request.server.metrics.incrementRateLimited(decision.policy);
+
+  reply.header("Retry-After", retryAfter);
+  return reply.status(429).send({
+    error: decision.code === "QUOTA_EXCEEDED" ? "Quota Exceeded" : "Rate Limit Exceeded",
+    code: decision.code,
+    message: `Too many requests, please try again in ${retryAfter} seconds`,
+    policy: decision.policy,
+    timestamp: new Date().toISOString(),
+    requestId: request.id,
+    retryAfter,
+  });
+};
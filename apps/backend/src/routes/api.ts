@@ -137,7 +137,8 @@ export async function apiRoutes(fastify: FastifyInstance) {
             processedRequest.method,
             processedRequest.targetUrl,
             processedRequest.headers,
-            processedRequest.body
+            processedRequest.body,
+            { claims: processedRequest.claims }
           );
         } catch (error) {
           fastify.log.warn(
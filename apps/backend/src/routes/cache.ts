@@ -3,7 +3,10 @@ import { SnapshotFilters } from '../services/snapshot-manager.js';
 import { forwardRequest } from "@/utils/http-client.js";
 import { processRequest } from "@/utils/request.js";
 import { createErrorResponse } from "@/utils/response.js";
-import { requireReadAccess, requireAdmin } from "@/plugins/auth.js";
+import { requirePermission } from "@/plugins/auth.js";
+import { PERMISSIONS } from "@/modules/auth/services/permissions.js";
+import { ProxyError } from "@/types/errors.js";
+import { FreezePatternInput } from "@/services/cache-policy.js";
 
 interface CacheKeyParams {
   key: string;
@@ -51,20 +54,22 @@ interface TTLRuleParams {
 
 interface FreezeToggleBody {
   enabled: boolean;
-  endpoints?: string[];
+  endpoints?: Array<string | FreezePatternInput>; // Substrings, globs or "re:" regexes
   global?: boolean;
 }
 
-// Global freeze mode state (in production, this would be stored in database/Redis)
-let globalFreezeMode = false;
-const frozenEndpoints: Set<string> = new Set();
-
 export async function cacheRoutes(fastify: FastifyInstance) {
   const getSnapshotManager = () => (fastify as any).snapshotManager;
   const getCacheService = () => fastify.cache;
+  const getCachePolicy = () => fastify.cachePolicy;
 
   // Error handler for cache route errors
   const handleCacheError = (error: unknown, reply: any, operation: string) => {
+    if (error instanceof ProxyError && error.statusCode < 500) {
+      reply.status(error.statusCode);
+      return { error: error.message, code: error.code, details: error.context };
+    }
+
     fastify.log.error(`Cache management error [${operation}]:`, error);
     reply.status(500);
     return createErrorResponse(error);
@@ -77,7 +82,7 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   // GET /cache/entries - List all active cache entries
   fastify.get<{ Querystring: SnapshotQuery }>(
     '/cache/entries',
-    { preHandler: requireReadAccess() },
+    { preHandler: requirePermission(PERMISSIONS.SNAPSHOTS_READ) },
     async (request, reply) => {
       try {
         const snapshotManager = getSnapshotManager();
@@ -164,7 +169,7 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   // GET /cache/entry/:key - Return cached response + metadata
   fastify.get<{ Params: CacheKeyParams }>(
     '/cache/entry/:key',
-    { preHandler: requireReadAccess() },
+    { preHandler: requirePermission(PERMISSIONS.SNAPSHOTS_READ) },
     async (request, reply) => {
       try {
         const cacheKey = decodeURIComponent(request.params.key);
@@ -221,9 +226,10 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   );
 
   // POST /cache/entry/:key/refresh - Re-fetch from backend and update snapshot
-  fastify.post(
+  fastify.post<{ Params: CacheKeyParams; Body: RefreshBody }>(
     '/cache/entry/:key/refresh',
-    async (request: FastifyRequest<{ Params: CacheKeyParams; Body: RefreshBody }>, reply) => {
+    { preHandler: requirePermission(PERMISSIONS.SNAPSHOTS_WRITE) },
+    async (request, reply) => {
       try {
         const cacheKey = decodeURIComponent(request.params.key);
         const { force = false, ttl_override, tags } = request.body || {};
@@ -309,6 +315,15 @@ export async function cacheRoutes(fastify: FastifyInstance) {
             );
           }
 
+          const updatedMetadata = snapshotManager
+            ? await snapshotManager.getSnapshotByCacheKey(cacheKey)
+            : null;
+          request.audit = {
+            target: cacheKey,
+            before: metadata,
+            after: updatedMetadata ?? undefined,
+          };
+
           return {
             message: 'Cache entry refreshed successfully',
             refresh_info: {
@@ -318,9 +333,7 @@ export async function cacheRoutes(fastify: FastifyInstance) {
               ttl_seconds: ttl,
               forced: force,
             },
-            metadata: snapshotManager
-              ? await snapshotManager.getSnapshotByCacheKey(cacheKey)
-              : null,
+            metadata: updatedMetadata,
           };
         } catch (refreshError) {
           fastify.log.error('Failed to refresh cache entry:', refreshError);
@@ -338,12 +351,10 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   );
 
   // PATCH /cache/entry/:key - Extend TTL or mark as manual snapshot
-  fastify.patch(
+  fastify.patch<{ Params: CacheKeyParams; Body: UpdateSnapshotBody }>(
     '/cache/entry/:key',
-    async (
-      request: FastifyRequest<{ Params: CacheKeyParams; Body: UpdateSnapshotBody }>,
-      reply
-    ) => {
+    { preHandler: requirePermission(PERMISSIONS.SNAPSHOTS_WRITE) },
+    async (request, reply) => {
       try {
         const cacheKey = decodeURIComponent(request.params.key);
         const updates = request.body || {};
@@ -355,9 +366,11 @@ export async function cacheRoutes(fastify: FastifyInstance) {
           return { error: 'Snapshot management not available' };
         }
 
+        const metadata = await snapshotManager.getSnapshotByCacheKey(cacheKey);
+        request.audit = { target: cacheKey, before: metadata ?? undefined };
+
         // Handle TTL extension
         if (updates.ttl_extension_hours) {
-          const metadata = await snapshotManager.getSnapshotByCacheKey(cacheKey);
           if (metadata) {
             const currentExpiry = new Date(metadata.expires_at);
             const newExpiry = new Date(
@@ -375,6 +388,7 @@ export async function cacheRoutes(fastify: FastifyInstance) {
         }
 
         const updatedMetadata = await snapshotManager.getSnapshotByCacheKey(cacheKey);
+        request.audit.after = updatedMetadata ?? undefined;
 
         return {
           message: 'Cache entry updated successfully',
@@ -388,9 +402,10 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   );
 
   // DELETE /cache/entry/:key - Purge cache entry manually
-  fastify.delete(
+  fastify.delete<{ Params: CacheKeyParams }>(
     '/cache/entry/:key',
-    async (request: FastifyRequest<{ Params: CacheKeyParams }>, reply) => {
+    { preHandler: requirePermission(PERMISSIONS.SNAPSHOTS_WRITE) },
+    async (request, reply) => {
       try {
         const cacheKey = decodeURIComponent(request.params.key);
         const snapshotManager = getSnapshotManager();
@@ -401,6 +416,8 @@ export async function cacheRoutes(fastify: FastifyInstance) {
           ? await snapshotManager.getSnapshotByCacheKey(cacheKey)
           : null;
 
+        request.audit = { target: cacheKey, before: metadata ?? undefined, after: null };
+
         // Delete from cache service (all layers)
         await cacheService.delete(cacheKey);
 
@@ -426,117 +443,139 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   // ========================================
 
   // GET /cache/stats - Get comprehensive cache statistics
-  fastify.get('/cache/stats', async (request, reply) => {
-    try {
-      const snapshotManager = getSnapshotManager();
-      const cacheService = getCacheService();
+  fastify.get(
+    '/cache/stats',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_READ) },
+    async (request, reply) => {
+      try {
+        const snapshotManager = getSnapshotManager();
+        const cacheService = getCacheService();
 
-      const [cacheStats, snapshotStats] = await Promise.all([
-        cacheService.getStats(),
-        snapshotManager ? snapshotManager.getStats() : null,
-      ]);
+        const [cacheStats, snapshotStats] = await Promise.all([
+          cacheService.getStats(),
+          snapshotManager ? snapshotManager.getStats() : null,
+        ]);
 
-      return {
-        cache_service: cacheStats,
-        snapshots: snapshotStats,
-        freeze_mode: {
-          global: globalFreezeMode,
-          frozen_endpoints: Array.from(frozenEndpoints),
-        },
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      return handleCacheError(error, reply, 'get-cache-stats');
+        return {
+          cache_service: cacheStats,
+          snapshots: snapshotStats,
+          freeze_mode: getCachePolicy().getFreezeState(),
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        return handleCacheError(error, reply, 'get-cache-stats');
+      }
     }
-  });
+  );
 
   // POST /cache/cleanup - Clean expired entries
-  fastify.post('/cache/cleanup', async (request, reply) => {
-    try {
-      const snapshotManager = getSnapshotManager();
-      const cacheService = getCacheService();
+  fastify.post(
+    '/cache/cleanup',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_INVALIDATE) },
+    async (request, reply) => {
+      try {
+        const snapshotManager = getSnapshotManager();
+        const cacheService = getCacheService();
 
-      const [cacheCleanup, snapshotCleanup] = await Promise.all([
-        cacheService.cleanExpired(),
-        snapshotManager ? snapshotManager.cleanExpired() : 0,
-      ]);
+        const [cacheCleanup, snapshotCleanup] = await Promise.all([
+          cacheService.cleanExpired(),
+          snapshotManager ? snapshotManager.cleanExpired() : 0,
+        ]);
 
-      return {
-        message: 'Cache cleanup completed',
-        cleaned: {
-          cache_entries: cacheCleanup,
-          snapshot_metadata: snapshotCleanup,
-        },
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      return handleCacheError(error, reply, 'cache-cleanup');
+        return {
+          message: 'Cache cleanup completed',
+          cleaned: {
+            cache_entries: cacheCleanup,
+            snapshot_metadata: snapshotCleanup,
+          },
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        return handleCacheError(error, reply, 'cache-cleanup');
+      }
     }
-  });
+  );
 
   // DELETE /cache/clear - Clear all cache entries
-  fastify.delete('/cache/clear', async (request, reply) => {
-    try {
-      const snapshotManager = getSnapshotManager();
-      const cacheService = getCacheService();
-
-      // Get stats before clearing
-      const statsBefore = await cacheService.getStats();
-
-      // Clear cache service
-      const cacheCleared = await cacheService.clear();
-
-      // Clear snapshot metadata (non-manual snapshots only)
-      let snapshotCleared = 0;
-      if (snapshotManager) {
-        // This would need a method to clear non-manual snapshots
-        // For now, we'll clean expired ones
-        snapshotCleared = await snapshotManager.cleanExpired();
-      }
+  fastify.delete(
+    '/cache/clear',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_INVALIDATE) },
+    async (request, reply) => {
+      try {
+        const snapshotManager = getSnapshotManager();
+        const cacheService = getCacheService();
 
-      return {
-        message: 'Cache cleared successfully',
-        cleared: {
-          cache_entries: cacheCleared,
-          snapshot_metadata: snapshotCleared,
-        },
-        stats_before: statsBefore,
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      return handleCacheError(error, reply, 'clear-cache');
+        // Get stats before clearing
+        const statsBefore = await cacheService.getStats();
+
+        // Clear cache service
+        const cacheCleared = await cacheService.clear();
+
+        // Clear snapshot metadata (non-manual snapshots only)
+        let snapshotCleared = 0;
+        if (snapshotManager) {
+          // This would need a method to clear non-manual snapshots
+          // For now, we'll clean expired ones
+          snapshotCleared = await snapshotManager.cleanExpired();
+        }
+
+        request.audit = {
+          target: 'cache',
+          before: statsBefore,
+          after: await cacheService.getStats(),
+        };
+
+        return {
+          message: 'Cache cleared successfully',
+          cleared: {
+            cache_entries: cacheCleared,
+            snapshot_metadata: snapshotCleared,
+          },
+          stats_before: statsBefore,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        return handleCacheError(error, reply, 'clear-cache');
+      }
     }
-  });
+  );
 
   // ========================================
   // TTL CONTROL & FREEZE MODE
   // ========================================
 
   // POST /cache/freeze - Toggle freeze mode
-  fastify.post(
+  fastify.post<{ Body: FreezeToggleBody }>(
     '/cache/freeze',
-    async (request: FastifyRequest<{ Body: FreezeToggleBody }>, reply) => {
+    { preHandler: requirePermission(PERMISSIONS.CACHE_WRITE) },
+    async (request, reply) => {
       try {
         const { enabled, endpoints = [], global = false } = request.body || {};
+        const cachePolicy = getCachePolicy();
+        const stateBefore = cachePolicy.getFreezeState();
 
         if (global) {
-          globalFreezeMode = enabled;
-          if (!enabled) {
-            frozenEndpoints.clear();
-          }
+          await cachePolicy.setGlobalFreeze(enabled);
         } else if (endpoints.length > 0) {
           if (enabled) {
-            endpoints.forEach((endpoint) => frozenEndpoints.add(endpoint));
+            await cachePolicy.freezeEndpoints(endpoints);
           } else {
-            endpoints.forEach((endpoint) => frozenEndpoints.delete(endpoint));
+            await cachePolicy.unfreezeEndpoints(endpoints);
           }
         }
 
+        const freezeState = cachePolicy.getFreezeState();
+        request.audit = {
+          target: global ? 'global' : 'endpoints',
+          before: { global: stateBefore.global, patterns: stateBefore.patterns },
+          after: { global: freezeState.global, patterns: freezeState.patterns },
+        };
+
         return {
           message: `Freeze mode ${enabled ? 'enabled' : 'disabled'}`,
           freeze_state: {
-            global: globalFreezeMode,
-            frozen_endpoints: Array.from(frozenEndpoints),
+            global: freezeState.global,
+            frozen_endpoints: freezeState.patterns,
             affected_endpoints: global ? 'all' : endpoints,
           },
           timestamp: new Date().toISOString(),
@@ -548,41 +587,144 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   );
 
   // GET /cache/freeze/status - Get freeze mode status
-  fastify.get('/cache/freeze/status', async (request, reply) => {
-    try {
-      return {
-        freeze_mode: {
-          global: globalFreezeMode,
-          frozen_endpoints: Array.from(frozenEndpoints),
-          total_frozen_endpoints: frozenEndpoints.size,
-        },
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      return handleCacheError(error, reply, 'get-freeze-status');
+  fastify.get(
+    '/cache/freeze/status',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_READ) },
+    async (request, reply) => {
+      try {
+        const freezeState = getCachePolicy().getFreezeState();
+
+        return {
+          freeze_mode: {
+            global: freezeState.global,
+            frozen_endpoints: freezeState.patterns,
+            total_frozen_endpoints: freezeState.patterns.length,
+            last_sync: freezeState.lastSync,
+          },
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        return handleCacheError(error, reply, 'get-freeze-status');
+      }
     }
-  });
+  );
 
   // Helper function to check if an endpoint is frozen
   fastify.decorate('isEndpointFrozen', (url: string): boolean => {
-    if (globalFreezeMode) return true;
-    return (
-      frozenEndpoints.has(url) ||
-      Array.from(frozenEndpoints).some((pattern) => {
-        // Simple pattern matching - could be enhanced with regex
-        return url.includes(pattern);
-      })
-    );
+    return getCachePolicy().isFrozen(url);
   });
 
+  // GET /cache/ttl-rules - List runtime TTL rules
+  fastify.get(
+    '/cache/ttl-rules',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_READ) },
+    async (request, reply) => {
+      try {
+        const rules = getCachePolicy().listTTLRules();
+
+        return {
+          rules,
+          total: rules.length,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        return handleCacheError(error, reply, 'list-ttl-rules');
+      }
+    }
+  );
+
+  // GET /cache/ttl-rules/:id - Get a single TTL rule
+  fastify.get<{ Params: TTLRuleParams }>(
+    '/cache/ttl-rules/:id',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_READ) },
+    async (request, reply) => {
+      try {
+        const rule = getCachePolicy().getTTLRule(request.params.id);
+
+        if (!rule) {
+          reply.status(404);
+          return { error: 'TTL rule not found' };
+        }
+
+        return { rule };
+      } catch (error) {
+        return handleCacheError(error, reply, 'get-ttl-rule');
+      }
+    }
+  );
+
+  // POST /cache/ttl-rules - Create a TTL rule, checked before rules from the configuration
+  fastify.post<{ Body: TTLRuleBody }>(
+    '/cache/ttl-rules',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_WRITE) },
+    async (request, reply) => {
+      try {
+        if (!request.body || typeof request.body !== 'object') {
+          reply.status(400);
+          return { error: 'TTL rule definition is required' };
+        }
+
+        const rule = await getCachePolicy().createTTLRule(request.body);
+        request.audit = { target: rule.id, after: rule };
+        fastify.log.info({ rule: rule.id, pattern: rule.pattern }, 'TTL rule created');
+
+        reply.status(201);
+        return { success: true, rule };
+      } catch (error) {
+        return handleCacheError(error, reply, 'create-ttl-rule');
+      }
+    }
+  );
+
+  // PUT /cache/ttl-rules/:id - Update a TTL rule
+  fastify.put<{ Params: TTLRuleParams; Body: Partial<TTLRuleBody> }>(
+    '/cache/ttl-rules/:id',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_WRITE) },
+    async (request, reply) => {
+      try {
+        const before = getCachePolicy().getTTLRule(request.params.id);
+        const rule = await getCachePolicy().updateTTLRule(request.params.id, request.body ?? {});
+        request.audit = { target: rule.id, before, after: rule };
+        fastify.log.info({ rule: rule.id, pattern: rule.pattern }, 'TTL rule updated');
+
+        return { success: true, rule };
+      } catch (error) {
+        return handleCacheError(error, reply, 'update-ttl-rule');
+      }
+    }
+  );
+
+  // DELETE /cache/ttl-rules/:id - Remove a TTL rule
+  fastify.delete<{ Params: TTLRuleParams }>(
+    '/cache/ttl-rules/:id',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_WRITE) },
+    async (request, reply) => {
+      try {
+        const before = getCachePolicy().getTTLRule(request.params.id);
+        const removed = await getCachePolicy().deleteTTLRule(request.params.id);
+
+        if (!removed) {
+          reply.status(404);
+          return { error: 'TTL rule not found' };
+        }
+        request.audit = { target: request.params.id, before, after: null };
+
+        return { success: true, message: `TTL rule '${request.params.id}' removed` };
+      } catch (error) {
+        return handleCacheError(error, reply, 'delete-ttl-rule');
+      }
+    }
+  );
+
   // ========================================
   // SNAPSHOT SEARCH & FILTERING
   // ========================================
 
   // GET /cache/search - Advanced snapshot search
-  fastify.get(
+  fastify.get<{ Querystring: SnapshotQuery & { q?: string } }>(
     '/cache/search',
-    async (request: FastifyRequest<{ Querystring: SnapshotQuery & { q?: string } }>, reply) => {
+    { preHandler: requirePermission(PERMISSIONS.SNAPSHOTS_READ) },
+    async (request, reply) => {
       try {
         const snapshotManager = getSnapshotManager();
 
@@ -636,47 +778,59 @@ export async function cacheRoutes(fastify: FastifyInstance) {
   );
 
   // Invalidate cache by pattern
-  fastify.post('/cache/invalidate/pattern', async (request, reply) => {
-    const { pattern } = request.body as { pattern: string };
-    if (!pattern) {
-      reply.status(400);
-      return { error: 'Pattern is required' };
-    }
+  fastify.post(
+    '/cache/invalidate/pattern',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_INVALIDATE) },
+    async (request, reply) => {
+      const { pattern } = request.body as { pattern: string };
+      if (!pattern) {
+        reply.status(400);
+        return { error: 'Pattern is required' };
+      }
 
-    const invalidated = await fastify.cache.invalidateByPattern(pattern);
-    return {
-      message: `Invalidated cache entries matching pattern: ${pattern}`,
-      invalidated,
-    };
-  });
+      const invalidated = await fastify.cache.invalidateByPattern(pattern);
+      return {
+        message: `Invalidated cache entries matching pattern: ${pattern}`,
+        invalidated,
+      };
+    }
+  );
 
   // Invalidate cache by age
-  fastify.post('/cache/invalidate/age', async (request, reply) => {
-    const { ageInSeconds } = request.body as { ageInSeconds: number };
-    if (!ageInSeconds || ageInSeconds <= 0) {
-      reply.status(400);
-      return { error: 'Valid ageInSeconds is required' };
-    }
+  fastify.post(
+    '/cache/invalidate/age',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_INVALIDATE) },
+    async (request, reply) => {
+      const { ageInSeconds } = request.body as { ageInSeconds: number };
+      if (!ageInSeconds || ageInSeconds <= 0) {
+        reply.status(400);
+        return { error: 'Valid ageInSeconds is required' };
+      }
 
-    const invalidated = await fastify.cache.invalidateOlderThan(ageInSeconds);
-    return {
-      message: `Invalidated cache entries older than ${ageInSeconds} seconds`,
-      invalidated,
-    };
-  });
+      const invalidated = await fastify.cache.invalidateOlderThan(ageInSeconds);
+      return {
+        message: `Invalidated cache entries older than ${ageInSeconds} seconds`,
+        invalidated,
+      };
+    }
+  );
 
   // Invalidate cache by tags
-  fastify.post('/cache/invalidate/tags', async (request, reply) => {
-    const { tags } = request.body as { tags: string[] };
-    if (!tags || !Array.isArray(tags) || tags.length === 0) {
-      reply.status(400);
-      return { error: 'Valid tags array is required' };
-    }
+  fastify.post(
+    '/cache/invalidate/tags',
+    { preHandler: requirePermission(PERMISSIONS.CACHE_INVALIDATE) },
+    async (request, reply) => {
+      const { tags } = request.body as { tags: string[] };
+      if (!tags || !Array.isArray(tags) || tags.length === 0) {
+        reply.status(400);
+        return { error: 'Valid tags array is required' };
+      }
 
-    const invalidated = await fastify.cache.invalidateByTags(tags);
-    return {
-      message: `Invalidated cache entries with tags: ${tags.join(', ')}`,
-      invalidated,
-    };
-  });
+      const invalidated = await fastify.cache.invalidateByTags(tags);
+      return {
+        message: `Invalidated cache entries with tags: ${tags.join(', ')}`,
+        invalidated,
+      };
+    }
+  );
 }
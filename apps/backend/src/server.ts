@@ -1,28 +1,58 @@
-import fastify, { type FastifyRequest } from "fastify";
+import fastify from "fastify";
 import { config } from "@/config/index.js";
 import { corsPlugin } from "@/plugins/cors.js";
 import { authPlugin } from "@/plugins/auth.js";
+import { rateLimitHook } from "@/plugins/rate-limit.js";
+import { auditHook } from "@/plugins/audit.js";
 import { formBodyPlugin } from "@/plugins/formbody.js";
 import { AppInstance } from "@/types/index.js";
-import { DatabaseDialect } from "@/database/types.js";
+import { isEventStream } from "@/utils/stream.js";
+import { PayloadCodec } from "@/utils/payload-codec.js";
+import { ValidationError } from "@/types/errors.js";
+import { DatabaseDialect, StorageType } from "@/database/types.js";
+import { migrateDatabase } from "@/database/migrator.js";
 import ajvFormats from "ajv-formats";
 import ajvKeywords from "ajv-keywords";
 
 // Import modules
-import { apiRoutes } from "@/modules/proxy/index.js";
+import {
+  apiRoutes,
+  routingRoutes,
+  mockRoutes,
+  cassetteRoutes,
+  RoutingTable,
+  RoutingStore,
+  MockService,
+  CassetteService,
+  RequestReplayService,
+  ProxyHookRegistry,
+  StreamingConnectionTracker,
+  WebSocketProxy,
+} from "@/modules/proxy/index.js";
 import {
   MetricsService,
   RequestLoggerService,
+  AuditLogService,
   healthRoutes,
   healthManagementRoutes,
   metricsRoutes,
+  auditRoutes,
 } from "@/modules/monitoring/index.js";
 import { CacheService } from "@/services/cache.js";
-import { AuthService, authRoutes } from "@/modules/auth/index.js";
+import { CachePolicyService } from "@/services/cache-policy.js";
+import { StoreSync } from "@/services/synced-store.js";
+import {
+  AuthService,
+  AuthStore,
+  OidcService,
+  RateLimitService,
+  authRoutes,
+} from "@/modules/auth/index.js";
 import {
   RecoveryService,
   ErrorTrackerService,
   SnapshotManager,
+  recoveryRoutes,
 } from "@/modules/recovery/index.js";
 import { registerCluster } from "@/modules/cluster/index.js";
 import { requestRoutes } from "@/modules/proxy/routes/requests.js";
@@ -33,12 +63,6 @@ import { landingRoutes } from "./routes/landing.js";
 import { uiIntegrationRoutes } from "./routes/ui-integration.js";
 import { createOpenApiConfig, createSwaggerUiConfig } from "@/config/openapi.js";
 
-interface RateLimitContext {
-  after: string;
-  max: number;
-  ttl: number;
-}
-
 export async function createServer(): Promise<AppInstance> {
   const isProduction = process.env.NODE_ENV === "production";
 
@@ -73,6 +97,17 @@ export async function createServer(): Promise<AppInstance> {
     },
   });
 
+  // Compression and encryption of cached, logged and snapshotted payloads
+  const payloadCodec = new PayloadCodec(config.storageCodec);
+  const encryptedStores = [config.cache, config.requestLogStorage, config.snapshotStorage];
+  if (encryptedStores.some((store) => store?.encryption) && !payloadCodec.canEncrypt) {
+    throw new ValidationError(
+      "Storage encryption is enabled but no STORAGE_ENCRYPTION_KEYS are configured",
+      "ENCRYPTION_KEY_MISSING",
+      500
+    );
+  }
+
   // Initialize services
   const cacheService = new CacheService(
     config.cache ?? {
@@ -95,7 +130,8 @@ export async function createServer(): Promise<AppInstance> {
       },
     },
     config.fileCacheDir,
-    config.enableFileCache
+    config.enableFileCache,
+    payloadCodec
   );
 
   const requestLoggerService = new RequestLoggerService(
@@ -107,14 +143,19 @@ export async function createServer(): Promise<AppInstance> {
     }
   );
 
+  const databaseConfig = config.database ?? {
+    type: DatabaseDialect.SQLITE,
+    path: "./logs/snapshots.db",
+  };
+
   const snapshotManager = new SnapshotManager(
     app,
     true,
-    config.database ?? {
-      type: DatabaseDialect.SQLITE,
-      path: "./logs/snapshots.db",
-    }
+    databaseConfig,
+    config.snapshotStorage
   );
+  const cachePolicyService = new CachePolicyService(app);
+  const mockService = new MockService(app);
 
   let authService: AuthService | null = null;
   if (config.auth?.enabled && config.auth.jwt?.secret) {
@@ -128,8 +169,36 @@ export async function createServer(): Promise<AppInstance> {
     );
   }
 
+  const authStore = authService ? new AuthStore(app, authService) : null;
+  const oidcService = config.auth?.oidc?.enabled ? new OidcService(config.auth.oidc) : null;
+
   const metricsService = new MetricsService();
+  const routingTable = new RoutingTable(config.routing, config.targetUrl);
+  const routingStore = new RoutingStore(app, routingTable);
+  const storeSync = new StoreSync([cachePolicyService, mockService, authStore, routingStore]);
+  const cassetteService = new CassetteService(
+    config.recording ?? {
+      mode: "off",
+      cassette: "default",
+      cassetteDir: "./cassettes",
+      matching: "strict",
+      missStatus: 404,
+    }
+  );
+  const requestReplayService = new RequestReplayService(app);
+  const auditLogService = new AuditLogService(
+    app,
+    config.audit ?? {
+      enabled: false,
+      storage: { type: StorageType.LOCAL_FILE, directory: "./logs/audit" },
+      retentionDays: 90,
+    }
+  );
+  const proxyHooks = new ProxyHookRegistry(app);
+  const streamingConnections = new StreamingConnectionTracker(app);
+  const websocketProxy = new WebSocketProxy(app);
   const recoveryService = new RecoveryService(app);
+  const rateLimitService = new RateLimitService(app);
   const errorTracker = new ErrorTrackerService(app, {
     enabled: process.env.ERROR_TRACKING_ENABLED === "true",
     service:
@@ -142,20 +211,53 @@ export async function createServer(): Promise<AppInstance> {
   // Decorate the app instance with services
   app.decorate("config", config);
   app.decorate("cache", cacheService);
+  app.decorate("cachePolicy", cachePolicyService);
   app.decorate("requestLogger", requestLoggerService);
   app.decorate("snapshotManager", snapshotManager);
   app.decorate("metrics", metricsService);
   if (authService) {
     app.decorate("authService", authService);
   }
+  if (authStore) {
+    app.decorate("authStore", authStore);
+  }
+  if (oidcService) {
+    app.decorate("oidc", oidcService);
+  }
+  app.decorate("rateLimiter", rateLimitService);
   app.decorate("recovery", recoveryService);
   app.decorate("errorTracker", errorTracker);
+  app.decorate("routingTable", routingTable);
+  app.decorate("routingStore", routingStore);
+  app.decorate("mocks", mockService);
+  app.decorate("cassettes", cassetteService);
+  app.decorate("requestReplay", requestReplayService);
+  app.decorate("audit", auditLogService);
+  app.decorate("proxyHooks", proxyHooks);
+  app.decorate("streamingConnections", streamingConnections);
+  app.decorate("websocketProxy", websocketProxy);
+  app.decorate("payloadCodec", payloadCodec);
+
+  // Bring the SQL schema up to date before services open their tables
+  if (config.migrations?.autoMigrate !== false) {
+    await migrateDatabase(databaseConfig, app.log);
+  }
 
   // Initialize services
   await cacheService.initialize();
   await requestLoggerService.initialize();
   await snapshotManager.initialize();
+  await storeSync.initialize(snapshotManager.getAdapter());
+  await cassetteService.initialize();
+  await auditLogService.initialize();
+  await proxyHooks.initialize(
+    config.plugins ?? { enabled: false, directory: "./plugins/proxy", packages: [] }
+  );
   metricsService.initialize(app);
+  routingTable.startHealthChecks();
+  if (config.streaming?.websocket) {
+    websocketProxy.attach();
+  }
 
   // Add metrics hooks
   app.addHook("onRequest", (request, reply, done) => {
@@ -195,6 +297,11 @@ export async function createServer(): Promise<AppInstance> {
   if (config.enableFileCache) {
     app.log.info(`File cache directory: ${config.fileCacheDir}`);
   }
+  if (cassetteService.getMode() !== "off") {
+    app.log.info(
+      `Recording mode: ${cassetteService.getMode()} (cassette: ${config.recording?.cassette})`
+    );
+  }
   app.log.info(`Request logging enabled: ${config.enableRequestLogging}`);
   if (config.enableRequestLogging) {
     const storageConfig = config.requestLogStorage ?? {
@@ -237,30 +344,47 @@ export async function createServer(): Promise<AppInstance> {
     app.log.info(`API keys configured: ${config.auth.apiKeys.length}`);
     app.log.info(`Protected paths: ${config.auth.protectedPaths.join(", ")}`);
     app.log.info(`JWT support: ${config.auth.jwt ? "enabled" : "disabled"}`);
+    if (config.auth.oidc?.enabled) {
+      app.log.info(
+        `OIDC provider: ${config.auth.oidc.issuer} (client ${config.auth.oidc.clientId})`
+      );
+    }
+  }
+  app.log.info(`Rate limiting enabled: ${config.rateLimit?.enabled || false}`);
+  if (config.rateLimit?.enabled) {
+    app.log.info(`Rate limit store: ${config.rateLimit.store}`);
+    app.log.info(`Rate limit rules: ${config.rateLimit.rules.map((rule) => rule.id).join(", ")}`);
   }
+  app.log.info(`Audit log enabled: ${auditLogService.isEnabled()}`);
+  if (config.audit?.enabled) {
+    app.log.info(`Audit log storage type: ${config.audit.storage.type}`);
+    app.log.info(`Audit log retention: ${config.audit.retentionDays} days`);
+  }
+  const proxyPlugins = proxyHooks.listPlugins();
+  app.log.info(
+    `Proxy plugins: ${proxyPlugins.map((plugin) => plugin.name).join(", ") || "none"}`
+  );
+  app.log.info(`WebSocket proxy enabled: ${config.streaming?.websocket ?? false}`);
+  app.log.info(
+    `Storage compression: cache ${config.cache?.compression ?? false}, request logs ${
+      config.requestLogStorage?.compression ?? false
+    }, snapshots ${config.snapshotStorage?.compression ?? false}`
+  );
+  app.log.info(
+    `Storage encryption: cache ${config.cache?.encryption ?? false}, request logs ${
+      config.requestLogStorage?.encryption ?? false
+    }, snapshots ${config.snapshotStorage?.encryption ?? false}`
+  );
 
   // Register plugins
   await app.register(corsPlugin);
   await app.register(import("@fastify/cookie"));
 
-  // Add rate limiting
-  await app.register(import("@fastify/rate-limit"), {
-    global: true,
-    max: 100,
-    timeWindow: "1 minute",
-    errorResponseBuilder: (
-      request: FastifyRequest,
-      context: RateLimitContext
-    ) => {
-      return {
-        error: "Rate Limit Exceeded",
-        message: `Too many requests, please try again in ${context.after}`,
-        timestamp: new Date().toISOString(),
-        requestId: request.id,
-        retryAfter: context.after,
-      };
-    },
-  });
+  // Add rate limiting (rules and API key quotas)
+  app.addHook("onRequest", rateLimitHook);
+
+  // Record mutating admin requests in the audit log
+  app.addHook("onSend", auditHook);
 
   // Add security headers
   await app.register(import("@fastify/helmet"), {
@@ -302,7 +426,9 @@ export async function createServer(): Promise<AppInstance> {
     threshold: 1024,
     encodings: ["gzip", "deflate"],
     inflateIfDeflated: true,
-    customTypes: /^text\/|\+json$|\+text$|\+xml$/,
+    // Event streams are flushed per event, compressing them would hold events back
+    customTypes: (type: string) =>
+      !isEventStream(type) && /^text\/|\+json$|\+text$|\+xml$/.test(type),
     removeContentLengthHeader: false,
   });
 
@@ -319,9 +445,14 @@ export async function createServer(): Promise<AppInstance> {
   await app.register(apiRoutes);
   await app.register(requestRoutes, { prefix: "/api" }); // Request analytics and logging routes
   await app.register(cacheRoutes, { prefix: "/api" });
+  await app.register(routingRoutes, { prefix: "/api" });
+  await app.register(mockRoutes, { prefix: "/api" });
+  await app.register(cassetteRoutes, { prefix: "/api" });
   await app.register(authRoutes, { prefix: "/api" });
   await app.register(healthManagementRoutes, { prefix: "/api" });
+  await app.register(recoveryRoutes, { prefix: "/api" });
   await app.register(metricsRoutes, { prefix: "/api" });
+  await app.register(auditRoutes, { prefix: "/api" });
   await app.register(registerCluster, { prefix: "/api" });
   await app.register(dynamicDocsRoutes); // No prefix - mount at root level
   await app.register(docsIndexRoutes); // No prefix - mount at root level
@@ -340,7 +471,8 @@ export async function createServer(): Promise<AppInstance> {
     app,
     cacheService,
     requestLoggerService,
-    snapshotManager
+    snapshotManager,
+    storeSync
   );
 
   return app;
@@ -389,19 +521,46 @@ function setupCleanupIntervals(
       24 * 60 * 60 * 1000
     );
   }
+
+  // Clean audit entries past their retention every 24 hours
+  if (app.audit.isEnabled()) {
+    setInterval(
+      () => {
+        app.audit
+          .cleanup()
+          .then((cleared) => {
+            if (cleared > 0) {
+              app.log.info(`Cleaned ${cleared} expired audit log entries`);
+            }
+          })
+          .catch(() => undefined);
+      },
+      24 * 60 * 60 * 1000
+    );
+  }
 }
 
 function setupGracefulShutdown(
   app: AppInstance,
   cacheService: CacheService,
   requestLoggerService: RequestLoggerService,
-  snapshotManager: SnapshotManager
+  snapshotManager: SnapshotManager,
+  storeSync: StoreSync
 ) {
   const shutdown = async () => {
     app.log.info("Shutting down gracefully...");
     cacheService.shutdown();
+    app.routingTable.stopHealthChecks();
     await requestLoggerService.close();
+    storeSync.close();
     await snapshotManager.close();
+    await app.audit.close();
+    await app.proxyHooks.close();
+    app.streamingConnections.closeAll();
+    await app.cassettes.flush();
+    app.requestReplay.close();
+    await app.rateLimiter.close();
+    app.oidc?.close();
     process.exit(0);
   };
 
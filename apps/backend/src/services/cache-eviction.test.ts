@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { EvictionPolicyName } from "@/types/index.js";
+import { EvictionPolicy, MemoryTier } from "./cache-eviction.js";
+
+function entry(data: unknown = "x") {
+  return { data, headers: {}, createdAt: Date.now(), accessCount: 0, lastAccessed: Date.now() };
+}
+
+// Fill a tier the way the cache service does: store, then evict while over capacity
+function createTier(name: EvictionPolicyName, capacity: number) {
+  const policy = new EvictionPolicy(name, capacity);
+  const tier = new MemoryTier(policy);
+  const store = (key: string) => {
+    tier.set(key, entry());
+    while (tier.size > capacity) tier.delete(policy.victim()!);
+  };
+  const hit = (key: string) => {
+    policy.recordAccess(key);
+    if (tier.has(key)) policy.recordHit(key);
+  };
+  return { policy, tier, store, hit };
+}
+
+test("lru evicts the least recently hit entry", () => {
+  const { tier, store, hit } = createTier("lru", 3);
+  ["a", "b", "c"].forEach(store);
+  hit("a");
+  store("d");
+
+  assert.deepEqual([...tier.keys()].sort(), ["a", "c", "d"]);
+});
+
+test("fifo evicts the oldest entry regardless of hits", () => {
+  const { tier, store, hit } = createTier("fifo", 3);
+  ["a", "b", "c"].forEach(store);
+  hit("a");
+  store("d");
+
+  assert.deepEqual([...tier.keys()].sort(), ["b", "c", "d"]);
+});
+
+test("lfu evicts the fewest hits, least recently hit among equals", () => {
+  const { tier, store, hit } = createTier("lfu", 3);
+  ["a", "b", "c"].forEach(store);
+  hit("b");
+  hit("c");
+  hit("c");
+  store("d");
+  assert.deepEqual([...tier.keys()].sort(), ["b", "c", "d"]);
+
+  // Entries removed by other paths leave no empty hit counts behind
+  hit("d");
+  hit("d");
+  tier.delete("b");
+  store("e");
+  store("f");
+  assert.deepEqual([...tier.keys()].sort(), ["c", "d", "f"]);
+});
+
+test("w-tinylfu keeps popular entries when a scan of one-off keys passes through", () => {
+  const { tier, store, hit } = createTier("w-tinylfu", 100);
+  for (let i = 0; i < 100; i++) store(`hot-${i}`);
+  for (let round = 0; round < 3; round++) {
+    for (let i = 0; i < 100; i++) hit(`hot-${i}`);
+  }
+
+  for (let i = 0; i < 1000; i++) {
+    hit(`scan-${i}`);
+    store(`scan-${i}`);
+  }
+
+  const hot = [...tier.keys()].filter((key) => key.startsWith("hot-")).length;
+  assert.equal(tier.size, 100);
+  assert.ok(hot >= 90, `only ${hot} popular entries survived`);
+});
+
+test("w-tinylfu admits a new key once it's requested more often than the main victim", () => {
+  const { tier, store, hit } = createTier("w-tinylfu", 100);
+  for (let i = 0; i < 100; i++) store(`old-${i}`);
+
+  for (let i = 0; i < 5; i++) hit("rising");
+  store("rising");
+  for (let i = 0; i < 5; i++) store(`filler-${i}`);
+
+  assert.ok(tier.has("rising"));
+  assert.equal(tier.size, 100);
+});
+
+test("clearing the tier resets the policy", () => {
+  const { policy, tier, store } = createTier("w-tinylfu", 10);
+  for (let i = 0; i < 10; i++) store(`key-${i}`);
+  tier.clear();
+
+  assert.equal(policy.victim(), undefined);
+  assert.equal(tier.bytes, 0);
+});
@@ -0,0 +1,291 @@
+import type { EvictionPolicyName } from "@/types/index.js";
+
+const SKETCH_DEPTH = 4;
+const MAX_COUNTER = 15;
+const WINDOW_RATIO = 0.01; // W-TinyLFU admission window, share of the memory tier
+const PROTECTED_RATIO = 0.8; // Share of the W-TinyLFU main area kept for entries hit there
+
+interface SizedEntry {
+  data: unknown;
+  headers: Record<string, string>;
+  createdAt: number;
+  accessCount: number;
+  lastAccessed: number;
+}
+
+/**
+ * Approximate bytes an entry takes, compressed entries count with their compressed size
+ */
+export function estimateEntrySize(entry: SizedEntry): number {
+  let dataSize: number;
+  if (Buffer.isBuffer(entry.data)) {
+    dataSize = entry.data.length;
+  } else if (typeof entry.data === "string") {
+    dataSize = Buffer.byteLength(entry.data);
+  } else {
+    dataSize = Buffer.byteLength(JSON.stringify(entry.data) ?? "");
+  }
+  return dataSize + Buffer.byteLength(JSON.stringify(entry.headers));
+}
+
+/**
+ * Memory tier of the cache, a Map that keeps track of the bytes its entries take and keeps
+ * its eviction policy informed. Entries removed through any path, e.g. invalidation, are
+ * accounted for.
+ */
+export class MemoryTier<T extends SizedEntry = SizedEntry> extends Map<string, T> {
+  private sizes = new Map<string, number>();
+  private totalBytes = 0;
+
+  constructor(private readonly policy?: EvictionPolicy) {
+    super();
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  override set(key: string, entry: T): this {
+    const size = estimateEntrySize(entry);
+    this.totalBytes += size - (this.sizes.get(key) ?? 0);
+    this.sizes.set(key, size);
+    this.policy?.add(key);
+    return super.set(key, entry);
+  }
+
+  override delete(key: string): boolean {
+    this.totalBytes -= this.sizes.get(key) ?? 0;
+    this.sizes.delete(key);
+    this.policy?.remove(key);
+    return super.delete(key);
+  }
+
+  override clear(): void {
+    this.sizes.clear();
+    this.totalBytes = 0;
+    this.policy?.clear();
+    super.clear();
+  }
+}
+
+/**
+ * Count-Min sketch of how often keys were requested, including keys that aren't cached.
+ * Counters are halved once the sample is full, so popularity from long ago fades out.
+ */
+export class FrequencySketch {
+  private table: Uint8Array;
+  private width: number;
+  private additions = 0;
+  private sampleSize: number;
+
+  constructor(capacity: number) {
+    this.width = 2 ** Math.ceil(Math.log2(Math.max(capacity, 16)));
+    this.table = new Uint8Array(this.width * SKETCH_DEPTH);
+    this.sampleSize = Math.max(capacity, 16) * 10;
+  }
+
+  increment(key: string): void {
+    for (const index of this.indexes(key)) {
+      if (this.table[index] < MAX_COUNTER) this.table[index]++;
+    }
+    if (++this.additions >= this.sampleSize) this.reset();
+  }
+
+  frequency(key: string): number {
+    return Math.min(...this.indexes(key).map((index) => this.table[index]));
+  }
+
+  private reset(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  // One FNV-1a hash per row, each with its own seed
+  private indexes(key: string): number[] {
+    const indexes: number[] = [];
+    for (let row = 0; row < SKETCH_DEPTH; row++) {
+      let hash = 0x811c9dc5 ^ (row * 0x9e3779b9);
+      for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+      }
+      indexes.push(row * this.width + ((hash >>> 0) % this.width));
+    }
+    return indexes;
+  }
+}
+
+/**
+ * Picks the entries the memory tier gives up when it's over budget. Keys are kept in queues
+ * as they are added, hit and removed, so choosing a victim takes constant time.
+ *
+ * - lru: least recently hit first
+ * - fifo: oldest first
+ * - lfu: fewest hits since the entry was stored first, least recently hit among equals
+ * - w-tinylfu: new entries sit in a small LRU admission window and move on to the probation
+ *   segment of the main area, entries hit there are protected. Once the cache is full an entry
+ *   leaving the window only stays if it was requested more often than the main area's victim.
+ */
+export class EvictionPolicy {
+  readonly sketch: FrequencySketch;
+  // The window is the only queue of lru and fifo, Sets keep insertion order
+  private window = new Set<string>();
+  private probation = new Set<string>();
+  private protectedKeys = new Set<string>();
+  private hits = new Map<string, number>(); // lfu: key -> hits
+  private byHits = new Map<number, Set<string>>(); // lfu: hits -> keys, least recently hit first
+  private minHits = 0;
+  private windowCapacity: number;
+  private mainCapacity: number;
+  private protectedCapacity: number;
+
+  constructor(
+    readonly name: EvictionPolicyName,
+    capacity: number
+  ) {
+    this.sketch = new FrequencySketch(capacity);
+    this.windowCapacity = Math.max(1, Math.ceil(capacity * WINDOW_RATIO));
+    this.mainCapacity = Math.max(0, capacity - this.windowCapacity);
+    this.protectedCapacity = Math.floor(this.mainCapacity * PROTECTED_RATIO);
+  }
+
+  /**
+   * Count a request for a key, cached or not, for the w-tinylfu admission check
+   */
+  recordAccess(key: string): void {
+    this.sketch.increment(key);
+  }
+
+  /**
+   * Track a stored entry, an entry stored again starts over
+   */
+  add(key: string): void {
+    this.remove(key);
+    if (this.name === "lfu") {
+      this.hits.set(key, 0);
+      this.bucket(0).add(key);
+      this.minHits = 0;
+      return;
+    }
+
+    this.window.add(key);
+    if (this.name === "w-tinylfu") {
+      // Until the main area is full the window hands its oldest entries over unchallenged
+      while (
+        this.window.size > this.windowCapacity &&
+        this.probation.size + this.protectedKeys.size < this.mainCapacity
+      ) {
+        const oldest = first(this.window)!;
+        this.window.delete(oldest);
+        this.probation.add(oldest);
+      }
+    }
+  }
+
+  /**
+   * Record a hit on a cached entry
+   */
+  recordHit(key: string): void {
+    switch (this.name) {
+      case "fifo":
+        return;
+      case "lfu": {
+        const hits = this.hits.get(key);
+        if (hits === undefined) return;
+        this.unbucket(key, hits);
+        if (this.minHits === hits && !this.byHits.has(hits)) this.minHits = hits + 1;
+        this.hits.set(key, hits + 1);
+        this.bucket(hits + 1).add(key);
+        return;
+      }
+      case "w-tinylfu":
+        if (this.probation.delete(key)) {
+          this.protectedKeys.add(key);
+          if (this.protectedKeys.size > this.protectedCapacity) {
+            const demoted = first(this.protectedKeys)!;
+            this.protectedKeys.delete(demoted);
+            this.probation.add(demoted);
+          }
+          return;
+        }
+        if (this.protectedKeys.delete(key)) {
+          this.protectedKeys.add(key);
+          return;
+        }
+      // Falls through, window entries are kept in LRU order
+      default:
+        if (this.window.delete(key)) this.window.add(key);
+    }
+  }
+
+  remove(key: string): void {
+    const hits = this.hits.get(key);
+    if (hits !== undefined) {
+      this.hits.delete(key);
+      this.unbucket(key, hits);
+    }
+    if (!this.window.delete(key) && !this.probation.delete(key)) {
+      this.protectedKeys.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protectedKeys.clear();
+    this.hits.clear();
+    this.byHits.clear();
+    this.minHits = 0;
+  }
+
+  /**
+   * Key to evict next, the caller removes it from the memory tier and asks again until enough
+   * space is free
+   */
+  victim(): string | undefined {
+    if (this.name === "lfu") {
+      if (!this.byHits.has(this.minHits)) {
+        if (this.byHits.size === 0) return undefined;
+        this.minHits = Math.min(...this.byHits.keys());
+      }
+      return first(this.byHits.get(this.minHits)!);
+    }
+    if (this.name !== "w-tinylfu") {
+      return first(this.window);
+    }
+
+    const mainVictim = first(this.probation) ?? first(this.protectedKeys);
+    const candidate = this.window.size > this.windowCapacity ? first(this.window) : undefined;
+    if (candidate === undefined || mainVictim === undefined) {
+      return mainVictim ?? first(this.window);
+    }
+    if (this.sketch.frequency(candidate) > this.sketch.frequency(mainVictim)) {
+      // The candidate is admitted to the main area and the main victim makes room
+      this.window.delete(candidate);
+      this.probation.add(candidate);
+      return mainVictim;
+    }
+    return candidate;
+  }
+
+  private bucket(hits: number): Set<string> {
+    let keys = this.byHits.get(hits);
+    if (!keys) {
+      keys = new Set();
+      this.byHits.set(hits, keys);
+    }
+    return keys;
+  }
+
+  private unbucket(key: string, hits: number): void {
+    const keys = this.byHits.get(hits);
+    keys?.delete(key);
+    if (keys?.size === 0) this.byHits.delete(hits);
+  }
+}
+
+function first(keys: Set<string>): string | undefined {
+  return keys.values().next().value;
+}
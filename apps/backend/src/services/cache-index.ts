@@ -0,0 +1,106 @@
+import type { InvalidationTarget } from "./cache.js";
+
+interface IndexedEntry {
+  request: string | null;
+  tags: string[];
+  expiresAt: number;
+}
+
+/**
+ * Request an entry was stored for, e.g. "GET /users/1", the unit write invalidation matches
+ */
+export function requestIndexKey(method?: string, url?: string): string | null {
+  if (!method || !url) return null;
+  try {
+    return `${method.toUpperCase()} ${new URL(url).pathname}`;
+  } catch {
+    return null;
+  }
+}
+
+export function matchesTargets(requestKey: string, targets: InvalidationTarget[]): boolean {
+  const separator = requestKey.indexOf(" ");
+  const method = requestKey.slice(0, separator);
+  const path = requestKey.slice(separator + 1);
+  return targets.some(
+    (target) => (!target.method || target.method === method) && target.path.test(path)
+  );
+}
+
+/**
+ * Cache keys of this instance by request and by tag, so invalidation looks up the keys it
+ * removes instead of reading every entry. Keys stay indexed until they expire or are removed.
+ */
+export class InvalidationIndex {
+  private entries = new Map<string, IndexedEntry>();
+  private byRequest = new Map<string, Set<string>>();
+  private byTag = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  add(key: string, request: string | null, tags: string[], expiresAt: number): void {
+    this.remove(key);
+    this.entries.set(key, { request, tags, expiresAt });
+    if (request) addToSet(this.byRequest, request, key);
+    for (const tag of tags) addToSet(this.byTag, tag, key);
+  }
+
+  remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    if (entry.request) removeFromSet(this.byRequest, entry.request, key);
+    for (const tag of entry.tags) removeFromSet(this.byTag, tag, key);
+  }
+
+  keysForTags(tags: string[]): string[] {
+    return tags.flatMap((tag) => Array.from(this.byTag.get(tag) ?? []));
+  }
+
+  // Visits each distinct request once rather than every entry
+  keysForTargets(targets: InvalidationTarget[]): string[] {
+    const keys: string[] = [];
+    for (const [request, requestKeys] of this.byRequest) {
+      if (matchesTargets(request, targets)) keys.push(...requestKeys);
+    }
+    return keys;
+  }
+
+  /**
+   * Forget keys past their expiry, returns how many were dropped
+   */
+  prune(now: number = Date.now()): number {
+    let pruned = 0;
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) {
+        this.remove(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.byRequest.clear();
+    this.byTag.clear();
+  }
+}
+
+function addToSet(index: Map<string, Set<string>>, name: string, key: string): void {
+  let keys = index.get(name);
+  if (!keys) {
+    keys = new Set();
+    index.set(name, keys);
+  }
+  keys.add(key);
+}
+
+function removeFromSet(index: Map<string, Set<string>>, name: string, key: string): void {
+  const keys = index.get(name);
+  keys?.delete(key);
+  if (keys?.size === 0) index.delete(name);
+}
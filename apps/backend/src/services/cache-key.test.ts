@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { CacheKeyTemplate } from "@/types/index.js";
+import { buildTemplateKey } from "./cache-key.js";
+
+const url = "https://api.example.com/tenants/products?utm_source=mail&page=2&sort=name";
+
+function key(template: CacheKeyTemplate, request: Record<string, unknown> = {}, secret?: string) {
+  return buildTemplateKey(
+    template,
+    { method: "get", url, headers: {}, ...request } as Parameters<typeof buildTemplateKey>[1],
+    secret
+  );
+}
+
+test("query parameters are filtered and sorted, ignored segments become *", () => {
+  assert.equal(
+    key({ query: { exclude: ["utm_source"] }, path: { ignore: [0] } }),
+    "GET::https://api.example.com/*/products?page=2&sort=name"
+  );
+  assert.equal(
+    key({ query: { include: ["page"] } }),
+    "GET::https://api.example.com/tenants/products?page=2"
+  );
+});
+
+test("claims of the verified identity share entries across tokens of a tenant", () => {
+  const template = { query: { include: [] }, jwtClaims: ["tenant_id"] };
+  const alice = key(template, {
+    headers: { authorization: "Bearer token-a" },
+    claims: { sub: "alice", tenant_id: "acme" },
+  });
+  const bob = key(template, {
+    headers: { authorization: "Bearer token-b" },
+    claims: { sub: "bob", tenant_id: "acme" },
+  });
+  const mallory = key(template, {
+    headers: { authorization: "Bearer token-c" },
+    claims: { sub: "mallory", tenant_id: "globex" },
+  });
+
+  assert.equal(alice, bob);
+  assert.ok(alice.endsWith("::claims:tenant_id=acme"));
+  assert.notEqual(alice, mallory);
+});
+
+test("unverified tokens key entries by themselves", () => {
+  const template = { jwtClaims: ["tenant_id"] };
+  const forged = jwt.sign({ tenant_id: "acme" }, "guessed-secret");
+  const forgedKey = key(template, { headers: { authorization: `Bearer ${forged}` } });
+  assert.match(forgedKey, /::token:[0-9a-f]{16}$/);
+
+  // Verified identities without any of the claims don't share one entry either
+  const apiKey = key(template, { headers: { "x-api-key": "key-1" }, claims: { role: "user" } });
+  assert.match(apiKey, /::token:[0-9a-f]{16}$/);
+  assert.equal(
+    key(template),
+    "GET::https://api.example.com/tenants/products?page=2&sort=name&utm_source=mail"
+  );
+});
+
+test("the jwtSecret fallback verifies tokens the auth layer didn't", () => {
+  const token = jwt.sign({ tenant_id: "acme" }, "cache-secret");
+  const headers = { authorization: `Bearer ${token}` };
+  const result = key({ jwtClaims: ["tenant_id"] }, { headers }, "cache-secret");
+  assert.ok(result.endsWith("::claims:tenant_id=acme"));
+});
+
+test("only the listed body fields and cookies are part of the key", () => {
+  const template = { bodyFields: ["query"], cookies: ["locale"], query: { include: [] } };
+  const a = key(template, {
+    method: "POST",
+    headers: { cookie: "locale=de; session=1" },
+    body: { query: "shoes", requestId: 1 },
+  });
+  const b = key(template, {
+    method: "POST",
+    headers: { cookie: "session=2; locale=de" },
+    body: { query: "shoes", requestId: 2 },
+  });
+  assert.equal(a, b);
+  assert.match(a, /::cookies:locale=de::body:[0-9a-f]{16}$/);
+});
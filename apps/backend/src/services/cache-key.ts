@@ -0,0 +1,169 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import type { CacheKeyContext, CacheKeyTemplate } from "@/types/index.js";
+
+export interface CacheKeyRequest extends CacheKeyContext {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Cache key of a request matched by a rule with a key template, in the same
+ * METHOD::url::headers::... layout as the default keys
+ */
+export function buildTemplateKey(
+  template: CacheKeyTemplate,
+  request: CacheKeyRequest,
+  jwtSecret?: string
+): string {
+  const { method, url, headers, body } = request;
+  const keyComponents = [method.toUpperCase(), templateUrl(template, url)];
+
+  const headerString = (template.headers ?? [])
+    .map((name) => name.toLowerCase())
+    .filter((name) => headers[name])
+    .sort()
+    .map((name) => `${name}:${headers[name]}`)
+    .join("|");
+  if (headerString) {
+    keyComponents.push(headerString);
+  }
+
+  if (template.jwtClaims?.length) {
+    const claims = claimsComponent(template.jwtClaims, request, jwtSecret);
+    if (claims) keyComponents.push(claims);
+  }
+
+  if (template.cookies?.length) {
+    const cookies = parseCookies(headers.cookie);
+    const cookieString = [...template.cookies]
+      .sort()
+      .filter((name) => cookies[name] !== undefined)
+      .map((name) => `${name}=${cookies[name]}`)
+      .join("|");
+    if (cookieString) keyComponents.push(`cookies:${cookieString}`);
+  }
+
+  if (!template.ignoreBody && body !== undefined && body !== null) {
+    keyComponents.push(`body:${hash(bodyString(body, template.bodyFields))}`);
+  }
+
+  return keyComponents.join("::");
+}
+
+// Query parameters sorted and filtered, path segments outside the template replaced by "*"
+function templateUrl(template: CacheKeyTemplate, url: string): string {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return url;
+  }
+
+  if (template.path) {
+    const { include, ignore = [] } = template.path;
+    urlObj.pathname = urlObj.pathname
+      .split("/")
+      .map((segment, i) => {
+        // Index 0 is the empty string before the leading slash
+        const index = i - 1;
+        if (index < 0 || !segment) return segment;
+        const kept = (!include || include.includes(index)) && !ignore.includes(index);
+        return kept ? segment : "*";
+      })
+      .join("/");
+  }
+
+  const { include, exclude = [] } = template.query ?? {};
+  const params = Array.from(urlObj.searchParams.entries())
+    .filter(([name]) => (!include || include.includes(name)) && !exclude.includes(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  urlObj.search = new URLSearchParams(params).toString();
+  return urlObj.toString();
+}
+
+// Claims are only trusted from tokens the auth layer (or the jwtSecret fallback) verified,
+// other credentials and those lacking every claim key entries by themselves, so a forged
+// token can't read another tenant's entries
+function claimsComponent(
+  claims: string[],
+  request: CacheKeyRequest,
+  jwtSecret: string | undefined
+): string | null {
+  const { headers } = request;
+  const token =
+    headers.authorization?.replace(/^Bearer\s+/i, "") ||
+    headers["x-api-key"] ||
+    headers["x-access-token"];
+
+  let payload: Record<string, unknown> | null = request.claims ?? null;
+  if (!payload && token && jwtSecret) {
+    payload = verifyToken(token, jwtSecret);
+  }
+
+  const values = claims.map((claim) => getPath(payload, claim));
+  if (payload && values.some((value) => value !== undefined && value !== null)) {
+    return `claims:${claims.map((claim, i) => `${claim}=${stringify(values[i])}`).join("|")}`;
+  }
+  return token ? `token:${hash(token)}` : null;
+}
+
+function verifyToken(token: string, secret: string): jwt.JwtPayload | null {
+  try {
+    const payload = jwt.verify(token, secret);
+    return typeof payload === "object" ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseCookies(header?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of header?.split(";") ?? []) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      cookies[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+function bodyString(body: unknown, fields?: string[]): string {
+  if (!fields?.length) {
+    return typeof body === "string" ? body : JSON.stringify(body);
+  }
+
+  let parsed: unknown = body;
+  if (typeof body === "string" || Buffer.isBuffer(body)) {
+    try {
+      parsed = JSON.parse(body.toString());
+    } catch {
+      // Not JSON, so there are no fields to pick
+      return body.toString();
+    }
+  }
+  return JSON.stringify(fields.map((field) => [field, getPath(parsed, field) ?? null]));
+}
+
+function getPath(value: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (current, part) =>
+        current !== null && typeof current === "object"
+          ? (current as Record<string, unknown>)[part]
+          : undefined,
+      value
+    );
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").substring(0, 16);
+}
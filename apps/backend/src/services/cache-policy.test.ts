@@ -0,0 +1,107 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import type { FastifyInstance } from "fastify";
+import {
+  CachePolicyRepository,
+  FreezePatternRecord,
+  FreezePatternType,
+  TTLRuleRecord,
+} from "@/database/repositories/cache-policy-repository.js";
+import { DatabaseAdapter, DatabaseDialect } from "@/database/types.js";
+import { CacheRule } from "@/types/index.js";
+import { CachePolicyService } from "./cache-policy.js";
+import { StoreSync } from "./synced-store.js";
+
+// One database shared by every node, behind the repository methods the service calls
+function mockDatabase(t: TestContext) {
+  const settings = new Map<string, string>();
+  let patterns: FreezePatternRecord[] = [];
+  const rules = new Map<string, TTLRuleRecord>();
+  const state = { unreachable: false };
+  const reachable = () => {
+    if (state.unreachable) throw new Error("connection refused");
+  };
+  const repository = CachePolicyRepository.prototype;
+
+  t.mock.method(repository, "ensureTables", async () => {});
+  t.mock.method(repository, "getSetting", async (key: string) => {
+    reachable();
+    return settings.get(key) ?? null;
+  });
+  t.mock.method(repository, "setSetting", async (key: string, value: string) => {
+    settings.set(key, value);
+  });
+  t.mock.method(repository, "listFreezePatterns", async () => (reachable(), [...patterns]));
+  t.mock.method(
+    repository,
+    "addFreezePattern",
+    async (pattern: string, pattern_type: FreezePatternType) => {
+      patterns.push({ pattern, pattern_type, created_at: new Date().toISOString() });
+    }
+  );
+  t.mock.method(repository, "clearFreezePatterns", async () => {
+    const count = patterns.length;
+    patterns = [];
+    return count;
+  });
+  t.mock.method(repository, "listTTLRules", async () => (reachable(), [...rules.values()]));
+  t.mock.method(repository, "saveTTLRule", async (rule: TTLRuleRecord) => {
+    rules.set(rule.id, rule);
+  });
+
+  return state;
+}
+
+async function startNode() {
+  const runtimeRules: CacheRule[][] = [];
+  const app = {
+    recovery: { withRetry: (fn: () => Promise<unknown>) => fn() },
+    errorTracker: { trackError: () => {} },
+    cache: {
+      setRuntimeRules: (rules: CacheRule[]) => runtimeRules.push(rules),
+      getConfig: () => ({ methods: ["GET", "HEAD"] }),
+    },
+  } as unknown as FastifyInstance;
+
+  const policy = new CachePolicyService(app);
+  const sync = new StoreSync([policy], 0);
+  await sync.initialize({ getDialect: () => DatabaseDialect.SQLITE } as DatabaseAdapter);
+  return { policy, sync, runtimeRules: () => runtimeRules.at(-1) };
+}
+
+test("freeze patterns and TTL rules reach other nodes on their next sync", async (t) => {
+  mockDatabase(t);
+  const first = await startNode();
+  const second = await startNode();
+
+  await first.policy.freezeEndpoints(["/api/orders/*"]);
+  await first.policy.createTTLRule({ pattern: "/api/catalog/*", ttl_seconds: 30 });
+  assert.ok(first.policy.isFrozen("/api/orders/7?expand=items"));
+  assert.ok(!second.policy.isFrozen("/api/orders/7"));
+
+  await second.sync.sync();
+  assert.ok(second.policy.isFrozen("/api/orders/7"));
+  assert.ok(!second.policy.isFrozen("/api/catalog/1"));
+  assert.deepEqual(second.runtimeRules(), [
+    { pattern: "/api/catalog/*", methods: ["GET", "HEAD"], ttl: 30, enabled: true },
+  ]);
+
+  // Turning global freeze off also clears the endpoint patterns
+  await second.policy.setGlobalFreeze(true);
+  await first.sync.sync();
+  assert.ok(first.policy.isFrozen("/api/catalog/1"));
+  await first.policy.setGlobalFreeze(false);
+  assert.deepEqual(first.policy.getFreezeState().patterns, []);
+});
+
+test("nodes keep the last known policy while the database is unreachable", async (t) => {
+  const database = mockDatabase(t);
+  const node = await startNode();
+  await node.policy.freezeEndpoints(["re:^/api/payments"]);
+
+  database.unreachable = true;
+  await node.sync.sync();
+
+  assert.ok(node.policy.isFrozen("/api/payments/1"));
+  await assert.rejects(node.policy.reload(), { code: "DATABASE_QUERY_ERROR" });
+});
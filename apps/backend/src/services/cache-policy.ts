@@ -0,0 +1,321 @@
+import crypto from "crypto";
+import { minimatch } from "minimatch";
+import type { FastifyInstance } from "fastify";
+import {
+  CachePolicyRepository,
+  FreezePatternType,
+  TTLRuleRecord,
+} from "@/database/repositories/cache-policy-repository.js";
+import { CacheRule } from "@/types/index.js";
+import { DatabaseError, ValidationError } from "@/types/errors.js";
+import { SyncedStore } from "./synced-store.js";
+
+const GLOBAL_FREEZE_SETTING = "freeze.global";
+const REGEX_PREFIX = "re:";
+
+export interface FreezePatternInput {
+  pattern: string;
+  type?: FreezePatternType;
+}
+
+export interface FreezePattern {
+  pattern: string;
+  type: FreezePatternType;
+}
+
+export interface FreezeState {
+  global: boolean;
+  patterns: FreezePattern[];
+}
+
+export interface TTLRuleInput {
+  pattern: string;
+  ttl_seconds: number;
+  method?: string;
+  enabled?: boolean;
+  description?: string;
+}
+
+interface CompiledFreezePattern extends FreezePattern {
+  regex?: RegExp;
+}
+
+/**
+ * Freeze mode and runtime TTL rules persisted through the database layer
+ * Every node reloads the shared state periodically so changes propagate across the cluster
+ */
+export class CachePolicyService extends SyncedStore<CachePolicyRepository> {
+  private globalFreeze = false;
+  private freezePatterns: CompiledFreezePattern[] = [];
+  private ttlRules: TTLRuleRecord[] = [];
+  private lastSync?: string;
+
+  constructor(app: FastifyInstance) {
+    super(app, {
+      name: "cache-policy",
+      label: "cache policy",
+      createRepository: (db) => new CachePolicyRepository(db),
+    });
+  }
+
+  /**
+   * Load freeze state and TTL rules from the database, replacing the local copy
+   */
+  async reload(): Promise<void> {
+    const repository = this.getRepository();
+
+    try {
+      const [globalFreeze, patterns, rules] = await this.app.recovery.withRetry(
+        async () =>
+          Promise.all([
+            repository.getSetting(GLOBAL_FREEZE_SETTING),
+            repository.listFreezePatterns(),
+            repository.listTTLRules(),
+          ]),
+        "database",
+        { operation: "cache-policy.reload" }
+      );
+
+      this.globalFreeze = globalFreeze === "true";
+      this.freezePatterns = patterns.flatMap((record) => {
+        try {
+          return [this.compilePattern({ pattern: record.pattern, type: record.pattern_type })];
+        } catch {
+          // Skip patterns another node stored that no longer compile
+          return [];
+        }
+      });
+      this.ttlRules = rules;
+      this.lastSync = new Date().toISOString();
+
+      this.app.cache.setRuntimeRules(rules.map((rule) => this.toCacheRule(rule)));
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation: "cache-policy.reload" });
+      throw new DatabaseError("Failed to load cache policy", "DATABASE_QUERY_ERROR", 500);
+    }
+  }
+
+  // ========================================
+  // FREEZE MODE
+  // ========================================
+
+  /**
+   * Check whether a request URL is frozen, globally or by one of the stored patterns
+   */
+  isFrozen(url: string): boolean {
+    if (this.globalFreeze) return true;
+
+    const path = url.split("?")[0];
+    return this.freezePatterns.some((pattern) => {
+      switch (pattern.type) {
+        case "regex":
+          return pattern.regex!.test(url);
+        case "glob":
+          return minimatch(path, pattern.pattern, { nocase: true });
+        case "substring":
+        default:
+          return url.includes(pattern.pattern);
+      }
+    });
+  }
+
+  getFreezeState(): FreezeState & { lastSync?: string } {
+    return {
+      global: this.globalFreeze,
+      patterns: this.freezePatterns.map(({ pattern, type }) => ({ pattern, type })),
+      lastSync: this.lastSync,
+    };
+  }
+
+  /**
+   * Toggle global freeze mode, disabling it also clears endpoint patterns
+   */
+  async setGlobalFreeze(enabled: boolean): Promise<FreezeState> {
+    await this.write("cache-policy.set-global-freeze", async (repository) => {
+      await repository.setSetting(GLOBAL_FREEZE_SETTING, String(enabled));
+      if (!enabled) {
+        await repository.clearFreezePatterns();
+      }
+    });
+    return this.getFreezeState();
+  }
+
+  async freezeEndpoints(inputs: Array<string | FreezePatternInput>): Promise<FreezeState> {
+    const patterns = inputs.map((input) => this.compilePattern(this.parsePattern(input)));
+
+    await this.write("cache-policy.freeze-endpoints", async (repository) => {
+      for (const { pattern, type } of patterns) {
+        await repository.addFreezePattern(pattern, type);
+      }
+    });
+    return this.getFreezeState();
+  }
+
+  async unfreezeEndpoints(inputs: Array<string | FreezePatternInput>): Promise<FreezeState> {
+    const patterns = inputs.map((input) => this.parsePattern(input).pattern);
+
+    await this.write("cache-policy.unfreeze-endpoints", async (repository) => {
+      for (const pattern of patterns) {
+        await repository.removeFreezePattern(pattern);
+      }
+    });
+    return this.getFreezeState();
+  }
+
+  /**
+   * Infer the pattern type when not given: a "re:" prefix marks a regex,
+   * glob characters make a glob and anything else matches as a substring
+   */
+  private parsePattern(input: string | FreezePatternInput): FreezePattern {
+    const { pattern, type } =
+      typeof input === "string" ? { pattern: input, type: undefined } : input;
+
+    if (!pattern || typeof pattern !== "string") {
+      throw new ValidationError(
+        "Freeze pattern must be a non-empty string",
+        "INVALID_FREEZE_PATTERN",
+        400
+      );
+    }
+
+    if (type) {
+      if (!["substring", "glob", "regex"].includes(type)) {
+        throw new ValidationError(
+          `Unknown freeze pattern type '${type}'`,
+          "INVALID_FREEZE_PATTERN",
+          400,
+          { pattern, type }
+        );
+      }
+      return { pattern, type };
+    }
+
+    if (pattern.startsWith(REGEX_PREFIX)) {
+      return { pattern: pattern.slice(REGEX_PREFIX.length), type: "regex" };
+    }
+
+    if (/[*?[\]{}]/.test(pattern)) {
+      return { pattern, type: "glob" };
+    }
+
+    return { pattern, type: "substring" };
+  }
+
+  private compilePattern(pattern: FreezePattern): CompiledFreezePattern {
+    if (pattern.type !== "regex") return pattern;
+
+    try {
+      return { ...pattern, regex: new RegExp(pattern.pattern) };
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid freeze regex: ${error instanceof Error ? error.message : String(error)}`,
+        "INVALID_FREEZE_PATTERN",
+        400,
+        { pattern: pattern.pattern }
+      );
+    }
+  }
+
+  // ========================================
+  // TTL RULES
+  // ========================================
+
+  listTTLRules(): TTLRuleRecord[] {
+    return this.ttlRules.map((rule) => ({ ...rule }));
+  }
+
+  getTTLRule(id: string): TTLRuleRecord | undefined {
+    return this.ttlRules.find((rule) => rule.id === id);
+  }
+
+  async createTTLRule(input: TTLRuleInput): Promise<TTLRuleRecord> {
+    this.validateTTLRule(input);
+
+    const now = new Date().toISOString();
+    const rule: TTLRuleRecord = {
+      id: crypto.randomUUID(),
+      pattern: input.pattern,
+      ttl_seconds: input.ttl_seconds,
+      method: input.method ? input.method.toUpperCase() : null,
+      enabled: input.enabled !== false,
+      description: input.description ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await this.write("cache-policy.create-ttl-rule", (repository) =>
+      repository.saveTTLRule(rule)
+    );
+    return rule;
+  }
+
+  async updateTTLRule(id: string, updates: Partial<TTLRuleInput>): Promise<TTLRuleRecord> {
+    const existing = await this.read("cache-policy.get-ttl-rule", (repository) =>
+      repository.getTTLRule(id)
+    );
+
+    if (!existing) {
+      throw new ValidationError(`TTL rule '${id}' not found`, "TTL_RULE_NOT_FOUND", 404, { id });
+    }
+
+    const merged: TTLRuleInput = {
+      pattern: updates.pattern ?? existing.pattern,
+      ttl_seconds: updates.ttl_seconds ?? existing.ttl_seconds,
+      method: updates.method !== undefined ? updates.method : (existing.method ?? undefined),
+      enabled: updates.enabled ?? existing.enabled,
+      description:
+        updates.description !== undefined
+          ? updates.description
+          : (existing.description ?? undefined),
+    };
+    this.validateTTLRule(merged);
+
+    const rule: TTLRuleRecord = {
+      ...existing,
+      pattern: merged.pattern,
+      ttl_seconds: merged.ttl_seconds,
+      method: merged.method ? merged.method.toUpperCase() : null,
+      enabled: merged.enabled !== false,
+      description: merged.description ?? null,
+      updated_at: new Date().toISOString(),
+    };
+
+    await this.write("cache-policy.update-ttl-rule", (repository) =>
+      repository.saveTTLRule(rule)
+    );
+    return rule;
+  }
+
+  async deleteTTLRule(id: string): Promise<boolean> {
+    let removed = false;
+    await this.write("cache-policy.delete-ttl-rule", async (repository) => {
+      removed = await repository.deleteTTLRule(id);
+    });
+    return removed;
+  }
+
+  private validateTTLRule(input: TTLRuleInput): void {
+    if (!input.pattern || typeof input.pattern !== "string") {
+      throw new ValidationError("TTL rule pattern is required", "INVALID_TTL_RULE", 400);
+    }
+
+    if (!Number.isInteger(input.ttl_seconds) || input.ttl_seconds < 0) {
+      throw new ValidationError(
+        "ttl_seconds must be a non-negative integer",
+        "INVALID_TTL_RULE",
+        400,
+        { ttl_seconds: input.ttl_seconds }
+      );
+    }
+  }
+
+  private toCacheRule(rule: TTLRuleRecord): CacheRule {
+    return {
+      pattern: rule.pattern,
+      // Without a method the rule applies to every cacheable method
+      methods: rule.method ? [rule.method] : this.app.cache.getConfig().methods,
+      ttl: rule.ttl_seconds,
+      enabled: rule.enabled,
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { CacheConfig } from "@/types/index.js";
+import { resolveInvalidation } from "@/modules/proxy/services/cache-invalidation.js";
+import { CacheService } from "./cache.js";
+
+const UPSTREAM = "http://upstream.test";
+
+function createConfig(overrides: Partial<CacheConfig> = {}): CacheConfig {
+  return {
+    enabled: true,
+    defaultTTL: 300,
+    maxSize: 1000,
+    methods: ["GET"],
+    keyOptions: { hashLongKeys: true, maxKeyLength: 200, includeHeaders: [] },
+    rules: [],
+    behavior: { backgroundCleanup: false, maxSize: 1000 },
+    ...overrides,
+  };
+}
+
+async function createCache(fileCacheDir?: string, overrides: Partial<CacheConfig> = {}) {
+  const cache = new CacheService(createConfig(overrides), fileCacheDir, !!fileCacheDir);
+  await cache.initialize();
+  return cache;
+}
+
+function store(cache: CacheService, pathname: string, headers: Record<string, string> = {}) {
+  const url = UPSTREAM + pathname;
+  return cache.set(`GET::${url}`, { pathname }, headers, 200, "GET", url);
+}
+
+async function cached(cache: CacheService, pathname: string): Promise<boolean> {
+  return (await cache.get(`GET::${UPSTREAM}${pathname}`)) !== null;
+}
+
+const orderRules = [
+  {
+    path: "/orders/:id",
+    methods: ["PUT", "DELETE"],
+    invalidates: ["GET /orders/:id", "GET /orders", "/customers/*/orders"],
+    tags: ["order-{id}"],
+  },
+];
+
+test("write templates bind their params to the written path", () => {
+  const { targets, tags } = resolveInvalidation(orderRules, "put", "/orders/42");
+  const matches = (method: string, pathname: string) =>
+    targets.some((t) => (!t.method || t.method === method) && t.path.test(pathname));
+
+  assert.deepEqual(tags, ["order-42"]);
+  assert.ok(matches("GET", "/orders/42"));
+  assert.ok(matches("GET", "/orders/"));
+  assert.ok(matches("HEAD", "/customers/7/orders"));
+  assert.ok(!matches("GET", "/orders/420"));
+  assert.ok(!matches("POST", "/orders/42"));
+  assert.deepEqual(resolveInvalidation(orderRules, "POST", "/orders/42").targets, []);
+});
+
+test("writes invalidate the entries of the requests they affect", async () => {
+  const cache = await createCache();
+  await store(cache, "/orders/42");
+  await store(cache, "/orders/7");
+  await store(cache, "/orders");
+  await store(cache, "/customers/1/orders");
+
+  const { targets } = resolveInvalidation(orderRules, "PUT", "/orders/42");
+  const result = await cache.invalidateRequests(targets);
+
+  assert.equal(result.memory, 3);
+  assert.ok(!(await cached(cache, "/orders/42")));
+  assert.ok(!(await cached(cache, "/orders")));
+  assert.ok(!(await cached(cache, "/customers/1/orders")));
+  assert.ok(await cached(cache, "/orders/7"));
+});
+
+test("tags from the stored responses invalidate their entries", async () => {
+  const cache = await createCache(undefined, { tagHeaders: ["x-cache-tags"] });
+  await store(cache, "/products/1", { "x-cache-tags": "product-1 catalog" });
+  await store(cache, "/products/2", { "x-cache-tags": "product-2, catalog" });
+
+  assert.equal((await cache.invalidateByTags(["product-1"])).memory, 1);
+  assert.ok(!(await cached(cache, "/products/1")));
+  assert.ok(await cached(cache, "/products/2"));
+
+  assert.equal((await cache.invalidateByTags(["catalog"])).memory, 1);
+  assert.ok(!(await cached(cache, "/products/2")));
+});
+
+test("file entries of an earlier run are indexed on startup", async (t) => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "file-cache-"));
+  t.after(() => fs.rm(directory, { recursive: true, force: true }));
+
+  const before = await createCache(directory);
+  await store(before, "/orders/42");
+  await store(before, "/orders/7");
+  before.shutdown();
+
+  const after = await createCache(directory);
+  const { targets } = resolveInvalidation(orderRules, "DELETE", "/orders/42");
+  const result = await after.invalidateRequests(targets);
+
+  assert.equal(result.file, 1);
+  assert.ok(!(await cached(after, "/orders/42")));
+  assert.ok(await cached(after, "/orders/7"));
+  after.shutdown();
+});
+
+test("entries past their TTL are served stale while one refresh runs", async (t) => {
+  const cache = await createCache();
+  t.after(() => cache.shutdown());
+  const key = `GET::${UPSTREAM}/stock`;
+  await cache.set(key, { count: 1 }, {}, 200, undefined, undefined, undefined, {
+    ttl: 10,
+    staleWhileRevalidate: 30,
+  });
+
+  const start = Date.now();
+  const clock = t.mock.method(Date, "now", () => start + 15_000);
+  let refreshes = 0;
+  let finishRefresh = () => {};
+  const revalidate = () => {
+    refreshes++;
+    return new Promise<void>((resolve) => (finishRefresh = resolve));
+  };
+
+  const stale = await Promise.all(
+    [1, 2, 3].map(() => cache.get(key, undefined, undefined, undefined, revalidate))
+  );
+  assert.ok(stale.every((entry) => (entry?.data as { count: number }).count === 1));
+  assert.equal(refreshes, 1);
+  assert.equal((await cache.getStats()).revalidation.staleHits, 3);
+  assert.equal((await cache.getStats()).revalidation.inProgress, 1);
+
+  finishRefresh();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal((await cache.getStats()).revalidation.successes, 1);
+  assert.equal((await cache.getStats()).revalidation.inProgress, 0);
+
+  // Without a way to refresh it, a stale entry is a miss
+  assert.equal(await cache.get(key), null);
+
+  clock.mock.mockImplementation(() => start + 45_000);
+  assert.equal(await cache.get(key, undefined, undefined, undefined, revalidate), null);
+  assert.equal(refreshes, 1);
+});
+
+test("identical in-flight calls share one upstream call", async (t) => {
+  const cache = await createCache();
+  t.after(() => cache.shutdown());
+
+  let calls = 0;
+  const fetchStock = async () => {
+    calls++;
+    await new Promise((resolve) => setImmediate(resolve));
+    return { count: calls };
+  };
+
+  const results = await Promise.all(
+    [1, 2, 3, 4, 5].map(() => cache.coalesce("GET::/stock", fetchStock))
+  );
+  assert.equal(calls, 1);
+  assert.ok(results.every((result) => result.count === 1));
+  assert.equal((await cache.getStats()).revalidation.coalesced, 4);
+
+  // Once settled, the next call goes upstream again
+  assert.equal((await cache.coalesce("GET::/stock", fetchStock)).count, 2);
+});
+
+test("entries are kept through their stale-if-error window", async (t) => {
+  const cache = await createCache();
+  t.after(() => cache.shutdown());
+  const key = `GET::${UPSTREAM}/prices`;
+  await cache.set(key, { price: 5 }, {}, 200, undefined, undefined, undefined, {
+    ttl: 10,
+    staleWhileRevalidate: 5,
+    staleIfError: 60,
+  });
+
+  const start = Date.now();
+  const clock = t.mock.method(Date, "now", () => start + 30_000);
+  // Past both TTL and stale-while-revalidate, the lookup misses without dropping the entry
+  assert.equal(await cache.get(key, undefined, undefined, undefined, async () => {}), null);
+  await cache.cleanExpired();
+  assert.deepEqual((await cache.getStale(key))?.data, { price: 5 });
+
+  clock.mock.mockImplementation(() => start + 75_000);
+  assert.equal(await cache.get(key), null);
+  assert.equal(await cache.getStale(key), null);
+});
+
+test("stale fallbacks are read from the file cache after a restart", async (t) => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "file-cache-"));
+  t.after(() => fs.rm(directory, { recursive: true, force: true }));
+  const key = `GET::${UPSTREAM}/rates`;
+
+  const before = await createCache(directory);
+  await before.set(key, { rate: 1.1 }, {}, 200, undefined, undefined, undefined, {
+    ttl: 10,
+    staleIfError: 60,
+  });
+  before.shutdown();
+
+  const after = await createCache(directory);
+  t.after(() => after.shutdown());
+  const start = Date.now();
+  const clock = t.mock.method(Date, "now", () => start + 30_000);
+
+  assert.equal(await after.get(key), null);
+  assert.deepEqual((await after.getStale(key))?.data, { rate: 1.1 });
+
+  clock.mock.mockImplementation(() => start + 75_000);
+  assert.equal(await after.getStale(key), null);
+});
@@ -1,6 +1,23 @@
 import crypto from 'crypto';
-import { FileCacheService, FileCacheEntry } from './file-cache.js';
-import { CacheConfig, CacheRule } from "@/types/index.js";
+import {
+  FileCacheService,
+  FileCacheEntry,
+  parseCacheEntry,
+  serializeCacheEntry,
+} from './file-cache.js';
+import {
+  CacheConfig,
+  CacheKeyContext,
+  CacheKeyTemplate,
+  CacheRule,
+  CacheTiersConfig,
+  CompressionAlgorithm,
+} from "@/types/index.js";
+import { EvictionPolicy, MemoryTier } from './cache-eviction.js';
+import { buildTemplateKey } from './cache-key.js';
+import { InvalidationIndex, matchesTargets, requestIndexKey } from './cache-index.js';
+import { parseCacheTags } from "@/utils/http-cache.js";
+import { PayloadCodec, PayloadCodecStats } from "@/utils/payload-codec.js";
 import { minimatch } from 'minimatch';
 import type { FastifyInstance } from 'fastify';
 import { CacheError } from "@/types/errors.js";
@@ -26,6 +43,21 @@ async function getRedis() {
   return Redis;
 }
 
+type CacheTier = 'memory' | 'redis' | 'file';
+
+// Redis sets of cache keys per tag and per request, stored next to the entries
+const REDIS_INDEX_PREFIX = 'idx:';
+const REDIS_INDEXED_REQUESTS = `${REDIS_INDEX_PREFIX}requests`;
+const REDIS_SCAN_COUNT = 1000;
+
+const DEFAULT_TIERS: CacheTiersConfig = {
+  memory: { maxBytes: 0 },
+  redis: { maxBytes: 0 },
+  file: { maxBytes: 0 },
+  writeThrough: true,
+  promoteAfter: 1,
+};
+
 export interface CacheEntry {
   data: unknown;
   headers: Record<string, string>;
@@ -34,6 +66,37 @@ export interface CacheEntry {
   ttl: number; // Individual TTL for this entry
   accessCount: number; // For LRU eviction
   lastAccessed: number; // For LRU eviction
+  staleWhileRevalidate?: number; // Seconds past TTL the upstream allows serving while revalidating
+  staleIfError?: number; // Seconds past TTL the upstream allows serving when it fails
+  // Set while the data is held compressed in memory, `format` is what it decompresses to
+  compressed?: { algorithm: CompressionAlgorithm; format: "buffer" | "json" };
+  method?: string; // Request the entry was stored for, matched by request invalidation
+  url?: string;
+}
+
+// Entries of a request invalidated by a write, e.g. GET requests on /orders/42
+export interface InvalidationTarget {
+  method?: string; // Any method when unset
+  path: RegExp; // Matched against the path of the entry's URL
+}
+
+type InvalidationCandidate = Pick<CacheEntry, 'headers' | 'createdAt' | 'method' | 'url'>;
+
+export interface CacheSetOptions {
+  ttl?: number; // Overrides rule-based TTL
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+}
+
+export interface CacheTierStats {
+  hits: number;
+  misses: number; // Lookups that reached the tier and didn't find a usable entry
+  hitRate: number;
+  bytes: number; // Redis only counts the keys this instance wrote
+  maxBytes: number; // 0 when unlimited
+  evictions: number;
+  promotions: number; // Hits copied into memory
+  demotions: number; // Entries evicted from a higher tier and moved into this one
 }
 
 export interface CacheStats {
@@ -55,26 +118,116 @@ export interface CacheStats {
     size: number;
     files: string[];
   };
+  revalidation: {
+    staleHits: number; // Stale entries served while a refresh ran
+    inProgress: number;
+    successes: number;
+    failures: number;
+    coalesced: number; // Requests that joined an identical in-flight upstream call
+  };
+  // Raw vs stored bytes written to each tier since startup, when compression or encryption is on
+  encoding?: Partial<Record<"memory" | "redis" | "file", PayloadCodecStats>>;
+  tiers: Record<CacheTier, CacheTierStats>;
+  evictionPolicy: string;
 }
 
 export class CacheService {
-  private cache: Map<string, CacheEntry> = new Map();
+  private cache: MemoryTier<CacheEntry>;
+  private varyIndex: Map<string, string[]> = new Map(); // Base key -> request headers named in Vary
   private config: CacheConfig;
   private fileCache: FileCacheService;
+  private codec: PayloadCodec;
+  private tiers: CacheTiersConfig;
+  private eviction: EvictionPolicy;
+  // Keys this instance wrote to Redis, least recently used first
+  private redisSizes: Map<string, { bytes: number; expiresAt: number }> = new Map();
+  private redisBytes = 0;
+  private invalidationIndex = new InvalidationIndex(); // Memory and file entries of this instance
   private redis: any = null;
   private redisConnected: boolean = false;
   private cleanupTimer?: NodeJS.Timeout;
   private app?: FastifyInstance;
+  private revalidating: Set<string> = new Set(); // Keys with a background refresh running
+  private inFlight: Map<string, Promise<unknown>> = new Map(); // Singleflight upstream calls
+  private runtimeRules: CacheRule[] = []; // Rules managed through the API, checked before config rules
 
   // Cache statistics
   private stats = {
     hits: 0,
     misses: 0,
+    staleHits: 0,
+    revalidationSuccesses: 0,
+    revalidationFailures: 0,
+    coalesced: 0,
+  };
+  private tierStats: Record<
+    CacheTier,
+    { hits: number; misses: number; evictions: number; promotions: number; demotions: number }
+  > = {
+    memory: { hits: 0, misses: 0, evictions: 0, promotions: 0, demotions: 0 },
+    redis: { hits: 0, misses: 0, evictions: 0, promotions: 0, demotions: 0 },
+    file: { hits: 0, misses: 0, evictions: 0, promotions: 0, demotions: 0 },
   };
 
-  constructor(config: CacheConfig, fileCacheDir?: string, enableFileCache: boolean = false) {
+  constructor(
+    config: CacheConfig,
+    fileCacheDir?: string,
+    enableFileCache: boolean = false,
+    codec: PayloadCodec = new PayloadCodec()
+  ) {
     this.config = config;
-    this.fileCache = new FileCacheService(fileCacheDir, enableFileCache);
+    this.codec = codec;
+    this.tiers = config.tiers ?? DEFAULT_TIERS;
+    this.eviction = new EvictionPolicy(
+      config.behavior.evictionPolicy ?? 'lru',
+      config.behavior.maxSize || 10000
+    );
+    this.cache = new MemoryTier(this.eviction);
+    this.fileCache = new FileCacheService(
+      fileCacheDir,
+      enableFileCache,
+      codec,
+      { compression: config.compression, encryption: config.encryption },
+      this.tiers.file.maxBytes
+    );
+  }
+
+  private serializeForRedis(entry: CacheEntry): string {
+    return this.codec.encode(serializeCacheEntry(entry), 'redis', {
+      compression: this.config.compression,
+      encryption: this.config.encryption,
+    });
+  }
+
+  private parseFromRedis(data: string): CacheEntry {
+    return parseCacheEntry<CacheEntry>(this.codec.decode(data));
+  }
+
+  /**
+   * Compress an entry held in memory, it never leaves the process so it isn't encrypted
+   */
+  private toMemoryEntry(entry: CacheEntry): CacheEntry {
+    if (!this.config.compression || entry.compressed) return entry;
+
+    const format = Buffer.isBuffer(entry.data) ? 'buffer' : 'json';
+    const raw = Buffer.isBuffer(entry.data)
+      ? entry.data
+      : Buffer.from(JSON.stringify(entry.data) ?? 'null');
+    const compressed = this.codec.compress(raw, 'memory');
+    return compressed
+      ? { ...entry, data: compressed.data, compressed: { algorithm: compressed.algorithm, format } }
+      : entry;
+  }
+
+  private fromMemoryEntry(entry: CacheEntry): CacheEntry {
+    if (!entry.compressed) return entry;
+
+    const { compressed, ...rest } = entry;
+    const data = this.codec.decompress(compressed.algorithm, entry.data as Buffer);
+    return {
+      ...rest,
+      data: compressed.format === 'buffer' ? data : JSON.parse(data.toString('utf8')),
+    };
   }
 
   /**
@@ -164,6 +317,9 @@ export class CacheService {
       'file-cache-initialization'
     );
 
+    // Entries left on disk by earlier runs stay invalidatable by tag and request
+    await this.safeCacheOperation(() => this.indexFileEntries(), undefined, 'file-cache-index');
+
     // Initialize Redis if enabled
     if (this.config.redis?.enabled) {
       await this.safeCacheOperation(
@@ -254,6 +410,13 @@ export class CacheService {
     return this.config.redis?.enabled === true && this.redisConnected && this.redis !== null;
   }
 
+  /**
+   * Shared Redis connection for other services, null when Redis is not connected
+   */
+  getRedisClient(): any {
+    return this.isRedisAvailable() ? this.redis : null;
+  }
+
   /**
    * Start background cleanup timer
    */
@@ -384,12 +547,11 @@ export class CacheService {
       // Load into Redis asynchronously
       const promise = this.safeRedisOperation(
         async () => {
-          const serialized = JSON.stringify(entry);
           const remainingTTL = Math.max(
             1,
             Math.floor((entry.createdAt + entry.ttl * 1000 - Date.now()) / 1000)
           );
-          await this.redis.setex(key, remainingTTL, serialized);
+          await this.writeToRedis(key, this.fromMemoryEntry(entry), remainingTTL);
           loadedCount++;
         },
         undefined,
@@ -423,39 +585,71 @@ export class CacheService {
     headers: Record<string, string>,
     status?: number
   ): CacheRule | null {
-    for (const rule of this.config.rules) {
-      // Check if method matches (if specified)
-      if (rule.methods && !rule.methods.includes(method.toUpperCase())) {
-        continue;
+    for (const rule of [...this.runtimeRules, ...this.config.rules]) {
+      if (this.ruleMatches(rule, method, url, headers, status)) {
+        return rule;
       }
+    }
 
-      // Check if URL pattern matches
-      if (!minimatch(url, rule.pattern, { nocase: true })) {
-        continue;
-      }
+    return null;
+  }
 
-      // Check conditions if specified
-      if (rule.conditions) {
-        // Check required headers
-        if (rule.conditions.headers) {
-          const hasRequiredHeaders = Object.entries(rule.conditions.headers).every(
-            ([key, value]) => headers[key.toLowerCase()] === value
-          );
-          if (!hasRequiredHeaders) continue;
-        }
+  /**
+   * Key template of the first matching rule that has one, so runtime TTL rules don't change keys
+   */
+  private findKeyTemplate(
+    method: string,
+    url: string,
+    headers: Record<string, string>
+  ): CacheKeyTemplate | undefined {
+    return [...this.runtimeRules, ...this.config.rules].find(
+      (rule) => rule.key && this.ruleMatches(rule, method, url, headers)
+    )?.key;
+  }
 
-        // Check status codes (only applicable when storing)
-        if (status && rule.conditions.statusCodes) {
-          if (!rule.conditions.statusCodes.includes(status)) {
-            continue;
-          }
-        }
+  private ruleMatches(
+    rule: CacheRule,
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    status?: number
+  ): boolean {
+    // Check if method matches (if specified)
+    if (rule.methods && !rule.methods.includes(method.toUpperCase())) {
+      return false;
+    }
+
+    // Check if URL pattern matches
+    if (!minimatch(url, rule.pattern, { nocase: true })) {
+      return false;
+    }
+
+    // Check conditions if specified
+    if (rule.conditions) {
+      // Check required headers
+      if (rule.conditions.headers) {
+        const hasRequiredHeaders = Object.entries(rule.conditions.headers).every(
+          ([key, value]) => headers[key.toLowerCase()] === value
+        );
+        if (!hasRequiredHeaders) return false;
       }
 
-      return rule;
+      // Check status codes (only applicable when storing)
+      if (status && rule.conditions.statusCodes) {
+        if (!rule.conditions.statusCodes.includes(status)) {
+          return false;
+        }
+      }
     }
 
-    return null;
+    return true;
+  }
+
+  /**
+   * Replace the runtime rules, they take precedence over rules from the configuration
+   */
+  setRuntimeRules(rules: CacheRule[]): void {
+    this.runtimeRules = rules;
   }
 
   /**
@@ -566,9 +760,22 @@ export class CacheService {
     method: string,
     url: string,
     headers: Record<string, string>,
-    body?: unknown
+    body?: unknown,
+    context: CacheKeyContext = {}
   ): string {
     try {
+      // Rules with a key template decide which parts of the request the key is built from
+      const template = this.findKeyTemplate(method, url, headers);
+      if (template) {
+        return this.limitKeyLength(
+          buildTemplateKey(
+            template,
+            { method, url, headers, body, claims: context.claims },
+            this.config.keyOptions.jwtSecret
+          )
+        );
+      }
+
       // Normalize URL safely
       let normalizedUrl: string;
       try {
@@ -620,24 +827,7 @@ export class CacheService {
       }
 
       // Join components
-      const key = keyComponents.join('::');
-
-      // Hash long keys if configured
-      if (
-        this.config.keyOptions.hashLongKeys &&
-        this.config.keyOptions.maxKeyLength &&
-        key.length > this.config.keyOptions.maxKeyLength
-      ) {
-        try {
-          const hash = crypto.createHash('sha256').update(key).digest('hex');
-          return `hashed::${hash}`;
-        } catch (error) {
-          console.warn('Key hashing failed, using truncated key:', error);
-          return key.substring(0, this.config.keyOptions.maxKeyLength);
-        }
-      }
-
-      return key;
+      return this.limitKeyLength(keyComponents.join('::'));
     } catch (error) {
       console.error('Cache key generation failed completely:', error);
       // Return a fallback key based on method and URL only
@@ -652,6 +842,27 @@ export class CacheService {
     }
   }
 
+  /**
+   * Hash long keys if configured
+   */
+  private limitKeyLength(key: string): string {
+    if (
+      this.config.keyOptions.hashLongKeys &&
+      this.config.keyOptions.maxKeyLength &&
+      key.length > this.config.keyOptions.maxKeyLength
+    ) {
+      try {
+        const hash = crypto.createHash('sha256').update(key).digest('hex');
+        return `hashed::${hash}`;
+      } catch (error) {
+        console.warn('Key hashing failed, using truncated key:', error);
+        return key.substring(0, this.config.keyOptions.maxKeyLength);
+      }
+    }
+
+    return key;
+  }
+
   /**
    * Check if a cache entry is expired based on its individual TTL
    */
@@ -661,6 +872,83 @@ export class CacheService {
     return now > expiresAt;
   }
 
+  /**
+   * Seconds past the soft TTL (entry TTL) an entry may be served while it is refreshed
+   */
+  private getRevalidateWindow(entry: Pick<CacheEntry, 'staleWhileRevalidate'>): number {
+    return entry.staleWhileRevalidate ?? this.config.behavior.staleWhileRevalidate ?? 0;
+  }
+
+  /**
+   * Seconds past the soft TTL an entry is kept, long enough for both stale windows
+   */
+  private getRetentionWindow(
+    entry: Pick<CacheEntry, 'staleWhileRevalidate' | 'staleIfError'>
+  ): number {
+    return Math.max(this.getRevalidateWindow(entry), entry.staleIfError ?? 0);
+  }
+
+  /**
+   * Check if a cache entry is past its stale-while-revalidate window and can no longer be
+   * served while it is refreshed
+   */
+  private isHardExpired(entry: CacheEntry): boolean {
+    const expiresAt = entry.createdAt + (entry.ttl + this.getRevalidateWindow(entry)) * 1000;
+    return Date.now() > expiresAt;
+  }
+
+  /**
+   * Check if a cache entry is past both stale windows and can be dropped from every tier
+   */
+  private isPastRetention(entry: CacheEntry): boolean {
+    const expiresAt = entry.createdAt + (entry.ttl + this.getRetentionWindow(entry)) * 1000;
+    return Date.now() > expiresAt;
+  }
+
+  /**
+   * Check if an entry is past its soft TTL, i.e. served stale while being refreshed
+   */
+  isStale(entry: CacheEntry): boolean {
+    return this.isExpired(entry);
+  }
+
+  /**
+   * Start a background refresh for a key unless one is already running
+   */
+  private triggerRevalidation(key: string, revalidate: () => Promise<void>): void {
+    if (this.revalidating.has(key)) return;
+
+    this.revalidating.add(key);
+    revalidate()
+      .then(() => {
+        this.stats.revalidationSuccesses++;
+      })
+      .catch((error) => {
+        this.stats.revalidationFailures++;
+        console.warn(`Background revalidation failed for cache key ${key}:`, error);
+      })
+      .finally(() => {
+        this.revalidating.delete(key);
+      });
+  }
+
+  /**
+   * Coalesce identical in-flight calls (singleflight), callers with the same key share one promise
+   */
+  async coalesce<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.stats.coalesced++;
+      return existing as Promise<T>;
+    }
+
+    const promise = fn().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
   /**
    * Update access statistics for LRU eviction
    */
@@ -670,39 +958,147 @@ export class CacheService {
   }
 
   /**
-   * Evict entries if cache size exceeds maximum
+   * Evict entries while the memory tier is over its entry or byte budget, evicted entries are
+   * demoted to Redis or the file cache when those aren't written through
    */
   private evictIfNeeded(): void {
-    const maxSize = this.config.behavior.maxSize || 10000;
+    const maxEntries = this.config.behavior.maxSize || 10000;
+    const maxBytes = this.tiers.memory.maxBytes;
+    const overBudget = () =>
+      this.cache.size > maxEntries || (maxBytes > 0 && this.cache.bytes > maxBytes);
 
-    if (this.cache.size <= maxSize) {
+    if (!overBudget()) {
       return;
     }
 
-    const entriesToEvict = this.cache.size - maxSize + 1; // Evict one extra for buffer
-    const policy = this.config.behavior.evictionPolicy || 'lru';
+    while (overBudget()) {
+      const key = this.eviction.victim();
+      if (key === undefined) break;
+      const entry = this.cache.get(key);
+      this.cache.delete(key);
+      this.tierStats.memory.evictions++;
+      if (entry) this.demote(key, entry);
+    }
+  }
 
-    if (policy === 'lru') {
-      // Sort by lastAccessed (oldest first)
-      const entries = Array.from(this.cache.entries()).sort(
-        ([, a], [, b]) => a.lastAccessed - b.lastAccessed
-      );
+  /**
+   * Move an entry evicted from memory to the next tier, with write-through it's already there
+   */
+  private demote(key: string, memoryEntry: CacheEntry): void {
+    if (this.tiers.writeThrough || this.isPastRetention(memoryEntry)) {
+      return;
+    }
+
+    const entry = this.fromMemoryEntry(memoryEntry);
+    const ttl = Math.max(
+      1,
+      Math.ceil(
+        (entry.createdAt + (entry.ttl + this.getRetentionWindow(entry)) * 1000 - Date.now()) /
+          1000
+      )
+    );
+    const target: CacheTier | null = this.isRedisAvailable()
+      ? 'redis'
+      : this.fileCache.isEnabled()
+        ? 'file'
+        : null;
+    if (!target) {
+      return;
+    }
+
+    const write =
+      target === 'redis'
+        ? this.safeRedisOperation(
+            () => this.writeToRedis(key, entry, ttl),
+            undefined,
+            'demote',
+            key
+          )
+        : this.fileCache.set(key, entry.data, entry.headers, entry.status, entry.ttl, entry);
+    this.tierStats[target].demotions++;
+    write.catch((error) => console.warn(`Failed to demote cache entry ${key}:`, error));
+  }
+
+  /**
+   * Copy a lower tier hit into memory once the key was requested often enough
+   */
+  private promote(key: string, entry: CacheEntry, from: 'redis' | 'file'): void {
+    if (this.eviction.sketch.frequency(key) < this.tiers.promoteAfter) {
+      return;
+    }
+    this.cache.set(key, this.toMemoryEntry(entry));
+    this.tierStats[from].promotions++;
+    this.evictIfNeeded();
+  }
+
+  /**
+   * Write an entry to Redis and keep the keys this instance wrote within the Redis budget
+   */
+  private async writeToRedis(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    const serialized = this.serializeForRedis(entry);
+    await this.redis.setex(key, ttl, serialized);
+    await this.indexInRedis(key, entry, ttl);
+    this.forgetRedisKey(key);
+    const bytes = Buffer.byteLength(serialized);
+    this.redisSizes.set(key, { bytes, expiresAt: Date.now() + ttl * 1000 });
+    this.redisBytes += bytes;
+    await this.enforceRedisBudget();
+  }
+
+  private forgetRedisKey(key: string): void {
+    this.redisBytes -= this.redisSizes.get(key)?.bytes ?? 0;
+    this.redisSizes.delete(key);
+  }
+
+  private touchRedisKey(key: string): void {
+    const size = this.redisSizes.get(key);
+    if (size !== undefined) {
+      this.redisSizes.delete(key);
+      this.redisSizes.set(key, size);
+    }
+  }
 
-      for (let i = 0; i < entriesToEvict && i < entries.length; i++) {
-        this.cache.delete(entries[i][0]);
+  private async enforceRedisBudget(): Promise<void> {
+    const maxBytes = this.tiers.redis.maxBytes;
+    if (maxBytes > 0 && this.redisBytes > maxBytes) {
+      // Keys Redis already expired don't take space anymore
+      const now = Date.now();
+      for (const [key, { expiresAt }] of this.redisSizes) {
+        if (expiresAt <= now) this.forgetRedisKey(key);
       }
-    } else if (policy === 'fifo') {
-      // Sort by createdAt (oldest first)
-      const entries = Array.from(this.cache.entries()).sort(
-        ([, a], [, b]) => a.createdAt - b.createdAt
-      );
+    }
 
-      for (let i = 0; i < entriesToEvict && i < entries.length; i++) {
-        this.cache.delete(entries[i][0]);
+    while (maxBytes > 0 && this.redisBytes > maxBytes && this.redisSizes.size > 1) {
+      const key = this.redisSizes.keys().next().value!;
+      this.forgetRedisKey(key);
+      this.tierStats.redis.evictions++;
+
+      if (!this.tiers.writeThrough && this.fileCache.isEnabled()) {
+        const data = await this.redis.get(key);
+        if (data) {
+          const entry = this.parseFromRedis(data);
+          if (!this.isPastRetention(entry)) {
+            await this.fileCache.set(
+              key,
+              entry.data,
+              entry.headers,
+              entry.status,
+              entry.ttl,
+              entry
+            );
+            this.tierStats.file.demotions++;
+          }
+        }
       }
+      await this.redis.del(key);
     }
   }
 
+  private deleteFromRedis(key: string): Promise<number> {
+    this.forgetRedisKey(key);
+    return this.redis.del(key);
+  }
+
   /**
    * Get cache entry with comprehensive error handling
    */
@@ -710,7 +1106,8 @@ export class CacheService {
     key: string,
     method?: string,
     url?: string,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    revalidate?: () => Promise<void>
   ): Promise<CacheEntry | null> {
     try {
       const cached = await this.safeCacheOperation(
@@ -725,6 +1122,7 @@ export class CacheService {
               console.warn('Cache enablement check failed, proceeding with cache lookup:', error);
             }
           }
+          this.eviction.recordAccess(key);
 
           // 1. Check memory cache first (fastest)
           try {
@@ -733,10 +1131,21 @@ export class CacheService {
               try {
                 if (!this.isExpired(memoryEntry)) {
                   this.updateAccessStats(memoryEntry);
+                  this.eviction.recordHit(key);
+                  this.stats.hits++;
+                  this.tierStats.memory.hits++;
+                  return this.fromMemoryEntry(memoryEntry);
+                } else if (revalidate && !this.isHardExpired(memoryEntry)) {
+                  // Past soft TTL: serve stale and refresh in the background
+                  this.triggerRevalidation(key, revalidate);
+                  this.updateAccessStats(memoryEntry);
+                  this.eviction.recordHit(key);
                   this.stats.hits++;
-                  return memoryEntry;
-                } else {
-                  // Remove expired memory entry
+                  this.stats.staleHits++;
+                  this.tierStats.memory.hits++;
+                  return this.fromMemoryEntry(memoryEntry);
+                } else if (this.isPastRetention(memoryEntry)) {
+                  // Remove expired memory entry, it's kept through its stale-if-error window
                   this.cache.delete(key);
                 }
               } catch (error) {
@@ -748,6 +1157,7 @@ export class CacheService {
           } catch (error) {
             console.warn('Memory cache lookup failed:', error);
           }
+          this.tierStats.memory.misses++;
 
           // 2. Check Redis cache (persistent, shared across instances)
           const redisEntry = await this.safeRedisOperation(
@@ -755,14 +1165,22 @@ export class CacheService {
               const redisData = await this.redis.get(key);
               if (redisData) {
                 try {
-                  const entry: CacheEntry = JSON.parse(redisData);
+                  const entry = this.parseFromRedis(redisData);
+
+                  // Past soft TTL the entry is only usable while it gets refreshed
+                  const usable =
+                    !this.isExpired(entry) || (revalidate && !this.isHardExpired(entry));
+                  if (this.isExpired(entry) && usable) {
+                    this.triggerRevalidation(key, revalidate!);
+                    this.stats.staleHits++;
+                  }
 
                   // Check if expired (Redis TTL might have slight delays)
-                  if (!this.isExpired(entry)) {
-                    // Load back into memory cache for faster access
+                  if (usable) {
+                    this.touchRedisKey(key);
+                    // Load back into memory cache for faster access once the key is hot
                     try {
-                      this.cache.set(key, entry);
-                      this.evictIfNeeded();
+                      this.promote(key, entry, 'redis');
                       this.updateAccessStats(entry);
                       this.stats.hits++;
                       return entry;
@@ -772,10 +1190,10 @@ export class CacheService {
                       this.stats.hits++;
                       return entry;
                     }
-                  } else {
+                  } else if (this.isPastRetention(entry)) {
                     // Remove expired Redis entry
                     await this.safeRedisOperation(
-                      () => this.redis.del(key),
+                      () => this.deleteFromRedis(key),
                       undefined,
                       'delete-expired',
                       key
@@ -785,7 +1203,7 @@ export class CacheService {
                   console.warn('Failed to parse Redis cache entry:', parseError);
                   // Remove corrupted Redis entry
                   await this.safeRedisOperation(
-                    () => this.redis.del(key),
+                    () => this.deleteFromRedis(key),
                     undefined,
                     'delete-corrupted',
                     key
@@ -800,7 +1218,10 @@ export class CacheService {
           );
 
           if (redisEntry) {
+            this.tierStats.redis.hits++;
             return redisEntry;
+          } else if (this.isRedisAvailable()) {
+            this.tierStats.redis.misses++;
           }
 
           // 3. Check file cache (backup)
@@ -810,34 +1231,24 @@ export class CacheService {
               if (entry) {
                 try {
                   // Convert file entry to memory entry format
-                  const cacheEntry: CacheEntry = {
-                    data: entry.data,
-                    headers: entry.headers,
-                    status: entry.status,
-                    createdAt: entry.createdAt,
-                    ttl: entry.ttl,
-                    accessCount: 1,
-                    lastAccessed: Date.now(),
-                  };
-
-                  // Load into memory cache for faster access
+                  const cacheEntry = this.fromFileEntry(entry);
+
+                  // Load into memory cache for faster access once the key is hot
                   try {
-                    this.cache.set(key, cacheEntry);
-                    this.evictIfNeeded();
+                    this.promote(key, cacheEntry, 'file');
                   } catch (error) {
                     console.warn('Failed to load file cache entry into memory:', error);
                   }
 
-                  // Store in Redis if available
-                  await this.safeRedisOperation(
-                    async () => {
-                      const serialized = JSON.stringify(cacheEntry);
-                      await this.redis.setex(key, cacheEntry.ttl, serialized);
-                    },
-                    undefined,
-                    'warm-up-set',
-                    key
-                  );
+                  // Store in Redis if available, without write-through Redis only holds demotions
+                  if (this.tiers.writeThrough) {
+                    await this.safeRedisOperation(
+                      () => this.writeToRedis(key, cacheEntry, cacheEntry.ttl),
+                      undefined,
+                      'warm-up-set',
+                      key
+                    );
+                  }
 
                   this.stats.hits++;
                   return cacheEntry;
@@ -854,7 +1265,10 @@ export class CacheService {
           );
 
           if (fileEntry) {
+            this.tierStats.file.hits++;
             return fileEntry;
+          } else if (this.fileCache.isEnabled()) {
+            this.tierStats.file.misses++;
           }
 
           this.stats.misses++;
@@ -887,6 +1301,96 @@ export class CacheService {
     }
   }
 
+  /**
+   * Get a cache entry from any tier even if it has expired, used as a last-resort fallback
+   * Entries stored with stale-if-error are only returned within that window
+   */
+  async getStale(key: string): Promise<CacheEntry | null> {
+    const usable = (entry: CacheEntry) =>
+      entry.staleIfError === undefined ||
+      Date.now() <= entry.createdAt + (entry.ttl + entry.staleIfError) * 1000;
+
+    const memoryEntry = this.cache.get(key);
+    if (memoryEntry && usable(memoryEntry)) {
+      return this.fromMemoryEntry(memoryEntry);
+    }
+
+    const redisEntry = await this.safeRedisOperation(
+      async () => {
+        const data = await this.redis.get(key);
+        return data ? this.parseFromRedis(data) : null;
+      },
+      null,
+      'get-stale',
+      key
+    );
+    if (redisEntry && usable(redisEntry)) {
+      return redisEntry;
+    }
+
+    const fileEntry = await this.safeCacheOperation(
+      () => this.fileCache.get(key, true),
+      null,
+      'file-cache-get-stale',
+      { key }
+    );
+    return fileEntry ? this.fromFileEntry(fileEntry) : null;
+  }
+
+  private fromFileEntry(entry: FileCacheEntry): CacheEntry {
+    return {
+      data: entry.data,
+      headers: entry.headers,
+      status: entry.status,
+      createdAt: entry.createdAt,
+      ttl: entry.ttl,
+      accessCount: 1,
+      lastAccessed: Date.now(),
+      staleWhileRevalidate: entry.staleWhileRevalidate,
+      staleIfError: entry.staleIfError,
+      method: entry.method,
+      url: entry.url,
+    };
+  }
+
+  /**
+   * Resolve the storage key for a request, adding the values of headers named in Vary
+   */
+  getVariantKey(key: string, requestHeaders: Record<string, string>): string {
+    const varyHeaders = this.varyIndex.get(key);
+    return varyHeaders ? this.buildVariantKey(key, varyHeaders, requestHeaders) : key;
+  }
+
+  /**
+   * Remember the Vary headers of a response and return the key it should be stored under
+   */
+  setVaryHeaders(
+    key: string,
+    varyHeaders: string[],
+    requestHeaders: Record<string, string>
+  ): string {
+    if (varyHeaders.length === 0) {
+      this.varyIndex.delete(key);
+      return key;
+    }
+
+    const names = [...new Set(varyHeaders.map((name) => name.toLowerCase()))].sort();
+    this.varyIndex.set(key, names);
+    return this.buildVariantKey(key, names, requestHeaders);
+  }
+
+  private buildVariantKey(
+    key: string,
+    varyHeaders: string[],
+    requestHeaders: Record<string, string>
+  ): string {
+    const values = varyHeaders
+      .map((name) => `${name}:${requestHeaders[name] ?? ''}`)
+      .join('|');
+    const hash = crypto.createHash('sha256').update(values).digest('hex').substring(0, 16);
+    return `${key}::vary:${hash}`;
+  }
+
   /**
    * Store data in multi-layer cache with comprehensive error handling
    */
@@ -897,7 +1401,8 @@ export class CacheService {
     status: number,
     method?: string,
     url?: string,
-    requestHeaders?: Record<string, string>
+    requestHeaders?: Record<string, string>,
+    options: CacheSetOptions = {}
   ): Promise<void> {
     await this.safeCacheOperation(
       async () => {
@@ -916,9 +1421,10 @@ export class CacheService {
         let ttl: number;
         try {
           ttl =
-            method && url && requestHeaders
+            options.ttl ??
+            (method && url && requestHeaders
               ? this.getTTLForRequest(method, url, requestHeaders, status)
-              : this.config.defaultTTL;
+              : this.config.defaultTTL);
         } catch (error) {
           console.warn('TTL calculation failed, using default TTL:', error);
           ttl = this.config.defaultTTL;
@@ -930,7 +1436,9 @@ export class CacheService {
             const rule = this.findMatchingRule(method, url, requestHeaders, status);
             if (rule?.conditions) {
               try {
-                const dataSize = JSON.stringify(data).length;
+                const dataSize = Buffer.isBuffer(data)
+                  ? data.length
+                  : JSON.stringify(data).length;
 
                 if (rule.conditions.minSize && dataSize < rule.conditions.minSize) {
                   return; // Too small to cache
@@ -956,22 +1464,30 @@ export class CacheService {
           ttl,
           accessCount: 0,
           lastAccessed: Date.now(),
+          staleWhileRevalidate: options.staleWhileRevalidate,
+          staleIfError: options.staleIfError,
+          method: method?.toUpperCase(),
+          url,
         };
+        this.indexEntry(key, entry);
 
         // 1. Store in memory cache (fastest access)
         try {
-          this.cache.set(key, entry);
+          this.cache.set(key, this.toMemoryEntry(entry));
           this.evictIfNeeded();
         } catch (error) {
           console.warn('Memory cache storage failed:', error);
         }
 
+        // Without write-through the lower tiers only receive entries evicted from memory
+        if (!this.tiers.writeThrough) {
+          return;
+        }
+
         // 2. Store in Redis cache (persistent, shared)
         await this.safeRedisOperation(
-          async () => {
-            const serialized = JSON.stringify(entry);
-            await this.redis.setex(key, ttl, serialized);
-          },
+          // Keep the entry through its stale-while-revalidate and stale-if-error windows
+          () => this.writeToRedis(key, entry, ttl + this.getRetentionWindow(entry)),
           undefined,
           'set',
           key
@@ -979,7 +1495,7 @@ export class CacheService {
 
         // 3. Store in file cache (backup)
         await this.safeCacheOperation(
-          () => this.fileCache.set(key, data, headers, status, ttl),
+          () => this.fileCache.set(key, data, headers, status, ttl, entry),
           undefined,
           'file-cache-set',
           { key, status }
@@ -1000,12 +1516,13 @@ export class CacheService {
         // Remove from memory cache
         try {
           this.cache.delete(key);
+          this.invalidationIndex.remove(key);
         } catch (error) {
           console.warn('Memory cache deletion failed:', error);
         }
 
         // Remove from Redis cache
-        await this.safeRedisOperation(() => this.redis.del(key), undefined, 'delete', key);
+        await this.safeRedisOperation(() => this.deleteFromRedis(key), undefined, 'delete', key);
 
         // Remove from file cache
         await this.safeCacheOperation(
@@ -1053,8 +1570,22 @@ export class CacheService {
             totalMisses: this.stats.misses,
           },
           file: fileStats,
+          revalidation: {
+            staleHits: this.stats.staleHits,
+            inProgress: this.revalidating.size,
+            successes: this.stats.revalidationSuccesses,
+            failures: this.stats.revalidationFailures,
+            coalesced: this.stats.coalesced,
+          },
+          tiers: this.getTierStats(),
+          evictionPolicy: this.eviction.name,
         };
 
+        if (this.config.compression || this.config.encryption) {
+          const { memory, redis, file } = this.codec.getStats();
+          stats.encoding = { memory, redis, file };
+        }
+
         // Add Redis stats if available
         if (this.isRedisAvailable()) {
           const redisStats = await this.safeRedisOperation(
@@ -1109,11 +1640,46 @@ export class CacheService {
           size: 0,
           files: [],
         },
+        revalidation: {
+          staleHits: 0,
+          inProgress: 0,
+          successes: 0,
+          failures: 0,
+          coalesced: 0,
+        },
+        tiers: this.getTierStats(),
+        evictionPolicy: this.eviction.name,
       },
       'get-stats'
     );
   }
 
+  /**
+   * Hits, misses, budgets and movements between tiers since startup
+   */
+  private getTierStats(): Record<CacheTier, CacheTierStats> {
+    const bytes: Record<CacheTier, number> = {
+      memory: this.cache.bytes,
+      redis: this.redisBytes,
+      file: this.fileCache.bytes,
+    };
+    const tiers = {} as Record<CacheTier, CacheTierStats>;
+    for (const tier of ['memory', 'redis', 'file'] as const) {
+      const { hits, misses, ...movements } = this.tierStats[tier];
+      const lookups = hits + misses;
+      tiers[tier] = {
+        hits,
+        misses,
+        hitRate: lookups > 0 ? Math.round((hits / lookups) * 100) / 100 : 0,
+        bytes: bytes[tier],
+        maxBytes: this.tiers[tier].maxBytes,
+        ...movements,
+      };
+    }
+    tiers.file.evictions = this.fileCache.evictionCount;
+    return tiers;
+  }
+
   /**
    * Clear all cache layers with comprehensive error handling
    */
@@ -1128,19 +1694,22 @@ export class CacheService {
         try {
           memoryCleared = this.cache.size;
           this.cache.clear();
+          this.varyIndex.clear();
+          this.invalidationIndex.clear();
         } catch (error) {
           console.warn('Memory cache clear failed:', error);
         }
 
-        // Clear Redis cache
+        // Clear Redis cache, together with its index sets
         redisCleared = await this.safeRedisOperation(
           async () => {
-            const keys = await this.redis.keys('*');
-            if (keys.length > 0) {
-              await this.redis.del(...keys);
-              return keys.length;
+            const keys = await this.scanRedisKeys();
+            this.redisSizes.clear();
+            this.redisBytes = 0;
+            for (let i = 0; i < keys.length; i += REDIS_SCAN_COUNT) {
+              await this.redis.del(...keys.slice(i, i + REDIS_SCAN_COUNT));
             }
-            return 0;
+            return keys.filter((key) => !key.startsWith(REDIS_INDEX_PREFIX)).length;
           },
           0,
           'clear'
@@ -1179,7 +1748,7 @@ export class CacheService {
           const now = Date.now();
           for (const [key, entry] of this.cache.entries()) {
             try {
-              if (this.isExpired(entry)) {
+              if (this.isPastRetention(entry)) {
                 this.cache.delete(key);
                 memoryCleaned++;
               }
@@ -1193,6 +1762,7 @@ export class CacheService {
         } catch (error) {
           console.warn('Memory cache cleanup failed:', error);
         }
+        this.invalidationIndex.prune();
 
         // Clean Redis cache (Redis handles TTL automatically, but we can clean manually expired entries)
         redisCleaned = await this.safeRedisOperation(
@@ -1271,169 +1841,228 @@ export class CacheService {
   async invalidateByPattern(
     pattern: string
   ): Promise<{ memory: number; redis: number; file: number }> {
-    return this.safeCacheOperation(
-      async () => {
-        let memoryInvalidated = 0;
-        let redisInvalidated = 0;
-        let fileInvalidated = 0;
+    return this.invalidateWhere(
+      (entry) => minimatch(entry.url ?? entry.headers['x-original-url'] ?? '', pattern),
+      'pattern'
+    );
+  }
 
-        // Invalidate memory cache entries
-        for (const [key, entry] of this.cache.entries()) {
-          const url = entry.headers['x-original-url'] || '';
-          if (minimatch(url, pattern)) {
-            this.cache.delete(key);
-            memoryInvalidated++;
-          }
-        }
+  /**
+   * Invalidate cache entries older than specified time
+   */
+  async invalidateOlderThan(
+    ageInSeconds: number
+  ): Promise<{ memory: number; redis: number; file: number }> {
+    const cutoffTime = Date.now() - ageInSeconds * 1000;
+    return this.invalidateWhere((entry) => entry.createdAt < cutoffTime, 'time');
+  }
 
-        // Invalidate Redis cache entries if available
-        if (this.isRedisAvailable()) {
-          redisInvalidated = await this.safeRedisOperation(
-            async () => {
-              const keys = await this.redis.keys('*');
-              let invalidated = 0;
+  /**
+   * Invalidate cache entries by tags
+   */
+  async invalidateByTags(tags: string[]): Promise<{ memory: number; redis: number; file: number }> {
+    return this.invalidateIndexed(
+      this.invalidationIndex.keysForTags(tags),
+      () => this.takeRedisIndexedKeys(tags.map((tag) => `${REDIS_INDEX_PREFIX}tag:${tag}`)),
+      'tags'
+    );
+  }
 
-              for (const key of keys) {
-                const data = await this.redis.get(key);
-                if (data) {
-                  try {
-                    const entry = JSON.parse(data);
-                    const url = entry.headers['x-original-url'] || '';
-                    if (minimatch(url, pattern)) {
-                      await this.redis.del(key);
-                      invalidated++;
-                    }
-                  } catch (error) {
-                    console.warn('Failed to parse Redis entry during invalidation:', error);
-                  }
-                }
-              }
-              return invalidated;
-            },
-            0,
-            'invalidate-redis-pattern'
-          );
-        }
+  /**
+   * Invalidate the entries stored for any of the requests, entries stored before request
+   * details were recorded don't match
+   */
+  async invalidateRequests(
+    targets: InvalidationTarget[]
+  ): Promise<{ memory: number; redis: number; file: number }> {
+    if (targets.length === 0) {
+      return { memory: 0, redis: 0, file: 0 };
+    }
 
-        // Invalidate file cache entries
-        fileInvalidated = await this.safeCacheOperation(
-          async () => {
-            const files = await this.fileCache.getAllFiles();
-            let invalidated = 0;
+    return this.invalidateIndexed(
+      this.invalidationIndex.keysForTargets(targets),
+      () => this.redisKeysForTargets(targets),
+      'requests'
+    );
+  }
 
-            for (const file of files) {
-              const entry = await this.fileCache.get(file.replace('.json', ''));
-              if (entry) {
-                const url = entry.headers['x-original-url'] || '';
-                if (minimatch(url, pattern)) {
-                  await this.fileCache.delete(file.replace('.json', ''));
-                  invalidated++;
-                }
-              }
-            }
-            return invalidated;
-          },
-          0,
-          'invalidate-file-pattern'
-        );
+  private indexEntry(
+    key: string,
+    entry: Pick<
+      CacheEntry,
+      'headers' | 'createdAt' | 'ttl' | 'method' | 'url' | 'staleWhileRevalidate' | 'staleIfError'
+    >
+  ): void {
+    const window = this.getRetentionWindow(entry);
+    this.invalidationIndex.add(
+      key,
+      requestIndexKey(entry.method, entry.url),
+      parseCacheTags(entry.headers, this.config.tagHeaders),
+      entry.createdAt + (entry.ttl + window) * 1000
+    );
+  }
 
-        return {
-          memory: memoryInvalidated,
-          redis: redisInvalidated,
-          file: fileInvalidated,
-        };
-      },
-      { memory: 0, redis: 0, file: 0 },
-      'invalidate-pattern'
+  private async indexFileEntries(): Promise<void> {
+    if (!this.fileCache.isEnabled()) return;
+    for (const entry of await this.fileCache.listEntries()) {
+      if (entry.key) this.indexEntry(entry.key, entry);
+    }
+  }
+
+  /**
+   * Add a Redis entry to the index sets of its request and tags, which live as long as their
+   * longest-lived entry
+   */
+  private async indexInRedis(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    const request = requestIndexKey(entry.method, entry.url);
+    const sets = parseCacheTags(entry.headers, this.config.tagHeaders).map(
+      (tag) => `${REDIS_INDEX_PREFIX}tag:${tag}`
     );
+    if (request) {
+      sets.push(`${REDIS_INDEX_PREFIX}request:${request}`);
+    }
+    if (sets.length === 0) return;
+
+    const transaction = this.redis.multi();
+    for (const set of sets) transaction.sadd(set, key);
+    if (request) {
+      transaction.sadd(REDIS_INDEXED_REQUESTS, request);
+      sets.push(REDIS_INDEXED_REQUESTS);
+    }
+    for (const set of sets) transaction.ttl(set);
+    const ttls: Array<[Error | null, number]> = (await transaction.exec()).slice(-sets.length);
+
+    const extend = this.redis.pipeline();
+    sets.forEach((set, i) => {
+      if (ttls[i][1] < ttl) extend.expire(set, ttl);
+    });
+    if (extend.length > 0) await extend.exec();
   }
 
   /**
-   * Invalidate cache entries older than specified time
+   * Read and drop index sets in one transaction, so keys indexed meanwhile aren't lost
    */
-  async invalidateOlderThan(
-    ageInSeconds: number
+  private async takeRedisIndexedKeys(sets: string[]): Promise<string[]> {
+    if (sets.length === 0) return [];
+
+    const transaction = this.redis.multi();
+    for (const set of sets) transaction.smembers(set);
+    transaction.del(...sets);
+    const results: Array<[Error | null, string[]]> = await transaction.exec();
+    return results.slice(0, sets.length).flatMap(([, members]) => members ?? []);
+  }
+
+  // Visits each distinct indexed request once, the entries themselves aren't read
+  private async redisKeysForTargets(targets: InvalidationTarget[]): Promise<string[]> {
+    const requests: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch]: [string, string[]] = await this.redis.sscan(
+        REDIS_INDEXED_REQUESTS,
+        cursor,
+        'COUNT',
+        REDIS_SCAN_COUNT
+      );
+      cursor = next;
+      requests.push(...batch.filter((request) => matchesTargets(request, targets)));
+    } while (cursor !== '0');
+
+    if (requests.length === 0) return [];
+    const keys = await this.takeRedisIndexedKeys(
+      requests.map((request) => `${REDIS_INDEX_PREFIX}request:${request}`)
+    );
+    await this.redis.srem(REDIS_INDEXED_REQUESTS, ...requests);
+    return keys;
+  }
+
+  /**
+   * Entry keys in Redis without the client's key prefix, index sets only when asked for.
+   * SCAN keeps Redis responsive and the MATCH leaves other data in the database alone, e.g.
+   * rate limit counters
+   */
+  private async scanRedisKeys(includeIndex = true): Promise<string[]> {
+    // ioredis doesn't apply keyPrefix to SCAN patterns or the keys it returns
+    const prefix: string = this.redis.options?.keyPrefix ?? '';
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch]: [string, string[]] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`,
+        'COUNT',
+        REDIS_SCAN_COUNT
+      );
+      cursor = next;
+      for (const fullKey of batch) {
+        const key = fullKey.slice(prefix.length);
+        if (includeIndex || !key.startsWith(REDIS_INDEX_PREFIX)) keys.push(key);
+      }
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  /**
+   * Remove indexed keys from every tier
+   */
+  private async invalidateIndexed(
+    localKeys: string[],
+    lookupRedisKeys: () => Promise<string[]>,
+    name: string
   ): Promise<{ memory: number; redis: number; file: number }> {
     return this.safeCacheOperation(
       async () => {
-        const cutoffTime = Date.now() - ageInSeconds * 1000;
-        let memoryInvalidated = 0;
-        let redisInvalidated = 0;
-        let fileInvalidated = 0;
-
-        // Invalidate memory cache entries
-        for (const [key, entry] of this.cache.entries()) {
-          if (entry.createdAt < cutoffTime) {
-            this.cache.delete(key);
-            memoryInvalidated++;
-          }
+        const redisKeys = await this.safeRedisOperation(
+          lookupRedisKeys,
+          [],
+          `index-lookup-${name}`
+        );
+        const keys = Array.from(new Set([...localKeys, ...redisKeys]));
+        if (keys.length === 0) {
+          return { memory: 0, redis: 0, file: 0 };
         }
 
-        // Invalidate Redis cache entries if available
-        if (this.isRedisAvailable()) {
-          redisInvalidated = await this.safeRedisOperation(
-            async () => {
-              const keys = await this.redis.keys('*');
-              let invalidated = 0;
-
-              for (const key of keys) {
-                const data = await this.redis.get(key);
-                if (data) {
-                  try {
-                    const entry = JSON.parse(data);
-                    if (entry.createdAt < cutoffTime) {
-                      await this.redis.del(key);
-                      invalidated++;
-                    }
-                  } catch (error) {
-                    console.warn(
-                      'Failed to parse Redis entry during time-based invalidation:',
-                      error
-                    );
-                  }
-                }
-              }
-              return invalidated;
-            },
-            0,
-            'invalidate-redis-time'
-          );
+        let memoryInvalidated = 0;
+        for (const key of keys) {
+          if (this.cache.delete(key)) memoryInvalidated++;
+          this.invalidationIndex.remove(key);
         }
 
-        // Invalidate file cache entries
-        fileInvalidated = await this.safeCacheOperation(
+        const redisInvalidated = await this.safeRedisOperation(
           async () => {
-            const files = await this.fileCache.getAllFiles();
-            let invalidated = 0;
-
-            for (const file of files) {
-              const entry = await this.fileCache.get(file.replace('.json', ''));
-              if (entry && entry.createdAt < cutoffTime) {
-                await this.fileCache.delete(file.replace('.json', ''));
-                invalidated++;
-              }
+            let deleted = 0;
+            for (let i = 0; i < keys.length; i += REDIS_SCAN_COUNT) {
+              const batch = keys.slice(i, i + REDIS_SCAN_COUNT);
+              batch.forEach((key) => this.forgetRedisKey(key));
+              deleted += await this.redis.del(...batch);
             }
-            return invalidated;
+            return deleted;
           },
           0,
-          'invalidate-file-time'
+          `invalidate-redis-${name}`
         );
 
-        return {
-          memory: memoryInvalidated,
-          redis: redisInvalidated,
-          file: fileInvalidated,
-        };
+        const fileInvalidated = await this.safeCacheOperation(
+          () => this.fileCache.deleteKeys(keys),
+          0,
+          `invalidate-file-${name}`
+        );
+
+        return { memory: memoryInvalidated, redis: redisInvalidated, file: fileInvalidated };
       },
       { memory: 0, redis: 0, file: 0 },
-      'invalidate-time'
+      `invalidate-${name}`
     );
   }
 
   /**
-   * Invalidate cache entries by tags
+   * Remove the entries of every tier that match, reading each of them. Only used by the
+   * admin invalidation by pattern and age, writes go through the index
    */
-  async invalidateByTags(tags: string[]): Promise<{ memory: number; redis: number; file: number }> {
+  private async invalidateWhere(
+    matches: (entry: InvalidationCandidate) => boolean,
+    name: string
+  ): Promise<{ memory: number; redis: number; file: number }> {
     return this.safeCacheOperation(
       async () => {
         let memoryInvalidated = 0;
@@ -1442,9 +2071,9 @@ export class CacheService {
 
         // Invalidate memory cache entries
         for (const [key, entry] of this.cache.entries()) {
-          const entryTags = entry.headers['x-cache-tags']?.split(',') || [];
-          if (tags.some((tag) => entryTags.includes(tag))) {
+          if (matches(entry)) {
             this.cache.delete(key);
+            this.invalidationIndex.remove(key);
             memoryInvalidated++;
           }
         }
@@ -1453,22 +2082,19 @@ export class CacheService {
         if (this.isRedisAvailable()) {
           redisInvalidated = await this.safeRedisOperation(
             async () => {
-              const keys = await this.redis.keys('*');
               let invalidated = 0;
 
-              for (const key of keys) {
+              for (const key of await this.scanRedisKeys(false)) {
                 const data = await this.redis.get(key);
                 if (data) {
                   try {
-                    const entry = JSON.parse(data);
-                    const entryTags = entry.headers['x-cache-tags']?.split(',') || [];
-                    if (tags.some((tag) => entryTags.includes(tag))) {
-                      await this.redis.del(key);
+                    if (matches(this.parseFromRedis(data))) {
+                      await this.deleteFromRedis(key);
                       invalidated++;
                     }
                   } catch (error) {
                     console.warn(
-                      'Failed to parse Redis entry during tag-based invalidation:',
+                      `Failed to parse Redis entry during invalidation by ${name}:`,
                       error
                     );
                   }
@@ -1477,30 +2103,15 @@ export class CacheService {
               return invalidated;
             },
             0,
-            'invalidate-redis-tags'
+            `invalidate-redis-${name}`
           );
         }
 
         // Invalidate file cache entries
         fileInvalidated = await this.safeCacheOperation(
-          async () => {
-            const files = await this.fileCache.getAllFiles();
-            let invalidated = 0;
-
-            for (const file of files) {
-              const entry = await this.fileCache.get(file.replace('.json', ''));
-              if (entry) {
-                const entryTags = entry.headers['x-cache-tags']?.split(',') || [];
-                if (tags.some((tag) => entryTags.includes(tag))) {
-                  await this.fileCache.delete(file.replace('.json', ''));
-                  invalidated++;
-                }
-              }
-            }
-            return invalidated;
-          },
+          () => this.fileCache.deleteWhere(matches),
           0,
-          'invalidate-file-tags'
+          `invalidate-file-${name}`
         );
 
         return {
@@ -1510,7 +2121,7 @@ export class CacheService {
         };
       },
       { memory: 0, redis: 0, file: 0 },
-      'invalidate-tags'
+      `invalidate-${name}`
     );
   }
 }
@@ -2,6 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
 import { minimatch } from 'minimatch';
+import { EncodeOptions, PayloadCodec } from "@/utils/payload-codec.js";
 
 export interface FileCacheEntry {
   data: unknown;
@@ -11,6 +12,31 @@ export interface FileCacheEntry {
   ttl: number;
   accessCount?: number;
   lastAccessed?: number;
+  method?: string;
+  url?: string;
+  staleWhileRevalidate?: number;
+  staleIfError?: number; // Seconds past TTL the file is kept as a stale fallback
+  key?: string; // Cache key, recorded so the invalidation index can be rebuilt on startup
+}
+
+/**
+ * Serialize a cache entry, binary bodies are stored as base64 so they survive the JSON
+ * round trip byte-for-byte
+ */
+export function serializeCacheEntry(entry: { data: unknown }, space?: number): string {
+  const serializable = Buffer.isBuffer(entry.data)
+    ? { ...entry, data: entry.data.toString("base64"), encoding: "base64" }
+    : entry;
+  return JSON.stringify(serializable, null, space);
+}
+
+export function parseCacheEntry<T extends { data: unknown }>(json: string): T {
+  const entry = JSON.parse(json);
+  if (entry?.encoding === "base64" && typeof entry.data === "string") {
+    entry.data = Buffer.from(entry.data, "base64");
+    delete entry.encoding;
+  }
+  return entry;
 }
 
 interface PriorityOptions {
@@ -22,10 +48,75 @@ interface PriorityOptions {
 export class FileCacheService {
   private cacheDir: string;
   private enabled: boolean;
-
-  constructor(cacheDir: string = "./cache", enabled: boolean = false) {
+  private codec: PayloadCodec;
+  private encoding: EncodeOptions;
+  private maxBytes: number;
+  private sizes: Map<string, number> = new Map(); // File path -> bytes, least recently used first
+  private totalBytes = 0;
+  private evictions = 0;
+
+  constructor(
+    cacheDir: string = "./cache",
+    enabled: boolean = false,
+    codec: PayloadCodec = new PayloadCodec(),
+    encoding: EncodeOptions = {},
+    maxBytes: number = 0
+  ) {
     this.cacheDir = cacheDir;
     this.enabled = enabled;
+    this.codec = codec;
+    this.encoding = encoding;
+    this.maxBytes = maxBytes;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  get evictionCount(): number {
+    return this.evictions;
+  }
+
+  private trackFile(filePath: string, size: number): void {
+    this.forgetFile(filePath);
+    this.sizes.set(filePath, size);
+    this.totalBytes += size;
+  }
+
+  private forgetFile(filePath: string): void {
+    this.totalBytes -= this.sizes.get(filePath) ?? 0;
+    this.sizes.delete(filePath);
+  }
+
+  // Mark a file as recently used
+  private touchFile(filePath: string): void {
+    const size = this.sizes.get(filePath);
+    if (size === undefined) return;
+    this.sizes.delete(filePath);
+    this.sizes.set(filePath, size);
+  }
+
+  /**
+   * Remove least recently used files until the tier fits its byte budget
+   */
+  private async enforceBudget(): Promise<void> {
+    if (!this.maxBytes) return;
+
+    for (const [filePath] of this.sizes) {
+      if (this.totalBytes <= this.maxBytes) return;
+      this.forgetFile(filePath);
+      this.evictions++;
+      await fs.unlink(filePath).catch(() => undefined);
+    }
+  }
+
+  // Files are compressed and encrypted as a whole, entries written before stay readable
+  private readEntry(content: string): FileCacheEntry {
+    return parseCacheEntry<FileCacheEntry>(this.codec.decode(content));
   }
 
   /**
@@ -74,6 +165,19 @@ export class FileCacheService {
           this.enabled = false;
           throw error;
         }
+
+        // Size up files left by earlier runs, oldest first
+        const files = await Promise.all(
+          (await this.getAllFiles()).map(async (file) => {
+            const filePath = path.join(this.cacheDir, file);
+            return { filePath, stats: await fs.stat(filePath) };
+          })
+        );
+        files.sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs);
+        for (const { filePath, stats } of files) {
+          this.trackFile(filePath, stats.size);
+        }
+        await this.enforceBudget();
       },
       undefined,
       "initialization"
@@ -124,6 +228,14 @@ export class FileCacheService {
     }
   }
 
+  /**
+   * Check if a file is past its stale-if-error window and can be deleted
+   */
+  private isPastRetention(entry: FileCacheEntry): boolean {
+    const window = Math.max(entry.staleWhileRevalidate ?? 0, entry.staleIfError ?? 0);
+    return Date.now() > entry.createdAt + (entry.ttl + window) * 1000;
+  }
+
   /**
    * Check if cache entry is expired with error handling
    */
@@ -146,7 +258,11 @@ export class FileCacheService {
     data: unknown,
     headers: Record<string, string>,
     status: number,
-    ttl: number
+    ttl: number,
+    request: Pick<
+      FileCacheEntry,
+      "method" | "url" | "staleWhileRevalidate" | "staleIfError"
+    > = {}
   ): Promise<void> {
     await this.safeFileOperation(
       async () => {
@@ -156,6 +272,8 @@ export class FileCacheService {
           status,
           createdAt: Date.now(),
           ttl,
+          ...request,
+          key: cacheKey,
         };
 
         const filePath = this.getFilePath(cacheKey);
@@ -172,12 +290,20 @@ export class FileCacheService {
         // Serialize data safely
         let serializedData: string;
         try {
-          serializedData = JSON.stringify(entry, null, 2);
+          serializedData = this.codec.encode(
+            serializeCacheEntry(entry, 2),
+            "file",
+            this.encoding
+          );
         } catch (serializationError) {
           console.error("Failed to serialize cache entry:", serializationError);
           // Try without pretty printing
           try {
-            serializedData = JSON.stringify(entry);
+            serializedData = this.codec.encode(
+              serializeCacheEntry(entry),
+              "file",
+              this.encoding
+            );
           } catch (fallbackError) {
             console.error(
               "Failed to serialize cache entry even without formatting:",
@@ -192,6 +318,7 @@ export class FileCacheService {
         try {
           await fs.writeFile(tempPath, serializedData, "utf8");
           await fs.rename(tempPath, filePath);
+          this.trackFile(filePath, Buffer.byteLength(serializedData));
         } catch (error) {
           // Clean up temp file if it exists
           try {
@@ -201,6 +328,7 @@ export class FileCacheService {
           }
           throw error;
         }
+        await this.enforceBudget();
       },
       undefined,
       "set",
@@ -209,9 +337,10 @@ export class FileCacheService {
   }
 
   /**
-   * Get cache entry from file with comprehensive error handling
+   * Get cache entry from file with comprehensive error handling. Expired entries are only
+   * returned with allowStale, while they are within their stale-if-error window.
    */
-  async get(cacheKey: string): Promise<FileCacheEntry | null> {
+  async get(cacheKey: string, allowStale = false): Promise<FileCacheEntry | null> {
     return this.safeFileOperation(
       async () => {
         const filePath = this.getFilePath(cacheKey);
@@ -226,7 +355,7 @@ export class FileCacheService {
 
         let entry: FileCacheEntry;
         try {
-          entry = JSON.parse(fileContent);
+          entry = this.readEntry(fileContent);
         } catch (parseError) {
           console.warn(
             "Failed to parse cache file, removing corrupted file:",
@@ -234,6 +363,7 @@ export class FileCacheService {
           );
           // Remove corrupted file
           try {
+            this.forgetFile(filePath);
             await fs.unlink(filePath);
           } catch (unlinkError) {
             console.warn("Failed to remove corrupted cache file:", unlinkError);
@@ -250,6 +380,7 @@ export class FileCacheService {
         ) {
           console.warn("Invalid cache entry structure, removing file");
           try {
+            this.forgetFile(filePath);
             await fs.unlink(filePath);
           } catch (unlinkError) {
             console.warn("Failed to remove invalid cache file:", unlinkError);
@@ -257,8 +388,11 @@ export class FileCacheService {
           return null;
         }
 
-        // Check if expired
+        // Check if expired, files are kept as fallbacks through their stale-if-error window
         if (this.isExpired(entry)) {
+          if (!this.isPastRetention(entry)) {
+            return allowStale ? entry : null;
+          }
           // Delete expired file
           await this.safeFileOperation(
             () => this.delete(cacheKey),
@@ -271,6 +405,7 @@ export class FileCacheService {
           return null;
         }
 
+        this.touchFile(filePath);
         return entry;
       },
       null,
@@ -286,6 +421,7 @@ export class FileCacheService {
     await this.safeFileOperation(
       async () => {
         const filePath = this.getFilePath(cacheKey);
+        this.forgetFile(filePath);
         await fs.unlink(filePath);
       },
       undefined,
@@ -294,6 +430,51 @@ export class FileCacheService {
     );
   }
 
+  /**
+   * Delete the files of several keys, keys without a file are skipped. Returns how many
+   * files were deleted
+   */
+  async deleteKeys(cacheKeys: string[]): Promise<number> {
+    return this.safeFileOperation(
+      async () => {
+        let deleted = 0;
+        for (const cacheKey of cacheKeys) {
+          const filePath = this.getFilePath(cacheKey);
+          if (!this.sizes.has(filePath)) continue;
+
+          this.forgetFile(filePath);
+          await fs.unlink(filePath).catch(() => undefined);
+          deleted++;
+        }
+        return deleted;
+      },
+      0,
+      "delete-keys"
+    );
+  }
+
+  /**
+   * Read every entry on disk, e.g. to rebuild indexes after a restart
+   */
+  async listEntries(): Promise<FileCacheEntry[]> {
+    return this.safeFileOperation(
+      async () => {
+        const entries: FileCacheEntry[] = [];
+        for (const file of await this.getAllFiles()) {
+          try {
+            const content = await fs.readFile(path.join(this.cacheDir, file), "utf8");
+            entries.push(this.readEntry(content));
+          } catch {
+            // Unreadable files are skipped, get() removes them
+          }
+        }
+        return entries;
+      },
+      [],
+      "list-entries"
+    );
+  }
+
   /**
    * Get all cache files with comprehensive error handling
    */
@@ -351,10 +532,11 @@ export class FileCacheService {
 
               let entry: FileCacheEntry;
               try {
-                entry = JSON.parse(fileContent);
+                entry = this.readEntry(fileContent);
               } catch (parseError) {
                 // File is corrupted, delete it
                 try {
+                  this.forgetFile(filePath);
                   await fs.unlink(filePath);
                   cleaned++;
                 } catch (deleteError) {
@@ -366,9 +548,10 @@ export class FileCacheService {
                 return;
               }
 
-              // Check if expired
-              if (this.isExpired(entry)) {
+              // Check if past its stale windows
+              if (this.isPastRetention(entry)) {
                 try {
+                  this.forgetFile(filePath);
                   await fs.unlink(filePath);
                   cleaned++;
                 } catch (deleteError) {
@@ -392,6 +575,39 @@ export class FileCacheService {
     );
   }
 
+  /**
+   * Delete the cache files whose entries match, unreadable files are left to cleanExpired
+   */
+  async deleteWhere(matches: (entry: FileCacheEntry) => boolean): Promise<number> {
+    return this.safeFileOperation(
+      async () => {
+        const files = await this.getAllFiles();
+        let deleted = 0;
+
+        for (const file of files) {
+          await this.safeFileOperation(
+            async () => {
+              const filePath = path.join(this.cacheDir, file);
+              const entry = this.readEntry(await fs.readFile(filePath, "utf8"));
+              if (matches(entry)) {
+                this.forgetFile(filePath);
+                await fs.unlink(filePath);
+                deleted++;
+              }
+            },
+            undefined,
+            "delete-file-where",
+            { file }
+          );
+        }
+
+        return deleted;
+      },
+      0,
+      "delete-where"
+    );
+  }
+
   /**
    * Clear all cache files with comprehensive error handling
    */
@@ -405,6 +621,7 @@ export class FileCacheService {
           await this.safeFileOperation(
             async () => {
               const filePath = path.join(this.cacheDir, file);
+              this.forgetFile(filePath);
               await fs.unlink(filePath);
               cleared++;
             },
@@ -446,7 +663,7 @@ export class FileCacheService {
             path.join(this.cacheDir, file),
             "utf-8"
           );
-          const entry = JSON.parse(data) as FileCacheEntry;
+          const entry = this.readEntry(data);
           const key = file.replace(".json", "");
 
           // Convert to memory cache format
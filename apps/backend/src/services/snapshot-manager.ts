@@ -198,12 +198,12 @@ export class SnapshotManager {
             await this.repository!.updateAccessStats(snapshot.id);
 
             return {
-              data: JSON.parse(snapshot.data),
-              headers: JSON.parse(snapshot.headers),
-              status: snapshot.status,
+              data: JSON.parse(snapshot.response_body),
+              headers: JSON.parse(snapshot.response_headers),
+              status: snapshot.status_code,
               createdAt: snapshot.created_at,
               expiresAt: snapshot.expires_at,
-              lastAccessed: snapshot.last_accessed,
+              lastAccessed: snapshot.last_accessed_at,
               accessCount: snapshot.access_count,
               tags: snapshot.tags ? JSON.parse(snapshot.tags) : [],
             };
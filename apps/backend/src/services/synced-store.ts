@@ -0,0 +1,175 @@
+import type { FastifyInstance } from "fastify";
+import type { DatabaseAdapter } from "@/database/types.js";
+import { DatabaseError } from "@/types/errors.js";
+
+const DEFAULT_SYNC_INTERVAL_MS = 15000;
+
+export interface StoreRepository {
+  ensureTables(): Promise<void>;
+}
+
+export interface SyncedStoreOptions<R extends StoreRepository> {
+  // Prefix of the operation names reported to recovery and the error tracker
+  name: string;
+  // What the store holds, used in error messages
+  label: string;
+  createRepository: (db: DatabaseAdapter) => R;
+}
+
+/**
+ * Runtime state kept in the snapshot database and reloaded by every node, so changes made on
+ * one node propagate across the cluster. Stores use the snapshot manager's connection and are
+ * reloaded together by a {@link StoreSync}.
+ */
+export abstract class SyncedStore<R extends StoreRepository> {
+  protected app: FastifyInstance;
+  protected repository: R | null = null;
+  private options: SyncedStoreOptions<R>;
+
+  protected constructor(app: FastifyInstance, options: SyncedStoreOptions<R>) {
+    this.app = app;
+    this.options = options;
+  }
+
+  /**
+   * Open the store's tables on the shared connection and load the stored state
+   */
+  async initialize(db: DatabaseAdapter): Promise<void> {
+    const { name, label } = this.options;
+
+    try {
+      await this.app.recovery.withRetry(
+        async () => {
+          const repository = this.options.createRepository(db);
+          await repository.ensureTables();
+          this.repository = repository;
+        },
+        "database",
+        { operation: `${name}-initialization` }
+      );
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation: `${name}.initialize` }, ["critical"]);
+      throw new DatabaseError(
+        `Failed to initialize ${label} storage`,
+        "DATABASE_INIT_ERROR",
+        500
+      );
+    }
+
+    await this.reload();
+  }
+
+  /**
+   * Load the stored state, replacing the local copy
+   */
+  abstract reload(): Promise<void>;
+
+  /**
+   * Periodic refresh, stores with housekeeping to do on every node extend it
+   */
+  async sync(): Promise<void> {
+    await this.reload();
+  }
+
+  protected getRepository(): R {
+    if (!this.repository) {
+      throw new DatabaseError(
+        `The ${this.options.label} storage is not initialized`,
+        "DATABASE_NOT_INITIALIZED",
+        503
+      );
+    }
+    return this.repository;
+  }
+
+  protected async read<T>(operation: string, fn: (repository: R) => Promise<T>): Promise<T> {
+    const repository = this.getRepository();
+
+    try {
+      return await this.app.recovery.withRetry(() => fn(repository), "database", { operation });
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation });
+      throw new DatabaseError(
+        `Failed to read ${this.options.label}`,
+        "DATABASE_QUERY_ERROR",
+        500
+      );
+    }
+  }
+
+  /**
+   * Persist a change and reload so the local state matches what other nodes will see
+   */
+  protected async write(operation: string, fn: (repository: R) => Promise<void>): Promise<void> {
+    const repository = this.getRepository();
+
+    try {
+      await this.app.recovery.withRetry(() => fn(repository), "database", { operation });
+    } catch (error) {
+      this.app.errorTracker.trackError(error, { operation });
+      throw new DatabaseError(
+        `Failed to save ${this.options.label}`,
+        "DATABASE_SAVE_ERROR",
+        500
+      );
+    }
+
+    await this.reload();
+  }
+}
+
+/**
+ * Opens the synced stores on one database connection and reloads them on a single timer
+ */
+export class StoreSync {
+  private stores: SyncedStore<StoreRepository>[];
+  private syncInterval: number;
+  private syncTimer?: NodeJS.Timeout;
+  private syncing = false;
+
+  constructor(
+    stores: Array<SyncedStore<StoreRepository> | null>,
+    syncInterval: number = DEFAULT_SYNC_INTERVAL_MS
+  ) {
+    this.stores = stores.filter((store) => store !== null);
+    this.syncInterval = syncInterval;
+  }
+
+  async initialize(db: DatabaseAdapter): Promise<void> {
+    for (const store of this.stores) {
+      await store.initialize(db);
+    }
+    this.start();
+  }
+
+  /**
+   * Reload every store once, a store that fails keeps its last known state
+   */
+  async sync(): Promise<void> {
+    await Promise.all(this.stores.map((store) => store.sync().catch(() => undefined)));
+  }
+
+  private start(): void {
+    if (this.syncInterval <= 0 || this.syncTimer) return;
+
+    this.syncTimer = setInterval(() => {
+      // Skip a tick while the previous one still waits on a slow database
+      if (this.syncing) return;
+      this.syncing = true;
+      this.sync()
+        .finally(() => (this.syncing = false))
+        .catch(() => undefined);
+    }, this.syncInterval);
+    this.syncTimer.unref();
+  }
+
+  /**
+   * Stop syncing, the connection belongs to the snapshot manager and stays open
+   */
+  close(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+  }
+}
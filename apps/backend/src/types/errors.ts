@@ -26,6 +26,13 @@ export class BackendError extends ProxyError {
   }
 }
 
+export class CircuitOpenError extends BackendError {
+  constructor(message: string, code: string, statusCode: number, context?: any) {
+    super(message, code, statusCode, context);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 export class ValidationError extends ProxyError {
   constructor(message: string, code: string, statusCode: number, context?: any) {
     super(message, code, statusCode, context);
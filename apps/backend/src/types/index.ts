@@ -1,13 +1,27 @@
 import { FastifyInstance } from "fastify";
 import { CacheService } from "@/services/cache.js";
+import { CachePolicyService } from "@/services/cache-policy.js";
 import { RequestLoggerService } from "@/modules/monitoring/services/request-logger.js";
 import { SnapshotManager } from "@/modules/recovery/services/snapshot-manager.js";
 import { MetricsService } from "@/modules/monitoring/services/metrics.js";
 import { AuthService } from "@/modules/auth/services/auth-service.js";
+import { RateLimitService } from "@/modules/auth/services/rate-limit.js";
+import { OidcService } from "@/modules/auth/services/oidc.js";
+import { AuthStore } from "@/modules/auth/services/auth-store.js";
 import { RecoveryService } from "@/modules/recovery/services/recovery.js";
 import { ErrorTrackerService } from "@/modules/recovery/services/error-tracker.js";
 import { DatabaseConfig, StorageConfig } from "@/database/types.js";
 import { ClusterConfig } from "@/modules/cluster/types.js";
+import { RoutingTable } from "@/modules/proxy/services/routing-table.js";
+import { RoutingStore } from "@/modules/proxy/services/routing-store.js";
+import { MockService } from "@/modules/proxy/services/mock-service.js";
+import { CassetteService } from "@/modules/proxy/services/cassette-service.js";
+import { RequestReplayService } from "@/modules/proxy/services/request-replay.js";
+import { AuditLogService } from "@/modules/monitoring/services/audit-log.js";
+import { ProxyHookRegistry } from "@/modules/proxy/services/proxy-hooks.js";
+import { StreamingConnectionTracker } from "@/modules/proxy/services/streaming-connections.js";
+import { WebSocketProxy } from "@/modules/proxy/services/websocket-proxy.js";
+import { PayloadCodec } from "@/utils/payload-codec.js";
 
 export interface ServerConfig {
   port: number;
@@ -30,10 +44,28 @@ export interface ServerConfig {
   snapshotDbPath: string;
   // Multi-database configuration
   database?: DatabaseConfig;
+  // Schema migrations of the SQL database
+  migrations?: MigrationsConfig;
   // Auth configuration
   auth?: AuthConfig;
   // Cluster configuration
   cluster?: ClusterConfig;
+  // Multi-upstream routing table (targetUrl acts as the default upstream)
+  routing?: RoutingConfig;
+  // Record-and-replay cassettes
+  recording?: RecordingConfig;
+  // Rate limits per client IP, API key, user or route
+  rateLimit?: RateLimitConfig;
+  // Audit trail of administrative changes
+  audit?: AuditConfig;
+  // Proxy lifecycle plugins
+  plugins?: ProxyPluginsConfig;
+  // Streaming of large and non-cacheable upstream bodies
+  streaming?: StreamingConfig;
+  // Compression and encryption settings of stored payloads
+  storageCodec?: StorageCodecConfig;
+  // Compression and encryption of snapshot bodies
+  snapshotStorage?: Pick<StorageConfig, "compression" | "encryption">;
 }
 
 export interface ApiRequest {
@@ -68,17 +100,36 @@ export interface ApiResponse {
   cacheTTL?: number;
 }
 
+export type EvictionPolicyName = "lru" | "fifo" | "lfu" | "w-tinylfu";
+
+export interface CacheTiersConfig {
+  // Byte budgets, 0 means unlimited (behavior.maxSize still caps the memory entries)
+  memory: { maxBytes: number };
+  redis: { maxBytes: number }; // Counts the keys this instance wrote
+  file: { maxBytes: number };
+  // Write new entries to every tier, otherwise only to memory and lower tiers get them when
+  // they are demoted
+  writeThrough: boolean;
+  promoteAfter: number; // Requests for a key before a lower tier hit is copied into memory
+}
+
 export interface CacheConfig {
   enabled: boolean;
   defaultTTL: number;
   maxSize: number;
   methods: string[];
+  // Follow upstream Cache-Control, Expires and Vary headers (opt-in)
+  httpSemantics?: boolean;
+  tagHeaders?: string[]; // Response headers carrying cache tags, lowercased
   keyOptions: {
     hashLongKeys: boolean;
     maxKeyLength: number;
     includeHeaders: string[];
     excludeHeaders?: string[];
     normalizeUrl?: boolean;
+    // HMAC secret or PEM public key verifying bearer tokens the auth layer didn't, before
+    // their claims are used in keys; other unverified tokens key entries by the whole token
+    jwtSecret?: string;
   };
   rules: CacheRule[];
   behavior: {
@@ -86,8 +137,15 @@ export interface CacheConfig {
     backgroundCleanup?: boolean;
     cleanupInterval?: number;
     maxSize?: number;
-    evictionPolicy?: "lru" | "fifo";
+    evictionPolicy?: EvictionPolicyName; // Applies to the memory tier
+    // Seconds past TTL an entry is served while refreshed in the background (0 disables)
+    staleWhileRevalidate?: number;
   };
+  // Byte budgets of the tiers and how entries move between them
+  tiers?: CacheTiersConfig;
+  // Compress memory, Redis and file entries, and encrypt Redis and file entries
+  compression?: boolean;
+  encryption?: boolean;
   redis?: {
     enabled: boolean;
     host: string;
@@ -102,6 +160,22 @@ export interface CacheConfig {
   };
 }
 
+// What a rule's cache keys are built from, replacing keyOptions.includeHeaders and the body hash
+export interface CacheKeyTemplate {
+  query?: { include?: string[]; exclude?: string[] }; // Parameter names, all by default
+  path?: { include?: number[]; ignore?: number[] }; // Zero-based segments, others become "*"
+  headers?: string[];
+  jwtClaims?: string[]; // Dot paths into the verified token payload, e.g. "tenant_id"
+  bodyFields?: string[]; // Dot paths into JSON bodies, the whole body is hashed when unset
+  ignoreBody?: boolean;
+  cookies?: string[];
+}
+
+// Who a cache key is built for, the claims are those of the token the auth layer verified
+export interface CacheKeyContext {
+  claims?: Record<string, unknown>;
+}
+
 export interface CacheRule {
   pattern: string;
   methods: string[];
@@ -113,23 +187,292 @@ export interface CacheRule {
     minSize?: number;
     maxSize?: number;
   };
+  key?: CacheKeyTemplate;
+}
+
+// Values of "set" may use {{auth.*}}, {{request.*}}, {{headers.*}}, {{query.*}} and
+// {{env.TRANSFORM_*}} placeholders. Applied in the order remove, rename, set.
+export interface HeaderRewrite {
+  set?: Record<string, string>;
+  remove?: string[];
+  rename?: Record<string, string>; // Old name -> new name
+}
+
+export interface PathRewrite {
+  pattern: string; // Regex matched against the target path, which starts with "/"
+  replacement: string; // May use $1 or $<name> captures
+}
+
+export type QueryRewrite = HeaderRewrite;
+
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+// Changes to JSON bodies, applied in the order set, remove, patch
+export interface BodyTransform {
+  set?: Record<string, unknown>; // JSONPath -> value, e.g. "$.meta.source" or "$.items[*].id"
+  remove?: string[]; // JSONPaths
+  patch?: JsonPatchOperation[]; // RFC 6902 JSON Patch, all operations or none are applied
+}
+
+// Declarative request and response changes of a route or upstream
+export interface TransformSettings {
+  requestHeaders?: HeaderRewrite;
+  responseHeaders?: HeaderRewrite;
+  pathRewrite?: PathRewrite[];
+  queryRewrite?: QueryRewrite;
+  requestBody?: BodyTransform;
+  responseBody?: BodyTransform; // Applied before the response is cached
+}
+
+// Cached reads a successful write makes stale. Paths are upstream paths with :param/{param},
+// * and ** segments like mock paths, params captured by `path` fill the other templates.
+export interface CacheInvalidationRule {
+  methods?: string[]; // Writes that trigger the rule, POST, PUT, PATCH and DELETE by default
+  path: string; // e.g. "/orders/:id"
+  invalidates?: string[]; // e.g. "GET /orders/:id", or "/orders*" for entries of any method
+  tags?: string[]; // e.g. "order-:id"
+}
+
+export interface RouteCacheSettings {
+  enabled?: boolean;
+  ttl?: number; // Overrides rule-based TTL for this route
+  staleOnError?: boolean; // Serve the last snapshot or expired entry when the upstream fails
+  staleTTL?: number; // Seconds a snapshot stays usable as a fallback (default 24h)
+  invalidates?: CacheInvalidationRule[];
+}
+
+export type LoadBalancingStrategy =
+  | "round-robin"
+  | "least-connections"
+  | "weighted"
+  | "consistent-hash";
+
+export interface UpstreamMemberConfig {
+  url: string;
+  weight?: number; // Used by the weighted and consistent-hash strategies (default 1)
+}
+
+export interface UpstreamHealthCheckConfig {
+  enabled?: boolean; // Active probing, passive failure counting is always on
+  path?: string;
+  interval?: number; // Probe interval in milliseconds
+  timeout?: number; // Probe timeout in milliseconds
+  expectedStatus?: number[]; // Defaults to any status below 500
+  unhealthyThreshold?: number; // Consecutive failures before a member is ejected
+  cooldown?: number; // Milliseconds an ejected member stays out of rotation
+}
+
+export interface RetryBudget {
+  ratio: number; // Retries allowed as a share of requests in the window, e.g. 0.2
+  minRetries?: number; // Retries always allowed per window, default 10
+  windowMs?: number; // Default 10000
+}
+
+export interface RetryPolicy {
+  maxRetries: number; // Attempts after the first one
+  backoffMs?: number; // Base delay, doubled per attempt, default 100
+  maxBackoffMs?: number; // Default 2000
+  jitter?: "full" | "equal" | "none"; // Default "full"
+  retryOnStatus?: number[]; // Default 502, 503, 504
+  retryMethods?: string[]; // Default idempotent methods only
+  retryOnNetworkError?: boolean; // Timeouts and connection failures, default true
+  budget?: RetryBudget;
+}
+
+export interface CircuitBreakerPolicy {
+  enabled?: boolean;
+  failureThreshold?: number; // Consecutive failures before opening, default 5
+  resetTimeoutMs?: number; // Time spent open before probing, default 30000
+  halfOpenMaxProbes?: number; // Concurrent trial requests while half-open, default 1
+  successThreshold?: number; // Successful probes needed to close again, default 1
+  failureStatuses?: number[]; // Default 500, 502, 503, 504
+}
+
+export interface ResiliencePolicy {
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerPolicy;
+}
+
+export interface UpstreamConfig extends TransformSettings {
+  name: string;
+  url: string; // Logical base URL, also the only member when no members are listed
+  timeout?: number; // Request timeout in milliseconds
+  cache?: RouteCacheSettings;
+  members?: UpstreamMemberConfig[];
+  loadBalancing?: LoadBalancingStrategy;
+  hashHeader?: string; // Request header used by the consistent-hash strategy
+  healthCheck?: UpstreamHealthCheckConfig;
+  resilience?: ResiliencePolicy;
+}
+
+export interface RouteMatch {
+  pathPrefix?: string; // Matched against the path after apiPrefix
+  hosts?: string[]; // Supports leading wildcard, e.g. "*.example.com"
+  headers?: Record<string, string>; // "*" only requires the header to be present
+  methods?: string[];
+}
+
+export interface RouteConfig extends TransformSettings {
+  id: string;
+  upstream: string;
+  match: RouteMatch;
+  enabled: boolean;
+  priority?: number; // Higher priority routes are evaluated first
+  stripPrefix?: boolean;
+  timeout?: number;
+  cache?: RouteCacheSettings;
+  resilience?: ResiliencePolicy;
+  description?: string;
+}
+
+export interface RoutingConfig {
+  upstreams: UpstreamConfig[];
+  routes: RouteConfig[];
+}
+
+export interface MockMatch {
+  methods?: string[];
+  path: string; // Path template with :param/{param}, * and ** segments, or a "re:" regex
+  query?: Record<string, string>; // "*" only requires the parameter to be present
+  headers?: Record<string, string>; // "*" only requires the header to be present
+  body?: Record<string, unknown>; // Dot paths into a JSON body, "*" only requires presence
+}
+
+export interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown; // Strings may use {{params.x}}, {{query.x}}, {{headers.x}}, {{body.x}} placeholders
+  delay?: number; // Artificial latency in milliseconds
+}
+
+export interface MockDefinition {
+  id: string;
+  name?: string;
+  enabled: boolean;
+  priority?: number; // Higher priority mocks are evaluated first
+  match: MockMatch;
+  response: MockResponse;
+  source?: "manual" | "openapi";
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type RecordingMode = "off" | "record" | "replay";
+
+export interface RecordingConfig {
+  mode: RecordingMode;
+  cassette: string; // Active cassette name, stored as <cassetteDir>/<cassette>.json
+  cassetteDir: string;
+  matching: "strict" | "lenient"; // Lenient ignores headers, body and query when no exact match exists
+  missStatus: number; // Status returned in replay mode when the cassette has no match
+}
+
+export type RateLimitScope = "ip" | "apiKey" | "user" | "route";
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+export interface RateLimitRule {
+  id: string;
+  scope: RateLimitScope; // "route" shares one limit between all clients of the matched requests
+  algorithm?: RateLimitAlgorithm; // Default "sliding-window"
+  limit: number; // Requests per window, or the bucket capacity
+  windowMs: number; // Window length, or the time to refill an empty bucket
+  pathPrefix?: string; // Only requests under this path count
+  methods?: string[];
+  enabled?: boolean;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  store: "memory" | "redis"; // Redis shares counters between cluster nodes
+  rules: RateLimitRule[];
+}
+
+export interface AuditConfig {
+  enabled: boolean;
+  storage: StorageConfig; // Any storage plugin type, local_file by default
+  retentionDays: number;
+}
+
+export interface MigrationsConfig {
+  autoMigrate: boolean; // Apply pending migrations at startup
+}
+
+export interface StreamingConfig {
+  enabled: boolean;
+  maxBufferSize: number; // Bytes buffered (and cacheable) before a response is streamed instead
+  websocket: boolean; // Proxy WebSocket upgrades under the API prefix
+}
+
+export type CompressionAlgorithm = "gzip" | "brotli";
+
+export interface StorageEncryptionKey {
+  id: string;
+  key: string; // 32 bytes, as 64 hex characters or base64
+}
+
+// Shared by every store, each store turns compression and encryption on with its own flags
+export interface StorageCodecConfig {
+  compression: {
+    algorithm: CompressionAlgorithm;
+    threshold: number; // Payloads smaller than this many bytes are stored uncompressed
+  };
+  encryption: {
+    keys: StorageEncryptionKey[]; // All keys decrypt, keep retired keys until their data expired
+    activeKeyId?: string; // Key new payloads are encrypted with, the first key by default
+  };
+}
+
+export interface ProxyPluginsConfig {
+  enabled: boolean;
+  directory: string; // Scanned for *-proxy-plugin.js files
+  packages: string[]; // npm packages loaded with import()
+}
+
+export type QuotaPeriod = "minute" | "hour" | "day" | "month";
+
+export interface ApiKeyQuota {
+  limit: number; // Requests per calendar period (UTC)
+  period: QuotaPeriod;
 }
 
 export interface AuthConfig {
   enabled: boolean;
   apiKeys: ApiKey[];
   users: User[];
+  roles: CustomRole[];
   enableUserAuth: boolean;
   sessionTTL: number;
   hashSalt: string;
   maxLoginAttempts: number;
   lockoutDuration: number;
+  keyRotationOverlap: number; // Seconds a rotated-out API key secret keeps working
+  keyExpiryWarningDays: number; // Warn about API keys expiring within this many days
   protectedPaths: string[];
   jwt?: {
     secret: string;
     expiresIn: string;
     issuer: string;
   };
+  oidc?: OidcConfig;
+}
+
+export interface OidcConfig {
+  enabled: boolean;
+  issuer: string; // Discovery document is read from <issuer>/.well-known/openid-configuration
+  clientId: string;
+  clientSecret?: string; // Confidential clients only, PKCE is always used
+  redirectUri: string; // Callback URL registered at the provider, returnTo stays on its origin
+  audience?: string; // Expected "aud" of bearer tokens, defaults to clientId
+  scopes: string[];
+  algorithms: string[]; // Accepted signing algorithms, e.g. RS256 and ES256
+  roleClaim: string; // Dotted claim path, e.g. "realm_access.roles"
+  roleMapping: Record<string, string>; // Claim value -> built-in or custom role name
+  defaultRole?: Role; // Used when no claim value maps to a built-in role
+  permissionsClaim?: string; // Claim holding proxy-stone permission strings
+  jwksCacheTtl: number; // Seconds before the JWKS is fetched again
 }
 
 export interface ApiKey {
@@ -143,6 +486,20 @@ export interface ApiKey {
   keyHash: string;
   createdAt: string;
   lastUsed?: string;
+  quota?: ApiKeyQuota;
+  roles?: string[]; // Custom roles granted on top of `role`
+  previousKeyHash?: string; // Secret replaced by the last rotation
+  previousKeyExpiresAt?: string; // End of the rotation overlap window
+  rotatedAt?: string;
+}
+
+// Named bundle of permissions, assigned to API keys and users next to their built-in role
+export interface CustomRole {
+  name: string;
+  description?: string;
+  permissions: string[];
+  createdAt: string;
+  updatedAt?: string;
 }
 
 export interface User {
@@ -154,6 +511,7 @@ export interface User {
   isActive: boolean;
   enabled: boolean;
   role: Role;
+  roles?: string[]; // Custom roles granted on top of `role`
   createdAt: string;
   lastLogin?: string;
 }
@@ -176,12 +534,26 @@ declare module "fastify" {
   interface FastifyInstance {
     config: ServerConfig;
     cache: CacheService;
+    cachePolicy: CachePolicyService;
     requestLogger: RequestLoggerService;
     snapshotManager: SnapshotManager;
     metrics: MetricsService;
     authService?: AuthService;
+    authStore?: AuthStore;
+    oidc?: OidcService;
+    rateLimiter: RateLimitService;
     recovery: RecoveryService;
     errorTracker: ErrorTrackerService;
+    routingTable: RoutingTable;
+    routingStore: RoutingStore;
+    mocks: MockService;
+    cassettes: CassetteService;
+    requestReplay: RequestReplayService;
+    audit: AuditLogService;
+    proxyHooks: ProxyHookRegistry;
+    streamingConnections: StreamingConnectionTracker;
+    websocketProxy: WebSocketProxy;
+    payloadCodec: PayloadCodec;
     cluster?: any; // Generic cluster service interface
   }
   interface FastifyRequest {
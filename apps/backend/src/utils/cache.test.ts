@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Fastify from "fastify";
+import { CacheService } from "@/services/cache.js";
+import { checkCacheAndServe, storeInCache } from "./cache.js";
+import { normalizeHeaders } from "./request.js";
+
+const UPSTREAM_URL = "http://upstream.test/greeting";
+
+// A proxy route over a fake upstream that answers with the given headers
+async function createApp(upstreamHeaders: Record<string, string>) {
+  const app = Fastify();
+  const cache = new CacheService({
+    enabled: true,
+    defaultTTL: 300,
+    maxSize: 100,
+    methods: ["GET"],
+    keyOptions: { hashLongKeys: true, maxKeyLength: 200, includeHeaders: ["authorization"] },
+    rules: [],
+    behavior: { backgroundCleanup: false, maxSize: 100 },
+    httpSemantics: true,
+  });
+  await cache.initialize();
+  app.decorate("cache", cache);
+
+  let upstreamCalls = 0;
+  app.get("/greeting", async (request, reply) => {
+    const processed = {
+      method: "GET",
+      targetUrl: UPSTREAM_URL,
+      headers: normalizeHeaders(request.headers),
+      body: undefined,
+    };
+    const hit = await checkCacheAndServe(app, processed, reply);
+    if (hit.served) return reply;
+
+    upstreamCalls++;
+    const language = processed.headers["accept-language"] ?? "en";
+    const data = { greeting: language === "de" ? "Hallo" : "Hello" };
+    await storeInCache(app, processed, data, upstreamHeaders, 200);
+    return reply.headers(upstreamHeaders).send(data);
+  });
+
+  return { app, cache, upstreamCalls: () => upstreamCalls };
+}
+
+test("responses are cached per variant of the headers named in Vary", async (t) => {
+  const { app, cache, upstreamCalls } = await createApp({
+    "cache-control": "max-age=60",
+    vary: "Accept-Language",
+  });
+  t.after(() => cache.shutdown());
+
+  const get = (language: string) =>
+    app.inject({ url: "/greeting", headers: { "accept-language": language } });
+
+  assert.equal((await get("de")).json().greeting, "Hallo");
+  assert.equal((await get("en")).json().greeting, "Hello");
+  const cachedDe = await get("de");
+  const cachedEn = await get("en");
+
+  assert.equal(upstreamCalls(), 2);
+  assert.equal(cachedDe.headers["x-cache"], "HIT");
+  assert.equal(cachedDe.json().greeting, "Hallo");
+  assert.equal(cachedEn.json().greeting, "Hello");
+  assert.equal(cachedEn.headers["x-cache-ttl"], "60");
+});
+
+test("conditional requests against a cached entry get 304 with its validators", async (t) => {
+  const { app, cache } = await createApp({
+    "cache-control": "max-age=60",
+    etag: '"v1"',
+    "content-type": "application/json",
+  });
+  t.after(() => cache.shutdown());
+
+  await app.inject({ url: "/greeting" });
+  const notModified = await app.inject({ url: "/greeting", headers: { "if-none-match": '"v1"' } });
+  const changed = await app.inject({ url: "/greeting", headers: { "if-none-match": '"v0"' } });
+
+  assert.equal(notModified.statusCode, 304);
+  assert.equal(notModified.headers.etag, '"v1"');
+  assert.equal(notModified.headers["cache-control"], "max-age=60");
+  assert.equal(notModified.body, "");
+  assert.equal(changed.statusCode, 200);
+  assert.equal(changed.headers["x-cache"], "HIT");
+});
+
+test("responses the upstream marks no-store or private are not cached", async (t) => {
+  for (const cacheControl of ["no-store", "private, max-age=60"]) {
+    const { app, cache, upstreamCalls } = await createApp({ "cache-control": cacheControl });
+    t.after(() => cache.shutdown());
+
+    await app.inject({ url: "/greeting" });
+    const second = await app.inject({ url: "/greeting" });
+
+    assert.equal(upstreamCalls(), 2, cacheControl);
+    assert.equal(second.headers["x-cache"], undefined);
+  }
+});
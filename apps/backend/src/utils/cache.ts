@@ -1,9 +1,32 @@
 import { FastifyReply, FastifyInstance } from "fastify";
 import { ProcessedRequest } from "./request.js";
+import {
+  getResponseCachePolicy,
+  isNotModified,
+  NOT_MODIFIED_HEADERS,
+  parseCacheTags,
+} from "./http-cache.js";
+import type { CacheSetOptions } from "@/services/cache.js";
+import type { CacheInvalidationRule } from "@/types/index.js";
+import {
+  resolveInvalidation,
+  WRITE_METHODS,
+} from "@/modules/proxy/services/cache-invalidation.js";
+
+export interface CacheStoreOptions {
+  ttl?: number; // Overrides the rule-based TTL (e.g. from a route)
+  staleIfError?: number; // Seconds past TTL the entry stays usable as a fallback (e.g. staleOnError)
+}
+
+export interface CacheCheckOptions {
+  revalidate?: () => Promise<void>; // Refreshes the entry when it is served past its soft TTL
+}
 
 export interface CacheHitResult {
   isHit: boolean;
   served?: boolean;
+  stale?: boolean; // Served past soft TTL while a background refresh runs
+  notModified?: boolean; // Served as 304 to a conditional request
   error?: string;
 }
 
@@ -13,15 +36,16 @@ export interface CacheHitResult {
 export async function checkCacheAndServe(
   fastify: FastifyInstance,
   request: ProcessedRequest,
-  reply: FastifyReply
+  reply: FastifyReply,
+  options: CacheCheckOptions = {}
 ): Promise<CacheHitResult> {
-  const { method, targetUrl, headers, body } = request;
+  const { method, targetUrl, headers, body, claims } = request;
 
   try {
     // Generate cache key safely
     let cacheKey: string;
     try {
-      cacheKey = fastify.cache.generateKey(method, targetUrl, headers, body);
+      cacheKey = fastify.cache.generateKey(method, targetUrl, headers, body, { claims });
     } catch (error) {
       fastify.log.warn(
         "Failed to generate cache key during cache check:",
@@ -30,10 +54,22 @@ export async function checkCacheAndServe(
       return { isHit: false, error: "cache-key-generation-failed" };
     }
 
+    // Responses with Vary are stored per variant of the request headers
+    const httpSemantics = fastify.cache.getConfig().httpSemantics === true;
+    if (httpSemantics) {
+      cacheKey = fastify.cache.getVariantKey(cacheKey, headers);
+    }
+
     // Check cache with enhanced context and error handling
     let cached: any;
     try {
-      cached = await fastify.cache.get(cacheKey, method, targetUrl, headers);
+      cached = await fastify.cache.get(
+        cacheKey,
+        method,
+        targetUrl,
+        headers,
+        options.revalidate
+      );
     } catch (error) {
       fastify.log.warn("Cache retrieval failed:", error);
       return { isHit: false, error: "cache-retrieval-failed" };
@@ -43,6 +79,8 @@ export async function checkCacheAndServe(
       return { isHit: false };
     }
 
+    const stale = fastify.cache.isStale(cached);
+
     // Cache hit - attempt to serve cached response
     try {
       // Log cache hit
@@ -52,6 +90,7 @@ export async function checkCacheAndServe(
           targetUrl,
           method,
           cacheHit: true,
+          stale,
           ttl: cached.ttl,
           age: Math.floor((Date.now() - cached.createdAt) / 1000),
         },
@@ -69,6 +108,25 @@ export async function checkCacheAndServe(
         // Don't fail cache operation due to snapshot manager issues
       }
 
+      // Answer conditional requests from the cached validators
+      if (
+        httpSemantics &&
+        (method === "GET" || method === "HEAD") &&
+        isNotModified(headers, cached.headers || {})
+      ) {
+        NOT_MODIFIED_HEADERS.forEach((name) => {
+          const value = cached.headers?.[name];
+          if (value) {
+            reply.header(name, value);
+          }
+        });
+        reply.header("X-Cache", stale ? "STALE" : "HIT");
+        reply.status(304);
+        await reply.send();
+
+        return { isHit: true, served: true, stale, notModified: true };
+      }
+
       // Set cached headers safely
       try {
         Object.entries(cached.headers || {}).forEach(([key, value]) => {
@@ -83,13 +141,22 @@ export async function checkCacheAndServe(
 
       // Add cache headers with enhanced information
       try {
-        reply.header("X-Cache", "HIT");
+        reply.header("X-Cache", stale ? "STALE" : "HIT");
+        if (stale) {
+          reply.header("Warning", '110 - "Response is Stale"');
+        }
         reply.header("X-Cache-Method", method);
         reply.header("X-Cache-TTL", (cached.ttl || 0).toString());
         reply.header(
           "X-Cache-Age",
           Math.floor((Date.now() - cached.createdAt) / 1000).toString()
         );
+        if (httpSemantics) {
+          reply.header(
+            "Age",
+            Math.floor((Date.now() - cached.createdAt) / 1000).toString()
+          );
+        }
         reply.status(cached.status || 200);
       } catch (error) {
         fastify.log.warn("Failed to set cache headers:", error);
@@ -100,7 +167,7 @@ export async function checkCacheAndServe(
       // Send cached data
       await reply.send(cached.data);
 
-      return { isHit: true, served: true };
+      return { isHit: true, served: true, stale };
     } catch (error) {
       fastify.log.error("Failed to serve cached response:", error);
       return { isHit: true, served: false, error: "cache-serve-failed" };
@@ -120,15 +187,16 @@ export async function storeInCache(
   request: ProcessedRequest,
   responseData: unknown,
   responseHeaders: Record<string, string>,
-  status: number
+  status: number,
+  options: CacheStoreOptions = {}
 ): Promise<{ success: boolean; error?: string }> {
-  const { method, targetUrl, headers, body } = request;
+  const { method, targetUrl, headers, body, claims } = request;
 
   try {
     // Generate cache key safely
     let cacheKey: string;
     try {
-      cacheKey = fastify.cache.generateKey(method, targetUrl, headers, body);
+      cacheKey = fastify.cache.generateKey(method, targetUrl, headers, body, { claims });
     } catch (error) {
       fastify.log.warn(
         "Failed to generate cache key during cache store:",
@@ -137,6 +205,27 @@ export async function storeInCache(
       return { success: false, error: "cache-key-generation-failed" };
     }
 
+    // Follow upstream caching headers when HTTP cache semantics are enabled
+    let setOptions: CacheSetOptions = { ttl: options.ttl, staleIfError: options.staleIfError };
+    if (fastify.cache.getConfig().httpSemantics) {
+      const policy = getResponseCachePolicy(responseHeaders);
+
+      if (!policy.storable || status === 304) {
+        fastify.log.debug(
+          { cacheKey, targetUrl, reason: policy.reason ?? "not-modified" },
+          "Response not cached due to upstream caching headers"
+        );
+        return { success: false, error: "not-storable" };
+      }
+
+      cacheKey = fastify.cache.setVaryHeaders(cacheKey, policy.vary, headers);
+      setOptions = {
+        ttl: policy.ttl ?? options.ttl,
+        staleWhileRevalidate: policy.staleWhileRevalidate,
+        staleIfError: policy.staleIfError ?? options.staleIfError,
+      };
+    }
+
     // Store in cache with comprehensive error handling
     try {
       await fastify.cache.set(
@@ -146,7 +235,8 @@ export async function storeInCache(
         status,
         method,
         targetUrl,
-        headers
+        headers,
+        setOptions
       );
     } catch (error) {
       fastify.log.warn("Failed to store response in cache:", error);
@@ -210,3 +300,50 @@ export async function storeInCache(
     return { success: false, error: "cache-operation-failed" };
   }
 }
+
+/**
+ * Invalidate what a successful write through the proxy made stale: the reads the route's
+ * rules name and the entries tagged with the tags of the upstream response
+ */
+export async function invalidateAfterWrite(
+  fastify: FastifyInstance,
+  request: ProcessedRequest,
+  rules: CacheInvalidationRule[] = [],
+  status: number,
+  responseHeaders: Record<string, string>
+): Promise<void> {
+  if (status < 200 || status >= 300) return;
+
+  let path: string;
+  try {
+    path = new URL(request.targetUrl).pathname;
+  } catch {
+    return;
+  }
+
+  const { targets, tags } = resolveInvalidation(rules, request.method, path);
+  if (WRITE_METHODS.includes(request.method.toUpperCase())) {
+    tags.push(...parseCacheTags(responseHeaders, fastify.cache.getConfig().tagHeaders));
+  }
+  if (targets.length === 0 && tags.length === 0) return;
+
+  const byRequest = await fastify.cache.invalidateRequests(targets);
+  const byTags =
+    tags.length > 0
+      ? await fastify.cache.invalidateByTags(Array.from(new Set(tags)))
+      : { memory: 0, redis: 0, file: 0 };
+
+  fastify.log.debug(
+    {
+      method: request.method,
+      targetUrl: request.targetUrl,
+      tags,
+      invalidated: {
+        memory: byRequest.memory + byTags.memory,
+        redis: byRequest.redis + byTags.redis,
+        file: byRequest.file + byTags.file,
+      },
+    },
+    "Invalidated cache entries after write"
+  );
+}
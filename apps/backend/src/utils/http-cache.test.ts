@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getResponseCachePolicy, isNotModified, parseCacheControl } from "./http-cache.js";
+
+test("s-maxage wins over max-age for the shared cache", () => {
+  const policy = getResponseCachePolicy({ "Cache-Control": "public, max-age=60, s-maxage=300" });
+
+  assert.equal(policy.storable, true);
+  assert.equal(policy.ttl, 300);
+});
+
+test("no-store, private, no-cache and Vary: * are not stored", () => {
+  for (const [headers, reason] of [
+    [{ "cache-control": "no-store, max-age=60" }, "no-store"],
+    [{ "cache-control": "private, max-age=60" }, "private"],
+    [{ "cache-control": "no-cache" }, "no-cache"],
+    [{ "cache-control": "max-age=60", vary: "*" }, "vary-star"],
+    [{ "cache-control": "max-age=0" }, "expired"],
+  ] as const) {
+    const policy = getResponseCachePolicy(headers);
+    assert.equal(policy.storable, false, reason);
+    assert.equal(policy.reason, reason);
+  }
+});
+
+test("Expires counts from the response Date and invalid values are expired", () => {
+  const date = "Sun, 18 Oct 2026 12:00:00 GMT";
+  const policy = getResponseCachePolicy({ date, expires: "Sun, 18 Oct 2026 12:02:00 GMT" });
+  assert.equal(policy.ttl, 120);
+
+  // max-age takes precedence over Expires
+  const farFuture = "Thu, 01 Jan 2099 00:00:00 GMT";
+  assert.equal(getResponseCachePolicy({ "cache-control": "max-age=5", expires: farFuture }).ttl, 5);
+  assert.equal(getResponseCachePolicy({ expires: "0" }).reason, "expired");
+});
+
+test("stale windows are dropped under must-revalidate", () => {
+  const header = "max-age=60, stale-while-revalidate=30, stale-if-error=600";
+  assert.deepEqual(parseCacheControl(header), {
+    maxAge: 60,
+    staleWhileRevalidate: 30,
+    staleIfError: 600,
+    noStore: false,
+    noCache: false,
+    private: false,
+    public: false,
+    mustRevalidate: false,
+  });
+
+  const relaxed = getResponseCachePolicy({ "cache-control": header });
+  assert.equal(relaxed.staleWhileRevalidate, 30);
+  assert.equal(relaxed.staleIfError, 600);
+
+  const strict = getResponseCachePolicy({ "cache-control": `${header}, must-revalidate` });
+  assert.equal(strict.staleWhileRevalidate, undefined);
+  assert.equal(strict.staleIfError, undefined);
+});
+
+test("Vary names are lowercased", () => {
+  const policy = getResponseCachePolicy({ vary: "Accept-Language, Accept-Encoding" });
+
+  assert.deepEqual(policy.vary, ["accept-language", "accept-encoding"]);
+  assert.equal(policy.ttl, undefined);
+});
+
+test("conditional requests match ETags weakly and fall back to Last-Modified", () => {
+  const cached = { ETag: '"v2"', "Last-Modified": "Sun, 18 Oct 2026 12:00:00 GMT" };
+
+  assert.ok(isNotModified({ "if-none-match": 'W/"v2"' }, cached));
+  assert.ok(isNotModified({ "if-none-match": '"v1", "v2"' }, cached));
+  assert.ok(isNotModified({ "if-none-match": "*" }, cached));
+  assert.ok(!isNotModified({ "if-none-match": '"v1"' }, cached));
+  // If-None-Match takes precedence over a matching If-Modified-Since
+  assert.ok(
+    !isNotModified(
+      { "if-none-match": '"v1"', "if-modified-since": "Sun, 18 Oct 2026 13:00:00 GMT" },
+      cached
+    )
+  );
+
+  assert.ok(isNotModified({ "if-modified-since": "Sun, 18 Oct 2026 12:00:00 GMT" }, cached));
+  assert.ok(!isNotModified({ "if-modified-since": "Sun, 18 Oct 2026 11:59:59 GMT" }, cached));
+  assert.ok(!isNotModified({ "if-modified-since": "not a date" }, cached));
+});
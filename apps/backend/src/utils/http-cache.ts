@@ -0,0 +1,218 @@
+/**
+ * HTTP caching semantics (RFC 9111) for responses stored by the shared proxy cache
+ */
+
+export interface CacheControlDirectives {
+  maxAge?: number;
+  sMaxAge?: number;
+  noStore: boolean;
+  noCache: boolean;
+  private: boolean;
+  public: boolean;
+  mustRevalidate: boolean;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+}
+
+export interface ResponseCachePolicy {
+  storable: boolean;
+  reason?: string; // Why the response must not be stored
+  ttl?: number; // Freshness lifetime in seconds, undefined when the upstream sets none
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  vary: string[]; // Lowercased request header names the response varies on
+}
+
+/**
+ * Parse a Cache-Control header into known directives, unknown directives are ignored
+ */
+export function parseCacheControl(header?: string): CacheControlDirectives {
+  const directives: CacheControlDirectives = {
+    noStore: false,
+    noCache: false,
+    private: false,
+    public: false,
+    mustRevalidate: false,
+  };
+
+  if (!header) return directives;
+
+  for (const part of header.split(",")) {
+    const [rawName, ...rawValue] = part.trim().split("=");
+    const name = rawName.trim().toLowerCase();
+    const value = rawValue.join("=").trim().replace(/^"|"$/g, "");
+    const seconds = parseSeconds(value);
+
+    switch (name) {
+      case "max-age":
+        directives.maxAge = seconds;
+        break;
+      case "s-maxage":
+        directives.sMaxAge = seconds;
+        break;
+      case "no-store":
+        directives.noStore = true;
+        break;
+      case "no-cache":
+        directives.noCache = true;
+        break;
+      case "private":
+        directives.private = true;
+        break;
+      case "public":
+        directives.public = true;
+        break;
+      case "must-revalidate":
+      case "proxy-revalidate":
+        directives.mustRevalidate = true;
+        break;
+      case "stale-while-revalidate":
+        directives.staleWhileRevalidate = seconds;
+        break;
+      case "stale-if-error":
+        directives.staleIfError = seconds;
+        break;
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Parse the Vary header into lowercased header names
+ */
+export function parseVary(header?: string): string[] {
+  if (!header) return [];
+
+  return header
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Comma separated like X-Cache-Tags, or space separated like Surrogate-Key
+export const DEFAULT_CACHE_TAG_HEADERS = ["x-cache-tags", "surrogate-key"];
+
+/**
+ * Tags an upstream attached to a response through any of the tag headers
+ */
+export function parseCacheTags(
+  headers: Record<string, string>,
+  tagHeaders: string[] = DEFAULT_CACHE_TAG_HEADERS
+): string[] {
+  const tags = tagHeaders.flatMap(
+    (name) => headers[name.toLowerCase()]?.split(/[\s,]+/).filter(Boolean) ?? []
+  );
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Decide whether and for how long a shared cache may store a response
+ */
+export function getResponseCachePolicy(
+  headers: Record<string, string>,
+  now: number = Date.now()
+): ResponseCachePolicy {
+  const normalized = lowercaseKeys(headers);
+  const directives = parseCacheControl(normalized["cache-control"]);
+  const vary = parseVary(normalized["vary"]);
+
+  if (directives.noStore) {
+    return { storable: false, reason: "no-store", vary };
+  }
+
+  if (directives.private) {
+    return { storable: false, reason: "private", vary };
+  }
+
+  // no-cache requires revalidation on every use, which the proxy cache does not do
+  if (directives.noCache) {
+    return { storable: false, reason: "no-cache", vary };
+  }
+
+  if (vary.includes("*")) {
+    return { storable: false, reason: "vary-star", vary };
+  }
+
+  let ttl = directives.sMaxAge ?? directives.maxAge;
+
+  if (ttl === undefined && normalized["expires"]) {
+    const expires = Date.parse(normalized["expires"]);
+    const date = normalized["date"] ? Date.parse(normalized["date"]) : now;
+
+    // Invalid Expires values (e.g. "0") mean already expired
+    ttl = isNaN(expires) ? 0 : Math.floor((expires - (isNaN(date) ? now : date)) / 1000);
+  }
+
+  if (ttl !== undefined && ttl <= 0) {
+    return { storable: false, reason: "expired", vary };
+  }
+
+  return {
+    storable: true,
+    ttl,
+    // must-revalidate forbids serving stale content
+    staleWhileRevalidate: directives.mustRevalidate ? undefined : directives.staleWhileRevalidate,
+    staleIfError: directives.mustRevalidate ? undefined : directives.staleIfError,
+    vary,
+  };
+}
+
+/**
+ * Check conditional request headers against a cached response
+ * If-None-Match takes precedence over If-Modified-Since
+ */
+export function isNotModified(
+  requestHeaders: Record<string, string>,
+  cachedHeaders: Record<string, string>
+): boolean {
+  const request = lowercaseKeys(requestHeaders);
+  const cached = lowercaseKeys(cachedHeaders);
+
+  const ifNoneMatch = request["if-none-match"];
+  if (ifNoneMatch) {
+    const etag = cached["etag"];
+    if (!etag) return false;
+    if (ifNoneMatch.trim() === "*") return true;
+
+    // Weak comparison, W/"a" matches "a"
+    const stripWeak = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.split(",").some((tag) => stripWeak(tag) === stripWeak(etag));
+  }
+
+  const ifModifiedSince = request["if-modified-since"];
+  const lastModified = cached["last-modified"];
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    const modified = Date.parse(lastModified);
+    return !isNaN(since) && !isNaN(modified) && modified <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Headers a 304 response must carry from the cached response (RFC 9110 15.4.5)
+ */
+export const NOT_MODIFIED_HEADERS = [
+  "cache-control",
+  "content-location",
+  "date",
+  "etag",
+  "expires",
+  "last-modified",
+  "vary",
+];
+
+function parseSeconds(value: string): number | undefined {
+  const seconds = parseInt(value, 10);
+  return isNaN(seconds) || seconds < 0 ? undefined : seconds;
+}
+
+function lowercaseKeys(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    result[key.toLowerCase()] = value;
+  });
+  return result;
+}
@@ -1,9 +1,25 @@
 import { ProcessedRequest, filterForwardedHeaders } from "./request.js";
+import { isEventStream, readBodyWithLimit, streamBody, StreamedBody } from "./stream.js";
+import type { PoolMember, UpstreamPool } from "@/modules/proxy/services/upstream-pool.js";
+
+export interface ForwardOptions {
+  timeout?: number; // Request timeout in milliseconds
+  pool?: UpstreamPool; // Load-balanced upstream the target URL belongs to
+  // Streaming mode: bodies up to this many bytes are buffered and parsed, larger ones are
+  // returned as `stream`. Without it every body except event streams is buffered.
+  maxBufferSize?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Gateway-style statuses that count as a failure of the pool member
+const UPSTREAM_FAILURE_STATUSES = [502, 503, 504];
 
 export interface HttpResponse {
-  data: unknown;
+  data: unknown; // null when the body is streamed
   headers: Record<string, string>;
   status: number;
+  stream?: StreamedBody;
 }
 
 /**
@@ -92,57 +108,69 @@ function prepareRequestBody(
 }
 
 /**
- * Parse response body based on content type with comprehensive error handling
+ * Parse a buffered response body based on content type with comprehensive error handling
  */
-async function parseResponseBody(response: Response): Promise<unknown> {
+function parseResponseBody(
+  buffer: Buffer,
+  contentType: string | null,
+  status: number
+): unknown {
+  if (contentType?.includes("application/json")) {
+    try {
+      return JSON.parse(buffer.toString("utf8"));
+    } catch (error) {
+      throw new HttpClientError(
+        "Failed to parse JSON response",
+        "JSON_PARSE_ERROR",
+        status,
+        "response"
+      );
+    }
+  }
+
+  if (contentType?.includes("text/")) {
+    return buffer.toString("utf8");
+  }
+
+  // Binary data and unknown content types are kept byte-for-byte
+  return buffer;
+}
+
+/**
+ * Read the whole body, or up to maxBufferSize bytes in streaming mode
+ */
+async function readResponseBody(
+  response: Response,
+  maxBufferSize?: number
+): Promise<{ buffer: Buffer } | { stream: StreamedBody }> {
   try {
-    const contentType = response.headers.get("content-type");
+    const contentLength = Number(response.headers.get("content-length")) || undefined;
 
-    if (contentType?.includes("application/json")) {
-      try {
-        return await response.json();
-      } catch (error) {
-        throw new HttpClientError(
-          "Failed to parse JSON response",
-          "JSON_PARSE_ERROR",
-          response.status,
-          "response"
-        );
-      }
+    // Events are sent as they arrive, whether or not streaming is enabled
+    if (response.body && isEventStream(response.headers.get("content-type") ?? undefined)) {
+      return { stream: new StreamedBody(streamBody(response.body)) };
     }
 
-    if (contentType?.includes("text/")) {
-      try {
-        return await response.text();
-      } catch (error) {
-        throw new HttpClientError(
-          "Failed to parse text response",
-          "TEXT_PARSE_ERROR",
-          response.status,
-          "response"
-        );
-      }
+    if (maxBufferSize === undefined) {
+      return { buffer: Buffer.from(await response.arrayBuffer()) };
     }
 
-    // For binary data or unknown content types
-    try {
-      const buffer = await response.arrayBuffer();
-      return Buffer.from(buffer);
-    } catch (error) {
+    const body = await readBodyWithLimit(response.body, maxBufferSize);
+    return body.complete
+      ? { buffer: body.buffer }
+      : { stream: new StreamedBody(body.stream, contentLength) };
+  } catch (error: any) {
+    if (error?.name === "AbortError" || error?.name === "TimeoutError") {
       throw new HttpClientError(
-        "Failed to parse binary response",
-        "BINARY_PARSE_ERROR",
-        response.status,
-        "response"
+        "Request timeout - target server took too long to send the response",
+        "ETIMEDOUT",
+        504,
+        "timeout"
       );
     }
-  } catch (error) {
-    if (error instanceof HttpClientError) {
-      throw error;
-    }
     throw new HttpClientError(
-      "Failed to parse response body",
-      "RESPONSE_PARSE_ERROR",
+      "Failed to read response body",
+      "RESPONSE_READ_ERROR",
       response.status,
       "response"
     );
@@ -184,11 +212,38 @@ function filterResponseHeaders(headers: Headers): Record<string, string> {
  * Forward request to target server with comprehensive error handling and return processed response
  */
 export async function forwardRequest(
-  request: ProcessedRequest
+  request: ProcessedRequest,
+  options: ForwardOptions = {}
 ): Promise<HttpResponse> {
   const { method, targetUrl, headers, body, originalContentType } = request;
+  let member: PoolMember | null = null;
+  let memberSucceeded = false;
+  let memberError: string | undefined;
+  let streamed: StreamedBody | undefined;
+
+  // Covers the response headers and buffering, not the time spent streaming a large body
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new DOMException("Upstream request timed out", "TimeoutError")),
+    options.timeout ?? DEFAULT_TIMEOUT_MS
+  );
 
   try {
+    // Pick a pool member when the upstream is load balanced
+    let requestUrl = targetUrl;
+    if (options.pool) {
+      member = options.pool.acquire(headers);
+      if (!member) {
+        throw new HttpClientError(
+          `No healthy members available in upstream '${options.pool.name}'`,
+          "NO_HEALTHY_UPSTREAM",
+          503,
+          "network"
+        );
+      }
+      requestUrl = options.pool.resolveUrl(targetUrl, member);
+    }
+
     // Filter headers that shouldn't be forwarded
     let filteredHeaders: Record<string, string>;
     try {
@@ -203,7 +258,7 @@ export async function forwardRequest(
       method,
       headers: filteredHeaders,
       // Add timeout to prevent hanging requests
-      signal: AbortSignal.timeout(30000), // 30 second timeout
+      signal: controller.signal,
     };
 
     // Add body for methods that support it
@@ -229,8 +284,10 @@ export async function forwardRequest(
     // Forward the request to the target server with comprehensive error handling
     let response: Response;
     try {
-      response = await fetch(targetUrl, fetchOptions);
+      response = await fetch(requestUrl, fetchOptions);
     } catch (error: any) {
+      memberError = error.message;
+
       // Categorize fetch errors
       if (error.name === "AbortError" || error.name === "TimeoutError") {
         throw new HttpClientError(
@@ -262,6 +319,11 @@ export async function forwardRequest(
       );
     }
 
+    memberSucceeded = !UPSTREAM_FAILURE_STATUSES.includes(response.status);
+    if (!memberSucceeded) {
+      memberError = `Upstream responded with status ${response.status}`;
+    }
+
     // Process response with error handling
     let responseHeaders: Record<string, string>;
     try {
@@ -271,23 +333,30 @@ export async function forwardRequest(
       responseHeaders = {};
     }
 
-    let responseData: unknown;
-    try {
-      responseData = await parseResponseBody(response);
-    } catch (error) {
-      if (error instanceof HttpClientError) {
-        throw error;
+    const responseBody = await readResponseBody(response, options.maxBufferSize);
+    if ("stream" in responseBody) {
+      streamed = responseBody.stream;
+
+      // fetch already decoded the body, the upstream length and encoding no longer apply
+      if (responseHeaders["content-encoding"]) {
+        delete responseHeaders["content-encoding"];
+        delete responseHeaders["content-length"];
       }
-      throw new HttpClientError(
-        "Failed to parse response from target server",
-        "RESPONSE_PARSE_ERROR",
-        response.status,
-        "response"
-      );
+
+      return {
+        data: null,
+        headers: responseHeaders,
+        status: response.status,
+        stream: streamed,
+      };
     }
 
     return {
-      data: responseData,
+      data: parseResponseBody(
+        responseBody.buffer,
+        response.headers.get("content-type"),
+        response.status
+      ),
       headers: responseHeaders,
       status: response.status,
     };
@@ -304,5 +373,17 @@ export async function forwardRequest(
       500,
       "unknown"
     );
+  } finally {
+    clearTimeout(timer);
+
+    if (member) {
+      const release = () => options.pool!.release(member!, memberSucceeded, memberError);
+      // A streamed body keeps the connection to the member busy until it is sent
+      if (streamed) {
+        streamed.onClose(release);
+      } else {
+        release();
+      }
+    }
   }
 }
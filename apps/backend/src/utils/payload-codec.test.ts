@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { StorageCodecConfig } from "@/types/index.js";
+import { PayloadCodec } from "./payload-codec.js";
+
+const OLD_KEY = { id: "2026-09", key: Buffer.alloc(32, 1).toString("base64") };
+const NEW_KEY = { id: "2026-10", key: Buffer.alloc(32, 2).toString("hex") };
+
+function codec(keys = [OLD_KEY], activeKeyId?: string) {
+  const config: StorageCodecConfig = {
+    compression: { algorithm: "gzip", threshold: 16 },
+    encryption: { keys, activeKeyId },
+  };
+  return new PayloadCodec(config);
+}
+
+const payload = JSON.stringify({ token: "secret-token", items: Array(50).fill("repeated") });
+
+test("payloads round-trip through compression and encryption", () => {
+  const combinations = [
+    { compression: true },
+    { encryption: true },
+    { compression: true, encryption: true },
+  ];
+  for (const options of combinations) {
+    const stored = codec().encode(payload, "test", options);
+    assert.ok(codec().isEncoded(stored));
+    assert.equal(codec().decode(stored), payload);
+    if (options.encryption) assert.ok(!stored.includes("secret-token"));
+  }
+});
+
+test("payloads written before encoding was enabled are read as is", () => {
+  assert.equal(codec().decode(payload), payload);
+  assert.equal(codec().encode("short", "test", { compression: true }), "short");
+});
+
+test("retired keys keep decrypting while new payloads use the active key", () => {
+  const before = codec([OLD_KEY]).encode(payload, "test", { encryption: true });
+  const rotated = codec([NEW_KEY, OLD_KEY]);
+
+  assert.equal(rotated.decode(before), payload);
+  assert.ok(rotated.needsReencoding(before, { encryption: true }));
+  const after = rotated.encode(payload, "test", { encryption: true });
+  assert.equal(rotated.describe(after)?.keyId, NEW_KEY.id);
+  assert.ok(!rotated.needsReencoding(after, { encryption: true }));
+
+  assert.throws(() => codec([NEW_KEY]).decode(before), { code: "ENCRYPTION_KEY_UNKNOWN" });
+});
+
+test("tampered ciphertext is rejected", () => {
+  const stored = codec().encode(payload, "test", { encryption: true });
+  const tampered = `${stored.slice(0, -4)}${stored.endsWith("AAAA") ? "BBBB" : "AAAA"}`;
+  assert.throws(() => codec().decode(tampered));
+});
+
+test("encryption without a key fails instead of storing plaintext", () => {
+  assert.throws(() => codec([]).encode(payload, "test", { encryption: true }), {
+    code: "ENCRYPTION_KEY_MISSING",
+  });
+});
@@ -0,0 +1,235 @@
+import crypto from "crypto";
+import zlib from "zlib";
+import { ValidationError } from "@/types/errors.js";
+import type { CompressionAlgorithm, StorageCodecConfig } from "@/types/index.js";
+
+// Stored payloads look like psenc:v1:<compression>:<key id>:<iv>:<auth tag>:<base64 data>,
+// anything without the prefix was written before encoding was enabled and is read as is
+const ENVELOPE_PREFIX = "psenc:v1:";
+const CIPHER = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+export interface EncodeOptions {
+  compression?: boolean;
+  encryption?: boolean;
+}
+
+export interface PayloadCodecStats {
+  writes: number;
+  compressed: number;
+  encrypted: number;
+  rawBytes: number;
+  storedBytes: number;
+  compressionRatio: number; // storedBytes / rawBytes, 1 when nothing was compressed
+}
+
+/**
+ * Transparent compression and AES-256-GCM encryption of stored payloads. New payloads are
+ * encrypted with the active key, every configured key can decrypt, so keys are rotated by
+ * adding a new active key and keeping the old one until its payloads have expired.
+ */
+export class PayloadCodec {
+  private algorithm: CompressionAlgorithm;
+  private threshold: number;
+  private keys = new Map<string, Buffer>();
+  private activeKeyId?: string;
+  private stats = new Map<string, Omit<PayloadCodecStats, "compressionRatio">>();
+
+  constructor(config?: StorageCodecConfig) {
+    this.algorithm = config?.compression.algorithm ?? "gzip";
+    this.threshold = config?.compression.threshold ?? 1024;
+
+    for (const { id, key } of config?.encryption.keys ?? []) {
+      this.keys.set(id, parseKey(id, key));
+    }
+    this.activeKeyId = config?.encryption.activeKeyId ?? config?.encryption.keys[0]?.id;
+    if (this.activeKeyId && !this.keys.has(this.activeKeyId)) {
+      throw new ValidationError(
+        `Active encryption key '${this.activeKeyId}' is not configured`,
+        "INVALID_ENCRYPTION_KEY",
+        500,
+        { keyId: this.activeKeyId }
+      );
+    }
+  }
+
+  get canEncrypt(): boolean {
+    return this.activeKeyId !== undefined;
+  }
+
+  /**
+   * Encode a payload for storage, `scope` names the store in the stats
+   */
+  encode(value: string, scope: string, options: EncodeOptions = {}): string {
+    const raw = Buffer.from(value, "utf8");
+    const compressed = options.compression ? this.compressIfSmaller(raw) : null;
+
+    if (!compressed && !options.encryption) {
+      this.record(scope, raw.length, raw.length, false, false);
+      return value;
+    }
+
+    let data = compressed?.data ?? raw;
+    let keyId = "";
+    let iv = "";
+    let tag = "";
+    if (options.encryption) {
+      if (!this.activeKeyId) {
+        throw new ValidationError(
+          "Encryption is enabled but no encryption key is configured",
+          "ENCRYPTION_KEY_MISSING",
+          500,
+          { scope }
+        );
+      }
+      const ivBytes = crypto.randomBytes(IV_LENGTH);
+      const cipher = crypto.createCipheriv(CIPHER, this.keys.get(this.activeKeyId)!, ivBytes);
+      data = Buffer.concat([cipher.update(data), cipher.final()]);
+      keyId = this.activeKeyId;
+      iv = ivBytes.toString("base64");
+      tag = cipher.getAuthTag().toString("base64");
+    }
+
+    const stored = [
+      compressed?.algorithm ?? "none",
+      keyId,
+      iv,
+      tag,
+      data.toString("base64"),
+    ].join(":");
+    this.record(scope, raw.length, ENVELOPE_PREFIX.length + stored.length, !!compressed, !!keyId);
+    return ENVELOPE_PREFIX + stored;
+  }
+
+  decode(stored: string): string {
+    if (!this.isEncoded(stored)) return stored;
+
+    const [algorithm, keyId, iv, tag, payload] = stored.slice(ENVELOPE_PREFIX.length).split(":");
+    let data = Buffer.from(payload, "base64");
+    if (keyId) {
+      const key = this.keys.get(keyId);
+      if (!key) {
+        throw new ValidationError(
+          `Payload was encrypted with unknown key '${keyId}'`,
+          "ENCRYPTION_KEY_UNKNOWN",
+          500,
+          { keyId }
+        );
+      }
+      const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, "base64"));
+      decipher.setAuthTag(Buffer.from(tag, "base64"));
+      data = Buffer.concat([decipher.update(data), decipher.final()]);
+    }
+
+    if (algorithm !== "none") {
+      data = this.decompress(algorithm as CompressionAlgorithm, data);
+    }
+    return data.toString("utf8");
+  }
+
+  isEncoded(stored: string): boolean {
+    return stored.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Compression algorithm and encryption key of an encoded payload, null for plain payloads
+   */
+  describe(stored: string): { compression: CompressionAlgorithm | "none"; keyId?: string } | null {
+    if (!this.isEncoded(stored)) return null;
+    const [compression, keyId] = stored.slice(ENVELOPE_PREFIX.length).split(":");
+    return { compression: compression as CompressionAlgorithm | "none", keyId: keyId || undefined };
+  }
+
+  /**
+   * Whether a stored payload should be rewritten, e.g. it was encrypted with a retired key
+   */
+  needsReencoding(stored: string, options: EncodeOptions = {}): boolean {
+    const keyId = this.describe(stored)?.keyId;
+    return options.encryption ? keyId !== this.activeKeyId : keyId !== undefined;
+  }
+
+  /**
+   * Compress a buffer when it's over the threshold and compression actually saves space,
+   * used for in-memory entries that never leave the process and so aren't encrypted
+   */
+  compress(
+    data: Buffer,
+    scope: string
+  ): { algorithm: CompressionAlgorithm; data: Buffer } | null {
+    const compressed = this.compressIfSmaller(data);
+    this.record(scope, data.length, compressed?.data.length ?? data.length, !!compressed, false);
+    return compressed;
+  }
+
+  decompress(algorithm: CompressionAlgorithm, data: Buffer): Buffer {
+    return algorithm === "brotli" ? zlib.brotliDecompressSync(data) : zlib.gunzipSync(data);
+  }
+
+  getStats(): Record<string, PayloadCodecStats> {
+    const stats: Record<string, PayloadCodecStats> = {};
+    for (const [scope, scopeStats] of this.stats) {
+      stats[scope] = {
+        ...scopeStats,
+        compressionRatio:
+          scopeStats.rawBytes > 0
+            ? Math.round((scopeStats.storedBytes / scopeStats.rawBytes) * 1000) / 1000
+            : 1,
+      };
+    }
+    return stats;
+  }
+
+  private compressIfSmaller(
+    data: Buffer
+  ): { algorithm: CompressionAlgorithm; data: Buffer } | null {
+    if (data.length < this.threshold) return null;
+
+    const compressed =
+      this.algorithm === "brotli"
+        ? zlib.brotliCompressSync(data, {
+            params: {
+              [zlib.constants.BROTLI_PARAM_QUALITY]: 5, // Brotli's default of 11 is too slow inline
+              [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+            },
+          })
+        : zlib.gzipSync(data);
+    return compressed.length < data.length ? { algorithm: this.algorithm, data: compressed } : null;
+  }
+
+  private record(
+    scope: string,
+    rawBytes: number,
+    storedBytes: number,
+    compressed: boolean,
+    encrypted: boolean
+  ): void {
+    const stats = this.stats.get(scope) ?? {
+      writes: 0,
+      compressed: 0,
+      encrypted: 0,
+      rawBytes: 0,
+      storedBytes: 0,
+    };
+    stats.writes++;
+    stats.compressed += compressed ? 1 : 0;
+    stats.encrypted += encrypted ? 1 : 0;
+    stats.rawBytes += rawBytes;
+    stats.storedBytes += storedBytes;
+    this.stats.set(scope, stats);
+  }
+}
+
+// Keys are 32 bytes, given as 64 hex characters or base64
+function parseKey(id: string, key: string): Buffer {
+  const bytes = /^[0-9a-f]{64}$/i.test(key) ? Buffer.from(key, "hex") : Buffer.from(key, "base64");
+  if (bytes.length !== 32 || id.includes(":")) {
+    throw new ValidationError(
+      `Encryption key '${id}' must be 32 bytes (64 hex characters or base64) with an ID ` +
+        "without ':'",
+      "INVALID_ENCRYPTION_KEY",
+      500,
+      { keyId: id }
+    );
+  }
+  return bytes;
+}
@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Fastify from "fastify";
+import { getProxyPath, rejectUnsafeProxyPath, resolveRequestPath } from "./request.js";
+import { proxyRoutePermission } from "@/modules/auth/services/permissions.js";
+
+// Mirrors the proxy route: the permission is taken from the same path that is forwarded
+async function buildApp() {
+  const app = Fastify();
+  app.all(
+    "/api/*",
+    {
+      preHandler: [
+        rejectUnsafeProxyPath,
+        async (request) => {
+          request.headers["x-permission"] = proxyRoutePermission(getProxyPath(request));
+        },
+      ],
+    },
+    async (request) => ({
+      forwarded: getProxyPath(request),
+      permission: request.headers["x-permission"],
+    })
+  );
+  await app.ready();
+  return app;
+}
+
+test("resolveRequestPath decodes the path and drops the query", () => {
+  assert.equal(resolveRequestPath("/api/%70ublic/a%20b?x=1"), "/api/public/a b");
+});
+
+test("resolveRequestPath rejects paths that normalize into another path", () => {
+  for (const url of [
+    "/api/public/x%2F..%2F..%2Fpayments/y",
+    "/api/public/x%2fpayments",
+    "/api/public/x%5C..%5Cpayments",
+    "/api/public/../payments",
+    "/api/public/%2e%2e/payments",
+    "/api/public/./x",
+    "/api/public\\payments",
+    "/api/public/%0d%0aX-Injected:1",
+    "/api/public/%E0%A4%A",
+  ]) {
+    assert.throws(
+      () => resolveRequestPath(url),
+      (error: any) => error.code === "INVALID_PATH" && error.statusCode === 400,
+      url
+    );
+  }
+});
+
+test("encoded traversal can't borrow a permission of another route", async () => {
+  const app = await buildApp();
+  try {
+    const bypass = await app.inject({ url: "/api/public/x%2F..%2F..%2Fpayments/y" });
+    assert.equal(bypass.statusCode, 400);
+    assert.equal(bypass.json().code, "INVALID_PATH");
+
+    const backslash = await app.inject({ url: "/api/public/x%5C..%5Cpayments" });
+    assert.equal(backslash.statusCode, 400);
+  } finally {
+    await app.close();
+  }
+});
+
+test("permission is checked on the decoded path that is forwarded", async () => {
+  const app = await buildApp();
+  try {
+    const response = await app.inject({ url: "/api/%70ayments/y?page=2" });
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(response.json(), {
+      forwarded: "/payments/y",
+      permission: proxyRoutePermission("/payments/y"),
+    });
+  } finally {
+    await app.close();
+  }
+});
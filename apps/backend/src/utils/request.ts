@@ -1,4 +1,12 @@
-import { FastifyRequest } from 'fastify';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { BodyTransform, HeaderRewrite, QueryRewrite } from '@/types/index.js';
+import { ValidationError } from '@/types/errors.js';
+import {
+  applyBodyTransform,
+  applyQueryRewrite,
+  renderTemplate,
+  TransformContext,
+} from '@/modules/proxy/services/transforms.js';
 
 export interface ProcessedRequest {
   method: string;
@@ -6,6 +14,15 @@ export interface ProcessedRequest {
   headers: Record<string, string>;
   body: unknown;
   originalContentType?: string;
+  claims?: Record<string, unknown>; // Verified token claims, for cache key templates
+}
+
+export interface ProcessRequestOptions {
+  targetPath?: string; // Overrides the wildcard path (e.g. after prefix stripping)
+  headerRewrite?: HeaderRewrite;
+  queryRewrite?: QueryRewrite;
+  bodyTransform?: BodyTransform;
+  context?: TransformContext; // Values for {{...}} placeholders in the rewrites
 }
 
 export interface WildcardRouteParams {
@@ -92,7 +109,71 @@ export function buildTargetUrl(
   query: FastifyRequest['query']
 ): string {
   const queryString = new URLSearchParams(query as Record<string, string>).toString();
-  return `${baseUrl}/${targetPath}${queryString ? `?${queryString}` : ''}`;
+  // Path rewrites may already add a query string, e.g. "legacy/user?id=$1"
+  const separator = targetPath.includes('?') ? '&' : '?';
+  return `${baseUrl}/${targetPath}${queryString ? `${separator}${queryString}` : ''}`;
+}
+
+// Segments and escapes that decode or normalize into a different path upstream
+const DOT_SEGMENT = /^\.{1,2}$/;
+const ENCODED_SEPARATOR = /%(?:2f|5c)/i;
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTER = /[\x00-\x1f\x7f]/;
+
+/**
+ * Decoded path of a request URL. Paths that the proxy, new URL() or the upstream would
+ * resolve to something else (dot segments, encoded or back slashes, control characters)
+ * are rejected, so permissions, routes and rate limits see the path that is forwarded.
+ */
+export function resolveRequestPath(rawUrl: string): string {
+  const rawPath = rawUrl.split('?')[0];
+  const fail = (reason: string) =>
+    new ValidationError(`Invalid request path: ${reason}`, 'INVALID_PATH', 400);
+
+  if (ENCODED_SEPARATOR.test(rawPath)) {
+    throw fail('encoded path separators are not allowed');
+  }
+  let path: string;
+  try {
+    path = decodeURIComponent(rawPath);
+  } catch {
+    throw fail('malformed percent-encoding');
+  }
+  if (path.includes('\\') || CONTROL_CHARACTER.test(path)) {
+    throw fail('backslashes and control characters are not allowed');
+  }
+  if (path.split('/').some((segment) => DOT_SEGMENT.test(segment))) {
+    throw fail("'.' and '..' segments are not allowed");
+  }
+  return path;
+}
+
+/**
+ * Path forwarded for a request on the proxy wildcard route, e.g. "/users/1"
+ */
+export function getProxyPath(request: FastifyRequest): string {
+  resolveRequestPath(request.url);
+  const params = request.params as Partial<WildcardRouteParams>;
+  return `/${params['*'] ?? ''}`;
+}
+
+/**
+ * preHandler answering 400 for proxy paths getProxyPath() refuses
+ */
+export async function rejectUnsafeProxyPath(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    getProxyPath(request);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    return reply.status(400).send({
+      error: 'Bad Request',
+      code: error.code,
+      message: error.message,
+    });
+  }
 }
 
 /**
@@ -120,30 +201,78 @@ export function filterForwardedHeaders(headers: Record<string, string>): Record<
   return filtered;
 }
 
+/**
+ * Apply remove, rename and set header rewrites (header names are matched case-insensitively).
+ * Set values rendering empty, e.g. {{auth.sessionId}} for anonymous requests, are skipped.
+ */
+export function applyHeaderRewrite(
+  headers: Record<string, string>,
+  rewrite?: HeaderRewrite,
+  context?: TransformContext
+): Record<string, string> {
+  if (!rewrite) return headers;
+
+  const result = { ...headers };
+  (rewrite.remove ?? []).forEach((name) => {
+    const lowerName = name.toLowerCase();
+    Object.keys(result).forEach((key) => {
+      if (key.toLowerCase() === lowerName) {
+        delete result[key];
+      }
+    });
+  });
+  Object.entries(rewrite.rename ?? {}).forEach(([from, to]) => {
+    const lowerFrom = from.toLowerCase();
+    Object.keys(result).forEach((key) => {
+      if (key.toLowerCase() === lowerFrom) {
+        const value = result[key];
+        delete result[key];
+        result[to.toLowerCase()] = value;
+      }
+    });
+  });
+  Object.entries(rewrite.set ?? {}).forEach(([name, value]) => {
+    const rendered = context ? renderTemplate(value, context) : value;
+    if (rendered === undefined || rendered === null || rendered === '') return;
+    result[name.toLowerCase()] = String(rendered);
+  });
+
+  return result;
+}
+
 /**
  * Process incoming request and extract all necessary data
  */
 export function processRequest(
   request: FastifyRequest<{ Params: WildcardRouteParams }>,
-  targetBaseUrl: string
+  targetBaseUrl: string,
+  options: ProcessRequestOptions = {}
 ): ProcessedRequest {
   const method = request.method.toUpperCase();
   const headers = { ...request.headers };
-  const body = request.body;
-  const query = request.query;
+  const body = applyBodyTransform(request.body, options.bodyTransform, options.context);
+  const query = applyQueryRewrite(
+    (request.query as Record<string, unknown>) ?? {},
+    options.queryRewrite,
+    options.context
+  );
   const params = request.params;
 
   // Extract the path after the API prefix
-  const targetPath = params['*'];
+  const targetPath = options.targetPath ?? params['*'];
 
   // Build target URL
-  const targetUrl = buildTargetUrl(targetBaseUrl, targetPath, query);
+  const targetUrl = buildTargetUrl(targetBaseUrl, targetPath, query as FastifyRequest['query']);
 
   // Get original content type before modifying headers
   const originalContentType = headers['content-type'] as string | undefined;
 
-  // Normalize headers for consistency
-  const normalizedHeaders = normalizeHeaders(headers);
+  // Normalize headers for consistency and apply route-level rewrites
+  const normalizedHeaders = applyHeaderRewrite(
+    normalizeHeaders(headers),
+    options.headerRewrite,
+    options.context
+  );
 
   return {
     method,
@@ -151,5 +280,6 @@ export function processRequest(
     headers: normalizedHeaders,
     body,
     originalContentType,
+    claims: request.auth?.claims,
   };
 }
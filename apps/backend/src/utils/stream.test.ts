@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import { Readable } from "stream";
+import { readBodyWithLimit, streamBody, StreamedBody } from "./stream.js";
+
+// An upstream body that sends the given chunks, then ends or stays open until cancelled
+function createUpstream(chunks: string[], end = false) {
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+      if (end) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return { body, cancelled: () => cancelled };
+}
+
+async function readAll(stream: Readable, count: number): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk.toString();
+    if (--count === 0) break;
+  }
+  return text;
+}
+
+test("bodies over the limit replay the buffered bytes before the rest", async () => {
+  const small = await readBodyWithLimit(createUpstream(["abcd"], true).body, 10);
+  assert.ok(small.complete && small.buffer.toString() === "abcd");
+
+  const upstream = createUpstream(["abcd", "efgh", "ijkl"]);
+  const body = await readBodyWithLimit(upstream.body, 6);
+  assert.ok(!body.complete);
+  assert.equal(await readAll(body.stream, 3), "abcdefghijkl");
+  assert.ok(upstream.cancelled());
+});
+
+test("a body can be taken once", () => {
+  const streamed = new StreamedBody(streamBody(createUpstream([]).body));
+
+  assert.ok(streamed.take());
+  assert.equal(streamed.take(), null);
+});
+
+test("discarding a body that was never read cancels the upstream and closes", async () => {
+  const upstream = createUpstream(["data: 1\n\n"]);
+  const streamed = new StreamedBody(streamBody(upstream.body));
+  let closed = false;
+  streamed.onClose(() => (closed = true));
+
+  streamed.discard();
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.ok(upstream.cancelled());
+  assert.ok(closed);
+  assert.equal(streamed.take(), null);
+});
+
+test("discarding cancels a read waiting for the upstream", async () => {
+  const upstream = createUpstream(["data: 1\n\n"]);
+  const source = streamBody(upstream.body);
+  const streamed = new StreamedBody(source);
+
+  const [event] = await once(source, "data");
+  assert.equal(event.toString(), "data: 1\n\n");
+  await new Promise((resolve) => setImmediate(resolve));
+  const closed = once(source, "close");
+  streamed.discard();
+  await closed;
+
+  assert.ok(upstream.cancelled());
+});
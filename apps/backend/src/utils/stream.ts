@@ -0,0 +1,108 @@
+import { Readable } from "stream";
+
+/**
+ * Upstream body passed to the client as a stream instead of being buffered. It can be
+ * consumed once, callers sharing a coalesced response fetch their own copy when take()
+ * returns null.
+ */
+export class StreamedBody {
+  private readonly source: Readable;
+  private taken = false;
+  readonly size?: number; // From Content-Length, unknown for chunked responses
+
+  constructor(source: Readable, size?: number) {
+    this.source = source;
+    this.size = size;
+  }
+
+  take(): Readable | null {
+    if (this.taken) return null;
+    this.taken = true;
+    return this.source;
+  }
+
+  // Release the upstream connection when the body is not sent, e.g. a stale copy is served
+  discard(): void {
+    this.taken = true;
+    this.source.destroy();
+  }
+
+  // Runs once the body was sent, cancelled or discarded
+  onClose(listener: () => void): void {
+    if (this.source.closed) {
+      listener();
+    } else {
+      this.source.once("close", listener);
+    }
+  }
+}
+
+export type BoundedBody =
+  | { complete: true; buffer: Buffer }
+  | { complete: false; stream: Readable };
+
+/**
+ * Read a fetch body up to `limit` bytes. Larger bodies are returned as a stream that
+ * replays the bytes already read, followed by the rest of the upstream body.
+ */
+export async function readBodyWithLimit(
+  body: ReadableStream<Uint8Array> | null,
+  limit: number
+): Promise<BoundedBody> {
+  if (!body) {
+    return { complete: true, buffer: Buffer.alloc(0) };
+  }
+
+  const reader = body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { complete: true, buffer: Buffer.concat(chunks, size) };
+    }
+
+    chunks.push(Buffer.from(value));
+    size += value.byteLength;
+    if (size > limit) {
+      return { complete: false, stream: replay(chunks, reader) };
+    }
+  }
+}
+
+/**
+ * Pass a fetch body through as it arrives, without buffering
+ */
+export function streamBody(body: ReadableStream<Uint8Array>): Readable {
+  return replay([], body.getReader());
+}
+
+// Server-Sent Events never complete, they are streamed and never cached
+export function isEventStream(contentType?: string): boolean {
+  return !!contentType?.toLowerCase().includes("text/event-stream");
+}
+
+function replay(chunks: Buffer[], reader: ReadableStreamDefaultReader<Uint8Array>): Readable {
+  return new Readable({
+    async read() {
+      try {
+        const chunk = chunks.shift();
+        if (chunk) {
+          this.push(chunk);
+          return;
+        }
+        const { done, value } = await reader.read();
+        this.push(done ? null : Buffer.from(value));
+      } catch (error) {
+        this.destroy(error as Error);
+      }
+    },
+    // The client went away or the stream was discarded, stop reading from the upstream right
+    // away, also while a read is pending. Cancelling a finished reader does nothing.
+    destroy(error, callback) {
+      reader.cancel().catch(() => undefined);
+      callback(error);
+    },
+  });
+}
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+
+// Stub OpenID Connect provider for trying out OIDC login locally.
+// Serves a discovery document and a static JWKS, approves every /authorize request and
+// mints tokens on /mint for testing bearer validation:
+//
+//   node test-oidc-issuer.js
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=proxy-stone \
+//     OIDC_REDIRECT_URI=http://localhost:4000/api/auth/oidc/callback \
+//     OIDC_ROLE_MAPPING='{"proxy-admins":"admin"}' ENABLE_AUTH=true JWT_SECRET=secret npm start
+//   curl -H "Authorization: Bearer $(curl -s 'localhost:9400/mint?roles=proxy-admins')" \
+//     http://localhost:4000/api/auth/test-admin
+
+import crypto from 'crypto';
+import http from 'http';
+import jwt from 'jsonwebtoken';
+
+const PORT = Number(process.env.OIDC_STUB_PORT || 9400);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || 'proxy-stone';
+const KEY_ID = 'stub-key-1';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = {
+  keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }],
+};
+
+const codes = new Map();
+
+function mint(claims, audience = CLIENT_ID) {
+  return jwt.sign(claims, privateKey, {
+    algorithm: 'RS256',
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience,
+    expiresIn: '1h',
+  });
+}
+
+function userClaims(params) {
+  return {
+    sub: params.get('sub') || 'stub-user',
+    email: params.get('email') || 'stub-user@example.com',
+    name: 'Stub User',
+    roles: (params.get('roles') || 'proxy-admins').split(','),
+  };
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  switch (url.pathname) {
+    case '/.well-known/openid-configuration':
+      return send(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+
+    case '/jwks':
+      return send(res, 200, jwks);
+
+    // Auto-approve, the user's claims can be picked with ?roles=a,b&sub=...
+    case '/authorize': {
+      const code = crypto.randomBytes(16).toString('hex');
+      codes.set(code, {
+        claims: { ...userClaims(url.searchParams), nonce: url.searchParams.get('nonce') },
+        challenge: url.searchParams.get('code_challenge'),
+        redirectUri: url.searchParams.get('redirect_uri'),
+      });
+
+      const redirect = new URL(url.searchParams.get('redirect_uri'));
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', url.searchParams.get('state'));
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+
+    case '/token': {
+      const form = await readForm(req);
+      const grant = codes.get(form.get('code'));
+      codes.delete(form.get('code'));
+
+      const challenge = crypto
+        .createHash('sha256')
+        .update(form.get('code_verifier') || '')
+        .digest('base64url');
+      const redirectUri = form.get('redirect_uri');
+      if (!grant || grant.challenge !== challenge || grant.redirectUri !== redirectUri) {
+        return send(res, 400, { error: 'invalid_grant' });
+      }
+
+      return send(res, 200, {
+        token_type: 'Bearer',
+        expires_in: 3600,
+        id_token: mint(grant.claims),
+        access_token: mint(grant.claims),
+      });
+    }
+
+    // Raw access token for calling the proxy with a provider-issued bearer token
+    case '/mint':
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      return res.end(mint(userClaims(url.searchParams), url.searchParams.get('aud') || CLIENT_ID));
+
+    default:
+      return send(res, 404, { error: 'not_found' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🔑 Stub OIDC issuer listening on ${ISSUER} (client ${CLIENT_ID})`);
+});